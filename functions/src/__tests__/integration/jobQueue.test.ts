@@ -24,13 +24,14 @@ import {
   BulkArticlesTaskData,
   BulkArticlesResult,
   isValidJobTaskType,
-  validateTaskData,
   estimateProcessingTime,
   MAX_JOB_ATTEMPTS,
   JOB_TIMEOUT_MS,
   MAX_BULK_ITEMS,
 } from "../../types/Job";
 import { validateJob, getJobItemCount } from "../../services/jobProcessor";
+import { validateSchema } from "../../lib/validation";
+import { BULK_ARTICLES_TASK_DATA_SCHEMA } from "../../schemas/tasks";
 import { Logger } from "../../lib/logger";
 
 // Mock Firebase Admin
@@ -201,22 +202,24 @@ describe("Job Queue & Async Processing - End-to-End Integration", () => {
         topics: ["Topic 1", "Topic 2"],
         tone: "professional",
       };
-      expect(validateTaskData("bulk_articles", validData).valid).toBe(true);
+      expect(validateSchema(validData, BULK_ARTICLES_TASK_DATA_SCHEMA, "task_data", "INVALID_TASK_DATA")).toEqual([]);
 
       const emptyTopics = { topics: [] };
-      expect(validateTaskData("bulk_articles", emptyTopics).valid).toBe(false);
+      expect(validateSchema(emptyTopics, BULK_ARTICLES_TASK_DATA_SCHEMA, "task_data", "INVALID_TASK_DATA"))
+        .toHaveLength(1);
 
       const missingTopics = {};
-      expect(validateTaskData("bulk_articles", missingTopics).valid).toBe(false);
+      expect(validateSchema(missingTopics, BULK_ARTICLES_TASK_DATA_SCHEMA, "task_data", "INVALID_TASK_DATA"))
+        .toHaveLength(1);
     });
 
     it("should enforce MAX_BULK_ITEMS limit", () => {
       const tooManyTopics = {
         topics: Array(MAX_BULK_ITEMS + 1).fill("Topic"),
       };
-      const result = validateTaskData("bulk_articles", tooManyTopics);
-      expect(result.valid).toBe(false);
-      expect(result.error).toContain(`Maximum ${MAX_BULK_ITEMS}`);
+      const errors = validateSchema(tooManyTopics, BULK_ARTICLES_TASK_DATA_SCHEMA, "task_data", "INVALID_TASK_DATA");
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain(`between 1 and ${MAX_BULK_ITEMS} items`);
     });
 
     it("should estimate processing time correctly", () => {
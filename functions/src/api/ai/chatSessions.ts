@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Chat Sessions Endpoint for Creator AI Proxy
+ * @module api/ai/chatSessions
+ *
+ * @description
+ * GET    /api/ai/chats            - List the license's conversations
+ * GET    /api/ai/chats/{chat_id}  - Fetch a conversation with its messages
+ * DELETE /api/ai/chats/{chat_id}  - Delete a conversation
+ *
+ * Conversations are created by /api/ai/route-request when a chat_id is sent.
+ *
+ * Requires: Bearer token authentication (site_token)
+ */
+
+import { onRequest } from "firebase-functions/v2/https";
+import { Request, Response } from "express";
+
+import { jwtSecret } from "../../lib/secrets";
+import { matchRawPathParams } from "../../lib/validation";
+import { createRouteHandler } from "../../middleware/pipeline";
+import {
+  getChatSession,
+  listChatSessions,
+  deleteChatSession,
+  timestampToISO,
+} from "../../lib/firestore";
+import {
+  ChatSession,
+  ChatSessionSummary,
+  MAX_CHAT_SESSIONS_LISTED,
+  CHAT_PREVIEW_LENGTH,
+} from "../../types/ChatSession";
+import { AI_RATE_LIMIT_PER_MINUTE } from "../../types/Route";
+import { CHAT_SESSION_OPERATION } from "../../schemas/chats";
+import { AuthenticatedContext, GatewayRoute } from "../../types/Gateway";
+
+/**
+ * Builds the list entry for a session
+ */
+function toSummary(session: ChatSession): ChatSessionSummary {
+  const firstUserTurn = session.messages.find((message) => message.role === "user");
+
+  return {
+    chat_id: session.chat_id,
+    message_count: session.message_count,
+    ...(session.locked_model && { locked_model: session.locked_model }),
+    preview: firstUserTurn ? firstUserTurn.content.slice(0, CHAT_PREVIEW_LENGTH) : "",
+    created_at: timestampToISO(session.created_at),
+    updated_at: timestampToISO(session.updated_at),
+  };
+}
+
+/**
+ * Lists the license's conversations
+ *
+ * @param {Request} _req - Firebase Functions request
+ * @param {Response} res - Firebase Functions response
+ * @param {AuthenticatedContext} ctx - Request context
+ * @returns {Promise<void>}
+ */
+async function handleListChatSessions(
+  _req: Request,
+  res: Response,
+  ctx: AuthenticatedContext
+): Promise<void> {
+  const sessions = await listChatSessions(ctx.claims.license_id, MAX_CHAT_SESSIONS_LISTED);
+
+  ctx.logger.debug("Chat sessions listed", { count: sessions.length });
+
+  res.status(200).json({
+    success: true,
+    chats: sessions.map(toSummary),
+  });
+}
+
+/**
+ * Fetches or deletes one of the license's conversations
+ *
+ * @param {Request} req - Firebase Functions request
+ * @param {Response} res - Firebase Functions response
+ * @param {AuthenticatedContext} ctx - Request context, with the validated chat_id
+ * @returns {Promise<void>}
+ */
+async function handleChatSession(
+  req: Request,
+  res: Response,
+  ctx: AuthenticatedContext<{ chat_id: string }>
+): Promise<void> {
+  const { logger } = ctx;
+  const licenseId = ctx.claims.license_id;
+  const chatId = ctx.data.chat_id;
+
+  // 1. Delete session
+  if (req.method === "DELETE") {
+    const deleted = await deleteChatSession(licenseId, chatId);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: "Chat not found",
+        code: "CHAT_NOT_FOUND",
+      });
+      return;
+    }
+
+    logger.info("Chat session deleted", { chat_id: chatId });
+
+    res.status(200).json({
+      success: true,
+      chat_id: chatId,
+      deleted: true,
+    });
+    return;
+  }
+
+  // 2. Fetch session (scoped to the license through the document ID)
+  const session = await getChatSession(licenseId, chatId);
+
+  if (!session) {
+    res.status(404).json({
+      success: false,
+      error: "Chat not found",
+      code: "CHAT_NOT_FOUND",
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    chat_id: session.chat_id,
+    message_count: session.message_count,
+    ...(session.locked_model && { locked_model: session.locked_model }),
+    messages: session.messages.map((message) => ({
+      ...message,
+      created_at: timestampToISO(message.created_at),
+    })),
+    created_at: timestampToISO(session.created_at),
+    updated_at: timestampToISO(session.updated_at),
+  });
+}
+
+/**
+ * Route of GET /v1/ai/chats
+ */
+export const CHAT_SESSIONS_ROUTE: GatewayRoute<AuthenticatedContext> = {
+  methods: ["GET"],
+  path: "/ai/chats",
+  auth: true,
+  rateLimit: { by: "license", bucket: "ai_route", maxRequests: AI_RATE_LIMIT_PER_MINUTE },
+  handler: handleListChatSessions,
+};
+
+/**
+ * Route of GET/DELETE /v1/ai/chats/{chat_id}
+ */
+export const CHAT_SESSION_ROUTE: GatewayRoute<AuthenticatedContext<{ chat_id: string }>> = {
+  methods: ["GET", "DELETE"],
+  path: "/ai/chats/{chat_id}",
+  auth: true,
+  rateLimit: { by: "license", bucket: "ai_route", maxRequests: AI_RATE_LIMIT_PER_MINUTE },
+  operation: CHAT_SESSION_OPERATION,
+  handler: handleChatSession,
+};
+
+/**
+ * Handlers of the function alias, which serves both routes
+ */
+const listChatSessionsHandler = createRouteHandler(CHAT_SESSIONS_ROUTE);
+const chatSessionHandler = createRouteHandler(CHAT_SESSION_ROUTE);
+
+/**
+ * /api/ai/chats
+ *
+ * Lists, fetches and deletes server-side chat sessions.
+ *
+ * @description
+ * Required headers:
+ * - Authorization: Bearer {site_token}
+ *
+ * List response (200):
+ * ```json
+ * {
+ *   "success": true,
+ *   "chats": [
+ *     {
+ *       "chat_id": "chat_123",
+ *       "message_count": 6,
+ *       "locked_model": "claude",
+ *       "preview": "Create a WooCommerce product...",
+ *       "created_at": "2025-11-25T15:00:00Z",
+ *       "updated_at": "2025-11-25T15:05:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * Fetch response (200):
+ * ```json
+ * {
+ *   "success": true,
+ *   "chat_id": "chat_123",
+ *   "message_count": 6,
+ *   "locked_model": "claude",
+ *   "messages": [
+ *     { "role": "user", "content": "...", "created_at": "2025-11-25T15:00:00Z" },
+ *     { "role": "assistant", "content": "...", "model": "claude", "created_at": "..." }
+ *   ],
+ *   "created_at": "2025-11-25T15:00:00Z",
+ *   "updated_at": "2025-11-25T15:05:00Z"
+ * }
+ * ```
+ *
+ * Delete response (200):
+ * ```json
+ * { "success": true, "chat_id": "chat_123", "deleted": true }
+ * ```
+ *
+ * Error responses:
+ * - 400: Invalid chat_id
+ * - 401: Missing or invalid Authorization header
+ * - 404: Chat not found
+ * - 405: Method not allowed (including DELETE without chat_id)
+ * - 429: Rate limited
+ */
+export const chatSessions = onRequest(
+  {
+    secrets: [jwtSecret],
+    cors: true,
+    maxInstances: 100,
+  },
+  async (req: Request, res: Response): Promise<void> => {
+    const { chat_id: chatId } = matchRawPathParams(CHAT_SESSION_OPERATION.path, req.path);
+    await (chatId === undefined ? listChatSessionsHandler : chatSessionHandler)(req, res);
+  }
+);
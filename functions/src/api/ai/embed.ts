@@ -0,0 +1,235 @@
+/**
+ * @fileoverview AI Embeddings Endpoint for Creator AI Proxy
+ * @module api/ai/embed
+ *
+ * @description
+ * POST /api/ai/embed
+ *
+ * Turns a batch of texts into vectors with Gemini or the OpenAI-compatible
+ * endpoint, for related posts, duplicate detection and internal linking in
+ * the plugin. Embeddings are metered like route-request: the input tokens
+ * count against the license quota and are recorded in cost tracking and
+ * the audit log, at the embedding model's own price.
+ *
+ * Requires: Bearer token authentication (site_token)
+ */
+
+import { onRequest } from "firebase-functions/v2/https";
+import { Request, Response } from "express";
+import { jwtSecret, geminiApiKey, openaiApiKey } from "../../lib/secrets";
+import { createRouteHandler } from "../../middleware/pipeline";
+import {
+  incrementTokensUsed,
+  createAuditLog,
+  updateCostTracking,
+} from "../../lib/firestore";
+import { EmbeddingService } from "../../services/embeddingService";
+import { DEFAULT_EMBEDDING_PROVIDER, EmbedRequest } from "../../types/Embedding";
+import { AI_RATE_LIMIT_PER_MINUTE } from "../../types/Route";
+import { EMBED_OPERATION } from "../../schemas/embed";
+import { EntitledContext, GatewayRoute } from "../../types/Gateway";
+
+/**
+ * Function timeout
+ */
+const TIMEOUT_SECONDS = 60;
+
+/**
+ * HTTP status of failed requests by error code (anything else is a 503)
+ *
+ * - INSUFFICIENT_QUOTA: rejected by the pre-flight token check
+ * - INVALID_REQUEST, CONTENT_FILTERED: the provider refused the texts (a retry fails too)
+ */
+const EMBED_ERROR_STATUS: Record<string, number> = {
+  INSUFFICIENT_QUOTA: 403,
+  INVALID_REQUEST: 400,
+  CONTENT_FILTERED: 400,
+};
+
+/**
+ * Embeds a batch of texts
+ *
+ * @param {Request} req - Firebase Functions request
+ * @param {Response} res - Firebase Functions response
+ * @param {EntitledContext<EmbedRequest>} ctx - Request context
+ * @returns {Promise<void>}
+ */
+async function handleEmbed(
+  req: Request,
+  res: Response,
+  ctx: EntitledContext<EmbedRequest>
+): Promise<void> {
+  const { logger, ipAddress, license, data: body } = ctx;
+  const licenseId = ctx.claims.license_id;
+  const tokensRemaining = license.tokens_limit - license.tokens_used;
+  const provider = body.model || DEFAULT_EMBEDDING_PROVIDER;
+
+  const embeddingService = new EmbeddingService(
+    {
+      gemini: geminiApiKey.value(),
+      openai: openaiApiKey.value(),
+    },
+    logger
+  );
+
+  const result = await embeddingService.embed(body, tokensRemaining);
+
+  if (!result.success) {
+    await createAuditLog({
+      license_id: licenseId,
+      request_type: "ai_request",
+      status: "failed",
+      error_message: result.error || "Embedding failed",
+      ip_address: ipAddress,
+      metadata: {
+        embedding: true,
+        model: provider,
+        model_id: result.model,
+        texts: body.texts.length,
+      },
+    });
+
+    logger.error("Embedding failed", {
+      license_id: licenseId,
+      model: provider,
+      error: result.error,
+    });
+
+    res.status(EMBED_ERROR_STATUS[result.error_code ?? ""] ?? 503).json({
+      success: false,
+      error: result.error || "Service temporarily unavailable. Please try again later.",
+      code: result.error_code || "SERVICE_UNAVAILABLE",
+      model: provider,
+    });
+    return;
+  }
+
+  // Update license tokens
+  await incrementTokensUsed(licenseId, result.tokens_input);
+
+  // Update cost tracking (input tokens only)
+  await updateCostTracking(licenseId, provider, result.tokens_input, 0, result.cost_usd);
+
+  // Create audit log
+  await createAuditLog({
+    license_id: licenseId,
+    request_type: "ai_request",
+    provider_used: provider,
+    tokens_input: result.tokens_input,
+    tokens_output: 0,
+    cost_usd: result.cost_usd,
+    status: "success",
+    response_time_ms: result.latency_ms,
+    ip_address: ipAddress,
+    metadata: {
+      embedding: true,
+      model: provider,
+      model_id: result.model,
+      texts: body.texts.length,
+      dimensions: result.dimensions,
+    },
+  });
+
+  logger.info("Embedding completed successfully", {
+    license_id: licenseId,
+    model: provider,
+    texts: body.texts.length,
+    tokens_used: result.tokens_input,
+    cost_usd: result.cost_usd,
+  });
+
+  res.status(200).json({
+    success: true,
+    embeddings: result.embeddings,
+    model: provider,
+    model_id: result.model,
+    dimensions: result.dimensions,
+    tokens_used: result.tokens_input,
+    cost_usd: result.cost_usd,
+    latency_ms: result.latency_ms,
+  });
+}
+
+/**
+ * Route of POST /v1/ai/embed (counts in the route-request rate limit)
+ */
+export const EMBED_ROUTE: GatewayRoute<EntitledContext<EmbedRequest>> = {
+  methods: ["POST"],
+  path: "/ai/embed",
+  auth: true,
+  rateLimit: { by: "license", bucket: "ai_route", maxRequests: AI_RATE_LIMIT_PER_MINUTE },
+  operation: EMBED_OPERATION,
+  idempotent: true,
+  entitlement: {
+    requestType: "ai_request",
+    auditMetadata: (data) => ({ embedding: true, texts: (data as EmbedRequest).texts.length }),
+  },
+  handler: handleEmbed,
+};
+
+/**
+ * POST /api/ai/embed
+ *
+ * Embeds a batch of texts for semantic search over the site's content.
+ *
+ * @description
+ * Request body:
+ * ```json
+ * {
+ *   "texts": ["Summer sale on garden furniture", "How to care for teak"], // 1-100, max 8000 chars each
+ *   "model": "gemini" | "openai" (optional, default gemini; "openai" only
+ *            when the OpenAI-compatible endpoint is enabled without OPENAI_BASE_URL),
+ *   "dimensions": 768, // optional, shortens the vectors
+ *   "task": "document" | "query" | "similarity" | "classification" | "clustering" // optional, Gemini only
+ * }
+ * ```
+ *
+ * Required headers:
+ * - Authorization: Bearer {site_token}
+ *
+ * Optional headers:
+ * - Idempotency-Key: {key} (a retry with the same key gets the first response back)
+ *
+ * Success response (200):
+ * ```json
+ * {
+ *   "success": true,
+ *   "embeddings": [[0.0123, -0.0456, ...], [0.0789, ...]],
+ *   "model": "gemini",
+ *   "model_id": "gemini-embedding-001",
+ *   "dimensions": 768,
+ *   "tokens_used": 24,
+ *   "cost_usd": 0.0000036,
+ *   "latency_ms": 412
+ * }
+ * ```
+ *
+ * There is no fallback between providers: vectors of different models
+ * cannot be compared, so a site keeps embedding with the provider its
+ * stored vectors came from. Embed documents with `task: "document"` and
+ * search queries with `task: "query"`.
+ *
+ * Quota:
+ * Before the provider is called, the estimated input of all texts must fit
+ * in the license's remaining tokens (403 INSUFFICIENT_QUOTA otherwise).
+ * Gemini reports no usage, so Gemini embeddings are billed on the estimate.
+ *
+ * Error responses:
+ * - 400: Invalid request body (dimensions outside the model's range included),
+ *        or texts the provider refused
+ * - 401: Missing or invalid Authorization header
+ * - 403: License suspended/expired, URL mismatch, quota exceeded or insufficient
+ * - 409: A request with the same Idempotency-Key is in progress
+ * - 422: Idempotency-Key reused with a different body
+ * - 429: Rate limited
+ * - 503: Embedding provider failed
+ */
+export const embed = onRequest(
+  {
+    secrets: [jwtSecret, geminiApiKey, openaiApiKey],
+    cors: true,
+    maxInstances: 100,
+    timeoutSeconds: TIMEOUT_SECONDS,
+  },
+  createRouteHandler(EMBED_ROUTE)
+);
@@ -0,0 +1,551 @@
+/**
+ * @fileoverview AI Route Batch Endpoint for Creator AI Proxy
+ * @module api/ai/routeBatch
+ *
+ * @description
+ * POST /api/ai/route-batch
+ *
+ * Runs up to MAX_BATCH_ITEMS route requests in one call, BATCH_CONCURRENCY
+ * at a time, through the same routing chains as route-request. The batch
+ * is authenticated, rate limited and quota checked once, and its token
+ * usage, cost tracking and audit log are recorded once for all items.
+ *
+ * Requires: Bearer token authentication (site_token)
+ */
+
+import { onRequest } from "firebase-functions/v2/https";
+import { Request, Response } from "express";
+import { jwtSecret, geminiApiKey, claudeApiKey, openaiApiKey } from "../../lib/secrets";
+import { Logger } from "../../lib/logger";
+import { createRouteHandler } from "../../middleware/pipeline";
+import {
+  incrementTokensUsed,
+  createAuditLog,
+  updateCostTracking,
+} from "../../lib/firestore";
+import { estimateInputTokens } from "../../lib/tokens";
+import { validateSchema } from "../../lib/validation";
+import { sanitizePrompt } from "../../services/aiRouter";
+import { ModelService } from "../../services/modelService";
+import { createCircuitBreaker } from "../../services/circuitBreaker";
+import { resolveResponseSchema } from "../../services/structuredOutput";
+import { reviewExecuteCode } from "../../services/codeSafety";
+import { createResponseCache } from "../../services/responseCache";
+import { ModelRequest, ModelResponse } from "../../types/ModelConfig";
+import { BilledProviderName, PromptCacheUsage } from "../../types/AIProvider";
+import {
+  RouteRequest,
+  AI_RATE_LIMIT_PER_MINUTE,
+} from "../../types/Route";
+import {
+  RouteBatchItemResult,
+  RouteBatchRequest,
+  RouteBatchResponse,
+  BATCH_CONCURRENCY,
+} from "../../types/RouteBatch";
+import { ResponseSchema } from "../../types/StructuredOutput";
+import { CodeSafetyMode, DEFAULT_CODE_SAFETY_MODE } from "../../types/CodeSafety";
+import { ROUTE_BATCH_ITEM_SCHEMA, ROUTE_BATCH_OPERATION } from "../../schemas/route";
+import { EntitledContext, GatewayRoute } from "../../types/Gateway";
+
+/**
+ * Function timeout; the platform kills the request after it
+ */
+const TIMEOUT_SECONDS = 300;
+
+/**
+ * Time kept before the function timeout to record the usage and answer
+ */
+const DEADLINE_MARGIN_MS = 15000;
+
+/**
+ * Max tokens ModelService uses when the item has none
+ */
+const DEFAULT_MAX_TOKENS = 8000;
+
+/**
+ * A batch item checked and ready to generate
+ */
+interface PreparedBatchItem {
+  request: ModelRequest;
+  code_safety: CodeSafetyMode;
+  /** Estimated input: prompt, system prompt, site context, schema and files */
+  input_tokens: number;
+  /** Output reservation: max_tokens plus the reasoning budget */
+  output_tokens: number;
+}
+
+/**
+ * Outcome of one batch item: its result, and the generation to bill
+ */
+interface BatchItemOutcome {
+  result: RouteBatchItemResult;
+  response?: ModelResponse;
+}
+
+/**
+ * Usage of one provider across the batch
+ */
+interface ProviderUsage {
+  items: number;
+  tokens_input: number;
+  tokens_output: number;
+  cost_usd: number;
+  prompt_cache?: PromptCacheUsage;
+}
+
+/**
+ * Builds the result of an item that was not generated
+ */
+function failedItem(index: number, error: string, code: string): RouteBatchItemResult {
+  return { index, success: false, error, code };
+}
+
+/**
+ * Checks a batch item like route-request checks its body
+ *
+ * @param {unknown} item - Item from the request body
+ * @param {number} index - Position of the item
+ * @param {number} maxReasoningBudget - Reasoning budget of the license plan
+ * @returns {PreparedBatchItem | RouteBatchItemResult} The prepared item, or its failed result
+ */
+function prepareBatchItem(
+  item: unknown,
+  index: number,
+  maxReasoningBudget: number
+): PreparedBatchItem | RouteBatchItemResult {
+  const record = item && typeof item === "object" && !Array.isArray(item)
+    ? item as Record<string, unknown>
+    : {};
+  const errors = validateSchema(item, ROUTE_BATCH_ITEM_SCHEMA, `items[${index}]`, "INVALID_REQUEST", record);
+  if (errors.length > 0) {
+    return { ...failedItem(index, errors[0].message, errors[0].code), details: errors };
+  }
+
+  const body = item as RouteRequest;
+
+  if (body.reasoning && body.reasoning.budget_tokens > maxReasoningBudget) {
+    return failedItem(
+      index,
+      maxReasoningBudget > 0
+        ? `Reasoning budget exceeds your plan limit of ${maxReasoningBudget} tokens`
+        : "Reasoning is not available on your plan. Please upgrade your plan.",
+      "REASONING_NOT_ALLOWED"
+    );
+  }
+
+  const responseSchema: ResponseSchema | undefined = body.response_schema != null
+    ? resolveResponseSchema(body.response_schema)
+    : undefined;
+  const prompt = sanitizePrompt(body.prompt);
+  const files = body.files || body.options?.files;
+
+  return {
+    request: {
+      task_type: body.task_type,
+      model: body.model ?? undefined,
+      prompt,
+      context: body.context,
+      system_prompt: body.system_prompt || undefined,
+      temperature: body.temperature,
+      max_tokens: body.max_tokens,
+      files,
+      response_schema: responseSchema,
+      cache: body.cache === true ? {} : body.cache || undefined,
+      prompt_cache: body.prompt_cache === true,
+      reasoning: body.reasoning ?? undefined,
+      // Items run side by side, so racing a second model would only add cost
+      hedge: false,
+    },
+    code_safety: body.code_safety || DEFAULT_CODE_SAFETY_MODE,
+    // The site context is rendered into the system prompt
+    input_tokens: estimateInputTokens(prompt, {
+      system_prompt: [body.system_prompt, body.context && JSON.stringify(body.context)]
+        .filter(Boolean)
+        .join("\n") || undefined,
+      files,
+      response_schema: responseSchema,
+    }),
+    output_tokens: (body.max_tokens ?? DEFAULT_MAX_TOKENS) + (body.reasoning?.budget_tokens ?? 0),
+  };
+}
+
+/**
+ * Maps items with at most `limit` calls running at a time, keeping their order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Generates one batch item and builds its result
+ *
+ * @description
+ * Failures are returned as the item's result, so one item never fails
+ * the batch. Blocked code is still billed: the model generated it.
+ */
+async function runBatchItem(
+  modelService: ModelService,
+  item: PreparedBatchItem,
+  index: number,
+  logger: Logger
+): Promise<BatchItemOutcome> {
+  try {
+    const response = await modelService.generate(item.request);
+
+    if (!response.success) {
+      // Failed answers can still have been billed (invalid structured output)
+      const billed = response.total_tokens > 0;
+      return {
+        result: {
+          ...failedItem(index, response.error || "All models failed", response.error_code || "SERVICE_UNAVAILABLE"),
+          model: response.model,
+          ...(billed && { tokens_used: response.total_tokens, cost_usd: response.cost_usd }),
+        },
+        ...(billed && { response }),
+      };
+    }
+
+    const codeSafety = reviewExecuteCode(response.content, response.data);
+    if (codeSafety?.blocked && item.code_safety === "block") {
+      return {
+        result: {
+          ...failedItem(index, "Generated code failed the safety check", "UNSAFE_CODE"),
+          model: response.model,
+          tokens_used: response.total_tokens,
+          cost_usd: response.cost_usd,
+          code_safety: codeSafety,
+        },
+        response,
+      };
+    }
+
+    const details = response.data?.details;
+    const data = codeSafety && details && typeof details === "object"
+      ? { ...response.data, details: { ...details, estimated_risk: codeSafety.risk } }
+      : response.data;
+
+    return {
+      result: {
+        index,
+        success: true,
+        content: response.content,
+        model: response.model,
+        model_id: response.model_id,
+        used_fallback: response.used_fallback,
+        tokens_used: response.total_tokens,
+        cost_usd: response.cost_usd,
+        latency_ms: response.latency_ms,
+        ...(data && { data }),
+        ...(response.cache_hit !== undefined && { cache_hit: response.cache_hit }),
+        ...(codeSafety && { code_safety: codeSafety }),
+        ...(response.skipped_files && { skipped_files: response.skipped_files }),
+      },
+      response,
+    };
+  } catch (error) {
+    logger.error("Batch item failed", {
+      index,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return { result: failedItem(index, "Internal server error", "INTERNAL_ERROR") };
+  }
+}
+
+/**
+ * Records the usage of a batch: one token increment, one cost tracking
+ * update per provider and one audit log for all items
+ *
+ * @description
+ * Cache hits did not reach a provider and are only counted in the audit log.
+ */
+async function recordBatchUsage(
+  licenseId: string,
+  outcomes: BatchItemOutcome[],
+  latencyMs: number,
+  ipAddress: string
+): Promise<void> {
+  const generated = outcomes.flatMap((outcome) => outcome.response ? [outcome.response] : []);
+  const billed = generated.filter((response) => !response.cache_hit);
+
+  const usage = new Map<BilledProviderName, ProviderUsage>();
+  for (const response of billed) {
+    const current = usage.get(response.model) ?? { items: 0, tokens_input: 0, tokens_output: 0, cost_usd: 0 };
+    const cache = current.prompt_cache && response.prompt_cache
+      ? {
+        write_tokens: current.prompt_cache.write_tokens + response.prompt_cache.write_tokens,
+        read_tokens: current.prompt_cache.read_tokens + response.prompt_cache.read_tokens,
+        savings_usd: current.prompt_cache.savings_usd + response.prompt_cache.savings_usd,
+      }
+      : current.prompt_cache ?? response.prompt_cache;
+
+    usage.set(response.model, {
+      items: current.items + 1,
+      tokens_input: current.tokens_input + response.tokens_input,
+      tokens_output: current.tokens_output + response.tokens_output,
+      cost_usd: current.cost_usd + response.cost_usd,
+      ...(cache && { prompt_cache: cache }),
+    });
+  }
+
+  const totals = [...usage.values()].reduce(
+    (sum, provider) => ({
+      tokens_input: sum.tokens_input + provider.tokens_input,
+      tokens_output: sum.tokens_output + provider.tokens_output,
+      cost_usd: sum.cost_usd + provider.cost_usd,
+    }),
+    { tokens_input: 0, tokens_output: 0, cost_usd: 0 }
+  );
+
+  if (totals.tokens_input + totals.tokens_output > 0) {
+    await incrementTokensUsed(licenseId, totals.tokens_input + totals.tokens_output);
+  }
+
+  for (const [provider, providerUsage] of usage) {
+    await updateCostTracking(
+      licenseId,
+      provider,
+      providerUsage.tokens_input,
+      providerUsage.tokens_output,
+      providerUsage.cost_usd,
+      providerUsage.prompt_cache
+    );
+  }
+
+  const succeeded = outcomes.filter((outcome) => outcome.result.success).length;
+  const mostUsed = [...usage.entries()].sort(([, a], [, b]) => b.items - a.items)[0]?.[0];
+
+  await createAuditLog({
+    license_id: licenseId,
+    request_type: "ai_request",
+    ...(mostUsed && { provider_used: mostUsed }),
+    tokens_input: totals.tokens_input,
+    tokens_output: totals.tokens_output,
+    cost_usd: totals.cost_usd,
+    status: succeeded > 0 ? "success" : "failed",
+    ...(succeeded === 0 && { error_message: "All batch items failed" }),
+    response_time_ms: latencyMs,
+    ip_address: ipAddress,
+    metadata: {
+      batch: true,
+      items: outcomes.length,
+      succeeded,
+      failed: outcomes.length - succeeded,
+      cache_hits: generated.length - billed.length,
+      providers: Object.fromEntries(
+        [...usage].map(([provider, { items, cost_usd }]) => [provider, { items, cost_usd }])
+      ),
+      error_codes: outcomes.flatMap((outcome) => outcome.result.code ? [outcome.result.code] : []),
+    },
+  });
+}
+
+/**
+ * Runs the batch items and answers with a result per item
+ *
+ * @param {Request} req - Firebase Functions request
+ * @param {Response} res - Firebase Functions response
+ * @param {EntitledContext<RouteBatchRequest>} ctx - Request context
+ * @returns {Promise<void>}
+ */
+async function handleRouteBatch(
+  req: Request,
+  res: Response,
+  ctx: EntitledContext<RouteBatchRequest>
+): Promise<void> {
+  const deadline = Date.now() + TIMEOUT_SECONDS * 1000 - DEADLINE_MARGIN_MS;
+  const { logger, ipAddress, license, entitlements, data: body } = ctx;
+  const licenseId = ctx.claims.license_id;
+  const tokensRemaining = license.tokens_limit - license.tokens_used;
+
+  // 1. Check the estimated input and output of the whole batch against the quota
+  const maxReasoningBudget = entitlements.max_reasoning_budget_tokens;
+  const prepared = body.items.map((item, index) => prepareBatchItem(item, index, maxReasoningBudget));
+
+  const estimatedTokens = prepared.reduce(
+    (total, item) => "request" in item ? total + item.input_tokens + item.output_tokens : total,
+    0
+  );
+
+  if (estimatedTokens > tokensRemaining) {
+    logger.warn("Batch exceeds the remaining quota", {
+      license_id: licenseId,
+      estimated_tokens: estimatedTokens,
+      tokens_remaining: tokensRemaining,
+    });
+    res.status(403).json({
+      success: false,
+      error: `Batch needs about ${estimatedTokens} tokens, but only ${tokensRemaining} remain on the license`,
+      code: "INSUFFICIENT_QUOTA",
+    });
+    return;
+  }
+
+  // 2. Run the items through one model service, a few at a time
+  const modelService = new ModelService(
+    {
+      gemini: geminiApiKey.value(),
+      claude: claudeApiKey.value(),
+      openai: openaiApiKey.value(),
+    },
+    logger,
+    createCircuitBreaker(logger),
+    license.plan,
+    createResponseCache(logger, licenseId, license.plan)
+  );
+
+  // Abort in-flight model calls if the client goes away
+  const disconnect = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      disconnect.abort();
+    }
+  });
+
+  // Items running side by side share the quota: each one reserves its
+  // estimate until it ends, then gives back what it did not use, and its
+  // pre-flight check only gets what the others have not reserved
+  let tokensAvailable = tokensRemaining;
+
+  const runReserved = async (item: PreparedBatchItem, index: number): Promise<BatchItemOutcome> => {
+    const reserved = item.input_tokens + item.output_tokens;
+    const tokenBudget = tokensAvailable - item.output_tokens;
+    tokensAvailable -= reserved;
+
+    const outcome = await runBatchItem(modelService, {
+      ...item,
+      request: { ...item.request, token_budget: tokenBudget, deadline, signal: disconnect.signal },
+    }, index, logger);
+
+    const used = outcome.response && !outcome.response.cache_hit ? outcome.response.total_tokens : 0;
+    tokensAvailable += reserved - used;
+    return outcome;
+  };
+
+  const startTime = Date.now();
+  const outcomes = await mapWithConcurrency(prepared, BATCH_CONCURRENCY, (item, index) =>
+    "request" in item ? runReserved(item, index) : Promise.resolve({ result: item })
+  );
+  const latencyMs = Date.now() - startTime;
+
+  // 3. Record usage once and answer with a result per item
+  await recordBatchUsage(licenseId, outcomes, latencyMs, ipAddress);
+
+  const results = outcomes.map((outcome) => outcome.result);
+  const succeeded = results.filter((result) => result.success).length;
+
+  logger.info("Batch completed", {
+    license_id: licenseId,
+    items: results.length,
+    succeeded,
+  });
+
+  const response: RouteBatchResponse = {
+    success: true,
+    results,
+    summary: {
+      items: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      tokens_used: results.reduce((total, result) => total + (result.tokens_used ?? 0), 0),
+      cost_usd: results.reduce((total, result) => total + (result.cost_usd ?? 0), 0),
+      latency_ms: latencyMs,
+    },
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Route of POST /v1/ai/route-batch (counts once in the route-request rate limit)
+ */
+export const ROUTE_BATCH_ROUTE: GatewayRoute<EntitledContext<RouteBatchRequest>> = {
+  methods: ["POST"],
+  path: "/ai/route-batch",
+  auth: true,
+  rateLimit: { by: "license", bucket: "ai_route", maxRequests: AI_RATE_LIMIT_PER_MINUTE },
+  operation: ROUTE_BATCH_OPERATION,
+  idempotent: true,
+  entitlement: {
+    requestType: "ai_request",
+    auditMetadata: (data) => ({ batch: true, items: (data as RouteBatchRequest).items.length }),
+  },
+  handler: handleRouteBatch,
+};
+
+/**
+ * Route Batch endpoint handler
+ *
+ * @description
+ * Request body:
+ * ```json
+ * {
+ *   "items": [
+ *     { "task_type": "TEXT_GEN", "prompt": "Meta description for: Summer sale", "max_tokens": 200 },
+ *     { "task_type": "TEXT_GEN", "prompt": "Meta description for: Contact us", "max_tokens": 200 }
+ *   ]
+ * }
+ * ```
+ * Items take the route-request fields except `stream`, `chat_id`,
+ * `model_lock_policy`, `tools` and `tool_turns`. Invalid items fail on
+ * their own (with the route-request error codes), the rest still run.
+ * Items are never hedged: the batch is about throughput, not the latency
+ * of one item, and a raced model would bill each item twice.
+ *
+ * Failed items that were still billed (blocked code, invalid structured
+ * output) carry their `tokens_used` and `cost_usd`, and count in the summary.
+ *
+ * An Idempotency-Key header makes a retried batch return the first
+ * response instead of running (and billing) the items again.
+ *
+ * The batch counts as one request against the AI rate limit. The quota is
+ * checked once: the estimated input (prompt, system prompt, context, files)
+ * plus the `max_tokens` reservation of all items must fit in the remaining
+ * tokens (403 INSUFFICIENT_QUOTA otherwise). Items then reserve their share
+ * while they run, so an item whose input no longer fits in what the others
+ * left fails on its own with INSUFFICIENT_QUOTA.
+ *
+ * Success response (200), whatever the outcome of each item:
+ * ```json
+ * {
+ *   "success": true,
+ *   "results": [
+ *     { "index": 0, "success": true, "content": "...", "model": "claude", "tokens_used": 180, "cost_usd": 0.003 },
+ *     { "index": 1, "success": false, "error": "...", "code": "ALL_MODELS_FAILED" }
+ *   ],
+ *   "summary": { "items": 2, "succeeded": 1, "failed": 1, "tokens_used": 180, "cost_usd": 0.003, "latency_ms": 2100 }
+ * }
+ * ```
+ *
+ * Error responses:
+ * - 400: Missing items, or more than MAX_BATCH_ITEMS
+ * - 401: Missing or invalid Authorization header
+ * - 403: Quota exceeded or insufficient for the batch
+ * - 409: A request with the same Idempotency-Key is in progress
+ * - 422: Idempotency-Key reused with a different body
+ * - 429: Rate limited
+ */
+export const routeBatch = onRequest(
+  {
+    secrets: [jwtSecret, geminiApiKey, claudeApiKey, openaiApiKey],
+    cors: true,
+    maxInstances: 100,
+    timeoutSeconds: TIMEOUT_SECONDS,
+  },
+  createRouteHandler(ROUTE_BATCH_ROUTE)
+);
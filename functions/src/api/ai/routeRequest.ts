@@ -5,56 +5,589 @@
  * @description
  * POST /api/ai/route-request
  *
- * Routes AI generation requests to the selected model (Gemini or Claude)
- * with automatic fallback to the other model if primary fails.
+ * Routes AI generation requests through the task's provider chain (from
+ * the license plan's routing matrix), trying the requested model first
+ * and falling back along the chain if it fails.
+ * With `stream: true` the response is delivered as Server-Sent Events.
+ * With `chat_id`, previous turns are loaded from chat_sessions and the
+ * new turn is appended after a successful generation. The session stays
+ * locked to the model that answered its first turn. The PHP of
+ * execute_code answers is statically analyzed before it is returned.
+ * With `tools`, the model may answer with tool calls that the plugin runs
+ * locally and answers on a follow-up call with `tool_turns`.
  *
  * Requires: Bearer token authentication (site_token)
  */
 
 import { onRequest } from "firebase-functions/v2/https";
 import { Request, Response } from "express";
-import { v4 as uuidv4 } from "uuid";
+import { Timestamp } from "firebase-admin/firestore";
 
-import { jwtSecret, geminiApiKey, claudeApiKey } from "../../lib/secrets";
-import { createRequestLogger } from "../../lib/logger";
-import { authenticateRequest, sendAuthErrorResponse } from "../../middleware/auth";
+import { jwtSecret, geminiApiKey, claudeApiKey, openaiApiKey } from "../../lib/secrets";
+import { Logger } from "../../lib/logger";
+import { createRouteHandler } from "../../middleware/pipeline";
 import {
-  getLicenseByKey,
   incrementTokensUsed,
   createAuditLog,
   updateCostTracking,
-  checkAndIncrementRateLimit,
+  getChatSession,
+  appendChatMessages,
 } from "../../lib/firestore";
-import { sanitizePrompt, validatePrompt } from "../../services/aiRouter";
+import { sanitizePrompt } from "../../services/aiRouter";
 import { ModelService } from "../../services/modelService";
+import { createCircuitBreaker } from "../../services/circuitBreaker";
+import { resolveResponseSchema } from "../../services/structuredOutput";
+import { reviewExecuteCode } from "../../services/codeSafety";
+import { createResponseCache } from "../../services/responseCache";
+import { buildToolTurnHistory, ToolTurnHistory } from "../../services/toolCalling";
+import {
+  resolveChatModel,
+  isFallbackAllowed,
+  getNextModelLock,
+} from "../../services/modelLock";
 import {
   AIModel,
-  isValidProvider,
+  HedgeAttempt,
+  ModelRequest,
+  ModelResponse,
 } from "../../types/ModelConfig";
 import {
   RouteRequest,
-  isValidTaskType,
-  MAX_PROMPT_LENGTH,
-  LOW_QUOTA_WARNING_THRESHOLD,
-  QUOTA_EXCEEDED_THRESHOLD,
   AI_RATE_LIMIT_PER_MINUTE,
 } from "../../types/Route";
+import { ModelLockPolicy, ModelLockState, DEFAULT_MODEL_LOCK_POLICY } from "../../types/ChatSession";
+import { ResponseSchema } from "../../types/StructuredOutput";
+import {
+  CodeSafetyMode,
+  DEFAULT_CODE_SAFETY_MODE,
+} from "../../types/CodeSafety";
+import { ResponseCacheOptions } from "../../types/ResponseCache";
+import { ROUTE_REQUEST_OPERATION } from "../../schemas/route";
+import { EntitledContext, GatewayRoute } from "../../types/Gateway";
+
+/**
+ * Function timeout; the platform kills the request after it
+ */
+const TIMEOUT_SECONDS = 120;
+
+/**
+ * Time kept before the function timeout to record the result and answer
+ */
+const DEADLINE_MARGIN_MS = 10000;
+
+/**
+ * HTTP status of failed requests by error code (anything else is a 503)
+ *
+ * - CONTEXT_WINDOW_EXCEEDED, INSUFFICIENT_QUOTA: rejected by the pre-flight token check
+ * - DEADLINE_EXCEEDED: no model answered before the request deadline
+ * - CANCELLED: the client disconnected (nobody reads the response)
+ */
+const MODEL_ERROR_STATUS: Record<string, number> = {
+  CONTEXT_WINDOW_EXCEEDED: 413,
+  INSUFFICIENT_QUOTA: 403,
+  DEADLINE_EXCEEDED: 504,
+  CANCELLED: 499,
+};
+
+/**
+ * Sends the Server-Sent Events headers and flushes them to the client
+ */
+function openEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+}
+
+/**
+ * Writes a single named Server-Sent Event with a JSON payload
+ */
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
 /**
- * Extracts client IP from request
+ * Records token usage, cost tracking and the audit log for a successful generation
  */
-function getClientIP(req: Request): string {
-  const forwarded = req.headers["x-forwarded-for"];
-  if (typeof forwarded === "string") {
-    return forwarded.split(",")[0].trim();
+async function recordSuccessfulGeneration(
+  licenseId: string,
+  result: ModelResponse,
+  ipAddress: string
+): Promise<void> {
+  // Cache hits did not reach a provider: audit only, with zero cost
+  if (result.cache_hit) {
+    await createAuditLog({
+      license_id: licenseId,
+      request_type: "ai_request",
+      provider_used: result.model,
+      tokens_input: 0,
+      tokens_output: 0,
+      cost_usd: 0,
+      status: "success",
+      response_time_ms: result.latency_ms,
+      ip_address: ipAddress,
+      metadata: {
+        model: result.model,
+        model_id: result.model_id,
+        cache_hit: true,
+      },
+    });
+    return;
+  }
+
+  // Update license tokens
+  await incrementTokensUsed(licenseId, result.total_tokens);
+
+  // Update cost tracking
+  await updateCostTracking(
+    licenseId,
+    result.model,
+    result.tokens_input,
+    result.tokens_output,
+    result.cost_usd,
+    result.prompt_cache
+  );
+
+  // Create audit log
+  await createAuditLog({
+    license_id: licenseId,
+    request_type: "ai_request",
+    provider_used: result.model,
+    tokens_input: result.tokens_input,
+    tokens_output: result.tokens_output,
+    cost_usd: result.cost_usd,
+    status: "success",
+    response_time_ms: result.latency_ms,
+    ip_address: ipAddress,
+    metadata: {
+      model: result.model,
+      model_id: result.model_id,
+      used_fallback: result.used_fallback,
+      ...(result.prompt_cache && { prompt_cache: result.prompt_cache }),
+      ...(result.tokens_reasoning !== undefined && { tokens_reasoning: result.tokens_reasoning }),
+      ...(result.tool_calls && { tool_calls: result.tool_calls.map((call) => call.name) }),
+      ...(result.hedge_loser && { hedged: true }),
+    },
+  });
+}
+
+/**
+ * Records the cost of the losing call of a hedged request
+ *
+ * @description
+ * Cost tracking and audit log only: the license is charged for the answer,
+ * not for the race. A cancelled call is logged with its estimated input.
+ */
+async function recordHedgeLoser(
+  licenseId: string,
+  loser: HedgeAttempt,
+  ipAddress: string
+): Promise<void> {
+  await updateCostTracking(licenseId, loser.model, loser.tokens_input, loser.tokens_output, loser.cost_usd);
+
+  await createAuditLog({
+    license_id: licenseId,
+    request_type: "ai_request",
+    provider_used: loser.model,
+    tokens_input: loser.tokens_input,
+    tokens_output: loser.tokens_output,
+    cost_usd: loser.cost_usd,
+    status: loser.cancelled || loser.error ? "failed" : "success",
+    ...(loser.cancelled && { error_message: "Cancelled, the hedged model answered first" }),
+    ...(loser.error && { error_message: loser.error }),
+    response_time_ms: loser.latency_ms,
+    ip_address: ipAddress,
+    metadata: {
+      model: loser.model,
+      model_id: loser.model_id,
+      hedge_loser: true,
+      cancelled: loser.cancelled,
+    },
+  });
+}
+
+/**
+ * Appends the user prompt and the model answer to the chat session
+ *
+ * @returns {Promise<ModelLockState | undefined>} Lock to return to the client
+ *
+ * @description
+ * The generation has already been billed at this point, so a failure to
+ * store the turn is logged rather than failing the request. Without a
+ * lock (a new chat answered by a provider that cannot be locked) the turn
+ * is stored and the session stays unlocked. The lock is written with the
+ * turn: if a concurrent first turn locked the session meanwhile, its lock
+ * stays and is the one returned.
+ */
+async function recordChatTurn(
+  licenseId: string,
+  chatId: string,
+  prompt: string,
+  result: ModelResponse,
+  lockedModel: AIModel | undefined,
+  lockPolicy: ModelLockPolicy,
+  logger: Logger
+): Promise<ModelLockState | undefined> {
+  const now = Timestamp.now();
+  const modelLock = getNextModelLock(lockedModel, lockPolicy, result.model);
+
+  try {
+    const storedLock = await appendChatMessages(licenseId, chatId, [
+      { role: "user", content: prompt, created_at: now },
+      {
+        role: "assistant",
+        content: result.content,
+        created_at: now,
+        model: result.model,
+        model_id: result.model_id,
+      },
+    ], modelLock?.locked_model, Boolean(lockedModel) && modelLock?.changed === true);
+
+    return storedLock && storedLock !== modelLock?.locked_model
+      ? { locked_model: storedLock, policy: lockPolicy, changed: false }
+      : modelLock;
+  } catch (error) {
+    logger.error("Failed to store chat turn", {
+      chat_id: chatId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return modelLock;
+  }
+}
+
+/**
+ * Routes one generation along its task chain
+ *
+ * @param {Request} req - Firebase Functions request
+ * @param {Response} res - Firebase Functions response
+ * @param {EntitledContext<RouteRequest>} ctx - Request context
+ * @returns {Promise<void>}
+ */
+async function handleRouteRequest(
+  req: Request,
+  res: Response,
+  ctx: EntitledContext<RouteRequest>
+): Promise<void> {
+  const deadline = Date.now() + TIMEOUT_SECONDS * 1000 - DEADLINE_MARGIN_MS;
+  const { logger, ipAddress, license, entitlements, data: body } = ctx;
+  const licenseId = ctx.claims.license_id;
+  const tokensRemaining = license.tokens_limit - license.tokens_used;
+
+  const sanitizedPrompt = sanitizePrompt(body.prompt);
+
+  // Model preference (otherwise the task's routing chain decides)
+  const selectedModel: AIModel | undefined = body.model ?? undefined;
+  const lockPolicy: ModelLockPolicy = body.model_lock_policy || DEFAULT_MODEL_LOCK_POLICY;
+  const codeSafetyMode: CodeSafetyMode = body.code_safety || DEFAULT_CODE_SAFETY_MODE;
+  const cacheOptions: ResponseCacheOptions | undefined =
+    body.cache === true ? {} : body.cache || undefined;
+
+  // Resolve the response schema: a named one or a custom definition
+  const responseSchema: ResponseSchema | undefined = body.response_schema != null
+    ? resolveResponseSchema(body.response_schema)
+    : undefined;
+
+  const toolTurnHistory: ToolTurnHistory | undefined = body.tool_turns
+    ? buildToolTurnHistory(sanitizedPrompt, body.tool_turns)
+    : undefined;
+
+  // Reasoning budget is a plan entitlement
+  const maxReasoningBudget = entitlements.max_reasoning_budget_tokens;
+  if (body.reasoning && body.reasoning.budget_tokens > maxReasoningBudget) {
+    logger.warn("Reasoning budget not allowed for plan", {
+      plan: license.plan,
+      budget_tokens: body.reasoning.budget_tokens,
+      max_budget_tokens: maxReasoningBudget,
+    });
+    res.status(403).json({
+      success: false,
+      error: maxReasoningBudget > 0
+        ? `Reasoning budget exceeds your plan limit of ${maxReasoningBudget} tokens`
+        : "Reasoning is not available on your plan. Please upgrade your plan.",
+      code: "REASONING_NOT_ALLOWED",
+    });
+    return;
+  }
+
+  // 1. Execute model request along the task's routing chain (follows the license plan)
+  const modelService = new ModelService(
+    {
+      gemini: geminiApiKey.value(),
+      claude: claudeApiKey.value(),
+      openai: openaiApiKey.value(),
+    },
+    logger,
+    createCircuitBreaker(logger),
+    license.plan,
+    createResponseCache(logger, licenseId, license.plan)
+  );
+
+  // Extract files from body.files or body.options.files (backwards compatibility)
+  const files = body.files || body.options?.files;
+
+  // Load previous turns for multi-turn chats
+  const chatSession = body.chat_id
+    ? await getChatSession(licenseId, body.chat_id)
+    : null;
+  const history = chatSession?.messages.map(({ role, content }) => ({ role, content }));
+
+  // Locked chats keep their model whatever the body asks for
+  const lockedModel = chatSession?.locked_model;
+  const targetModel = resolveChatModel(chatSession, selectedModel);
+
+  if (lockedModel && lockedModel !== selectedModel) {
+    logger.debug("Chat locked to a different model", {
+      chat_id: body.chat_id,
+      requested_model: selectedModel,
+      locked_model: lockedModel,
+    });
+  }
+
+  // Abort in-flight model calls if the client goes away
+  const disconnect = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      disconnect.abort();
+    }
+  });
+
+  // On tool loop follow-ups the prompt is already in the history and
+  // the last round's results are the new user turn
+  const modelRequest: ModelRequest = {
+    task_type: body.task_type,
+    model: targetModel,
+    prompt: toolTurnHistory ? "" : sanitizedPrompt,
+    context: body.context,
+    system_prompt: body.system_prompt || undefined,
+    chat_id: body.chat_id,
+    temperature: body.temperature,
+    max_tokens: body.max_tokens,
+    files: files,
+    messages: toolTurnHistory ? [...(history ?? []), ...toolTurnHistory.messages] : history,
+    response_schema: responseSchema,
+    cache: cacheOptions,
+    prompt_cache: body.prompt_cache === true,
+    reasoning: body.reasoning ?? undefined,
+    tools: body.tools ?? undefined,
+    tool_results: toolTurnHistory?.tool_results,
+    token_budget: tokensRemaining,
+    hedge: true,
+    deadline,
+    signal: disconnect.signal,
+    ...(body.chat_id && { allow_fallback: isFallbackAllowed(lockPolicy) }),
+  };
+
+  // Event stream headers are only sent once the first chunk arrives,
+  // so failures before that can still be answered with a JSON error
+  const stream = body.stream === true;
+  let streamOpened = false;
+
+  const result = stream
+    ? await modelService.generateStream(modelRequest, (text) => {
+      if (!streamOpened) {
+        openEventStream(res);
+        streamOpened = true;
+      }
+      writeEvent(res, "chunk", { text });
+    })
+    : await modelService.generate(modelRequest);
+
+  // Both calls of a hedged race are billed by the providers
+  if (result.hedge_loser) {
+    await recordHedgeLoser(licenseId, result.hedge_loser, ipAddress);
+  }
+
+  // 2. Handle result
+  if (result.success) {
+    await recordSuccessfulGeneration(licenseId, result, ipAddress);
+
+    // Generated PHP is checked here, before it can reach the site's eval()
+    const codeSafety = reviewExecuteCode(result.content, result.data);
+
+    if (codeSafety?.blocked && codeSafetyMode === "block") {
+      logger.warn("Generated code blocked", {
+        license_id: licenseId,
+        model: result.model,
+        findings: codeSafety.findings,
+      });
+
+      await createAuditLog({
+        license_id: licenseId,
+        request_type: "ai_request",
+        status: "failed",
+        error_message: "Generated code failed the safety check",
+        ip_address: ipAddress,
+        metadata: {
+          model: result.model,
+          rules: codeSafety.findings.map((finding) => finding.rule),
+        },
+      });
+
+      const blockedPayload = {
+        success: false,
+        error: "Generated code failed the safety check",
+        code: "UNSAFE_CODE",
+        model: result.model,
+        code_safety: codeSafety,
+      };
+
+      // A stream already sent the chunks: the error event replaces `done`,
+      // which is the only event the plugin executes an action from
+      if (stream) {
+        if (!streamOpened) {
+          openEventStream(res);
+        }
+        writeEvent(res, "error", blockedPayload);
+        res.end();
+      } else {
+        res.status(422).json(blockedPayload);
+      }
+      return;
+    }
+
+    // The returned action carries the recomputed risk
+    const details = result.data?.details;
+    const data = codeSafety && details && typeof details === "object"
+      ? { ...result.data, details: { ...details, estimated_risk: codeSafety.risk } }
+      : result.data;
+
+    // A chat turn is complete once the model stops calling tools
+    // A chat turn is complete once the model stops calling tools
+    const modelLock = body.chat_id && !result.tool_calls
+      ? await recordChatTurn(
+        licenseId,
+        body.chat_id,
+        sanitizedPrompt,
+        result,
+        lockedModel,
+        lockPolicy,
+        logger
+      )
+      : undefined;
+
+    logger.info("Request completed successfully", {
+      license_id: licenseId,
+      task_type: body.task_type,
+      model: result.model,
+      used_fallback: result.used_fallback,
+      tokens_used: result.total_tokens,
+      cost_usd: result.cost_usd,
+      stream,
+    });
+
+    const payload = {
+      success: true,
+      content: result.content,
+      model: result.model,
+      model_id: result.model_id,
+      used_fallback: result.used_fallback,
+      tokens_used: result.total_tokens,
+      cost_usd: result.cost_usd,
+      latency_ms: result.latency_ms,
+      ...(result.circuits_open && { circuits_open: result.circuits_open }),
+      ...(result.context_tokens !== undefined && { context_tokens: result.context_tokens }),
+      ...(data && { data }),
+      ...(result.repaired && { repaired: true }),
+      ...(codeSafety && { code_safety: codeSafety }),
+      ...(result.cache_hit !== undefined && { cache_hit: result.cache_hit }),
+      ...(result.tokens_reasoning !== undefined && { tokens_reasoning: result.tokens_reasoning }),
+      ...(result.reasoning && { reasoning: result.reasoning }),
+      ...(result.tool_calls && { tool_calls: result.tool_calls }),
+      ...(result.skipped_files && { skipped_files: result.skipped_files }),
+      ...(modelLock && { model_lock: modelLock }),
+    };
+
+    if (stream) {
+      if (!streamOpened) {
+        openEventStream(res);
+      }
+      writeEvent(res, "done", payload);
+      res.end();
+    } else {
+      res.status(200).json(payload);
+    }
+  } else {
+    // Failed answers can still have been billed (invalid structured output,
+    // or a stream that broke after sending part of the answer)
+    if (result.total_tokens > 0) {
+      await incrementTokensUsed(licenseId, result.total_tokens);
+      await updateCostTracking(
+        licenseId,
+        result.model,
+        result.tokens_input,
+        result.tokens_output,
+        result.cost_usd,
+        result.prompt_cache
+      );
+    }
+
+    // All models failed, or the stream broke after the first chunk
+    await createAuditLog({
+      license_id: licenseId,
+      request_type: "ai_request",
+      ...(result.total_tokens > 0 && {
+        tokens_input: result.tokens_input,
+        tokens_output: result.tokens_output,
+        cost_usd: result.cost_usd,
+      }),
+      status: "failed",
+      error_message: result.error || "All models failed",
+      ip_address: ipAddress,
+      metadata: {
+        model: result.model,
+        used_fallback: result.used_fallback,
+        stream_interrupted: streamOpened,
+      },
+    });
+
+    logger.error("All models failed", {
+      license_id: licenseId,
+      task_type: body.task_type,
+      model: result.model,
+      error: result.error,
+      stream_interrupted: streamOpened,
+    });
+
+    const errorPayload = {
+      success: false,
+      error: result.error || "Service temporarily unavailable. Please try again later.",
+      code: result.error_code || "SERVICE_UNAVAILABLE",
+      model: result.model,
+      ...(result.circuits_open && { circuits_open: result.circuits_open }),
+      ...(body.chat_id && lockedModel && {
+        model_lock: { locked_model: lockedModel, policy: lockPolicy, changed: false },
+      }),
+    };
+
+    if (streamOpened) {
+      writeEvent(res, "error", errorPayload);
+      res.end();
+    } else {
+      res.status(MODEL_ERROR_STATUS[result.error_code ?? ""] ?? 503).json(errorPayload);
+    }
   }
-  return req.ip || req.socket.remoteAddress || "unknown";
 }
 
+/**
+ * Route of POST /v1/ai/route-request (100 requests per minute per license)
+ */
+export const ROUTE_REQUEST_ROUTE: GatewayRoute<EntitledContext<RouteRequest>> = {
+  methods: ["POST"],
+  path: "/ai/route-request",
+  auth: true,
+  rateLimit: { by: "license", bucket: "ai_route", maxRequests: AI_RATE_LIMIT_PER_MINUTE },
+  operation: ROUTE_REQUEST_OPERATION,
+  idempotent: true,
+  entitlement: { requestType: "ai_request" },
+  handler: handleRouteRequest,
+};
+
 /**
  * POST /api/ai/route-request
  *
- * Routes an AI generation request to the selected model with fallback.
+ * Routes an AI generation request along the task's provider chain.
  *
  * @description
  * Request body:
@@ -62,17 +595,32 @@ function getClientIP(req: Request): string {
  * {
  *   "task_type": "TEXT_GEN" | "CODE_GEN" | "DESIGN_GEN" | "ECOMMERCE_GEN",
  *   "prompt": "string (max 10000 chars)",
- *   "model": "gemini" | "claude",
+ *   "model": "gemini" | "claude" | "openai" (optional preference, tried first;
+ *            "openai" only when the OpenAI-compatible endpoint is enabled),
  *   "context": { optional site context },
  *   "system_prompt": "optional system prompt",
  *   "temperature": 0.7,
- *   "max_tokens": 4096
+ *   "max_tokens": 4096,
+ *   "stream": false,
+ *   "files": [{ "name", "type", "size", "base64" }], // images, PDF, text, CSV, JSON, markdown, DOCX
+ *   "chat_id": "optional conversation ID (keeps history server-side)",
+ *   "model_lock_policy": "fail" | "fallback_once" | "relock",
+ *   "response_schema": "execute_code" | { "name", "description", "schema" }, // not with stream
+ *   "code_safety": "block" | "annotate",
+ *   "cache": true | { "scope": "license" | "global", "ttl_seconds": 86400, "force": false },
+ *   "prompt_cache": true,
+ *   "reasoning": { "budget_tokens": 8192, "include_thoughts": true }, // plan-dependent
+ *   "tools": [{ "name": "get_post", "description": "...", "parameters": { object schema } }],
+ *   "tool_turns": [{ "content": "", "tool_calls": [...], "tool_results": [{ "tool_call_id", "name", "content", "is_error" }] }]
  * }
  * ```
  *
  * Required headers:
  * - Authorization: Bearer {site_token}
  *
+ * Optional headers:
+ * - Idempotency-Key: {key} (a retry with the same key gets the first response back)
+ *
  * Success response (200):
  * ```json
  * {
@@ -83,280 +631,119 @@ function getClientIP(req: Request): string {
  *   "used_fallback": false,
  *   "tokens_used": 1250,
  *   "cost_usd": 0.0942,
- *   "latency_ms": 2341
+ *   "latency_ms": 2341,
+ *   "circuits_open": ["claude:claude-opus-4-5-20251101"], // only when a model was skipped
+ *   "context_tokens": 180, // only when a site context was sent
+ *   "data": { parsed object }, // only with response_schema
+ *   "repaired": true, // only when the structured output needed a repair re-prompt
+ *   "code_safety": { "risk", "reported_risk", "blocked", "findings" }, // execute_code answers only
+ *   "cache_hit": false, // only when the response cache was used
+ *   "tokens_reasoning": 3120, // only when the model thought (included in tokens_used)
+ *   "reasoning": "thinking text", // only with reasoning.include_thoughts
+ *   "tool_calls": [{ "id": "toolu_01", "name": "get_post", "arguments": { "id": 42 } }], // only with tools
+ *   "skipped_files": [{ "name": "a.zip", "type": "application/zip", "reason": "Unsupported file type for claude" }], // only when files were skipped
+ *   "model_lock": { "locked_model": "gemini", "policy": "fallback_once", "changed": true } // chats only
  * }
  * ```
  *
+ * Model locking (chats only):
+ * The first turn of a chat locks the session to the model that answered
+ * it (if two first turns race, the one stored first wins and the other
+ * gets its lock back in `model_lock`); later turns ignore `model` and use
+ * the locked one. When the locked model fails, `model_lock_policy` decides what happens:
+ * - fail: return 503, never answer with the other model
+ * - fallback_once: the other model answers this turn, the lock stays
+ * - relock: the other model answers and the session is locked to it
+ *
+ * Structured output:
+ * With `response_schema`, the answer is extracted (fences and prose are
+ * tolerated) and validated. An invalid answer gets one repair re-prompt;
+ * if that fails too, the next model in the chain is tried.
+ *
+ * Code safety:
+ * When the answer is an execute_code action, `details.code` is tokenized and
+ * checked for forbidden functions (the plugin's CodeExecutor list), shell
+ * execution, writes to PHP files, destructive SQL and obfuscated calls.
+ * `code_safety.risk` is the recomputed risk (also written to
+ * `data.details.estimated_risk`). With critical findings the default
+ * `code_safety: "block"` answers 422 UNSAFE_CODE instead (an `error` event
+ * instead of `done` when streaming); "annotate" returns the answer with the
+ * findings attached.
+ *
+ * Response cache:
+ * With `cache`, identical requests (same model, prompts, context, files,
+ * temperature and max_tokens) are answered from the response_cache
+ * collection. Requests with temperature > 0 bypass it unless `force` is
+ * set. Hits use no tokens and are audit-logged with zero cost.
+ *
+ * Prompt caching:
+ * With `prompt_cache: true`, Claude caches the system prompt and the site
+ * context. Cache writes and reads are priced separately, and the tokens and
+ * net saving are recorded in the audit log and cost_tracking.
+ *
+ * Reasoning:
+ * `reasoning.budget_tokens` maps to Claude extended thinking and Gemini
+ * thinking budgets. The plan's `max_reasoning_budget_tokens` caps it
+ * (starter plans have none). Thinking tokens are billed as output.
+ *
+ * Tool calling:
+ * With `tools`, the model may answer with `tool_calls` instead of (or with)
+ * content. The plugin runs them locally and calls again with the same
+ * prompt and tools, adding a `tool_turns` entry (the calls and one result
+ * per call) for every round so far. Every model in the fallback chain gets
+ * the same tools, so a fallback can continue the loop. The chat turn is
+ * stored once the model answers without tool calls.
+ *
+ * Context window and quota:
+ * Before any model is called, the input (prompt, system prompt, site
+ * context, history, tools and files) is counted, with the provider's own
+ * token counting near a limit. Models whose context window cannot hold it
+ * plus `max_tokens` are skipped in favour of larger-window fallbacks.
+ * Requests no model can hold get 413 CONTEXT_WINDOW_EXCEEDED; requests whose
+ * input exceeds the license's remaining tokens get 403 INSUFFICIENT_QUOTA.
+ *
+ * The request has a deadline 10s before the function timeout. Model calls
+ * still running at the deadline are aborted, retries and fallbacks that
+ * cannot finish in time are skipped, and the client gets 504
+ * DEADLINE_EXCEEDED instead of a dropped connection. When the client
+ * disconnects, the in-flight call is aborted too.
+ *
+ * Task routes with `hedge_after_ms` (routing_config, per task type and
+ * plan) race the next model when the first is slow; the losing call is
+ * cancelled and recorded in cost tracking and the audit log on its own.
+ * Not used with `stream`.
+ *
+ * Streaming response (200, `stream: true`), as `text/event-stream`:
+ * ```
+ * event: chunk
+ * data: {"text": "partial content"}
+ *
+ * event: done
+ * data: { same fields as the JSON success response }
+ * ```
+ * If the stream fails after the first chunk, or the generated code is
+ * blocked, an `error` event is sent instead of `done`. A broken stream is
+ * still billed for its input and the output already sent (estimated when
+ * the provider reported no usage). Failures before the first chunk fall
+ * back to the other model and, if both fail, return the regular JSON 503.
+ *
  * Error responses:
  * - 401: Missing or invalid Authorization header
- * - 403: License suspended/expired, URL mismatch, quota exceeded
+ * - 403: License suspended/expired, URL mismatch, quota exceeded or insufficient, reasoning not in plan
  * - 400: Invalid request body
+ * - 413: Request exceeds the context window of every model
+ * - 409: A request with the same Idempotency-Key is in progress (or was streamed)
+ * - 422: Generated code failed the safety check, or Idempotency-Key reused with a different body
  * - 429: Rate limited
  * - 503: All providers failed
+ * - 504: Request deadline exceeded
  */
 export const routeRequest = onRequest(
   {
-    secrets: [jwtSecret, geminiApiKey, claudeApiKey],
+    secrets: [jwtSecret, geminiApiKey, claudeApiKey, openaiApiKey],
     cors: true,
     maxInstances: 100,
-    timeoutSeconds: 120, // Increased for longer model responses
+    timeoutSeconds: TIMEOUT_SECONDS, // Increased for longer model responses
   },
-  async (req: Request, res: Response) => {
-    const requestId = uuidv4();
-    const ipAddress = getClientIP(req);
-    const logger = createRequestLogger(requestId, "/api/ai/route-request", ipAddress);
-
-    // Only allow POST
-    if (req.method !== "POST") {
-      logger.warn("Method not allowed", { method: req.method });
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed",
-        code: "METHOD_NOT_ALLOWED",
-      });
-      return;
-    }
-
-    try {
-      // 1. Authenticate request
-      const authResult = await authenticateRequest(req, jwtSecret.value(), logger);
-
-      if (!authResult.authenticated || !authResult.claims) {
-        sendAuthErrorResponse(res, authResult);
-        return;
-      }
-
-      const { claims } = authResult;
-      const licenseId = claims.license_id;
-
-      // 2. Rate limiting (per license, 100 req/min)
-      const rateLimitKey = `ai_route:${licenseId}`;
-      const { limited, count } = await checkAndIncrementRateLimit(
-        rateLimitKey,
-        ipAddress,
-        AI_RATE_LIMIT_PER_MINUTE
-      );
-
-      if (limited) {
-        logger.warn("Rate limited", { license_id: licenseId, count });
-        res.status(429).json({
-          success: false,
-          error: "Too many requests. Please try again later.",
-          code: "RATE_LIMITED",
-        });
-        return;
-      }
-
-      // 3. Validate request body
-      const body = req.body as RouteRequest;
-
-      if (!body || typeof body !== "object") {
-        logger.warn("Invalid request body");
-        res.status(400).json({
-          success: false,
-          error: "Request body is required",
-          code: "INVALID_REQUEST",
-        });
-        return;
-      }
-
-      // Validate task_type
-      if (!body.task_type || !isValidTaskType(body.task_type)) {
-        logger.warn("Invalid task type", { task_type: body.task_type });
-        res.status(400).json({
-          success: false,
-          error: "Invalid task_type. Must be one of: TEXT_GEN, CODE_GEN, DESIGN_GEN, ECOMMERCE_GEN",
-          code: "INVALID_TASK_TYPE",
-        });
-        return;
-      }
-
-      // Validate and sanitize prompt
-      const promptValidation = validatePrompt(body.prompt, MAX_PROMPT_LENGTH);
-      if (!promptValidation.valid) {
-        logger.warn("Invalid prompt", { error: promptValidation.error });
-        res.status(400).json({
-          success: false,
-          error: promptValidation.error,
-          code: "INVALID_PROMPT",
-        });
-        return;
-      }
-
-      const sanitizedPrompt = sanitizePrompt(body.prompt);
-
-      // Validate model if provided (default to gemini)
-      const requestedModel = (body.model as string) || "gemini";
-      if (!isValidProvider(requestedModel)) {
-        logger.warn("Invalid model", { model: requestedModel });
-        res.status(400).json({
-          success: false,
-          error: "Invalid model. Must be 'gemini' or 'claude'",
-          code: "INVALID_MODEL",
-        });
-        return;
-      }
-
-      // requestedModel is now type-narrowed to AIModel via isValidProvider type guard
-      const selectedModel: AIModel = requestedModel;
-
-      // 4. Check quota
-      const license = await getLicenseByKey(licenseId);
-
-      if (!license) {
-        logger.error("License not found after auth", { license_id: licenseId });
-        res.status(500).json({
-          success: false,
-          error: "Internal error",
-          code: "INTERNAL_ERROR",
-        });
-        return;
-      }
-
-      const tokensRemaining = license.tokens_limit - license.tokens_used;
-
-      // Quota exceeded check
-      if (tokensRemaining < QUOTA_EXCEEDED_THRESHOLD) {
-        logger.warn("Quota exceeded", {
-          license_id: licenseId,
-          tokens_remaining: tokensRemaining,
-        });
-
-        await createAuditLog({
-          license_id: licenseId,
-          request_type: "ai_request",
-          status: "failed",
-          error_message: "Quota exceeded",
-          ip_address: ipAddress,
-        });
-
-        res.status(403).json({
-          success: false,
-          error: "Token quota exceeded. Please upgrade your plan.",
-          code: "QUOTA_EXCEEDED",
-        });
-        return;
-      }
-
-      // Low quota warning (included in response header)
-      if (tokensRemaining < LOW_QUOTA_WARNING_THRESHOLD) {
-        res.setHeader("X-Quota-Warning", "low");
-        res.setHeader("X-Tokens-Remaining", tokensRemaining.toString());
-      }
-
-      // 5. Execute model request with fallback
-      const modelService = new ModelService(
-        {
-          gemini: geminiApiKey.value(),
-          claude: claudeApiKey.value(),
-        },
-        logger
-      );
-
-      // Extract files from body.files or body.options.files (backwards compatibility)
-      const files = body.files || body.options?.files;
-
-      const result = await modelService.generate({
-        model: selectedModel,
-        prompt: sanitizedPrompt,
-        context: body.context,
-        system_prompt: body.system_prompt,
-        chat_id: body.chat_id,
-        temperature: body.temperature,
-        max_tokens: body.max_tokens,
-        files: files,
-      });
-
-      // 6. Handle result
-      if (result.success) {
-        // Update license tokens
-        await incrementTokensUsed(licenseId, result.total_tokens);
-
-        // Update cost tracking
-        await updateCostTracking(
-          licenseId,
-          result.model === "gemini" ? "gemini" : "claude",
-          result.tokens_input,
-          result.tokens_output,
-          result.cost_usd
-        );
-
-        // Create audit log
-        await createAuditLog({
-          license_id: licenseId,
-          request_type: "ai_request",
-          provider_used: result.model === "gemini" ? "gemini" : "claude",
-          tokens_input: result.tokens_input,
-          tokens_output: result.tokens_output,
-          cost_usd: result.cost_usd,
-          status: "success",
-          response_time_ms: result.latency_ms,
-          ip_address: ipAddress,
-          metadata: {
-            model: result.model,
-            model_id: result.model_id,
-            used_fallback: result.used_fallback,
-          },
-        });
-
-        logger.info("Request completed successfully", {
-          license_id: licenseId,
-          task_type: body.task_type,
-          model: result.model,
-          used_fallback: result.used_fallback,
-          tokens_used: result.total_tokens,
-          cost_usd: result.cost_usd,
-        });
-
-        res.status(200).json({
-          success: true,
-          content: result.content,
-          model: result.model,
-          model_id: result.model_id,
-          used_fallback: result.used_fallback,
-          tokens_used: result.total_tokens,
-          cost_usd: result.cost_usd,
-          latency_ms: result.latency_ms,
-        });
-      } else {
-        // All models failed
-        await createAuditLog({
-          license_id: licenseId,
-          request_type: "ai_request",
-          status: "failed",
-          error_message: result.error || "All models failed",
-          ip_address: ipAddress,
-          metadata: {
-            model: selectedModel,
-            used_fallback: result.used_fallback,
-          },
-        });
-
-        logger.error("All models failed", {
-          license_id: licenseId,
-          task_type: body.task_type,
-          model: selectedModel,
-          error: result.error,
-        });
-
-        res.status(503).json({
-          success: false,
-          error: result.error || "Service temporarily unavailable. Please try again later.",
-          code: result.error_code || "SERVICE_UNAVAILABLE",
-          model: selectedModel,
-        });
-      }
-    } catch (error) {
-      logger.error("Unhandled error in route-request", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-        code: "INTERNAL_ERROR",
-      });
-    }
-  }
+  createRouteHandler(ROUTE_REQUEST_ROUTE)
 );
@@ -13,11 +13,9 @@
 
 import { onRequest } from "firebase-functions/v2/https";
 import { Request, Response } from "express";
-import { v4 as uuidv4 } from "uuid";
 
 import { jwtSecret } from "../../lib/secrets";
-import { createRequestLogger } from "../../lib/logger";
-import { authenticateRequest, sendAuthErrorResponse } from "../../middleware/auth";
+import { createRouteHandler } from "../../middleware/pipeline";
 import {
   getCostTracking,
   getRequestCountsByProvider,
@@ -36,17 +34,7 @@ import {
   isValidPeriod,
 } from "../../types/Analytics";
 import { TaskType } from "../../types/Route";
-
-/**
- * Extracts client IP from request
- */
-function getClientIP(req: Request): string {
-  const forwarded = req.headers["x-forwarded-for"];
-  if (typeof forwarded === "string") {
-    return forwarded.split(",")[0].trim();
-  }
-  return req.ip || req.socket.remoteAddress || "unknown";
-}
+import { AuthenticatedContext, GatewayRoute } from "../../types/Gateway";
 
 /**
  * Gets date range for a period
@@ -86,6 +74,153 @@ function getPreviousMonths(period: string, count: number): string[] {
   return months;
 }
 
+/**
+ * Answers the analytics of the license for a period
+ *
+ * @param {Request} req - Firebase Functions request
+ * @param {Response} res - Firebase Functions response
+ * @param {AuthenticatedContext} ctx - Request context
+ * @returns {Promise<void>}
+ */
+async function handleGetAnalytics(
+  req: Request,
+  res: Response,
+  ctx: AuthenticatedContext
+): Promise<void> {
+  const { logger } = ctx;
+  const licenseId = ctx.claims.license_id;
+
+  // 1. Parse query parameters
+  const period = (req.query.period as string) || getCurrentPeriod();
+  const includeTrend = req.query.include_trend === "true";
+  const includeComparison = req.query.include_comparison === "true";
+
+  // Validate period format
+  if (!isValidPeriod(period)) {
+    logger.warn("Invalid period format", { period });
+    res.status(400).json({
+      success: false,
+      error: "Invalid period format. Use YYYY-MM (e.g., 2025-11)",
+      code: "INVALID_PERIOD",
+    });
+    return;
+  }
+
+  logger.info("Fetching analytics", {
+    license_id: licenseId,
+    period,
+    include_trend: includeTrend,
+    include_comparison: includeComparison,
+  });
+
+  // 2. Get cost tracking data
+  const costDoc = await getCostTracking(licenseId, period);
+
+  // 3. Get request counts from audit logs
+  const { startDate, endDate } = getPeriodDateRange(period);
+  const requestCounts = await getRequestCountsByProvider(licenseId, startDate, endDate);
+
+  // 4. Build base analytics response
+  const analytics = buildAnalyticsFromCostTracking(
+    costDoc,
+    licenseId,
+    period,
+    requestCounts
+  );
+
+  // 5. Get task breakdown (requires additional query)
+  const taskBreakdown = await getTaskTypeBreakdown(licenseId, startDate, endDate);
+  analytics.breakdown_by_task = taskBreakdown as Record<TaskType, { requests: number; tokens: number; cost: number }>;
+
+  // 6. Build extended analytics if requested
+  const extendedAnalytics: ExtendedAnalytics = { ...analytics };
+
+  // Add provider stats
+  if (costDoc) {
+    extendedAnalytics.provider_stats = calculateProviderStats(costDoc);
+  }
+
+  // Add monthly trend if requested
+  if (includeTrend) {
+    const trendMonths = getPreviousMonths(period, 6);
+    const trendDocs = await getCostTrackingHistory(licenseId, trendMonths);
+
+    const trendData: MonthlyTrendPoint[] = trendMonths.map((month) => {
+      const doc = trendDocs.find((d) => d.month === month);
+      if (doc) {
+        return {
+          month,
+          tokens:
+            doc.openai_tokens_input +
+            doc.openai_tokens_output +
+            doc.gemini_tokens_input +
+            doc.gemini_tokens_output +
+            doc.claude_tokens_input +
+            doc.claude_tokens_output,
+          cost: doc.total_cost_usd,
+          requests: 0, // Would need to query audit_logs for each month
+        };
+      }
+      return { month, tokens: 0, cost: 0, requests: 0 };
+    });
+
+    extendedAnalytics.monthly_trend = trendData.reverse(); // Oldest first
+  }
+
+  // Add period comparison if requested
+  if (includeComparison) {
+    const previousMonths = getPreviousMonths(period, 2);
+    const previousPeriod = previousMonths[1]; // Second item is previous month
+
+    const previousDoc = await getCostTracking(licenseId, previousPeriod);
+    const { startDate: prevStart, endDate: prevEnd } = getPeriodDateRange(previousPeriod);
+    const previousCounts = await getRequestCountsByProvider(licenseId, prevStart, prevEnd);
+
+    const currentRequests =
+      requestCounts.openai + requestCounts.gemini + requestCounts.claude;
+    const prevRequests =
+      previousCounts.openai + previousCounts.gemini + previousCounts.claude;
+
+    if (previousDoc && costDoc) {
+      extendedAnalytics.comparison = calculatePeriodComparison(
+        costDoc,
+        previousDoc,
+        currentRequests,
+        prevRequests
+      );
+    } else if (costDoc) {
+      // No previous data, show 100% increase
+      extendedAnalytics.comparison = {
+        cost_change_percent: 100,
+        token_change_percent: 100,
+        request_change_percent: 100,
+      };
+    }
+  }
+
+  logger.info("Analytics retrieved successfully", {
+    license_id: licenseId,
+    period,
+    total_cost: analytics.total_cost,
+    total_requests: analytics.total_requests,
+  });
+
+  res.status(200).json({
+    success: true,
+    data: extendedAnalytics,
+  });
+}
+
+/**
+ * Route of GET /v1/analytics
+ */
+export const GET_ANALYTICS_ROUTE: GatewayRoute<AuthenticatedContext> = {
+  methods: ["GET"],
+  path: "/analytics",
+  auth: true,
+  handler: handleGetAnalytics,
+};
+
 /**
  * GET /api/analytics
  *
@@ -135,164 +270,5 @@ export const getAnalytics = onRequest(
     cors: true,
     maxInstances: 50,
   },
-  async (req: Request, res: Response) => {
-    const requestId = uuidv4();
-    const ipAddress = getClientIP(req);
-    const logger = createRequestLogger(requestId, "/api/analytics", ipAddress);
-
-    // Only allow GET
-    if (req.method !== "GET") {
-      logger.warn("Method not allowed", { method: req.method });
-      res.status(405).json({
-        success: false,
-        error: "Method not allowed",
-        code: "METHOD_NOT_ALLOWED",
-      });
-      return;
-    }
-
-    try {
-      // 1. Authenticate request
-      const authResult = await authenticateRequest(req, jwtSecret.value(), logger);
-
-      if (!authResult.authenticated || !authResult.claims) {
-        sendAuthErrorResponse(res, authResult);
-        return;
-      }
-
-      const { claims } = authResult;
-      const licenseId = claims.license_id;
-
-      // 2. Parse query parameters
-      const period = (req.query.period as string) || getCurrentPeriod();
-      const includeTrend = req.query.include_trend === "true";
-      const includeComparison = req.query.include_comparison === "true";
-
-      // Validate period format
-      if (!isValidPeriod(period)) {
-        logger.warn("Invalid period format", { period });
-        res.status(400).json({
-          success: false,
-          error: "Invalid period format. Use YYYY-MM (e.g., 2025-11)",
-          code: "INVALID_PERIOD",
-        });
-        return;
-      }
-
-      logger.info("Fetching analytics", {
-        license_id: licenseId,
-        period,
-        include_trend: includeTrend,
-        include_comparison: includeComparison,
-      });
-
-      // 3. Get cost tracking data
-      const costDoc = await getCostTracking(licenseId, period);
-
-      // 4. Get request counts from audit logs
-      const { startDate, endDate } = getPeriodDateRange(period);
-      const requestCounts = await getRequestCountsByProvider(licenseId, startDate, endDate);
-
-      // 5. Build base analytics response
-      const analytics = buildAnalyticsFromCostTracking(
-        costDoc,
-        licenseId,
-        period,
-        requestCounts
-      );
-
-      // 6. Get task breakdown (requires additional query)
-      const taskBreakdown = await getTaskTypeBreakdown(licenseId, startDate, endDate);
-      analytics.breakdown_by_task = taskBreakdown as Record<TaskType, { requests: number; tokens: number; cost: number }>;
-
-      // 7. Build extended analytics if requested
-      const extendedAnalytics: ExtendedAnalytics = { ...analytics };
-
-      // Add provider stats
-      if (costDoc) {
-        extendedAnalytics.provider_stats = calculateProviderStats(costDoc);
-      }
-
-      // Add monthly trend if requested
-      if (includeTrend) {
-        const trendMonths = getPreviousMonths(period, 6);
-        const trendDocs = await getCostTrackingHistory(licenseId, trendMonths);
-
-        const trendData: MonthlyTrendPoint[] = trendMonths.map((month) => {
-          const doc = trendDocs.find((d) => d.month === month);
-          if (doc) {
-            return {
-              month,
-              tokens:
-                doc.openai_tokens_input +
-                doc.openai_tokens_output +
-                doc.gemini_tokens_input +
-                doc.gemini_tokens_output +
-                doc.claude_tokens_input +
-                doc.claude_tokens_output,
-              cost: doc.total_cost_usd,
-              requests: 0, // Would need to query audit_logs for each month
-            };
-          }
-          return { month, tokens: 0, cost: 0, requests: 0 };
-        });
-
-        extendedAnalytics.monthly_trend = trendData.reverse(); // Oldest first
-      }
-
-      // Add period comparison if requested
-      if (includeComparison) {
-        const previousMonths = getPreviousMonths(period, 2);
-        const previousPeriod = previousMonths[1]; // Second item is previous month
-
-        const previousDoc = await getCostTracking(licenseId, previousPeriod);
-        const { startDate: prevStart, endDate: prevEnd } = getPeriodDateRange(previousPeriod);
-        const previousCounts = await getRequestCountsByProvider(licenseId, prevStart, prevEnd);
-
-        const currentRequests =
-          requestCounts.openai + requestCounts.gemini + requestCounts.claude;
-        const prevRequests =
-          previousCounts.openai + previousCounts.gemini + previousCounts.claude;
-
-        if (previousDoc && costDoc) {
-          extendedAnalytics.comparison = calculatePeriodComparison(
-            costDoc,
-            previousDoc,
-            currentRequests,
-            prevRequests
-          );
-        } else if (costDoc) {
-          // No previous data, show 100% increase
-          extendedAnalytics.comparison = {
-            cost_change_percent: 100,
-            token_change_percent: 100,
-            request_change_percent: 100,
-          };
-        }
-      }
-
-      logger.info("Analytics retrieved successfully", {
-        license_id: licenseId,
-        period,
-        total_cost: analytics.total_cost,
-        total_requests: analytics.total_requests,
-      });
-
-      res.status(200).json({
-        success: true,
-        data: extendedAnalytics,
-      });
-    } catch (error) {
-      logger.error("Unhandled error in analytics", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        stack: error instanceof Error ? error.stack : undefined,
-      });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-        code: "INTERNAL_ERROR",
-      });
-    }
-  }
+  createRouteHandler(GET_ANALYTICS_ROUTE)
 );
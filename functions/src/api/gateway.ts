@@ -0,0 +1,218 @@
+/**
+ * @fileoverview API gateway for Creator AI Proxy
+ * @module api/gateway
+ *
+ * @description
+ * One HTTP function serving every endpoint:
+ * - /v1/...  versioned routes
+ * - /api/... legacy URLs, aliases of the v1 routes
+ *
+ * Each route runs through the shared middleware pipeline (request ID,
+ * logger, CORS, error mapper, auth, rate limit, validation, plan
+ * entitlement; see middleware/pipeline), so one warm instance answers
+ * every endpoint instead of one cold start per function.
+ *
+ * A breaking change ships as a new version: add it to ApiVersion and give
+ * it its own route list in API_VERSIONS, while /v1 keeps answering as
+ * before.
+ */
+
+import { onRequest } from "firebase-functions/v2/https";
+import { Request, Response } from "express";
+import { jwtSecret, geminiApiKey, claudeApiKey, openaiApiKey } from "../lib/secrets";
+import { buildPipeline, createRequestContext, runPipeline } from "../middleware/pipeline";
+import { VALIDATE_LICENSE_ROUTE } from "./auth/validateLicense";
+import { ROUTE_REQUEST_ROUTE } from "./ai/routeRequest";
+import { ROUTE_BATCH_ROUTE } from "./ai/routeBatch";
+import { EMBED_ROUTE } from "./ai/embed";
+import { CHAT_SESSIONS_ROUTE, CHAT_SESSION_ROUTE } from "./ai/chatSessions";
+import { SUBMIT_TASK_ROUTE } from "./tasks/submitTask";
+import { GET_TASK_STATUS_ROUTE } from "./tasks/getStatus";
+import { GET_ANALYTICS_ROUTE } from "./analytics/getAnalytics";
+import {
+  GET_PLUGIN_DOCS_STATS_ROUTE,
+  GET_PLUGIN_DOCS_ALL_VERSIONS_ROUTE,
+  GET_PLUGIN_DOCS_ROUTE,
+  SAVE_PLUGIN_DOCS_ROUTE,
+  RESEARCH_PLUGIN_DOCS_ROUTE,
+  SYNC_PLUGIN_DOCS_ROUTE,
+} from "./plugin-docs/pluginDocs";
+import {
+  ApiVersion,
+  GatewayRoute,
+  GatewayVersions,
+  LEGACY_API_VERSION,
+  Middleware,
+} from "../types/Gateway";
+
+/**
+ * Function timeout: the longest route timeout (route-batch)
+ */
+const TIMEOUT_SECONDS = 300;
+
+/**
+ * First path segment of the legacy URLs
+ */
+const LEGACY_PREFIX = "api";
+
+/**
+ * Route of GET /v1/health
+ */
+const HEALTH_ROUTE: GatewayRoute = {
+  methods: ["GET"],
+  path: "/health",
+  auth: false,
+  handler: async (_req, res) => {
+    res.status(200).json({
+      success: true,
+      status: "ok",
+      versions: Object.keys(API_VERSIONS),
+    });
+  },
+};
+
+/**
+ * Routes of /v1, matched in order
+ *
+ * @description
+ * Routes with literal segments come before the {param} routes they
+ * would otherwise shadow (plugin-docs/stats and plugin-docs/all/...
+ * before plugin-docs/{plugin_slug}/{plugin_version}).
+ */
+export const V1_ROUTES: GatewayRoute[] = [
+  VALIDATE_LICENSE_ROUTE,
+  ROUTE_REQUEST_ROUTE,
+  ROUTE_BATCH_ROUTE,
+  EMBED_ROUTE,
+  CHAT_SESSIONS_ROUTE,
+  CHAT_SESSION_ROUTE,
+  SUBMIT_TASK_ROUTE,
+  GET_TASK_STATUS_ROUTE,
+  GET_ANALYTICS_ROUTE,
+  GET_PLUGIN_DOCS_STATS_ROUTE,
+  GET_PLUGIN_DOCS_ALL_VERSIONS_ROUTE,
+  GET_PLUGIN_DOCS_ROUTE,
+  SAVE_PLUGIN_DOCS_ROUTE,
+  RESEARCH_PLUGIN_DOCS_ROUTE,
+  SYNC_PLUGIN_DOCS_ROUTE,
+  HEALTH_ROUTE,
+];
+
+/**
+ * Routes of each API version
+ */
+export const API_VERSIONS: GatewayVersions = {
+  v1: V1_ROUTES,
+};
+
+/**
+ * Checks a path against a route path
+ *
+ * @param {string} template - Route path, e.g. "/plugin-docs/{plugin_slug}/{plugin_version}"
+ * @param {string} path - Request path within the version
+ * @returns {boolean} Whether the path matches
+ *
+ * @example
+ * ```typescript
+ * matchRoutePath("/tasks/status/**", "/tasks/status");         // true
+ * matchRoutePath("/tasks/status/**", "/tasks/status/job_123"); // true
+ * matchRoutePath("/tasks/submit", "/tasks/submit/x");          // false
+ * ```
+ */
+export function matchRoutePath(template: string, path: string): boolean {
+  const templateParts = template.split("/").filter(Boolean);
+  const parts = path.split("/").filter(Boolean);
+
+  const anyRest = templateParts[templateParts.length - 1] === "**";
+  const fixedParts = anyRest ? templateParts.slice(0, -1) : templateParts;
+
+  if (anyRest ? parts.length < fixedParts.length : parts.length !== fixedParts.length) {
+    return false;
+  }
+
+  return fixedParts.every((part, index) => part.startsWith("{") || part === parts[index]);
+}
+
+/**
+ * Finds the route of a request
+ *
+ * @param {GatewayRoute[]} routes - Routes of the version
+ * @param {string} method - HTTP method
+ * @param {string} path - Request path within the version
+ * @returns {GatewayRoute | undefined} The first route matching path and
+ * method, else the first matching the path (its pipeline answers the
+ * preflight or the 405), else undefined
+ */
+export function resolveRoute(
+  routes: GatewayRoute[],
+  method: string,
+  path: string
+): GatewayRoute | undefined {
+  const candidates = routes.filter((route) => matchRoutePath(route.path, path));
+
+  return candidates.find((route) => (route.methods as string[]).includes(method)) ?? candidates[0];
+}
+
+/**
+ * Creates the HTTP handler of the gateway
+ *
+ * @param {GatewayVersions} versions - Routes of each API version
+ * @returns {Function} Handler for onRequest
+ */
+export function createGateway(versions: GatewayVersions) {
+  const pipelines = new Map<GatewayRoute, Middleware[]>(
+    Object.values(versions).flat().map((route) => [route, buildPipeline(route)])
+  );
+
+  return async (req: Request, res: Response): Promise<void> => {
+    const [prefix, ...rest] = req.path.split("/").filter(Boolean);
+    const version = prefix === LEGACY_PREFIX ? LEGACY_API_VERSION : prefix;
+    const path = `/${rest.join("/")}`;
+
+    const routes = (Object.keys(versions) as string[]).includes(version)
+      ? versions[version as ApiVersion]
+      : [];
+    const route = resolveRoute(routes, req.method, path);
+    const stages = route && pipelines.get(route);
+    const ctx = createRequestContext(req, res, path, route?.path ?? req.path);
+
+    if (!route || !stages) {
+      ctx.logger.warn("Route not found", { method: req.method, path: req.path });
+      res.status(404).json({
+        success: false,
+        error: "Not found",
+        code: "NOT_FOUND",
+      });
+      return;
+    }
+
+    await runPipeline(stages, route, req, res, ctx);
+  };
+}
+
+/**
+ * Cloud Function: the API gateway
+ *
+ * @description
+ * Firebase Hosting rewrites /v1/** and /api/** here. The per-endpoint
+ * functions exported next to it stay deployed as aliases of the same
+ * routes for clients calling their function URLs.
+ *
+ * The gateway runs in us-central1. License validation keeps its own
+ * rewrite to validateLicense in europe-west1, ahead of the catch-all
+ * rewrites in firebase.json.
+ *
+ * @example
+ * ```
+ * POST /v1/ai/route-request        (same as POST /api/ai/route-request)
+ * GET  /v1/tasks/status/job_123    (same as GET /api/tasks/status/job_123)
+ * ```
+ */
+export const api = onRequest(
+  {
+    secrets: [jwtSecret, geminiApiKey, claudeApiKey, openaiApiKey],
+    maxInstances: 100,
+    timeoutSeconds: TIMEOUT_SECONDS,
+  },
+  createGateway(API_VERSIONS)
+);
@@ -9,8 +9,8 @@
  */
 
 import * as functions from "firebase-functions";
+import { Request, Response } from "express";
 import { Timestamp } from "firebase-admin/firestore";
-import { logger } from "../../lib/logger";
 import {
   getPluginDocs,
   savePluginDocs,
@@ -20,7 +20,9 @@ import {
   db,
   COLLECTIONS,
 } from "../../lib/firestore";
+import { createRouteHandler } from "../../middleware/pipeline";
 import {
+  GetPluginDocsRequest,
   SavePluginDocsRequest,
   PluginDocsResponse,
   ResearchPluginDocsRequest,
@@ -31,7 +33,66 @@ import {
   PluginDocsResearchService,
   getFallbackDocs,
 } from "../../services/pluginDocsResearch";
-import { geminiApiKey, claudeApiKey } from "../../lib/secrets";
+import { geminiApiKey, claudeApiKey, openaiApiKey } from "../../lib/secrets";
+import {
+  GET_PLUGIN_DOCS_OPERATION,
+  SAVE_PLUGIN_DOCS_OPERATION,
+  GET_PLUGIN_DOCS_ALL_VERSIONS_OPERATION,
+  RESEARCH_PLUGIN_DOCS_OPERATION,
+  SYNC_PLUGIN_DOCS_OPERATION,
+} from "../../schemas/pluginDocs";
+import { GatewayRoute, RequestContext, ValidatedContext } from "../../types/Gateway";
+
+/**
+ * Answers cached docs of a plugin version
+ */
+async function handleGetPluginDocs(
+  _req: Request,
+  res: Response,
+  ctx: ValidatedContext<GetPluginDocsRequest>
+): Promise<void> {
+  const { logger } = ctx;
+  const { plugin_slug: pluginSlug, plugin_version: pluginVersion } = ctx.data;
+
+  logger.info("Getting plugin docs", { pluginSlug, pluginVersion });
+
+  // Get from cache
+  const docs = await getPluginDocs(pluginSlug, pluginVersion);
+
+  if (!docs) {
+    // Cache miss
+    res.status(404).json({
+      success: false,
+      cached: false,
+      data: null,
+      error: "Plugin documentation not found in cache",
+    } as PluginDocsResponse);
+    return;
+  }
+
+  // Increment cache hits (fire and forget)
+  incrementPluginDocsCacheHits(pluginSlug, pluginVersion).catch((err) => {
+    logger.warn("Failed to increment cache hits", { error: err.message });
+  });
+
+  res.status(200).json({
+    success: true,
+    cached: true,
+    source: docs.source,
+    data: docs,
+  } as PluginDocsResponse);
+}
+
+/**
+ * Route of GET /v1/plugin-docs/{plugin_slug}/{plugin_version}
+ */
+export const GET_PLUGIN_DOCS_ROUTE: GatewayRoute<ValidatedContext<GetPluginDocsRequest>> = {
+  methods: ["GET"],
+  path: "/plugin-docs/{plugin_slug}/{plugin_version}",
+  auth: false,
+  operation: GET_PLUGIN_DOCS_OPERATION,
+  handler: handleGetPluginDocs,
+};
 
 /**
  * GET /api/plugin-docs/:plugin_slug/:version
@@ -46,75 +107,74 @@ import { geminiApiKey, claudeApiKey } from "../../lib/secrets";
  */
 export const getPluginDocsApi = functions
   .region("us-central1")
-  .https.onRequest(async (req, res) => {
-    // Set CORS headers
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
-    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
-      return;
-    }
-
-    if (req.method !== "GET") {
-      res.status(405).json({ success: false, error: "Method not allowed" });
-      return;
-    }
-
-    try {
-      // Extract plugin_slug and version from path
-      // Path format: /plugin-docs/:plugin_slug/:version
-      const pathParts = req.path.split("/").filter(Boolean);
-      const pluginSlug = pathParts[0];
-      const pluginVersion = pathParts[1];
-
-      if (!pluginSlug || !pluginVersion) {
-        res.status(400).json({
-          success: false,
-          error: "Missing plugin_slug or version in path",
-        });
-        return;
-      }
+  .https.onRequest(createRouteHandler(GET_PLUGIN_DOCS_ROUTE));
 
-      logger.info("Getting plugin docs", { pluginSlug, pluginVersion });
-
-      // Get from cache
-      const docs = await getPluginDocs(pluginSlug, pluginVersion);
+/**
+ * Caches docs of a plugin version
+ */
+async function handleSavePluginDocs(
+  _req: Request,
+  res: Response,
+  ctx: ValidatedContext<SavePluginDocsRequest>
+): Promise<void> {
+  const { logger } = ctx;
+  const body = ctx.data;
+
+  logger.info("Saving plugin docs", {
+    pluginSlug: body.plugin_slug,
+    pluginVersion: body.plugin_version,
+  });
 
-      if (!docs) {
-        // Cache miss
-        res.status(404).json({
-          success: false,
-          cached: false,
-          data: null,
-          error: "Plugin documentation not found in cache",
-        } as PluginDocsResponse);
-        return;
-      }
+  // Check if already exists
+  const existing = await getPluginDocs(body.plugin_slug, body.plugin_version);
+  if (existing) {
+    // Already cached - just return success
+    res.status(200).json({
+      success: true,
+      cached: true,
+      source: existing.source,
+      data: existing,
+      message: "Documentation already cached",
+    });
+    return;
+  }
+
+  // Save to cache
+  const entry = await savePluginDocs({
+    plugin_slug: body.plugin_slug,
+    plugin_version: body.plugin_version,
+    docs_url: body.data.docs_url,
+    main_functions: body.data.main_functions,
+    api_reference: body.data.api_reference,
+    version_notes: body.data.version_notes,
+    cached_by: body.cached_by !== undefined ? String(body.cached_by) : undefined,
+    source: "ai_research",
+  });
 
-      // Increment cache hits (fire and forget)
-      incrementPluginDocsCacheHits(pluginSlug, pluginVersion).catch((err) => {
-        logger.warn("Failed to increment cache hits", { error: err.message });
-      });
-
-      res.status(200).json({
-        success: true,
-        cached: true,
-        source: docs.source,
-        data: docs,
-      } as PluginDocsResponse);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      logger.error("Error getting plugin docs", { error: errorMessage });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-      });
-    }
+  logger.info("Plugin docs saved successfully", {
+    pluginSlug: body.plugin_slug,
+    pluginVersion: body.plugin_version,
   });
 
+  res.status(201).json({
+    success: true,
+    cached: true,
+    source: entry.source,
+    data: entry,
+  } as PluginDocsResponse);
+}
+
+/**
+ * Route of POST /v1/plugin-docs
+ */
+export const SAVE_PLUGIN_DOCS_ROUTE: GatewayRoute<ValidatedContext<SavePluginDocsRequest>> = {
+  methods: ["POST"],
+  path: "/plugin-docs",
+  auth: false,
+  operation: SAVE_PLUGIN_DOCS_OPERATION,
+  handler: handleSavePluginDocs,
+};
+
 /**
  * POST /api/plugin-docs
  *
@@ -138,94 +198,33 @@ export const getPluginDocsApi = functions
  */
 export const savePluginDocsApi = functions
   .region("us-central1")
-  .https.onRequest(async (req, res) => {
-    // Set CORS headers
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
-    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
-      return;
-    }
-
-    if (req.method !== "POST") {
-      res.status(405).json({ success: false, error: "Method not allowed" });
-      return;
-    }
-
-    try {
-      const body = req.body as SavePluginDocsRequest;
-
-      // Validate required fields
-      if (!body.plugin_slug || !body.plugin_version || !body.data) {
-        res.status(400).json({
-          success: false,
-          error: "Missing required fields: plugin_slug, plugin_version, data",
-        });
-        return;
-      }
-
-      if (!body.data.docs_url || !body.data.main_functions) {
-        res.status(400).json({
-          success: false,
-          error: "Missing required data fields: docs_url, main_functions",
-        });
-        return;
-      }
+  .https.onRequest(createRouteHandler(SAVE_PLUGIN_DOCS_ROUTE));
 
-      logger.info("Saving plugin docs", {
-        pluginSlug: body.plugin_slug,
-        pluginVersion: body.plugin_version,
-      });
-
-      // Check if already exists
-      const existing = await getPluginDocs(body.plugin_slug, body.plugin_version);
-      if (existing) {
-        // Already cached - just return success
-        res.status(200).json({
-          success: true,
-          cached: true,
-          source: existing.source,
-          data: existing,
-          message: "Documentation already cached",
-        });
-        return;
-      }
-
-      // Save to cache
-      const entry = await savePluginDocs({
-        plugin_slug: body.plugin_slug,
-        plugin_version: body.plugin_version,
-        docs_url: body.data.docs_url,
-        main_functions: body.data.main_functions,
-        api_reference: body.data.api_reference,
-        version_notes: body.data.version_notes,
-        cached_by: body.cached_by,
-        source: "ai_research",
-      });
-
-      logger.info("Plugin docs saved successfully", {
-        pluginSlug: body.plugin_slug,
-        pluginVersion: body.plugin_version,
-      });
-
-      res.status(201).json({
-        success: true,
-        cached: true,
-        source: entry.source,
-        data: entry,
-      } as PluginDocsResponse);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      logger.error("Error saving plugin docs", { error: errorMessage });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-      });
-    }
+/**
+ * Answers repository statistics
+ */
+async function handleGetPluginDocsStats(
+  _req: Request,
+  res: Response,
+  _ctx: RequestContext
+): Promise<void> {
+  const stats = await getPluginDocsStats();
+
+  res.status(200).json({
+    success: true,
+    data: stats,
   });
+}
+
+/**
+ * Route of GET /v1/plugin-docs/stats
+ */
+export const GET_PLUGIN_DOCS_STATS_ROUTE: GatewayRoute = {
+  methods: ["GET"],
+  path: "/plugin-docs/stats",
+  auth: false,
+  handler: handleGetPluginDocsStats,
+};
 
 /**
  * GET /api/plugin-docs/stats
@@ -239,39 +238,40 @@ export const savePluginDocsApi = functions
  */
 export const getPluginDocsStatsApi = functions
   .region("us-central1")
-  .https.onRequest(async (req, res) => {
-    // Set CORS headers
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
-    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
-      return;
-    }
-
-    if (req.method !== "GET") {
-      res.status(405).json({ success: false, error: "Method not allowed" });
-      return;
-    }
-
-    try {
-      const stats = await getPluginDocsStats();
-
-      res.status(200).json({
-        success: true,
-        data: stats,
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      logger.error("Error getting plugin docs stats", { error: errorMessage });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-      });
-    }
+  .https.onRequest(createRouteHandler(GET_PLUGIN_DOCS_STATS_ROUTE));
+
+/**
+ * Answers every cached version of a plugin
+ */
+async function handleGetPluginDocsAllVersions(
+  _req: Request,
+  res: Response,
+  ctx: ValidatedContext<{ plugin_slug: string }>
+): Promise<void> {
+  const pluginSlug = ctx.data.plugin_slug;
+
+  const versions = await getPluginDocsAllVersions(pluginSlug);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      plugin_slug: pluginSlug,
+      versions_count: versions.length,
+      versions: versions,
+    },
   });
+}
+
+/**
+ * Route of GET /v1/plugin-docs/all/{plugin_slug}
+ */
+export const GET_PLUGIN_DOCS_ALL_VERSIONS_ROUTE: GatewayRoute<ValidatedContext<{ plugin_slug: string }>> = {
+  methods: ["GET"],
+  path: "/plugin-docs/all/{plugin_slug}",
+  auth: false,
+  operation: GET_PLUGIN_DOCS_ALL_VERSIONS_OPERATION,
+  handler: handleGetPluginDocsAllVersions,
+};
 
 /**
  * GET /api/plugin-docs/all/:plugin_slug
@@ -285,55 +285,124 @@ export const getPluginDocsStatsApi = functions
  */
 export const getPluginDocsAllVersionsApi = functions
   .region("us-central1")
-  .https.onRequest(async (req, res) => {
-    // Set CORS headers
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
-    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
-      return;
-    }
-
-    if (req.method !== "GET") {
-      res.status(405).json({ success: false, error: "Method not allowed" });
-      return;
-    }
-
-    try {
-      // Extract plugin_slug from path
-      const pathParts = req.path.split("/").filter(Boolean);
-      const pluginSlug = pathParts[0];
-
-      if (!pluginSlug) {
-        res.status(400).json({
-          success: false,
-          error: "Missing plugin_slug in path",
-        });
-        return;
-      }
+  .https.onRequest(createRouteHandler(GET_PLUGIN_DOCS_ALL_VERSIONS_ROUTE));
+
+/**
+ * Answers docs from the cache, the fallbacks or AI research
+ */
+async function handleResearchPluginDocs(
+  _req: Request,
+  res: Response,
+  ctx: ValidatedContext<ResearchPluginDocsRequest>
+): Promise<void> {
+  const { logger } = ctx;
+  const body = ctx.data;
+
+  logger.info("Researching plugin docs", {
+    pluginSlug: body.plugin_slug,
+    pluginVersion: body.plugin_version,
+  });
 
-      const versions = await getPluginDocsAllVersions(pluginSlug);
-
-      res.status(200).json({
-        success: true,
-        data: {
-          plugin_slug: pluginSlug,
-          versions_count: versions.length,
-          versions: versions,
-        },
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      logger.error("Error getting all plugin versions", { error: errorMessage });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-      });
-    }
+  // Check cache first
+  const cached = await getPluginDocs(body.plugin_slug, body.plugin_version);
+  if (cached) {
+    // Increment cache hits
+    incrementPluginDocsCacheHits(body.plugin_slug, body.plugin_version).catch(
+      (err) => {
+        logger.warn("Failed to increment cache hits", { error: err.message });
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      cached: true,
+      source: cached.source,
+      data: cached,
+    } as PluginDocsResponse);
+    return;
+  }
+
+  // Check for fallback docs for well-known plugins
+  const fallback = getFallbackDocs(body.plugin_slug);
+  if (fallback) {
+    logger.info("Using fallback docs for known plugin", {
+      pluginSlug: body.plugin_slug,
+    });
+
+    // Save fallback to cache
+    const entry = await savePluginDocs({
+      plugin_slug: body.plugin_slug,
+      plugin_version: body.plugin_version,
+      docs_url: fallback.docs_url,
+      main_functions: fallback.main_functions,
+      api_reference: fallback.api_reference,
+      source: "fallback",
+    });
+
+    res.status(200).json({
+      success: true,
+      cached: true,
+      source: "fallback",
+      data: entry,
+    } as PluginDocsResponse);
+    return;
+  }
+
+  // Use AI to research
+  const researchService = new PluginDocsResearchService(
+    {
+      gemini: geminiApiKey.value(),
+      claude: claudeApiKey.value(),
+      openai: openaiApiKey.value(),
+    },
+    logger
+  );
+
+  const result = await researchService.research(body);
+
+  if (!result.success) {
+    // Create a basic fallback entry
+    const wpOrgUrl = `https://wordpress.org/plugins/${body.plugin_slug}/`;
+    const fallbackEntry = await savePluginDocs({
+      plugin_slug: body.plugin_slug,
+      plugin_version: body.plugin_version,
+      docs_url: wpOrgUrl,
+      main_functions: [],
+      source: "fallback",
+    });
+
+    res.status(200).json({
+      success: true,
+      cached: true,
+      source: "fallback",
+      data: fallbackEntry,
+      warning: result.error,
+    });
+    return;
+  }
+
+  // Get the cached entry
+  const entry = await getPluginDocs(body.plugin_slug, body.plugin_version);
+
+  res.status(201).json({
+    success: true,
+    cached: true,
+    source: "ai_research",
+    data: entry,
+    research_meta: result.research_meta,
   });
+}
+
+/**
+ * Route of POST /v1/plugin-docs/research
+ */
+export const RESEARCH_PLUGIN_DOCS_ROUTE: GatewayRoute<ValidatedContext<ResearchPluginDocsRequest>> = {
+  methods: ["POST"],
+  path: "/plugin-docs/research",
+  auth: false,
+  operation: RESEARCH_PLUGIN_DOCS_OPERATION,
+  handler: handleResearchPluginDocs,
+};
 
 /**
  * POST /api/plugin-docs/research
@@ -354,137 +423,82 @@ export const getPluginDocsAllVersionsApi = functions
  */
 export const researchPluginDocsApi = functions
   .region("us-central1")
-  .runWith({ secrets: [geminiApiKey, claudeApiKey] })
-  .https.onRequest(async (req, res) => {
-    // Set CORS headers
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
-    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
-      return;
-    }
-
-    if (req.method !== "POST") {
-      res.status(405).json({ success: false, error: "Method not allowed" });
-      return;
-    }
-
-    try {
-      const body = req.body as ResearchPluginDocsRequest;
-
-      // Validate required fields
-      if (!body.plugin_slug || !body.plugin_version) {
-        res.status(400).json({
-          success: false,
-          error: "Missing required fields: plugin_slug, plugin_version",
-        });
-        return;
-      }
+  .runWith({ secrets: [geminiApiKey, claudeApiKey, openaiApiKey] })
+  .https.onRequest(createRouteHandler(RESEARCH_PLUGIN_DOCS_ROUTE));
 
-      logger.info("Researching plugin docs", {
-        pluginSlug: body.plugin_slug,
-        pluginVersion: body.plugin_version,
-      });
-
-      // Check cache first
-      const cached = await getPluginDocs(body.plugin_slug, body.plugin_version);
-      if (cached) {
-        // Increment cache hits
-        incrementPluginDocsCacheHits(body.plugin_slug, body.plugin_version).catch(
-          (err) => {
-            logger.warn("Failed to increment cache hits", { error: err.message });
-          }
-        );
-
-        res.status(200).json({
-          success: true,
-          cached: true,
-          source: cached.source,
-          data: cached,
-        } as PluginDocsResponse);
-        return;
-      }
-
-      // Check for fallback docs for well-known plugins
-      const fallback = getFallbackDocs(body.plugin_slug);
-      if (fallback) {
-        logger.info("Using fallback docs for known plugin", {
-          pluginSlug: body.plugin_slug,
-        });
-
-        // Save fallback to cache
-        const entry = await savePluginDocs({
-          plugin_slug: body.plugin_slug,
-          plugin_version: body.plugin_version,
-          docs_url: fallback.docs_url,
-          main_functions: fallback.main_functions,
-          api_reference: fallback.api_reference,
-          source: "fallback",
-        });
-
-        res.status(200).json({
-          success: true,
-          cached: true,
-          source: "fallback",
-          data: entry,
-        } as PluginDocsResponse);
-        return;
-      }
+/**
+ * Answers docs for the WordPress local cache
+ */
+async function handleSyncPluginDocs(
+  _req: Request,
+  res: Response,
+  ctx: ValidatedContext<SyncPluginDocsRequest>
+): Promise<void> {
+  const { logger } = ctx;
+  const body = ctx.data;
+  const limit = Math.min(body.limit || 100, 500); // Max 500 entries
+
+  logger.info("Syncing plugin docs", {
+    pluginSlugs: body.plugin_slugs,
+    sinceTimestamp: body.since_timestamp,
+    limit,
+  });
 
-      // Use AI to research
-      const researchService = new PluginDocsResearchService(
-        {
-          gemini: geminiApiKey.value(),
-          claude: claudeApiKey.value(),
-        },
-        logger
-      );
-
-      const result = await researchService.research(body);
-
-      if (!result.success) {
-        // Create a basic fallback entry
-        const wpOrgUrl = `https://wordpress.org/plugins/${body.plugin_slug}/`;
-        const fallbackEntry = await savePluginDocs({
-          plugin_slug: body.plugin_slug,
-          plugin_version: body.plugin_version,
-          docs_url: wpOrgUrl,
-          main_functions: [],
-          source: "fallback",
-        });
-
-        res.status(200).json({
-          success: true,
-          cached: true,
-          source: "fallback",
-          data: fallbackEntry,
-          warning: result.error,
-        });
-        return;
-      }
+  let query = db
+    .collection(COLLECTIONS.PLUGIN_DOCS_CACHE)
+    .orderBy("cached_at", "desc")
+    .limit(limit);
+
+  // Filter by plugin slugs if provided
+  if (body.plugin_slugs && body.plugin_slugs.length > 0) {
+    // Firestore limits 'in' queries to 30 items
+    const slugsToQuery = body.plugin_slugs.slice(0, 30);
+    query = db
+      .collection(COLLECTIONS.PLUGIN_DOCS_CACHE)
+      .where("plugin_slug", "in", slugsToQuery)
+      .orderBy("cached_at", "desc")
+      .limit(limit);
+  }
+
+  // Filter by timestamp if provided
+  if (body.since_timestamp) {
+    const sinceDate = new Date(body.since_timestamp);
+    query = query.where("cached_at", ">", Timestamp.fromDate(sinceDate));
+  }
+
+  const snapshot = await query.get();
+
+  const plugins = snapshot.docs.map((doc) => {
+    const data = doc.data() as PluginDocsEntry;
+    return {
+      plugin_slug: data.plugin_slug,
+      plugin_version: data.plugin_version,
+      docs_url: data.docs_url,
+      main_functions: data.main_functions,
+      api_reference: data.api_reference,
+      version_notes: data.version_notes,
+    };
+  });
 
-      // Get the cached entry
-      const entry = await getPluginDocs(body.plugin_slug, body.plugin_version);
-
-      res.status(201).json({
-        success: true,
-        cached: true,
-        source: "ai_research",
-        data: entry,
-        research_meta: result.research_meta,
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      logger.error("Error researching plugin docs", { error: errorMessage });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-      });
-    }
+  res.status(200).json({
+    success: true,
+    data: {
+      synced_count: plugins.length,
+      plugins,
+    },
   });
+}
+
+/**
+ * Route of POST /v1/plugin-docs/sync
+ */
+export const SYNC_PLUGIN_DOCS_ROUTE: GatewayRoute<ValidatedContext<SyncPluginDocsRequest>> = {
+  methods: ["POST"],
+  path: "/plugin-docs/sync",
+  auth: false,
+  operation: SYNC_PLUGIN_DOCS_OPERATION,
+  handler: handleSyncPluginDocs,
+};
 
 /**
  * POST /api/plugin-docs/sync
@@ -503,82 +517,4 @@ export const researchPluginDocsApi = functions
  */
 export const syncPluginDocsApi = functions
   .region("us-central1")
-  .https.onRequest(async (req, res) => {
-    // Set CORS headers
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
-    res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
-      return;
-    }
-
-    if (req.method !== "POST") {
-      res.status(405).json({ success: false, error: "Method not allowed" });
-      return;
-    }
-
-    try {
-      const body = req.body as SyncPluginDocsRequest;
-      const limit = Math.min(body.limit || 100, 500); // Max 500 entries
-
-      logger.info("Syncing plugin docs", {
-        pluginSlugs: body.plugin_slugs,
-        sinceTimestamp: body.since_timestamp,
-        limit,
-      });
-
-      let query = db
-        .collection(COLLECTIONS.PLUGIN_DOCS_CACHE)
-        .orderBy("cached_at", "desc")
-        .limit(limit);
-
-      // Filter by plugin slugs if provided
-      if (body.plugin_slugs && body.plugin_slugs.length > 0) {
-        // Firestore limits 'in' queries to 30 items
-        const slugsToQuery = body.plugin_slugs.slice(0, 30);
-        query = db
-          .collection(COLLECTIONS.PLUGIN_DOCS_CACHE)
-          .where("plugin_slug", "in", slugsToQuery)
-          .orderBy("cached_at", "desc")
-          .limit(limit);
-      }
-
-      // Filter by timestamp if provided
-      if (body.since_timestamp) {
-        const sinceDate = new Date(body.since_timestamp);
-        query = query.where("cached_at", ">", Timestamp.fromDate(sinceDate));
-      }
-
-      const snapshot = await query.get();
-
-      const plugins = snapshot.docs.map((doc) => {
-        const data = doc.data() as PluginDocsEntry;
-        return {
-          plugin_slug: data.plugin_slug,
-          plugin_version: data.plugin_version,
-          docs_url: data.docs_url,
-          main_functions: data.main_functions,
-          api_reference: data.api_reference,
-          version_notes: data.version_notes,
-        };
-      });
-
-      res.status(200).json({
-        success: true,
-        data: {
-          synced_count: plugins.length,
-          plugins,
-        },
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      logger.error("Error syncing plugin docs", { error: errorMessage });
-
-      res.status(500).json({
-        success: false,
-        error: "Internal server error",
-      });
-    }
-  });
+  .https.onRequest(createRouteHandler(SYNC_PLUGIN_DOCS_ROUTE));
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Unit tests for the model registry
+ * @module config/models.test
+ */
+
+import {
+  AI_MODELS,
+  EMBEDDING_MODELS,
+  MODEL_REGISTRY,
+  checkModelRegistry,
+  getContextWindow,
+  getModelPricing,
+  isValidModel,
+} from "./models";
+import { DEFAULT_MODELS } from "../providers";
+import { DEFAULT_ROUTING_MATRIX } from "../types/Route";
+import { calculateCost, calculateEmbeddingCost } from "../types/AIProvider";
+
+describe("MODEL_REGISTRY", () => {
+  it("should be consistent with the defaults and the routing matrix", () => {
+    // Arrange
+    const references = [
+      ...Object.values(DEFAULT_ROUTING_MATRIX).flatMap((route) => [route.primary, route.fallback1, route.fallback2]),
+      ...Object.entries(DEFAULT_MODELS).map(([provider, model]) => ({ provider, model })),
+    ];
+
+    // Act
+    const problems = checkModelRegistry(references);
+
+    // Assert
+    expect(problems).toEqual([]);
+  });
+
+  it("should report unknown, misattributed and retired models", () => {
+    // Act
+    const problems = checkModelRegistry([
+      { provider: "gemini", model: "gemini-9-ultra" },
+      { provider: "gemini", model: "claude-sonnet-4-20250514" },
+      { provider: "claude", model: "claude-3-5-sonnet-20241022" },
+    ], new Date("2025-11-01"));
+
+    // Assert
+    expect(problems).toEqual([
+      "gemini:gemini-9-ultra: not in MODEL_REGISTRY",
+      "gemini:claude-sonnet-4-20250514: registered for claude",
+      "claude:claude-3-5-sonnet-20241022: retired on 2025-10-22",
+    ]);
+  });
+
+  it("should serve pricing, limits and validation from the same entry", () => {
+    // Assert
+    expect(AI_MODELS.gemini.pricing).toBe(MODEL_REGISTRY["gemini-2.5-pro"].pricing);
+    expect(getModelPricing("gemini-2.5-pro-preview-05-06")?.output).toBe(0.01);
+    expect(getContextWindow("claude-sonnet-4-20250514")).toBe(200000);
+    expect(isValidModel("gemini-1.5-pro")).toBe(true);
+    expect(isValidModel("gpt-4o")).toBe(false);
+  });
+
+  it("should bill long prompts at the tier price", () => {
+    // Act
+    const short = calculateCost("gemini", "gemini-2.5-pro", 100000, 1000);
+    const long = calculateCost("gemini", "gemini-2.5-pro", 300000, 1000);
+
+    // Assert
+    expect(short).toBeCloseTo(0.125 + 0.01, 6);
+    expect(long).toBeCloseTo(0.75 + 0.015, 6);
+  });
+
+  it("should keep embedding models out of generation and price them on input", () => {
+    // Assert
+    expect(MODEL_REGISTRY[EMBEDDING_MODELS.gemini]).toBeUndefined();
+    expect(isValidModel(EMBEDDING_MODELS.openai)).toBe(false);
+    expect(calculateEmbeddingCost("text-embedding-3-small", 1000000)).toBeCloseTo(0.02, 6);
+    expect(calculateEmbeddingCost("gemini-embedding-001", 1000)).toBeCloseTo(0.00015, 6);
+  });
+});
@@ -6,10 +6,22 @@
  * This file is the ONLY source of truth for AI model configurations in Creator.
  * All other files MUST import from here. DO NOT define model IDs elsewhere.
  *
- * Creator supports exactly 2 AI providers:
+ * MODEL_REGISTRY holds every model the proxy may call, with its provider,
+ * context window, max output, modalities, pricing and deprecation date.
+ * Providers, routing validation, pre-flight checks and cost calculation all
+ * read it; checkModelRegistry() reports inconsistencies.
+ *
+ * Creator routes to 2 AI providers by default:
  * - Gemini (Google)
  * - Claude (Anthropic)
  *
+ * A third, OpenAI-compatible endpoint (OpenAI, Azure OpenAI, or a local
+ * vLLM/Ollama server) is enabled by setting OPENAI_MODELS, with optional
+ * OPENAI_BASE_URL and OPENAI_PRICING.
+ *
+ * Embedding models are kept apart in EMBEDDING_MODEL_REGISTRY: they are
+ * never routed to for generation, and are billed on input tokens only.
+ *
  * Last updated: December 2025
  */
 
@@ -18,9 +30,26 @@
 // ============================================================================
 
 /**
- * Supported AI providers
+ * Supported AI providers ("openai" is the OpenAI-compatible endpoint)
+ */
+export type AIProvider = "gemini" | "claude" | "openai";
+
+/**
+ * Input kinds a model accepts
  */
-export type AIProvider = "gemini" | "claude";
+export type ModelModality = "text" | "image" | "pdf";
+
+/**
+ * Price tier for long prompts, per 1k tokens (USD)
+ */
+export interface PricingTier {
+  /** Applies when the prompt has more input tokens than this */
+  above_input_tokens: number;
+  /** Cost per 1k input tokens */
+  input: number;
+  /** Cost per 1k output tokens */
+  output: number;
+}
 
 /**
  * Model pricing per 1k tokens (USD)
@@ -30,6 +59,53 @@ export interface ModelPricing {
   input: number;
   /** Cost per 1k output tokens */
   output: number;
+  /** Cost per 1k input tokens written to the prompt cache */
+  cache_write?: number;
+  /** Cost per 1k input tokens read from the prompt cache */
+  cache_read?: number;
+  /** Higher prices for long prompts, by ascending threshold */
+  tiers?: PricingTier[];
+}
+
+/**
+ * Registry entry of a model
+ */
+export interface ModelInfo {
+  /** Provider serving the model */
+  provider: AIProvider | "mock";
+  /** Context window (input + output tokens) */
+  context_window: number;
+  /** Maximum output tokens per request */
+  max_output_tokens: number;
+  /** Input kinds the model accepts */
+  modalities: ModelModality[];
+  /** Pricing per 1k tokens */
+  pricing: ModelPricing;
+  /** Date (YYYY-MM-DD) the provider retires the model, when announced */
+  deprecated_on?: string;
+}
+
+/**
+ * Providers serving embedding models ("openai" is the OpenAI-compatible endpoint)
+ */
+export type EmbeddingProvider = Exclude<AIProvider, "claude">;
+
+/**
+ * Registry entry of an embedding model
+ */
+export interface EmbeddingModelInfo {
+  /** Provider serving the model */
+  provider: EmbeddingProvider | "mock";
+  /** Maximum input tokens per text */
+  max_input_tokens: number;
+  /** Dimensions of the returned vectors by default */
+  dimensions: number;
+  /** Fewest dimensions the vectors can be shortened to (equal to dimensions when fixed) */
+  min_dimensions: number;
+  /** Pricing per 1k input tokens (embeddings have no output tokens) */
+  pricing: Pick<ModelPricing, "input">;
+  /** Date (YYYY-MM-DD) the provider retires the model, when announced */
+  deprecated_on?: string;
 }
 
 /**
@@ -42,19 +118,178 @@ export interface ModelConfig {
   pricing: ModelPricing;
 }
 
+/**
+ * OpenAI-compatible endpoint configuration
+ */
+export interface OpenAICompatibleConfig {
+  /** Whether OPENAI_MODELS is set (the provider can be requested and locked) */
+  enabled: boolean;
+  /** API base URL (undefined for api.openai.com) */
+  base_url?: string;
+  /** Models served by the endpoint, primary first */
+  models: string[];
+  /** Pricing per model, per 1k tokens */
+  pricing: Record<string, ModelPricing>;
+  /** Context window of the endpoint's models, in tokens, when set */
+  context_window?: number;
+}
+
+// ============================================================================
+// MODEL_REGISTRY - SINGLE SOURCE OF TRUTH
+// ============================================================================
+
+/**
+ * MODEL_REGISTRY - Every model Creator may call, by model ID
+ *
+ * @description
+ * Covers the default models and the ones routing overrides may use.
+ * Pricing is in USD per 1k tokens, with long-prompt tiers where the
+ * provider charges more above a prompt size.
+ *
+ * @example
+ * ```typescript
+ * MODEL_REGISTRY["gemini-2.5-pro"].context_window; // 1048576
+ * MODEL_REGISTRY["claude-opus-4-5-20251101"].pricing.output; // 0.075
+ * ```
+ */
+export const MODEL_REGISTRY: Record<string, ModelInfo> = {
+  "gemini-2.5-pro": {
+    provider: "gemini",
+    context_window: 1048576,
+    max_output_tokens: 65536,
+    modalities: ["text", "image", "pdf"],
+    pricing: {
+      input: 0.00125,
+      output: 0.01,
+      tiers: [{ above_input_tokens: 200000, input: 0.0025, output: 0.015 }],
+    },
+  },
+  "gemini-2.5-flash": {
+    provider: "gemini",
+    context_window: 1048576,
+    max_output_tokens: 65536,
+    modalities: ["text", "image", "pdf"],
+    pricing: { input: 0.0003, output: 0.0025 },
+  },
+  "gemini-2.5-pro-preview-05-06": {
+    provider: "gemini",
+    context_window: 1048576,
+    max_output_tokens: 65536,
+    modalities: ["text", "image", "pdf"],
+    pricing: {
+      input: 0.00125,
+      output: 0.01,
+      tiers: [{ above_input_tokens: 200000, input: 0.0025, output: 0.015 }],
+    },
+    deprecated_on: "2025-07-15",
+  },
+  "gemini-2.5-flash-preview-05-20": {
+    provider: "gemini",
+    context_window: 1048576,
+    max_output_tokens: 65536,
+    modalities: ["text", "image", "pdf"],
+    pricing: { input: 0.00015, output: 0.0006 },
+    deprecated_on: "2025-07-15",
+  },
+  "gemini-2.0-flash-exp": {
+    provider: "gemini",
+    context_window: 1048576,
+    max_output_tokens: 8192,
+    modalities: ["text", "image", "pdf"],
+    pricing: { input: 0.0001, output: 0.0004 },
+  },
+  "gemini-1.5-pro": {
+    provider: "gemini",
+    context_window: 2097152,
+    max_output_tokens: 8192,
+    modalities: ["text", "image", "pdf"],
+    pricing: {
+      input: 0.00125,
+      output: 0.005,
+      tiers: [{ above_input_tokens: 128000, input: 0.0025, output: 0.01 }],
+    },
+    deprecated_on: "2025-09-24",
+  },
+  "gemini-1.5-flash": {
+    provider: "gemini",
+    context_window: 1048576,
+    max_output_tokens: 8192,
+    modalities: ["text", "image", "pdf"],
+    pricing: {
+      input: 0.000075,
+      output: 0.0003,
+      tiers: [{ above_input_tokens: 128000, input: 0.00015, output: 0.0006 }],
+    },
+    deprecated_on: "2025-09-24",
+  },
+  "claude-opus-4-5-20251101": {
+    provider: "claude",
+    context_window: 200000,
+    max_output_tokens: 64000,
+    modalities: ["text", "image", "pdf"],
+    // Cache writes 1.25x, reads 0.1x input
+    pricing: { input: 0.015, output: 0.075, cache_write: 0.01875, cache_read: 0.0015 },
+  },
+  "claude-sonnet-4-20250514": {
+    provider: "claude",
+    context_window: 200000,
+    max_output_tokens: 64000,
+    modalities: ["text", "image", "pdf"],
+    pricing: { input: 0.003, output: 0.015, cache_write: 0.00375, cache_read: 0.0003 },
+  },
+  "claude-3-5-sonnet-20241022": {
+    provider: "claude",
+    context_window: 200000,
+    max_output_tokens: 8192,
+    modalities: ["text", "image", "pdf"],
+    pricing: { input: 0.003, output: 0.015, cache_write: 0.00375, cache_read: 0.0003 },
+    deprecated_on: "2025-10-22",
+  },
+  "gpt-4o": {
+    provider: "openai",
+    context_window: 128000,
+    max_output_tokens: 16384,
+    modalities: ["text", "image"],
+    pricing: { input: 0.005, output: 0.015 },
+  },
+  "gpt-4o-mini": {
+    provider: "openai",
+    context_window: 128000,
+    max_output_tokens: 16384,
+    modalities: ["text", "image"],
+    pricing: { input: 0.00015, output: 0.0006 },
+  },
+  // Offline fixtures, always free
+  "mock-1": {
+    provider: "mock",
+    context_window: 1048576,
+    max_output_tokens: 65536,
+    modalities: ["text"],
+    pricing: { input: 0, output: 0 },
+  },
+};
+
+/**
+ * Builds the AI_MODELS entry of a registered model
+ */
+function defaultModel(id: string): ModelConfig {
+  return { id, pricing: MODEL_REGISTRY[id].pricing };
+}
+
 // ============================================================================
-// AI_MODELS - SINGLE SOURCE OF TRUTH
+// AI_MODELS - DEFAULT MODEL PER PROVIDER
 // ============================================================================
 
 /**
- * AI_MODELS - The only source of truth for AI models in Creator
+ * AI_MODELS - The default model of each provider
  *
  * @description
- * Creator uses exactly 2 models:
+ * Creator uses exactly 2 models by default:
  * - Gemini 2.5 Pro for Google AI
  * - Claude Opus 4.5 for Anthropic AI
  *
- * Pricing is in USD per 1k tokens.
+ * The openai entry is the OpenAI-compatible endpoint's default model, used
+ * when OPENAI_MODELS does not list any. Pricing comes from MODEL_REGISTRY.
  *
  * @example
  * ```typescript
@@ -65,31 +300,182 @@ export interface ModelConfig {
  * ```
  */
 export const AI_MODELS: Record<AIProvider, ModelConfig> = {
-  gemini: {
-    id: "gemini-2.5-pro",
-    pricing: {
-      input: 0.00125,
-      output: 0.005,
-    },
+  gemini: defaultModel("gemini-2.5-pro"),
+  claude: defaultModel("claude-opus-4-5-20251101"),
+  openai: defaultModel("gpt-4o"),
+};
+
+// ============================================================================
+// EMBEDDING MODELS
+// ============================================================================
+
+/**
+ * EMBEDDING_MODEL_REGISTRY - Every embedding model Creator may call, by model ID
+ *
+ * @description
+ * Pricing is in USD per 1k input tokens. Vectors of the Gemini and
+ * text-embedding-3 models can be shortened down to min_dimensions.
+ *
+ * @example
+ * ```typescript
+ * EMBEDDING_MODEL_REGISTRY["text-embedding-3-small"].dimensions; // 1536
+ * ```
+ */
+export const EMBEDDING_MODEL_REGISTRY: Record<string, EmbeddingModelInfo> = {
+  "gemini-embedding-001": {
+    provider: "gemini",
+    max_input_tokens: 2048,
+    dimensions: 3072,
+    min_dimensions: 128,
+    pricing: { input: 0.00015 },
   },
-  claude: {
-    id: "claude-opus-4-5-20251101",
-    pricing: {
-      input: 0.015,
-      output: 0.075,
-    },
+  "text-embedding-004": {
+    provider: "gemini",
+    max_input_tokens: 2048,
+    dimensions: 768,
+    min_dimensions: 1,
+    pricing: { input: 0 },
+    deprecated_on: "2026-01-14",
+  },
+  "text-embedding-3-small": {
+    provider: "openai",
+    max_input_tokens: 8191,
+    dimensions: 1536,
+    min_dimensions: 1,
+    pricing: { input: 0.00002 },
+  },
+  "text-embedding-3-large": {
+    provider: "openai",
+    max_input_tokens: 8191,
+    dimensions: 3072,
+    min_dimensions: 1,
+    pricing: { input: 0.00013 },
   },
-} as const;
+  // Offline fixtures, always free
+  "mock-embedding-1": {
+    provider: "mock",
+    max_input_tokens: 8192,
+    dimensions: 768,
+    min_dimensions: 1,
+    pricing: { input: 0 },
+  },
+};
+
+/**
+ * EMBEDDING_MODELS - The embedding model of each provider
+ *
+ * @example
+ * ```typescript
+ * EMBEDDING_MODELS.gemini; // "gemini-embedding-001"
+ * ```
+ */
+export const EMBEDDING_MODELS: Record<EmbeddingProvider, string> = {
+  gemini: "gemini-embedding-001",
+  openai: "text-embedding-3-small",
+};
+
+/**
+ * Context window assumed for models not in MODEL_REGISTRY
+ */
+export const DEFAULT_CONTEXT_WINDOW = 128000;
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Checks if a value is a pricing object with non-negative prices
+ */
+function isValidPricing(value: unknown): value is ModelPricing {
+  const pricing = value as ModelPricing | null;
+  return pricing !== null &&
+    typeof pricing === "object" &&
+    typeof pricing.input === "number" &&
+    typeof pricing.output === "number" &&
+    pricing.input >= 0 &&
+    pricing.output >= 0;
+}
+
+/**
+ * Reads the OpenAI-compatible endpoint configuration from the environment
+ *
+ * @returns {OpenAICompatibleConfig} Endpoint configuration
+ *
+ * @description
+ * - OPENAI_MODELS: comma-separated model IDs, primary first (enables the provider)
+ * - OPENAI_BASE_URL: API base URL, e.g. "http://localhost:11434/v1" for Ollama
+ * - OPENAI_PRICING: JSON object of per-1k prices by model ID; invalid
+ *   entries are ignored. Models without a price are billed at the
+ *   conservative fallback price, so self-hosted models should be priced at 0.
+ * - OPENAI_CONTEXT_WINDOW: context window of the configured models, in tokens
+ * The API key is the OPENAI_API_KEY secret (any non-empty value for servers
+ * that do not check it).
+ *
+ * @example
+ * ```typescript
+ * // OPENAI_MODELS=llama3.1:8b
+ * // OPENAI_BASE_URL=http://localhost:11434/v1
+ * // OPENAI_PRICING={"llama3.1:8b":{"input":0,"output":0}}
+ * getOpenAICompatibleConfig();
+ * // { enabled: true, base_url: "http://localhost:11434/v1", models: ["llama3.1:8b"], pricing: {...} }
+ * ```
+ */
+export function getOpenAICompatibleConfig(): OpenAICompatibleConfig {
+  const models = (process.env.OPENAI_MODELS ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter((model) => model.length > 0);
+
+  const pricing: Record<string, ModelPricing> = {};
+  try {
+    const parsed = JSON.parse(process.env.OPENAI_PRICING || "{}") as Record<string, unknown>;
+    for (const [model, price] of Object.entries(parsed ?? {})) {
+      if (isValidPricing(price)) {
+        pricing[model] = { input: price.input, output: price.output };
+      }
+    }
+  } catch {
+    // Malformed OPENAI_PRICING: every model uses the fallback price
+  }
+
+  const contextWindow = parseInt(process.env.OPENAI_CONTEXT_WINDOW ?? "", 10);
+
+  return {
+    enabled: models.length > 0,
+    base_url: process.env.OPENAI_BASE_URL || undefined,
+    models: models.length > 0 ? models : [AI_MODELS.openai.id],
+    pricing,
+    ...(contextWindow > 0 && { context_window: contextWindow }),
+  };
+}
+
+/**
+ * Gets the context window of a model
+ *
+ * @param {string} id - The model ID
+ * @returns {number} Context window in tokens (OPENAI_CONTEXT_WINDOW for the
+ * configured OpenAI-compatible models, when set)
+ *
+ * @example
+ * ```typescript
+ * getContextWindow("claude-opus-4-5-20251101"); // 200000
+ * getContextWindow("some-new-model"); // 128000
+ * ```
+ */
+export function getContextWindow(id: string): number {
+  const openai = getOpenAICompatibleConfig();
+  if (openai.enabled && openai.context_window && openai.models.includes(id)) {
+    return openai.context_window;
+  }
+  return MODEL_REGISTRY[id]?.context_window ?? DEFAULT_CONTEXT_WINDOW;
+}
+
 /**
  * Checks if a model ID is valid (one of the supported models)
  *
  * @param {string} id - The model ID to validate
- * @returns {boolean} True if the model ID matches one of the supported models
+ * @returns {boolean} True for registered Gemini and Claude models, and for the
+ * configured models when the OpenAI-compatible endpoint is enabled
  *
  * @example
  * ```typescript
@@ -99,7 +485,12 @@ export const AI_MODELS: Record<AIProvider, ModelConfig> = {
  * ```
  */
 export function isValidModel(id: string): boolean {
-  return id === AI_MODELS.gemini.id || id === AI_MODELS.claude.id;
+  const provider = MODEL_REGISTRY[id]?.provider;
+  if (provider === "gemini" || provider === "claude") {
+    return true;
+  }
+  const openai = getOpenAICompatibleConfig();
+  return openai.enabled && openai.models.includes(id);
 }
 
 /**
@@ -108,27 +499,61 @@ export function isValidModel(id: string): boolean {
  * @param {string} id - The model ID
  * @returns {ModelPricing | null} Pricing object or null if model not found
  *
+ * @description
+ * For the configured OpenAI-compatible models, OPENAI_PRICING takes
+ * precedence over MODEL_REGISTRY.
+ *
  * @example
  * ```typescript
  * const pricing = getModelPricing("claude-opus-4-5-20251101");
- * // { input: 0.015, output: 0.075 }
+ * // { input: 0.015, output: 0.075, cache_write: 0.01875, cache_read: 0.0015 }
  * ```
  */
 export function getModelPricing(id: string): ModelPricing | null {
-  if (id === AI_MODELS.gemini.id) {
-    return AI_MODELS.gemini.pricing;
-  }
-  if (id === AI_MODELS.claude.id) {
-    return AI_MODELS.claude.pricing;
-  }
-  return null;
+  return getOpenAICompatibleConfig().pricing[id] ?? MODEL_REGISTRY[id]?.pricing ?? null;
+}
+
+/**
+ * Gets the prices that apply to a prompt size
+ *
+ * @param {ModelPricing} pricing - The model's pricing
+ * @param {number} inputTokens - Input tokens of the request
+ * @returns {ModelPricing} Pricing with input/output from the highest tier the prompt exceeds
+ *
+ * @example
+ * ```typescript
+ * resolvePricingTier(MODEL_REGISTRY["gemini-2.5-pro"].pricing, 250000);
+ * // { input: 0.0025, output: 0.015, ... }
+ * ```
+ */
+export function resolvePricingTier(pricing: ModelPricing, inputTokens: number): ModelPricing {
+  const tier = (pricing.tiers ?? [])
+    .filter((candidate) => inputTokens > candidate.above_input_tokens)
+    .pop();
+
+  return tier ? { ...pricing, input: tier.input, output: tier.output } : pricing;
+}
+
+/**
+ * Gets the registered models of a provider
+ *
+ * @param {AIProvider | "mock"} provider - The provider name
+ * @returns {string[]} Model IDs, in registry order
+ *
+ * @example
+ * ```typescript
+ * getRegisteredModels("openai"); // ["gpt-4o", "gpt-4o-mini"]
+ * ```
+ */
+export function getRegisteredModels(provider: AIProvider | "mock"): string[] {
+  return Object.keys(MODEL_REGISTRY).filter((id) => MODEL_REGISTRY[id].provider === provider);
 }
 
 /**
  * Gets the primary model ID for a provider
  *
- * @param {AIProvider} provider - The provider name ("gemini" or "claude")
- * @returns {string} The model ID for that provider
+ * @param {AIProvider} provider - The provider name
+ * @returns {string} The model ID for that provider (the first of OPENAI_MODELS for "openai")
  *
  * @example
  * ```typescript
@@ -137,14 +562,17 @@ export function getModelPricing(id: string): ModelPricing | null {
  * ```
  */
 export function getPrimaryModel(provider: AIProvider): string {
-  return AI_MODELS[provider].id;
+  return provider === "openai"
+    ? getOpenAICompatibleConfig().models[0]
+    : AI_MODELS[provider].id;
 }
 
 /**
  * MODEL_IDS - Map from provider to model ID
  *
  * @description
- * Quick lookup to get model ID from provider name.
+ * Quick lookup to get model ID from provider name. The openai entry is
+ * the built-in default; use getPrimaryModel() for the configured one.
  *
  * @example
  * ```typescript
@@ -155,13 +583,15 @@ export function getPrimaryModel(provider: AIProvider): string {
 export const MODEL_IDS: Record<AIProvider, string> = {
   gemini: AI_MODELS.gemini.id,
   claude: AI_MODELS.claude.id,
+  openai: AI_MODELS.openai.id,
 };
 
 /**
  * Type guard to check if a string is a valid AI provider
  *
  * @param {string} provider - The provider to validate
- * @returns {boolean} True if provider is "gemini" or "claude"
+ * @returns {boolean} True if provider is "gemini" or "claude", or "openai"
+ * when the OpenAI-compatible endpoint is enabled
  *
  * @example
  * ```typescript
@@ -170,5 +600,110 @@ export const MODEL_IDS: Record<AIProvider, string> = {
  * ```
  */
 export function isValidProvider(provider: string): provider is AIProvider {
-  return provider === "gemini" || provider === "claude";
+  return provider === "gemini" ||
+    provider === "claude" ||
+    (provider === "openai" && getOpenAICompatibleConfig().enabled);
+}
+
+/**
+ * Model a routing chain, default or configuration refers to
+ */
+export interface ModelReference {
+  /** Provider the model is called through */
+  provider: string;
+  /** Model ID */
+  model: string;
+}
+
+/**
+ * Checks the registry and the models referenced elsewhere for inconsistencies
+ *
+ * @param {ModelReference[]} references - Models used by routing matrices, provider defaults, etc.
+ * @param {Date} now - Date deprecations are checked against
+ * @returns {string[]} One message per problem (empty when consistent)
+ *
+ * @description
+ * Checks that every entry has positive limits, a max output within its
+ * context window, text input, non-negative prices and tiers in ascending
+ * order within the context window. Every AI_MODELS default and every
+ * reference must be registered for its provider and not retired by `now`.
+ * Embedding entries and EMBEDDING_MODELS get the same checks.
+ *
+ * @example
+ * ```typescript
+ * const refs = Object.values(DEFAULT_ROUTING_MATRIX).flatMap((route) => Object.values(route));
+ * checkModelRegistry(refs); // []
+ * ```
+ */
+export function checkModelRegistry(references: ModelReference[] = [], now: Date = new Date()): string[] {
+  const problems: string[] = [];
+  const today = now.toISOString().slice(0, 10);
+
+  for (const [id, info] of Object.entries(MODEL_REGISTRY)) {
+    const prices = [info.pricing, ...(info.pricing.tiers ?? [])];
+    const thresholds = (info.pricing.tiers ?? []).map((tier) => tier.above_input_tokens);
+
+    if (!(info.context_window > 0) || !(info.max_output_tokens > 0)) {
+      problems.push(`${id}: context window and max output must be positive`);
+    }
+    if (info.max_output_tokens > info.context_window) {
+      problems.push(`${id}: max output (${info.max_output_tokens}) exceeds the context window (${info.context_window})`);
+    }
+    if (!info.modalities.includes("text")) {
+      problems.push(`${id}: modalities must include text`);
+    }
+    if (!prices.every(isValidPricing) ||
+      [info.pricing.cache_write, info.pricing.cache_read].some((price) => price !== undefined && price < 0)) {
+      problems.push(`${id}: prices must be non-negative`);
+    }
+    if (thresholds.some((threshold, index) =>
+      threshold <= (index > 0 ? thresholds[index - 1] : 0) || threshold >= info.context_window)) {
+      problems.push(`${id}: pricing tiers must be ascending and within the context window`);
+    }
+    if (info.deprecated_on !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(info.deprecated_on)) {
+      problems.push(`${id}: deprecated_on must be a YYYY-MM-DD date`);
+    }
+  }
+
+  for (const [id, info] of Object.entries(EMBEDDING_MODEL_REGISTRY)) {
+    if (!(info.max_input_tokens > 0)) {
+      problems.push(`${id}: max input must be positive`);
+    }
+    if (!(info.min_dimensions >= 1) || info.min_dimensions > info.dimensions) {
+      problems.push(`${id}: min dimensions must be between 1 and ${info.dimensions}`);
+    }
+    if (!(info.pricing.input >= 0)) {
+      problems.push(`${id}: prices must be non-negative`);
+    }
+    if (info.deprecated_on !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(info.deprecated_on)) {
+      problems.push(`${id}: deprecated_on must be a YYYY-MM-DD date`);
+    }
+  }
+
+  const defaults = (Object.keys(AI_MODELS) as AIProvider[])
+    .map((provider) => ({ provider, model: AI_MODELS[provider].id }));
+
+  for (const { provider, model } of [...defaults, ...references]) {
+    const info = MODEL_REGISTRY[model];
+    if (!info) {
+      problems.push(`${provider}:${model}: not in MODEL_REGISTRY`);
+    } else if (info.provider !== provider) {
+      problems.push(`${provider}:${model}: registered for ${info.provider}`);
+    } else if (info.deprecated_on && info.deprecated_on <= today) {
+      problems.push(`${provider}:${model}: retired on ${info.deprecated_on}`);
+    }
+  }
+
+  for (const [provider, model] of Object.entries(EMBEDDING_MODELS)) {
+    const info = EMBEDDING_MODEL_REGISTRY[model];
+    if (!info) {
+      problems.push(`${provider}:${model}: not in EMBEDDING_MODEL_REGISTRY`);
+    } else if (info.provider !== provider) {
+      problems.push(`${provider}:${model}: registered for ${info.provider}`);
+    } else if (info.deprecated_on && info.deprecated_on <= today) {
+      problems.push(`${provider}:${model}: retired on ${info.deprecated_on}`);
+    }
+  }
+
+  return problems;
 }
@@ -10,6 +10,19 @@
  * @author Creator AI Team
  */
 
+// ==================== API GATEWAY ====================
+
+/**
+ * /v1/** and /api/** (legacy aliases of v1)
+ *
+ * Serves every endpoint below through the shared middleware pipeline.
+ * Firebase Hosting routes all API traffic here; the per-endpoint
+ * functions stay deployed as aliases for their function URLs.
+ *
+ * @see {@link module:api/gateway}
+ */
+export { api } from "./api/gateway";
+
 // ==================== AUTH ENDPOINTS ====================
 
 /**
@@ -32,6 +45,36 @@ export { validateLicense } from "./api/auth/validateLicense";
  */
 export { routeRequest } from "./api/ai/routeRequest";
 
+/**
+ * POST /api/ai/route-batch
+ *
+ * Runs several route requests in one call, with one quota check
+ * and one audit log for the batch.
+ *
+ * @see {@link module:api/ai/routeBatch}
+ */
+export { routeBatch } from "./api/ai/routeBatch";
+
+/**
+ * POST /api/ai/embed
+ *
+ * Embeds a batch of texts with Gemini or OpenAI for semantic
+ * search, metered against the license quota.
+ *
+ * @see {@link module:api/ai/embed}
+ */
+export { embed } from "./api/ai/embed";
+
+/**
+ * GET/DELETE /api/ai/chats[/{chat_id}]
+ *
+ * Lists, fetches and deletes server-side chat sessions
+ * created by route-request when a chat_id is sent.
+ *
+ * @see {@link module:api/ai/chatSessions}
+ */
+export { chatSessions } from "./api/ai/chatSessions";
+
 // ==================== TASK ENDPOINTS (Milestone 5) ====================
 
 /**
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Unit tests for attachment preparation
+ */
+
+import { deflateRawSync } from "zlib";
+import {
+  DOCX_MIME_TYPE,
+  extractDocxText,
+  prepareAttachments,
+  resolveAttachmentType,
+} from "../lib/attachments";
+import { FileAttachment } from "../types/AIProvider";
+
+/**
+ * Builds a minimal ZIP archive with deflated entries (CRCs are not checked)
+ */
+function buildZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(entries).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+/**
+ * Builds an attachment from raw content
+ */
+function attachment(name: string, type: string, content: Buffer | string): FileAttachment {
+  const data = Buffer.from(content);
+  return { name, type, size: data.length, base64: data.toString("base64") };
+}
+
+const DOCUMENT_XML =
+  "<w:document><w:body>" +
+  "<w:p><w:r><w:t>Shipping &amp; returns</w:t></w:r></w:p>" +
+  "<w:p><w:r><w:t>Price:</w:t><w:tab/><w:t>10 &lt; 20</w:t></w:r></w:p>" +
+  "</w:body></w:document>";
+
+describe("Attachments", () => {
+  describe("extractDocxText", () => {
+    it("should extract paragraphs and decode entities", () => {
+      const docx = buildZip({ "[Content_Types].xml": "<Types/>", "word/document.xml": DOCUMENT_XML });
+
+      expect(extractDocxText(docx)).toBe("Shipping & returns\nPrice:\t10 < 20");
+    });
+
+    it("should throw for files that are not DOCX", () => {
+      expect(() => extractDocxText(Buffer.from("plain text"))).toThrow("Not a ZIP archive");
+      expect(() => extractDocxText(buildZip({ "other.xml": "<a/>" }))).toThrow("Missing word/document.xml");
+    });
+  });
+
+  describe("resolveAttachmentType", () => {
+    it("should fall back to the extension for generic types", () => {
+      expect(resolveAttachmentType(attachment("notes.md", "", "x"))).toBe("text/markdown");
+      expect(resolveAttachmentType(attachment("brief.docx", "application/octet-stream", "x"))).toBe(DOCX_MIME_TYPE);
+      expect(resolveAttachmentType(attachment("data.csv", "text/csv; charset=utf-8", "x"))).toBe("text/csv");
+    });
+  });
+
+  describe("prepareAttachments", () => {
+    it("should sort files into native, text and skipped", () => {
+      const files = [
+        { ...attachment("shot.png", "image/png", "png"), base64: "data:image/png;base64,iVBORw0KGgo=" },
+        attachment("products.csv", "text/csv", "\uFEFFsku,price\nA1,10"),
+        attachment("brief.docx", DOCX_MIME_TYPE, buildZip({ "word/document.xml": DOCUMENT_XML })),
+        attachment("archive.zip", "application/zip", "PK"),
+        attachment("broken.docx", DOCX_MIME_TYPE, "not a zip"),
+        attachment("empty.txt", "text/plain", "  "),
+      ];
+
+      const prepared = prepareAttachments(files, ["image/png"], "claude");
+
+      expect(prepared.binary).toEqual([expect.objectContaining({ name: "shot.png", base64: "iVBORw0KGgo=" })]);
+      expect(prepared.texts).toEqual([
+        { name: "products.csv", text: "sku,price\nA1,10" },
+        { name: "brief.docx", text: "Shipping & returns\nPrice:\t10 < 20" },
+      ]);
+      expect(prepared.skipped).toEqual([
+        { name: "archive.zip", type: "application/zip", reason: "Unsupported file type for claude" },
+        { name: "broken.docx", type: DOCX_MIME_TYPE, reason: "Could not read file: Not a ZIP archive" },
+        { name: "empty.txt", type: "text/plain", reason: "No text content" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * @fileoverview File attachment preparation for AI providers
+ * @module lib/attachments
+ *
+ * @description
+ * Sorts a request's attachments into files a provider can send natively
+ * (images, PDFs), files sent as extracted text (plain text, CSV, JSON,
+ * markdown, DOCX) and files that have to be skipped, with the reason.
+ * DOCX files are unzipped and their word/document.xml converted to text
+ * on the server, so no provider needs Office support.
+ */
+
+import { inflateRawSync } from "zlib";
+import { FileAttachment, SkippedFile } from "../types/AIProvider";
+
+/**
+ * MIME type of Word documents
+ */
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/**
+ * MIME types sent to the model as their text content
+ */
+export const TEXT_ATTACHMENT_TYPES = [
+  "text/plain",
+  "text/csv",
+  "application/json",
+  "text/markdown",
+  "text/x-markdown",
+];
+
+/**
+ * Maximum characters of extracted text per file (longer text is truncated)
+ */
+export const MAX_ATTACHMENT_TEXT_CHARS = 100000;
+
+/**
+ * Maximum uncompressed size of a DOCX document.xml (guards against zip bombs)
+ */
+const MAX_DOCX_XML_BYTES = 10 * 1024 * 1024;
+
+/**
+ * MIME types by extension, for clients that send no or a generic type
+ */
+const EXTENSION_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  docx: DOCX_MIME_TYPE,
+};
+
+/**
+ * Attachments sorted for a provider
+ *
+ * @interface PreparedAttachments
+ */
+export interface PreparedAttachments {
+  /** Files the provider sends natively, as base64 without the data URI prefix */
+  binary: FileAttachment[];
+
+  /** Files sent as text parts */
+  texts: Array<{ name: string; text: string }>;
+
+  /** Files that could not be sent */
+  skipped: SkippedFile[];
+}
+
+/**
+ * Strips the data URI prefix (e.g. "data:image/png;base64,") from file data
+ *
+ * @param {string} base64 - Base64 data, with or without a data URI prefix
+ * @returns {string} Plain base64
+ */
+export function stripDataUri(base64: string): string {
+  return base64.includes(",") ? base64.split(",")[1] : base64;
+}
+
+/**
+ * Resolves a file's MIME type, falling back to its extension
+ *
+ * @param {FileAttachment} file - The attachment
+ * @returns {string} The declared type, or the type for its extension when the
+ * declared one is empty or application/octet-stream
+ */
+export function resolveAttachmentType(file: FileAttachment): string {
+  const type = (file.type || "").toLowerCase().split(";")[0].trim();
+  if (type && type !== "application/octet-stream") {
+    return type;
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_TYPES[extension] ?? type;
+}
+
+/**
+ * Decodes XML character entities
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Reads one entry from a ZIP archive
+ *
+ * @param {Buffer} zip - The archive
+ * @param {string} entryName - Path of the entry
+ * @returns {Buffer | null} Uncompressed entry, or null when missing
+ * @throws {Error} If the archive is malformed or uses an unsupported compression
+ */
+function readZipEntry(zip: Buffer, entryName: string): Buffer | null {
+  // End of central directory record: last signature within the max comment length
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Malformed ZIP central directory");
+    }
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      const dataStart = localOffset + 30 +
+        zip.readUInt16LE(localOffset + 26) +
+        zip.readUInt16LE(localOffset + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        return inflateRawSync(data, { maxOutputLength: MAX_DOCX_XML_BYTES });
+      }
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+/**
+ * Extracts the text of a DOCX document
+ *
+ * @param {Buffer} docx - The DOCX file
+ * @returns {string} Paragraphs separated by newlines
+ * @throws {Error} If the file is not a readable DOCX
+ *
+ * @example
+ * ```typescript
+ * const text = extractDocxText(Buffer.from(file.base64, "base64"));
+ * ```
+ */
+export function extractDocxText(docx: Buffer): string {
+  const xml = readZipEntry(docx, "word/document.xml");
+  if (!xml) {
+    throw new Error("Missing word/document.xml");
+  }
+
+  const text = xml.toString("utf8")
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:(br|cr)\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeXmlEntities(text).replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Extracts the text of a text or DOCX attachment
+ *
+ * @param {FileAttachment} file - The attachment
+ * @param {string} type - Its resolved MIME type
+ * @returns {string} Text content, truncated to MAX_ATTACHMENT_TEXT_CHARS
+ * @throws {Error} If a DOCX cannot be read
+ */
+function extractAttachmentText(file: FileAttachment, type: string): string {
+  const data = Buffer.from(stripDataUri(file.base64), "base64");
+  const text = type === DOCX_MIME_TYPE
+    ? extractDocxText(data)
+    : data.toString("utf8").replace(/^\uFEFF/, "");
+
+  return text.length > MAX_ATTACHMENT_TEXT_CHARS
+    ? `${text.slice(0, MAX_ATTACHMENT_TEXT_CHARS)}\n[truncated]`
+    : text;
+}
+
+/**
+ * Sorts attachments for a provider
+ *
+ * @param {FileAttachment[] | undefined} files - Request attachments
+ * @param {string[]} binaryTypes - MIME types the provider accepts natively
+ * @param {string} provider - Provider name, used in skip reasons
+ * @returns {PreparedAttachments} Native files, text files and skipped files
+ *
+ * @example
+ * ```typescript
+ * const { binary, texts, skipped } = prepareAttachments(options?.files, ["image/png", "application/pdf"], "gemini");
+ * ```
+ */
+export function prepareAttachments(
+  files: FileAttachment[] | undefined,
+  binaryTypes: string[],
+  provider: string
+): PreparedAttachments {
+  const prepared: PreparedAttachments = { binary: [], texts: [], skipped: [] };
+
+  for (const file of files || []) {
+    const type = resolveAttachmentType(file);
+
+    if (binaryTypes.includes(type)) {
+      prepared.binary.push({ ...file, type, base64: stripDataUri(file.base64) });
+      continue;
+    }
+
+    if (!TEXT_ATTACHMENT_TYPES.includes(type) && type !== DOCX_MIME_TYPE) {
+      prepared.skipped.push({ name: file.name, type: file.type, reason: `Unsupported file type for ${provider}` });
+      continue;
+    }
+
+    try {
+      const text = extractAttachmentText(file, type);
+      if (text.trim().length === 0) {
+        prepared.skipped.push({ name: file.name, type: file.type, reason: "No text content" });
+      } else {
+        prepared.texts.push({ name: file.name, text });
+      }
+    } catch (error) {
+      prepared.skipped.push({
+        name: file.name,
+        type: file.type,
+        reason: `Could not read file: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
+    }
+  }
+
+  return prepared;
+}
+
+/**
+ * Formats an extracted file as a text part for the model
+ *
+ * @param {{ name: string, text: string }} file - Extracted file
+ * @returns {string} The text with its file name as a header
+ */
+export function formatAttachmentText(file: { name: string; text: string }): string {
+  return `File: ${file.name}\n\`\`\`\n${file.text}\n\`\`\``;
+}
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Unit tests for request deadlines and cancellation
+ * @module lib/deadline.test
+ */
+
+import {
+  MIN_ATTEMPT_MS,
+  applyDeadline,
+  createDeadlineSignal,
+  getRequestOptions,
+  getStopReason,
+} from "./deadline";
+
+const retryable = { shouldRetry: true, errorCode: "RATE_LIMITED", statusCode: 429 };
+
+describe("getRequestOptions", () => {
+  it("should abort the call at the deadline without a caller signal", async () => {
+    // Act
+    const { signal } = getRequestOptions({ deadline: Date.now() + 10 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Assert
+    expect(signal?.aborted).toBe(true);
+    expect(getStopReason({ signal })).toBe("DEADLINE_EXCEEDED");
+  });
+
+  it("should pass the caller's signal without a deadline, and nothing without either", () => {
+    // Arrange
+    const signal = new AbortController().signal;
+
+    // Act & Assert
+    expect(getRequestOptions({ signal })).toEqual({ signal });
+    expect(getRequestOptions()).toEqual({});
+  });
+});
+
+describe("createDeadlineSignal", () => {
+  it("should fire with the caller's reason when the caller aborts", () => {
+    // Arrange
+    const controller = new AbortController();
+    const signal = createDeadlineSignal(Date.now() + 60000, controller.signal);
+
+    // Act
+    controller.abort();
+
+    // Assert
+    expect(signal?.aborted).toBe(true);
+    expect(getStopReason({ signal })).toBe("CANCELLED");
+  });
+
+  it("should report DEADLINE_EXCEEDED once the deadline fires", async () => {
+    // Arrange
+    const signal = createDeadlineSignal(Date.now() + 10, new AbortController().signal);
+
+    // Act
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Assert
+    expect(getStopReason({ signal })).toBe("DEADLINE_EXCEEDED");
+  });
+});
+
+describe("applyDeadline", () => {
+  it("should keep the decision when there is time for the retry", () => {
+    // Act & Assert
+    expect(applyDeadline(retryable, { deadline: Date.now() + 60000 }, 1000)).toEqual(retryable);
+    expect(applyDeadline(retryable, undefined, 1000)).toEqual(retryable);
+  });
+
+  it("should skip a retry that could not finish before the deadline", () => {
+    // Act
+    const decision = applyDeadline(retryable, { deadline: Date.now() + MIN_ATTEMPT_MS }, 1000);
+
+    // Assert
+    expect(decision).toEqual({ shouldRetry: false, errorCode: "DEADLINE_EXCEEDED", statusCode: 429 });
+  });
+
+  it("should not retry a call the caller cancelled", () => {
+    // Arrange
+    const controller = new AbortController();
+    controller.abort();
+
+    // Act
+    const decision = applyDeadline(retryable, { signal: controller.signal }, 1000);
+
+    // Assert
+    expect(decision.shouldRetry).toBe(false);
+    expect(decision.errorCode).toBe("CANCELLED");
+  });
+});
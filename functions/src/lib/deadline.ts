@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Request deadlines and cancellation
+ * @module lib/deadline
+ *
+ * @description
+ * An endpoint computes a deadline (epoch ms) from its function timeout and
+ * passes it down through ModelService to every provider call, together
+ * with an AbortSignal. Providers abort in-flight calls at the deadline or
+ * when the signal fires, and skip retries
+ * that could not finish in time, so the client gets DEADLINE_EXCEEDED
+ * instead of the platform killing the function mid-call.
+ */
+
+import { GenerateOptions } from "../types/AIProvider";
+
+/**
+ * Shortest time left for which a new attempt (or fallback) is started
+ */
+export const MIN_ATTEMPT_MS = 5000;
+
+/**
+ * Error codes of calls stopped by the deadline or the caller
+ */
+export type DeadlineErrorCode = "DEADLINE_EXCEEDED" | "CANCELLED";
+
+/**
+ * Outcome of a failed attempt, as parsed by a provider
+ */
+export interface RetryDecision {
+  shouldRetry: boolean;
+  errorCode: string;
+  statusCode?: number;
+}
+
+/**
+ * Gets the time left before a deadline
+ *
+ * @param {number} deadline - Deadline in epoch ms, if any
+ * @returns {number} Milliseconds left (Infinity without a deadline, 0 once passed)
+ */
+export function getRemainingMs(deadline?: number): number {
+  return deadline === undefined ? Infinity : Math.max(deadline - Date.now(), 0);
+}
+
+/**
+ * Checks whether an attempt started after waiting can still finish in time
+ *
+ * @param {number} deadline - Deadline in epoch ms, if any
+ * @param {number} waitMs - Wait before the attempt (e.g. retry backoff)
+ * @returns {boolean} True if at least MIN_ATTEMPT_MS would be left after waiting
+ */
+export function hasTimeFor(deadline: number | undefined, waitMs = 0): boolean {
+  return getRemainingMs(deadline) >= waitMs + MIN_ATTEMPT_MS;
+}
+
+/**
+ * Creates a signal that fires at the deadline or when the caller's signal fires
+ *
+ * @param {number} deadline - Deadline in epoch ms, if any
+ * @param {AbortSignal} signal - Caller's signal, if any
+ * @returns {AbortSignal | undefined} Combined signal (undefined with neither)
+ *
+ * @example
+ * ```typescript
+ * const signal = createDeadlineSignal(Date.now() + 110000, clientDisconnect.signal);
+ * await client.messages.create(params, { signal });
+ * ```
+ */
+export function createDeadlineSignal(deadline?: number, signal?: AbortSignal): AbortSignal | undefined {
+  if (deadline === undefined) {
+    return signal;
+  }
+
+  const timeout = AbortSignal.timeout(getRemainingMs(deadline));
+  return signal ? combineSignals(signal, timeout) : timeout;
+}
+
+/**
+ * Combines signals into one that fires with the reason of the first to fire
+ *
+ * @param {...(AbortSignal | undefined)} signals - Signals to combine (undefined ones are ignored)
+ * @returns {AbortSignal} Combined signal
+ */
+export function combineSignals(...signals: (AbortSignal | undefined)[]): AbortSignal {
+  const controller = new AbortController();
+  for (const source of signals) {
+    if (!source) {
+      continue;
+    }
+    if (source.aborted) {
+      controller.abort(source.reason);
+      break;
+    }
+    source.addEventListener("abort", () => controller.abort(source.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Gets the per-request options of an SDK call
+ *
+ * @param {GenerateOptions} options - Generation options with the optional deadline and signal
+ * @returns {{ signal?: AbortSignal }} Signal that aborts the call at the deadline or when the caller aborts
+ *
+ * @description
+ * The client's own request timeout still applies; the signal only adds the
+ * deadline and the caller's cancellation on top of it.
+ */
+export function getRequestOptions(options?: GenerateOptions): { signal?: AbortSignal } {
+  const signal = createDeadlineSignal(options?.deadline, options?.signal);
+  return signal ? { signal } : {};
+}
+
+/**
+ * Gets the reason a call was stopped, if it was
+ *
+ * @param {Pick<GenerateOptions, "deadline" | "signal">} options - Deadline and signal of the call
+ * @returns {DeadlineErrorCode | undefined} DEADLINE_EXCEEDED once the deadline passed,
+ * CANCELLED when the caller aborted, undefined otherwise
+ */
+export function getStopReason(
+  options?: Pick<GenerateOptions, "deadline" | "signal">
+): DeadlineErrorCode | undefined {
+  if (options?.signal?.aborted) {
+    return (options.signal.reason as Error | undefined)?.name === "TimeoutError"
+      ? "DEADLINE_EXCEEDED"
+      : "CANCELLED";
+  }
+  return getRemainingMs(options?.deadline) === 0 ? "DEADLINE_EXCEEDED" : undefined;
+}
+
+/**
+ * Applies the deadline to a provider's retry decision
+ *
+ * @param {RetryDecision} decision - Decision parsed from the error
+ * @param {GenerateOptions} options - Options with the optional deadline and signal
+ * @param {number} retryDelayMs - Backoff before the next attempt, when one is planned
+ * @returns {RetryDecision} The decision, or a final DEADLINE_EXCEEDED/CANCELLED
+ *
+ * @description
+ * A call aborted by the deadline or the caller is never retried, and a
+ * retry that could not finish before the deadline is skipped.
+ */
+export function applyDeadline(
+  decision: RetryDecision,
+  options: GenerateOptions | undefined,
+  retryDelayMs?: number
+): RetryDecision {
+  const stopReason = getStopReason(options);
+  if (stopReason) {
+    return { ...decision, shouldRetry: false, errorCode: stopReason };
+  }
+
+  if (decision.shouldRetry && retryDelayMs !== undefined && !hasTimeFor(options?.deadline, retryDelayMs)) {
+    return { ...decision, shouldRetry: false, errorCode: "DEADLINE_EXCEEDED" };
+  }
+
+  return decision;
+}
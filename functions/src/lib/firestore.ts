@@ -35,6 +35,11 @@ export const COLLECTIONS = {
   JOB_QUEUE: "job_queue",
   COST_TRACKING: "cost_tracking",
   PLUGIN_DOCS_CACHE: "plugin_docs_cache",
+  ROUTING_CONFIG: "routing_config",
+  PROVIDER_HEALTH: "provider_health",
+  CHAT_SESSIONS: "chat_sessions",
+  RESPONSE_CACHE: "response_cache",
+  IDEMPOTENCY_KEYS: "idempotency_keys",
 } as const;
 
 // ==================== LICENSE OPERATIONS ====================
@@ -281,6 +286,8 @@ export async function checkAndIncrementRateLimit(
 
 // ==================== COST TRACKING OPERATIONS ====================
 
+import { PromptCacheUsage } from "../types/AIProvider";
+
 /**
  * Cost tracking document structure
  */
@@ -297,6 +304,9 @@ export interface CostTrackingDocument {
   claude_tokens_output: number;
   claude_cost_usd: number;
   total_cost_usd: number;
+  prompt_cache_write_tokens?: number;
+  prompt_cache_read_tokens?: number;
+  prompt_cache_savings_usd?: number;
 }
 
 /**
@@ -307,6 +317,7 @@ export interface CostTrackingDocument {
  * @param {number} tokensInput - Input tokens consumed
  * @param {number} tokensOutput - Output tokens generated
  * @param {number} costUsd - Cost in USD
+ * @param {PromptCacheUsage} promptCache - Optional prompt cache usage of the request
  * @returns {Promise<void>}
  *
  * @example
@@ -325,7 +336,8 @@ export async function updateCostTracking(
   provider: "openai" | "gemini" | "claude",
   tokensInput: number,
   tokensOutput: number,
-  costUsd: number
+  costUsd: number,
+  promptCache?: PromptCacheUsage
 ): Promise<void> {
   const now = new Date();
   const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
@@ -359,6 +371,12 @@ export async function updateCostTracking(
       newData[`${provider}_cost_usd` as keyof CostTrackingDocument] = costUsd as never;
       newData.total_cost_usd = costUsd;
 
+      if (promptCache) {
+        newData.prompt_cache_write_tokens = promptCache.write_tokens;
+        newData.prompt_cache_read_tokens = promptCache.read_tokens;
+        newData.prompt_cache_savings_usd = promptCache.savings_usd;
+      }
+
       transaction.set(docRef, newData);
     } else {
       // Update existing document
@@ -368,6 +386,12 @@ export async function updateCostTracking(
       updateData[`${provider}_cost_usd`] = FieldValue.increment(costUsd);
       updateData.total_cost_usd = FieldValue.increment(costUsd);
 
+      if (promptCache) {
+        updateData.prompt_cache_write_tokens = FieldValue.increment(promptCache.write_tokens);
+        updateData.prompt_cache_read_tokens = FieldValue.increment(promptCache.read_tokens);
+        updateData.prompt_cache_savings_usd = FieldValue.increment(promptCache.savings_usd);
+      }
+
       transaction.update(docRef, updateData);
     }
   });
@@ -683,6 +707,7 @@ export async function createJob(data: CreateJobData): Promise<Job> {
   const job: Job = {
     job_id: jobId,
     license_id: data.license_id,
+    ...(data.plan && { plan: data.plan }),
     task_type: data.task_type,
     task_data: data.task_data,
     status: "pending",
@@ -1114,3 +1139,400 @@ export async function deletePluginDocs(
   await docRef.delete();
   return true;
 }
+
+// ==================== ROUTING CONFIG OPERATIONS ====================
+
+import { RoutingConfigDocument } from "../types/Route";
+
+/**
+ * Retrieves all routing override documents keyed by document ID
+ *
+ * @returns {Promise<Record<string, RoutingConfigDocument>>} Documents by ID ("default" or a plan)
+ *
+ * @example
+ * ```typescript
+ * const docs = await getRoutingConfigDocs();
+ * const starterOverrides = docs["starter"]?.matrix;
+ * ```
+ */
+export async function getRoutingConfigDocs(): Promise<Record<string, RoutingConfigDocument>> {
+  const snapshot = await db.collection(COLLECTIONS.ROUTING_CONFIG).get();
+
+  const docs: Record<string, RoutingConfigDocument> = {};
+  for (const doc of snapshot.docs) {
+    docs[doc.id] = doc.data() as RoutingConfigDocument;
+  }
+
+  return docs;
+}
+
+// ==================== PROVIDER HEALTH OPERATIONS ====================
+
+import { ProviderHealthRecord } from "../types/ProviderHealth";
+
+/**
+ * Gets the circuit breaker record for a provider:model key
+ *
+ * @param {string} key - Breaker key ({provider}:{model})
+ * @returns {Promise<ProviderHealthRecord | null>} Record or null if never tracked
+ *
+ * @example
+ * ```typescript
+ * const health = await getProviderHealth("claude:claude-opus-4-5-20251101");
+ * if (health?.state === "open") {
+ *   // skip provider
+ * }
+ * ```
+ */
+export async function getProviderHealth(
+  key: string
+): Promise<ProviderHealthRecord | null> {
+  const doc = await db.collection(COLLECTIONS.PROVIDER_HEALTH).doc(key).get();
+
+  if (!doc.exists) {
+    return null;
+  }
+
+  return doc.data() as ProviderHealthRecord;
+}
+
+/**
+ * Saves the circuit breaker record for a provider:model key
+ *
+ * @param {ProviderHealthRecord} record - Record to store (document ID is record.key)
+ * @returns {Promise<void>}
+ */
+export async function saveProviderHealth(
+  record: ProviderHealthRecord
+): Promise<void> {
+  await db.collection(COLLECTIONS.PROVIDER_HEALTH).doc(record.key).set(record);
+}
+
+/**
+ * Reads and rewrites the circuit breaker record for a key in one transaction
+ *
+ * @param {string} key - Breaker key ({provider}:{model})
+ * @param {Function} updater - Returns the record to store, or null to leave it unchanged
+ * @returns {Promise<ProviderHealthRecord | null>} The stored record, or null if nothing was written
+ *
+ * @description
+ * Uses a transaction so concurrent instances cannot both act on the same
+ * state (e.g. both claim the half-open probe). The updater may run more
+ * than once if the transaction is retried.
+ */
+export async function updateProviderHealth(
+  key: string,
+  updater: (record: ProviderHealthRecord | null) => ProviderHealthRecord | null
+): Promise<ProviderHealthRecord | null> {
+  const docRef = db.collection(COLLECTIONS.PROVIDER_HEALTH).doc(key);
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
+    const next = updater(doc.exists ? (doc.data() as ProviderHealthRecord) : null);
+
+    if (next) {
+      transaction.set(docRef, next);
+    }
+    return next;
+  });
+}
+
+// ==================== RESPONSE CACHE OPERATIONS ====================
+
+import { CachedResponse } from "../types/ResponseCache";
+
+/**
+ * Gets a cached response, ignoring expired entries
+ *
+ * @param {string} key - Cache key
+ * @returns {Promise<CachedResponse | null>} The entry, or null if missing or expired
+ */
+export async function getCachedResponse(key: string): Promise<CachedResponse | null> {
+  const doc = await db.collection(COLLECTIONS.RESPONSE_CACHE).doc(key).get();
+
+  if (!doc.exists) {
+    return null;
+  }
+
+  // TTL deletion is not immediate, expired entries can still be read
+  const entry = doc.data() as CachedResponse;
+  return entry.expires_at.toMillis() > Date.now() ? entry : null;
+}
+
+/**
+ * Stores a cached response
+ *
+ * @param {CachedResponse} entry - Entry to store (document ID is entry.key)
+ * @returns {Promise<void>}
+ */
+export async function saveCachedResponse(entry: CachedResponse): Promise<void> {
+  await db.collection(COLLECTIONS.RESPONSE_CACHE).doc(entry.key).set(entry);
+}
+
+// ==================== CHAT SESSION OPERATIONS ====================
+
+import {
+  ChatSession,
+  ChatSessionMessage,
+  MAX_CHAT_SESSION_MESSAGES,
+} from "../types/ChatSession";
+import { AIModel } from "../types/ModelConfig";
+
+/**
+ * Gets the document ID for a chat session
+ *
+ * @param {string} licenseId - Owning license
+ * @param {string} chatId - Conversation ID
+ * @returns {string} Document ID
+ */
+export function getChatSessionDocId(licenseId: string, chatId: string): string {
+  return `${licenseId}_${chatId}`;
+}
+
+/**
+ * Gets a chat session for a license
+ *
+ * @param {string} licenseId - Owning license
+ * @param {string} chatId - Conversation ID
+ * @returns {Promise<ChatSession | null>} The session or null if not found
+ *
+ * @example
+ * ```typescript
+ * const session = await getChatSession("CREATOR-2024-ABCDE-FGHIJ", "chat_123");
+ * const history = session?.messages ?? [];
+ * ```
+ */
+export async function getChatSession(
+  licenseId: string,
+  chatId: string
+): Promise<ChatSession | null> {
+  const docId = getChatSessionDocId(licenseId, chatId);
+  const doc = await db.collection(COLLECTIONS.CHAT_SESSIONS).doc(docId).get();
+
+  if (!doc.exists) {
+    return null;
+  }
+
+  return doc.data() as ChatSession;
+}
+
+/**
+ * Appends turns to a chat session, creating it if needed
+ *
+ * @param {string} licenseId - Owning license
+ * @param {string} chatId - Conversation ID
+ * @param {ChatSessionMessage[]} messages - Turns to append, oldest first
+ * @param {AIModel} lockedModel - Model to lock the session to (optional)
+ * @param {boolean} replaceLock - Move an existing lock to lockedModel (relock)
+ * @returns {Promise<AIModel | undefined>} The session's lock after the write
+ *
+ * @description
+ * Uses a transaction so concurrent turns are not lost. Only the most
+ * recent MAX_CHAT_SESSION_MESSAGES turns are kept. The lock is set in
+ * the same transaction and only if none is stored yet, so two concurrent
+ * first turns cannot lock the session to different models.
+ */
+export async function appendChatMessages(
+  licenseId: string,
+  chatId: string,
+  messages: ChatSessionMessage[],
+  lockedModel?: AIModel,
+  replaceLock = false
+): Promise<AIModel | undefined> {
+  const docId = getChatSessionDocId(licenseId, chatId);
+  const docRef = db.collection(COLLECTIONS.CHAT_SESSIONS).doc(docId);
+  const now = Timestamp.now();
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
+
+    if (!doc.exists) {
+      const session: ChatSession = {
+        chat_id: chatId,
+        license_id: licenseId,
+        messages: messages.slice(-MAX_CHAT_SESSION_MESSAGES),
+        message_count: messages.length,
+        ...(lockedModel && { locked_model: lockedModel }),
+        created_at: now,
+        updated_at: now,
+      };
+      transaction.set(docRef, session);
+      return lockedModel;
+    }
+
+    const session = doc.data() as ChatSession;
+    const lock = session.locked_model && !replaceLock
+      ? session.locked_model
+      : lockedModel ?? session.locked_model;
+
+    transaction.update(docRef, {
+      messages: [...session.messages, ...messages].slice(-MAX_CHAT_SESSION_MESSAGES),
+      message_count: FieldValue.increment(messages.length),
+      ...(lock && { locked_model: lock }),
+      updated_at: now,
+    });
+    return lock;
+  });
+}
+
+/**
+ * Lists a license's chat sessions, most recently updated first
+ *
+ * @param {string} licenseId - Owning license
+ * @param {number} limit - Maximum sessions to return
+ * @returns {Promise<ChatSession[]>} Sessions
+ */
+export async function listChatSessions(
+  licenseId: string,
+  limit: number
+): Promise<ChatSession[]> {
+  const snapshot = await db
+    .collection(COLLECTIONS.CHAT_SESSIONS)
+    .where("license_id", "==", licenseId)
+    .orderBy("updated_at", "desc")
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => doc.data() as ChatSession);
+}
+
+/**
+ * Deletes a chat session
+ *
+ * @param {string} licenseId - Owning license
+ * @param {string} chatId - Conversation ID
+ * @returns {Promise<boolean>} True if deleted, false if not found
+ */
+export async function deleteChatSession(
+  licenseId: string,
+  chatId: string
+): Promise<boolean> {
+  const docId = getChatSessionDocId(licenseId, chatId);
+  const docRef = db.collection(COLLECTIONS.CHAT_SESSIONS).doc(docId);
+
+  const doc = await docRef.get();
+  if (!doc.exists) {
+    return false;
+  }
+
+  await docRef.delete();
+  return true;
+}
+
+// ==================== IDEMPOTENCY KEY OPERATIONS ====================
+
+import { createHash } from "crypto";
+import {
+  IdempotencyClaim,
+  IdempotencyRecord,
+  StoredResponse,
+  IDEMPOTENCY_KEY_TTL_SECONDS,
+  IDEMPOTENCY_LOCK_SECONDS,
+} from "../types/Idempotency";
+
+/**
+ * Gets the document ID for an idempotency key
+ *
+ * @param {string} licenseId - License that sent the key
+ * @param {string} key - Idempotency-Key header value
+ * @returns {string} Document ID (SHA-256 hex, the key may contain any character)
+ */
+export function getIdempotencyDocId(licenseId: string, key: string): string {
+  return createHash("sha256").update(`${licenseId}:${key}`).digest("hex");
+}
+
+/**
+ * Claims an idempotency key for a request
+ *
+ * @param {string} licenseId - License that sent the key
+ * @param {string} key - Idempotency-Key header value
+ * @param {string} requestHash - Hash of the request's route and body
+ * @returns {Promise<IdempotencyClaim>} Whether the request runs, or what to answer instead
+ *
+ * @description
+ * Uses a transaction so two concurrent retries cannot both run. Expired
+ * records, and in-progress ones older than IDEMPOTENCY_LOCK_SECONDS
+ * (their request was killed), are claimed again.
+ *
+ * @example
+ * ```typescript
+ * const claim = await claimIdempotencyKey(licenseId, "retry-42", requestHash);
+ * if (claim.outcome === "completed") {
+ *   // replay claim.response
+ * }
+ * ```
+ */
+export async function claimIdempotencyKey(
+  licenseId: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  const docRef = db.collection(COLLECTIONS.IDEMPOTENCY_KEYS).doc(getIdempotencyDocId(licenseId, key));
+  const now = Timestamp.now();
+
+  return db.runTransaction(async (transaction): Promise<IdempotencyClaim> => {
+    const doc = await transaction.get(docRef);
+    const record = doc.exists ? (doc.data() as IdempotencyRecord) : null;
+
+    // TTL deletion is not immediate, expired records can still be read
+    const live = record !== null &&
+      record.expires_at.toMillis() > now.toMillis() &&
+      (record.status === "completed" ||
+        now.toMillis() - record.updated_at.toMillis() < IDEMPOTENCY_LOCK_SECONDS * 1000);
+
+    if (record && live) {
+      if (record.request_hash !== requestHash) {
+        return { outcome: "mismatch" };
+      }
+      return record.status === "completed" && record.response
+        ? { outcome: "completed", response: record.response }
+        : { outcome: "in_progress" };
+    }
+
+    const newRecord: IdempotencyRecord = {
+      key,
+      license_id: licenseId,
+      request_hash: requestHash,
+      status: "in_progress",
+      created_at: now,
+      updated_at: now,
+      expires_at: Timestamp.fromMillis(now.toMillis() + IDEMPOTENCY_KEY_TTL_SECONDS * 1000),
+    };
+    transaction.set(docRef, newRecord);
+    return { outcome: "acquired" };
+  });
+}
+
+/**
+ * Stores the response of a claimed idempotency key
+ *
+ * @param {string} licenseId - License that sent the key
+ * @param {string} key - Idempotency-Key header value
+ * @param {StoredResponse} response - Response to replay
+ * @returns {Promise<void>}
+ */
+export async function completeIdempotencyKey(
+  licenseId: string,
+  key: string,
+  response: StoredResponse
+): Promise<void> {
+  await db.collection(COLLECTIONS.IDEMPOTENCY_KEYS).doc(getIdempotencyDocId(licenseId, key)).update({
+    status: "completed",
+    response,
+    updated_at: Timestamp.now(),
+  });
+}
+
+/**
+ * Releases a claimed idempotency key, so a retry runs again
+ *
+ * @param {string} licenseId - License that sent the key
+ * @param {string} key - Idempotency-Key header value
+ * @returns {Promise<void>}
+ */
+export async function releaseIdempotencyKey(
+  licenseId: string,
+  key: string
+): Promise<void> {
+  await db.collection(COLLECTIONS.IDEMPOTENCY_KEYS).doc(getIdempotencyDocId(licenseId, key)).delete();
+}
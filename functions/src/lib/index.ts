@@ -7,3 +7,7 @@ export * from "./firestore";
 export * from "./jwt";
 export * from "./logger";
 export * from "./secrets";
+export * from "./attachments";
+export * from "./tokens";
+export * from "./deadline";
+export * from "./validation";
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Local token estimates for generation requests
+ * @module lib/tokens
+ *
+ * @description
+ * Estimates the input tokens of a request without calling a provider:
+ * text at ~4 characters per token, images at a flat per-image cost, PDFs
+ * per page and text/DOCX files by their extracted text. Providers use it
+ * as the fallback of their native counting, and the pre-flight check uses
+ * it to decide whether a native count is worth a round trip.
+ */
+
+import { FileAttachment, GenerateOptions } from "../types/AIProvider";
+import {
+  DOCX_MIME_TYPE,
+  TEXT_ATTACHMENT_TYPES,
+  extractDocxText,
+  resolveAttachmentType,
+  stripDataUri,
+} from "./attachments";
+
+/**
+ * Average characters per token of English text and code
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tokens per image (Claude bills ~1600 for a 1092x1092 image, Gemini 258 per tile)
+ */
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+
+/**
+ * Tokens per PDF page (text plus the page image)
+ */
+export const PDF_PAGE_TOKEN_ESTIMATE = 2000;
+
+/**
+ * Estimates the tokens of a text
+ *
+ * @param {string} text - Text to estimate
+ * @returns {number} Estimated tokens
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the tokens of one attachment
+ *
+ * @param {FileAttachment} file - The attachment
+ * @returns {number} Estimated tokens (0 for types no provider reads)
+ */
+export function estimateFileTokens(file: FileAttachment): number {
+  const type = resolveAttachmentType(file);
+
+  if (type.startsWith("image/")) {
+    return IMAGE_TOKEN_ESTIMATE;
+  }
+
+  const data = Buffer.from(stripDataUri(file.base64), "base64");
+
+  if (type === "application/pdf") {
+    const pages = data.toString("latin1").match(/\/Type\s*\/Page[^s]/g)?.length ?? 1;
+    return pages * PDF_PAGE_TOKEN_ESTIMATE;
+  }
+
+  if (type === DOCX_MIME_TYPE) {
+    try {
+      return estimateTextTokens(extractDocxText(data));
+    } catch {
+      return 0;
+    }
+  }
+
+  return TEXT_ATTACHMENT_TYPES.includes(type) ? estimateTextTokens(data.toString("utf8")) : 0;
+}
+
+/**
+ * Collects every text of a request that is sent as input
+ *
+ * @param {string} prompt - User prompt
+ * @param {GenerateOptions} options - System prompt, history, tools, tool results and schema
+ * @returns {string} The texts joined by newlines
+ */
+export function collectRequestText(prompt: string, options?: GenerateOptions): string {
+  return [
+    options?.system_prompt ?? "",
+    ...(options?.messages ?? []).flatMap((message) => [
+      message.content,
+      ...(message.tool_calls ?? []).map((call) => JSON.stringify(call)),
+      ...(message.tool_results ?? []).map((result) => result.content),
+    ]),
+    ...(options?.tool_results ?? []).map((result) => result.content),
+    ...(options?.tools ?? []).map((tool) => JSON.stringify(tool)),
+    options?.response_schema ? JSON.stringify(options.response_schema) : "",
+    prompt,
+  ].filter((text) => text !== "").join("\n");
+}
+
+/**
+ * Estimates the input tokens of a request
+ *
+ * @param {string} prompt - User prompt
+ * @param {GenerateOptions} options - Generation options with the rest of the input
+ * @returns {number} Estimated input tokens
+ *
+ * @example
+ * ```typescript
+ * estimateInputTokens("Summarize this", { system_prompt: "Be brief", files: [pdf] });
+ * ```
+ */
+export function estimateInputTokens(prompt: string, options?: GenerateOptions): number {
+  return estimateTextTokens(collectRequestText(prompt, options)) +
+    (options?.files ?? []).reduce((total, file) => total + estimateFileTokens(file), 0);
+}
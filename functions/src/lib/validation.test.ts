@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Unit tests for request validation
+ * @module lib/validation.test
+ */
+
+import { matchPathParams, validateRequest, validateSchema } from "./validation";
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+
+const OPERATION: ApiOperation = {
+  operationId: "test",
+  method: "post",
+  path: "/api/things/{thing_id}",
+  summary: "Test operation",
+  tag: "test",
+  auth: false,
+  errorCode: "INVALID_REQUEST",
+  params: {
+    type: "object",
+    properties: { thing_id: { type: "string", pattern: "^[a-z]+$" } },
+    required: ["thing_id"],
+  },
+  body: {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1, maxLength: 10, errorCode: "INVALID_NAME" },
+      count: { type: "integer", minimum: 1, maximum: 5 },
+      kind: { type: "string", enum: ["a", "b"] },
+      tags: { type: "array", maxItems: 2, items: { type: "string" } },
+    },
+    required: ["name"],
+  },
+  responses: {},
+};
+
+describe("validateSchema", () => {
+  it("should report a missing required field with its error code", () => {
+    expect(validateSchema({}, OPERATION.body as ApiSchema, "", "INVALID_REQUEST")).toEqual([
+      { field: "name", code: "INVALID_NAME", message: "name is required" },
+    ]);
+  });
+
+  it("should report every failing field in schema order", () => {
+    const errors = validateSchema(
+      { name: "x".repeat(11), count: 9, kind: "c", tags: ["ok", 3] },
+      OPERATION.body as ApiSchema,
+      "",
+      "INVALID_REQUEST"
+    );
+
+    expect(errors).toEqual([
+      { field: "name", code: "INVALID_NAME", message: "name must be between 1 and 10 characters long" },
+      { field: "count", code: "INVALID_REQUEST", message: "count must be between 1 and 5" },
+      { field: "kind", code: "INVALID_REQUEST", message: "kind must be one of: a, b" },
+      { field: "tags[1]", code: "INVALID_REQUEST", message: "tags[1] must be a string" },
+    ]);
+  });
+
+  it("should name the body when the whole body is wrong", () => {
+    expect(validateSchema("text", OPERATION.body as ApiSchema, "", "INVALID_REQUEST")).toEqual([
+      { field: "body", code: "INVALID_REQUEST", message: "body must be an object" },
+    ]);
+  });
+
+  it("should treat null as missing", () => {
+    const errors = validateSchema({ name: "ok", count: null }, OPERATION.body as ApiSchema, "", "INVALID_REQUEST");
+    expect(errors).toEqual([]);
+  });
+
+  it("should validate oneOf against the branch of the value's type", () => {
+    const schema: ApiSchema = {
+      oneOf: [{ type: "boolean" }, { type: "object", properties: { ttl: { type: "integer", minimum: 1 } } }],
+      errorCode: "INVALID_CACHE",
+    };
+
+    expect(validateSchema(true, schema, "cache", "INVALID_REQUEST")).toEqual([]);
+    expect(validateSchema({ ttl: 0 }, schema, "cache", "INVALID_REQUEST")).toEqual([
+      { field: "cache.ttl", code: "INVALID_CACHE", message: "cache.ttl must be at least 1" },
+    ]);
+    expect(validateSchema("yes", schema, "cache", "INVALID_REQUEST")).toEqual([
+      { field: "cache", code: "INVALID_CACHE", message: "cache must be boolean or object" },
+    ]);
+  });
+
+  it("should pick the variant named by a body field", () => {
+    const schema: ApiSchema = {
+      variants: {
+        by: "kind",
+        schemas: {
+          a: { type: "object", required: ["x"] },
+          b: { type: "object", required: ["y"] },
+        },
+      },
+    };
+
+    expect(validateSchema({ x: 1 }, schema, "data", "INVALID_DATA", { kind: "a" })).toEqual([]);
+    expect(validateSchema({ x: 1 }, schema, "data", "INVALID_DATA", { kind: "b" })).toEqual([
+      { field: "data.y", code: "INVALID_DATA", message: "data.y is required" },
+    ]);
+  });
+
+  it("should run checks only once the keywords pass, with the body", () => {
+    const check = jest.fn((value: unknown, body: Record<string, unknown>) =>
+      body.stream === true ? "is not supported with stream" : undefined
+    );
+    const schema: ApiSchema = { type: "string", check };
+
+    expect(validateSchema(1, schema, "mode", "INVALID_MODE", { stream: true })[0].message)
+      .toBe("mode must be a string");
+    expect(check).not.toHaveBeenCalled();
+    expect(validateSchema("json", schema, "mode", "INVALID_MODE", { stream: true })[0].message)
+      .toBe("mode is not supported with stream");
+  });
+
+  it("should use the schema message instead of the generated one", () => {
+    const schema: ApiSchema = { type: "string", pattern: "^[a-z]+$", message: "must be lowercase letters" };
+    expect(validateSchema("ABC", schema, "slug", "INVALID_SLUG")[0].message).toBe("slug must be lowercase letters");
+  });
+
+  it("should leave items alone when validateItems is false", () => {
+    const schema: ApiSchema = { type: "array", minItems: 1, items: { type: "object" }, validateItems: false };
+    expect(validateSchema(["not an object"], schema, "items", "INVALID_BATCH")).toEqual([]);
+    expect(validateSchema([], schema, "items", "INVALID_BATCH")[0].message).toBe("items must not be empty");
+  });
+});
+
+describe("matchPathParams", () => {
+  it("should match a full hosting path", () => {
+    expect(matchPathParams("/api/plugin-docs/{plugin_slug}/{plugin_version}", "/api/plugin-docs/acf/6.2.5"))
+      .toEqual({ plugin_slug: "acf", plugin_version: "6.2.5" });
+  });
+
+  it("should match a function path without the literal prefix", () => {
+    expect(matchPathParams("/api/plugin-docs/{plugin_slug}/{plugin_version}", "/acf/6.2.5"))
+      .toEqual({ plugin_slug: "acf", plugin_version: "6.2.5" });
+    expect(matchPathParams("/api/plugin-docs/all/{plugin_slug}", "/woocommerce"))
+      .toEqual({ plugin_slug: "woocommerce" });
+  });
+
+  it("should match a gateway path without the /api prefix", () => {
+    expect(matchPathParams("/api/plugin-docs/{plugin_slug}/{plugin_version}", "/plugin-docs/acf/6.2.5"))
+      .toEqual({ plugin_slug: "acf", plugin_version: "6.2.5" });
+    expect(matchPathParams("/api/plugin-docs/all/{plugin_slug}", "/plugin-docs/all/woocommerce"))
+      .toEqual({ plugin_slug: "woocommerce" });
+  });
+
+  it("should decode parameters and leave missing ones out", () => {
+    expect(matchPathParams("/api/plugin-docs/{plugin_slug}/{plugin_version}", "/my%20plugin"))
+      .toEqual({ plugin_slug: "my plugin" });
+  });
+
+  it("should leave out parameters with a malformed encoding", () => {
+    expect(matchPathParams("/api/plugin-docs/{plugin_slug}/{plugin_version}", "/acf/%E0%A4%A"))
+      .toEqual({ plugin_slug: "acf" });
+  });
+
+  it("should return nothing for a template without parameters", () => {
+    expect(matchPathParams("/api/plugin-docs/stats", "/api/plugin-docs/stats")).toEqual({});
+  });
+});
+
+describe("validateRequest", () => {
+  it("should merge path parameters and body when valid", () => {
+    const result = validateRequest({ path: "/api/things/abc", body: { name: "Thing" } }, OPERATION);
+
+    expect(result.valid).toBe(true);
+    expect(result.data).toEqual({ thing_id: "abc", name: "Thing" });
+    expect(result.errors).toEqual([]);
+  });
+
+  it("should report path and body errors together", () => {
+    const result = validateRequest({ path: "/api/things/ABC", body: {} }, OPERATION);
+
+    expect(result.valid).toBe(false);
+    expect(result.data).toBeUndefined();
+    expect(result.errors.map((error) => error.field)).toEqual(["thing_id", "name"]);
+  });
+
+  it("should report a missing path parameter", () => {
+    const result = validateRequest({ path: "/api/things", body: { name: "Thing" } }, OPERATION);
+    expect(result.errors).toEqual([
+      { field: "thing_id", code: "INVALID_REQUEST", message: "thing_id is required" },
+    ]);
+  });
+
+  it("should report a path parameter with a malformed encoding", () => {
+    const result = validateRequest({ path: "/api/things/%E0%A4%A", body: { name: "Thing" } }, OPERATION);
+    expect(result.errors).toEqual([
+      { field: "thing_id", code: "INVALID_REQUEST", message: "thing_id is not a valid URL-encoded value" },
+    ]);
+  });
+
+  it("should keep the path parameter when the body has a field of the same name", () => {
+    const result = validateRequest({ path: "/api/things/abc", body: { name: "Thing", thing_id: "xyz" } }, OPERATION);
+    expect(result.data).toEqual({ thing_id: "abc", name: "Thing" });
+  });
+
+  it("should reject a missing body", () => {
+    const result = validateRequest({ path: "/api/things/abc" }, OPERATION);
+    expect(result.errors).toEqual([
+      { field: "body", code: "INVALID_REQUEST", message: "body must be an object" },
+    ]);
+  });
+});
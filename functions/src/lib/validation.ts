@@ -0,0 +1,338 @@
+/**
+ * @fileoverview Runtime validation of requests against their ApiOperation
+ * @module lib/validation
+ *
+ * @description
+ * Validates the path parameters, query and body of a request against the
+ * declarative schemas of its operation (see schemas/), and reports every
+ * failing field with its error code. The endpoints answer failures with
+ * one envelope: { success: false, error, code, details: FieldError[] }.
+ */
+
+import { JsonSchemaType } from "../types/StructuredOutput";
+import { ApiOperation, ApiSchema, FieldError, ValidationResult } from "../types/ApiSchema";
+
+/**
+ * Request values validated against an operation
+ */
+export interface RequestValues {
+  /** Request path, relative to the function or the hosting root */
+  path: string;
+
+  /** Parsed query string */
+  query?: unknown;
+
+  /** Parsed JSON body */
+  body?: unknown;
+}
+
+/**
+ * Compiled patterns, by source
+ */
+const patterns = new Map<string, RegExp>();
+
+/**
+ * Checks if a value has a JSON type
+ */
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Describes a bounded range, e.g. "between 1 and 50", "at least 1"
+ */
+function describeRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}`;
+  }
+  return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
+
+/**
+ * Finds the first keyword a value breaks
+ *
+ * @returns {string | undefined} Message of the failure, without the field
+ */
+function checkKeywords(value: unknown, schema: ApiSchema): string | undefined {
+  if (schema.type && !hasType(value, schema.type)) {
+    return `must be ${schema.type === "integer" || schema.type === "object" || schema.type === "array" ? "an" : "a"} ${schema.type}`;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return `must be one of: ${schema.enum.join(", ")}`;
+  }
+
+  if (typeof value === "string") {
+    if ((schema.minLength !== undefined && value.length < schema.minLength) ||
+      (schema.maxLength !== undefined && value.length > schema.maxLength)) {
+      return value.length === 0
+        ? "must not be empty"
+        : `must be ${describeRange(schema.minLength, schema.maxLength)} characters long`;
+    }
+    if (schema.pattern !== undefined) {
+      const pattern = patterns.get(schema.pattern) ?? new RegExp(schema.pattern);
+      patterns.set(schema.pattern, pattern);
+      if (!pattern.test(value)) {
+        return "has an invalid format";
+      }
+    }
+  }
+
+  if (typeof value === "number" &&
+    ((schema.minimum !== undefined && value < schema.minimum) ||
+      (schema.maximum !== undefined && value > schema.maximum))) {
+    return `must be ${describeRange(schema.minimum, schema.maximum)}`;
+  }
+
+  if (Array.isArray(value) &&
+    ((schema.minItems !== undefined && value.length < schema.minItems) ||
+      (schema.maxItems !== undefined && value.length > schema.maxItems))) {
+    return value.length === 0
+      ? "must not be empty"
+      : `must have ${describeRange(schema.minItems, schema.maxItems)} items`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates a value against a schema
+ *
+ * @param {unknown} value - Value to check
+ * @param {ApiSchema} schema - Expected schema
+ * @param {string} path - Path of the value ("" for the whole body)
+ * @param {string} errorCode - Error code inherited from the parent
+ * @param {Record<string, unknown>} body - Whole request, passed to variants and checks
+ * @returns {FieldError[]} Failures of the value and its children, in schema order
+ */
+export function validateSchema(
+  value: unknown,
+  schema: ApiSchema,
+  path: string,
+  errorCode: string,
+  body: Record<string, unknown> = {}
+): FieldError[] {
+  const code = schema.errorCode ?? errorCode;
+  const field = path || "body";
+  const fail = (message: string): FieldError[] =>
+    [{ field, code, message: `${field} ${schema.message ?? message}` }];
+
+  if (schema.variants) {
+    const selected = schema.variants.schemas[String(body[schema.variants.by])];
+    return selected ? validateSchema(value, selected, path, code, body) : [];
+  }
+
+  if (schema.oneOf) {
+    const branch = schema.oneOf.find((option) => !option.type || hasType(value, option.type));
+    if (!branch) {
+      return fail(`must be ${schema.oneOf.map((option) => option.type).join(" or ")}`);
+    }
+    const errors = validateSchema(value, branch, path, code, body);
+    if (errors.length > 0) {
+      return errors;
+    }
+  } else {
+    const failure = checkKeywords(value, schema);
+    if (failure) {
+      return fail(failure);
+    }
+  }
+
+  const errors: FieldError[] = [];
+
+  if (Array.isArray(value) && schema.items && schema.validateItems !== false) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(item, schema.items as ApiSchema, `${path}[${index}]`, code, body));
+    });
+  }
+
+  if (hasType(value, "object") && (schema.properties || schema.required)) {
+    const record = value as Record<string, unknown>;
+    const required = new Set(schema.required ?? []);
+    const keys = [...Object.keys(schema.properties ?? {}), ...[...required].filter(
+      (key) => !schema.properties?.[key]
+    )];
+
+    for (const key of keys) {
+      const property = schema.properties?.[key] ?? {};
+      const propertyPath = path ? `${path}.${key}` : key;
+
+      if (record[key] === undefined || record[key] === null) {
+        if (required.has(key)) {
+          errors.push({
+            field: propertyPath,
+            code: property.missingErrorCode ?? property.errorCode ?? code,
+            message: `${propertyPath} is required`,
+          });
+        }
+        continue;
+      }
+
+      errors.push(...validateSchema(record[key], property, propertyPath, code, body));
+    }
+  }
+
+  if (errors.length === 0 && schema.check) {
+    const failure = schema.check(value, body);
+    if (failure) {
+      return fail(failure);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Extracts the path parameters of an operation from a request path, as sent
+ *
+ * @param {string} template - Operation path, e.g. "/api/plugin-docs/{plugin_slug}/{plugin_version}"
+ * @param {string} path - Request path, with or without the hosting prefix
+ * @returns {Record<string, string>} Percent-encoded parameters found (missing ones are left out)
+ *
+ * @description
+ * Called through a hosting rewrite the path is the full public path;
+ * through the API gateway it has no /api prefix (e.g.
+ * "/plugin-docs/acf/6.2.5"); called on its function URL the literal
+ * prefix is already stripped (e.g. "/acf/6.2.5"). All are matched
+ * against the template.
+ *
+ * @example
+ * ```typescript
+ * matchRawPathParams("/api/plugin-docs/all/{plugin_slug}", "/api/plugin-docs/all/my%20plugin");
+ * // { plugin_slug: "my%20plugin" }
+ * ```
+ */
+export function matchRawPathParams(template: string, path: string): Record<string, string> {
+  const templateParts = template.split("/").filter(Boolean);
+  const firstParam = templateParts.findIndex((part) => part.startsWith("{"));
+  if (firstParam === -1) {
+    return {};
+  }
+
+  const prefix = templateParts.slice(0, firstParam);
+  let parts = path.split("/").filter(Boolean);
+  const start = prefix.findIndex((_, offset) =>
+    prefix.slice(offset).every((part, index) => parts[index] === part)
+  );
+  if (start !== -1) {
+    parts = parts.slice(prefix.length - start);
+  }
+
+  const params: Record<string, string> = {};
+  templateParts.slice(firstParam).forEach((part, index) => {
+    if (part.startsWith("{") && parts[index] !== undefined) {
+      params[part.slice(1, -1)] = parts[index];
+    }
+  });
+  return params;
+}
+
+/**
+ * Decodes a percent-encoded path parameter
+ *
+ * @param {string} value - Parameter as sent
+ * @returns {string | null} Decoded value, or null if the encoding is malformed
+ */
+function decodePathParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts and decodes the path parameters of an operation from a request path
+ *
+ * @param {string} template - Operation path, e.g. "/api/plugin-docs/{plugin_slug}/{plugin_version}"
+ * @param {string} path - Request path, with or without the hosting prefix
+ * @returns {Record<string, string>} Parameters found (missing and malformed ones are left out)
+ *
+ * @example
+ * ```typescript
+ * matchPathParams("/api/plugin-docs/all/{plugin_slug}", "/api/plugin-docs/all/woocommerce");
+ * // { plugin_slug: "woocommerce" }
+ * ```
+ */
+export function matchPathParams(template: string, path: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(matchRawPathParams(template, path))) {
+    const decoded = decodePathParam(value);
+    if (decoded !== null) {
+      params[name] = decoded;
+    }
+  }
+  return params;
+}
+
+/**
+ * Validates a request against its operation
+ *
+ * @param {RequestValues} request - Path, query and body of the request
+ * @param {ApiOperation} operation - Operation the request targets
+ * @returns {ValidationResult<T>} The merged values when valid, the field errors otherwise
+ *
+ * @description
+ * Path parameters with a malformed percent-encoding are field errors. In
+ * the merged values the path parameters win over query and body fields of
+ * the same name, so a body cannot redirect the request to another resource.
+ *
+ * @example
+ * ```typescript
+ * const validation = validateRequest<RouteRequest>(req, ROUTE_REQUEST_OPERATION);
+ * if (!validation.valid) {
+ *   sendValidationErrorResponse(res, validation.errors);
+ *   return;
+ * }
+ * ```
+ */
+export function validateRequest<T>(
+  request: RequestValues,
+  operation: ApiOperation
+): ValidationResult<T> {
+  const rawParams = operation.params ? matchRawPathParams(operation.path, request.path) : {};
+  const params: Record<string, string> = {};
+  const encodingErrors: FieldError[] = [];
+
+  for (const [name, value] of Object.entries(rawParams)) {
+    const decoded = decodePathParam(value);
+    if (decoded === null) {
+      encodingErrors.push({
+        field: name,
+        code: operation.errorCode,
+        message: `${name} is not a valid URL-encoded value`,
+      });
+    } else {
+      params[name] = decoded;
+    }
+  }
+
+  const query = operation.query ? request.query ?? {} : {};
+  const body = operation.body ? request.body : {};
+  const record = hasType(body, "object") ? body as Record<string, unknown> : {};
+
+  const errors = [
+    ...encodingErrors,
+    ...(operation.params
+      ? validateSchema(params, operation.params, "", operation.errorCode)
+        .filter((error) => !encodingErrors.some((encoding) => encoding.field === error.field))
+      : []),
+    ...(operation.query ? validateSchema(query, operation.query, "", operation.errorCode) : []),
+    ...(operation.body ? validateSchema(body, operation.body, "", operation.errorCode, record) : []),
+  ];
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, data: { ...(query as object), ...record, ...params } as T, errors };
+}
@@ -5,3 +5,4 @@
 
 export * from "./rateLimit";
 export * from "./auth";
+export * from "./validation";
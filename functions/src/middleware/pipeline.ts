@@ -0,0 +1,521 @@
+/**
+ * @fileoverview Middleware pipeline shared by every route
+ * @module middleware/pipeline
+ *
+ * @description
+ * The stages every request goes through before its handler: request
+ * context (request ID and logger), CORS, error mapper, method check,
+ * then auth, rate limit, input validation, idempotency and plan
+ * entitlement when the route asks for them. Handlers only answer the request; the pipeline
+ * owns everything the endpoints used to repeat.
+ *
+ * Used by the API gateway and by the per-endpoint functions kept as
+ * aliases, so both answer the same way.
+ */
+
+import { Request, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { jwtSecret } from "../lib/secrets";
+import { createRequestLogger } from "../lib/logger";
+import {
+  checkAndIncrementRateLimit,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  createAuditLog,
+  getLicenseByKey,
+  releaseIdempotencyKey,
+} from "../lib/firestore";
+import { validateRequest } from "../lib/validation";
+import { hashIdempotentRequest, parseIdempotencyKey } from "../services/idempotency";
+import { authenticateRequest, sendAuthErrorResponse } from "./auth";
+import { createRateLimitMiddleware, getClientIP } from "./rateLimit";
+import { sendValidationErrorResponse } from "./validation";
+import { ApiOperation } from "../types/ApiSchema";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  StoredResponse,
+} from "../types/Idempotency";
+import { PLAN_ENTITLEMENTS } from "../types/License";
+import { LOW_QUOTA_WARNING_THRESHOLD, QUOTA_EXCEEDED_THRESHOLD } from "../types/Route";
+import {
+  GatewayRoute,
+  HttpMethod,
+  Middleware,
+  RequestContext,
+  RouteEntitlement,
+  RouteRateLimit,
+} from "../types/Gateway";
+
+/**
+ * Headers a browser may send cross-origin
+ */
+const CORS_ALLOWED_HEADERS = `Content-Type, Authorization, ${IDEMPOTENCY_KEY_HEADER}`;
+
+/**
+ * Creates the context of a request: its ID and its logger
+ *
+ * @param {Request} req - The incoming request
+ * @param {Response} res - The response (gets the X-Request-ID header)
+ * @param {string} path - Path the route was matched against
+ * @param {string} endpoint - Endpoint named in the logs (the route path)
+ * @returns {RequestContext} Context handed to the pipeline
+ */
+export function createRequestContext(
+  req: Request,
+  res: Response,
+  path: string,
+  endpoint: string
+): RequestContext {
+  const requestId = uuidv4();
+  const ipAddress = getClientIP(req);
+
+  res.setHeader("X-Request-ID", requestId);
+
+  return {
+    requestId,
+    ipAddress,
+    logger: createRequestLogger(requestId, endpoint, ipAddress),
+    path,
+  };
+}
+
+/**
+ * CORS headers for WordPress integration; answers preflight requests
+ *
+ * @param {HttpMethod[]} methods - Methods of the route
+ * @returns {Middleware} CORS stage
+ */
+export function cors(methods: HttpMethod[]): Middleware {
+  const allowMethods = [...methods, "OPTIONS"].join(", ");
+
+  return async (req, res, _ctx, next) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", allowMethods);
+    res.setHeader("Access-Control-Allow-Headers", CORS_ALLOWED_HEADERS);
+
+    if (req.method === "OPTIONS") {
+      res.status(204).send("");
+      return;
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Turns an error thrown by a later stage into a 500
+ *
+ * @description
+ * When the response already started (an event stream), the error goes
+ * out as an `error` event and the stream is closed.
+ */
+export const mapErrors: Middleware = async (_req, res, ctx, next) => {
+  try {
+    await next();
+  } catch (error) {
+    ctx.logger.error("Unhandled error", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    const errorPayload = {
+      success: false,
+      error: "Internal server error",
+      code: "INTERNAL_ERROR",
+    };
+
+    if (res.headersSent) {
+      if (String(res.getHeader("Content-Type")).startsWith("text/event-stream")) {
+        res.write(`event: error\ndata: ${JSON.stringify(errorPayload)}\n\n`);
+      }
+      res.end();
+      return;
+    }
+
+    res.status(500).json(errorPayload);
+  }
+};
+
+/**
+ * Rejects methods the route does not answer (405)
+ *
+ * @param {HttpMethod[]} methods - Methods of the route
+ * @returns {Middleware} Method check stage
+ */
+export function allowMethods(methods: HttpMethod[]): Middleware {
+  return async (req, res, ctx, next) => {
+    if (!methods.includes(req.method as HttpMethod)) {
+      ctx.logger.warn("Method not allowed", { method: req.method });
+      res.status(405).json({
+        success: false,
+        error: "Method not allowed",
+        code: "METHOD_NOT_ALLOWED",
+      });
+      return;
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Requires a valid site_token; sets ctx.claims
+ */
+export const authenticate: Middleware = async (req, res, ctx, next) => {
+  const authResult = await authenticateRequest(req, jwtSecret.value(), ctx.logger);
+
+  if (!authResult.authenticated || !authResult.claims) {
+    sendAuthErrorResponse(res, authResult);
+    return;
+  }
+
+  ctx.claims = authResult.claims;
+  await next();
+};
+
+/**
+ * Rate limits the route, per license or per client IP (429)
+ *
+ * @param {RouteRateLimit} config - Rate limit of the route
+ * @returns {Middleware} Rate limit stage
+ */
+export function limitRate(config: RouteRateLimit): Middleware {
+  if (config.by === "ip") {
+    const rateLimiter = createRateLimitMiddleware({
+      endpoint: config.bucket,
+      maxRequests: config.maxRequests,
+    });
+
+    return async (req, res, ctx, next) => {
+      const rateLimitResult = await rateLimiter(req, res, ctx.logger);
+      if (!rateLimitResult.continue) {
+        return; // Response already sent by rate limiter
+      }
+      await next();
+    };
+  }
+
+  return async (_req, res, ctx, next) => {
+    const licenseId = ctx.claims?.license_id;
+    if (!licenseId) {
+      throw new Error(`Rate limit "${config.bucket}" is per license but the route has no auth`);
+    }
+
+    const { limited, count } = await checkAndIncrementRateLimit(
+      `${config.bucket}:${licenseId}`,
+      ctx.ipAddress,
+      config.maxRequests
+    );
+
+    if (limited) {
+      ctx.logger.warn("Rate limited", { license_id: licenseId, count });
+      res.status(429).json({
+        success: false,
+        error: config.message ?? "Too many requests. Please try again later.",
+        code: "RATE_LIMITED",
+      });
+      return;
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Validates the input against the route's operation (400); sets ctx.data
+ *
+ * @param {ApiOperation} operation - Operation of the route
+ * @returns {Middleware} Validation stage
+ */
+export function validateInput(operation: ApiOperation): Middleware {
+  return async (req, res, ctx, next) => {
+    const validation = validateRequest(
+      { path: ctx.path, query: req.query, body: req.body },
+      operation
+    );
+
+    if (!validation.valid) {
+      ctx.logger.warn("Invalid request", { errors: validation.errors });
+      sendValidationErrorResponse(res, validation.errors);
+      return;
+    }
+
+    ctx.data = validation.data;
+    await next();
+  };
+}
+
+/**
+ * Records the status and JSON body a handler answers with
+ *
+ * @param {Response} res - The response
+ * @returns {Function} Gets the response to store, or null if nothing was sent
+ */
+function captureResponse(res: Response): () => StoredResponse | null {
+  const status = res.status.bind(res);
+  const json = res.json.bind(res);
+  let statusCode: number | undefined;
+  let body: unknown;
+
+  res.status = (code: number) => {
+    statusCode = code;
+    return status(code);
+  };
+  res.json = (value: unknown) => {
+    body = value;
+    return json(value);
+  };
+
+  return () => {
+    if (body !== undefined) {
+      return { status_code: statusCode ?? res.statusCode ?? 200, body_json: JSON.stringify(body) };
+    }
+    if (res.headersSent && String(res.getHeader("Content-Type")).startsWith("text/event-stream")) {
+      return { status_code: 200, streamed: true };
+    }
+    return null;
+  };
+}
+
+/**
+ * Honors the Idempotency-Key header (400, 409, 422); replays the stored
+ * response of a retried request
+ *
+ * @param {GatewayRoute} route - The route (its path is part of the request fingerprint)
+ * @returns {Middleware} Idempotency stage
+ *
+ * @description
+ * Runs before the entitlement check, so a replay neither needs quota nor
+ * uses any. Only responses of the handler are stored, for
+ * IDEMPOTENCY_KEY_TTL_SECONDS. A later stage's rejection (e.g. a 403 once
+ * the quota is exceeded) and server errors (5xx or thrown) release the
+ * key, so the retry runs again.
+ * Event streams cannot be replayed: a retry of a streamed request gets a
+ * 409 once the first one has finished.
+ */
+export function enforceIdempotency(route: GatewayRoute): Middleware {
+  return async (req, res, ctx, next) => {
+    const header = req.headers[IDEMPOTENCY_KEY_HEADER.toLowerCase()];
+    if (header === undefined) {
+      await next();
+      return;
+    }
+
+    const key = parseIdempotencyKey(header);
+    if (!key) {
+      res.status(400).json({
+        success: false,
+        error: `${IDEMPOTENCY_KEY_HEADER} must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} printable characters`,
+        code: "INVALID_IDEMPOTENCY_KEY",
+      });
+      return;
+    }
+
+    const licenseId = ctx.claims?.license_id;
+    if (!licenseId) {
+      throw new Error("Idempotency keys are per license but the route has no auth");
+    }
+
+    const claim = await claimIdempotencyKey(licenseId, key, hashIdempotentRequest(route.path, req.body));
+
+    if (claim.outcome === "mismatch") {
+      ctx.logger.warn("Idempotency key reused with a different request", { license_id: licenseId });
+      res.status(422).json({
+        success: false,
+        error: `${IDEMPOTENCY_KEY_HEADER} was already used with a different request`,
+        code: "IDEMPOTENCY_KEY_MISMATCH",
+      });
+      return;
+    }
+
+    if (claim.outcome === "in_progress") {
+      res.status(409).json({
+        success: false,
+        error: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress`,
+        code: "IDEMPOTENCY_KEY_IN_USE",
+      });
+      return;
+    }
+
+    if (claim.outcome === "completed") {
+      ctx.logger.info("Idempotent replay", { license_id: licenseId, status_code: claim.response.status_code });
+
+      if (!claim.response.body_json) {
+        res.status(409).json({
+          success: false,
+          error: `A streamed request cannot be replayed. Use a new ${IDEMPOTENCY_KEY_HEADER}.`,
+          code: "IDEMPOTENCY_KEY_IN_USE",
+        });
+        return;
+      }
+
+      res.setHeader(IDEMPOTENT_REPLAYED_HEADER, "true");
+      res.status(claim.response.status_code).json(JSON.parse(claim.response.body_json));
+      return;
+    }
+
+    const getResponse = captureResponse(res);
+
+    // The response is already sent: a failure is only logged, and the
+    // lock expires after IDEMPOTENCY_LOCK_SECONDS
+    const settle = async (response: StoredResponse | null): Promise<void> => {
+      try {
+        if (response && response.status_code < 500 && ctx.reachedHandler) {
+          await completeIdempotencyKey(licenseId, key, response);
+        } else {
+          await releaseIdempotencyKey(licenseId, key);
+        }
+      } catch (error) {
+        ctx.logger.error("Failed to settle idempotency key", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    };
+
+    try {
+      await next();
+    } catch (error) {
+      await settle(null);
+      throw error;
+    }
+
+    await settle(getResponse());
+  };
+}
+
+/**
+ * Loads the license and enforces its token quota (403); sets
+ * ctx.license and ctx.entitlements
+ *
+ * @param {RouteEntitlement} entitlement - Entitlement check of the route
+ * @returns {Middleware} Entitlement stage
+ */
+export function checkEntitlement(entitlement: RouteEntitlement): Middleware {
+  return async (_req, res, ctx, next) => {
+    const licenseId = ctx.claims?.license_id;
+    if (!licenseId) {
+      throw new Error("Entitlement check requires auth");
+    }
+
+    const license = await getLicenseByKey(licenseId);
+
+    if (!license) {
+      ctx.logger.error("License not found after auth", { license_id: licenseId });
+      res.status(500).json({
+        success: false,
+        error: "Internal error",
+        code: "INTERNAL_ERROR",
+      });
+      return;
+    }
+
+    const tokensRemaining = license.tokens_limit - license.tokens_used;
+
+    if (tokensRemaining < QUOTA_EXCEEDED_THRESHOLD) {
+      ctx.logger.warn("Quota exceeded", {
+        license_id: licenseId,
+        tokens_remaining: tokensRemaining,
+      });
+
+      await createAuditLog({
+        license_id: licenseId,
+        request_type: entitlement.requestType,
+        status: "failed",
+        error_message: "Quota exceeded",
+        ip_address: ctx.ipAddress,
+        ...(entitlement.auditMetadata && { metadata: entitlement.auditMetadata(ctx.data) }),
+      });
+
+      res.status(403).json({
+        success: false,
+        error: "Token quota exceeded. Please upgrade your plan.",
+        code: "QUOTA_EXCEEDED",
+      });
+      return;
+    }
+
+    // Low quota warning (included in response header)
+    if (tokensRemaining < LOW_QUOTA_WARNING_THRESHOLD) {
+      res.setHeader("X-Quota-Warning", "low");
+      res.setHeader("X-Tokens-Remaining", tokensRemaining.toString());
+    }
+
+    ctx.license = license;
+    ctx.entitlements = PLAN_ENTITLEMENTS[license.plan] ?? PLAN_ENTITLEMENTS.starter;
+    await next();
+  };
+}
+
+/**
+ * Lists the stages of a route, in order
+ *
+ * @param {GatewayRoute} route - The route
+ * @returns {Middleware[]} Stages run before the handler
+ */
+export function buildPipeline(route: GatewayRoute): Middleware[] {
+  return [
+    cors(route.methods),
+    mapErrors,
+    allowMethods(route.methods),
+    ...(route.auth ? [authenticate] : []),
+    ...(route.rateLimit ? [limitRate(route.rateLimit)] : []),
+    ...(route.operation ? [validateInput(route.operation)] : []),
+    ...(route.idempotent ? [enforceIdempotency(route)] : []),
+    ...(route.entitlement ? [checkEntitlement(route.entitlement)] : []),
+  ];
+}
+
+/**
+ * Runs stages one after the other, then the handler
+ *
+ * @param {Middleware[]} stages - Stages, in order
+ * @param {GatewayRoute} route - Route whose handler ends the chain
+ * @param {Request} req - The incoming request
+ * @param {Response} res - The response
+ * @param {RequestContext} ctx - Context of the request
+ * @returns {Promise<void>}
+ */
+export async function runPipeline(
+  stages: Middleware[],
+  route: GatewayRoute,
+  req: Request,
+  res: Response,
+  ctx: RequestContext
+): Promise<void> {
+  const dispatch = async (index: number): Promise<void> => {
+    if (index === stages.length) {
+      ctx.reachedHandler = true;
+      await route.handler(req, res, ctx);
+      return;
+    }
+    await stages[index](req, res, ctx, () => dispatch(index + 1));
+  };
+
+  await dispatch(0);
+}
+
+/**
+ * Creates the HTTP handler of a single route
+ *
+ * @param {GatewayRoute} route - The route
+ * @returns {Function} Handler for onRequest
+ *
+ * @description
+ * Used by the per-endpoint functions: the route is not matched against
+ * the path, which is whatever the function URL or hosting rewrite sent.
+ *
+ * @example
+ * ```typescript
+ * export const submitTask = onRequest({ secrets: [jwtSecret] }, createRouteHandler(SUBMIT_TASK_ROUTE));
+ * ```
+ */
+export function createRouteHandler(route: GatewayRoute) {
+  const stages = buildPipeline(route);
+
+  return async (req: Request, res: Response): Promise<void> => {
+    const ctx = createRequestContext(req, res, req.path ?? "", route.path);
+    await runPipeline(stages, route, req, res, ctx);
+  };
+}
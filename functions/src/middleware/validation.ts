@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Validation error responses for Creator AI Proxy
+ * @module middleware/validation
+ */
+
+import { Response } from "express";
+import { FieldError } from "../types/ApiSchema";
+import { ValidationErrorResponse } from "../types/APIResponse";
+
+/**
+ * Sends a validation error response
+ *
+ * @param {Response} res - The response object
+ * @param {FieldError[]} errors - Field errors from validateRequest (at least one)
+ * @returns {void}
+ *
+ * @description
+ * `error` and `code` come from the first failing field, so clients that
+ * only read them keep working; `details` lists every failing field.
+ *
+ * @example
+ * ```typescript
+ * const validation = validateRequest<SubmitTaskRequest>(req, SUBMIT_TASK_OPERATION);
+ * if (!validation.valid) {
+ *   sendValidationErrorResponse(res, validation.errors);
+ *   return;
+ * }
+ * ```
+ */
+export function sendValidationErrorResponse(
+  res: Response,
+  errors: FieldError[]
+): void {
+  const response: ValidationErrorResponse = {
+    success: false,
+    error: errors[0].message,
+    code: errors[0].code,
+    details: errors,
+  };
+
+  res.status(400).json(response);
+}
@@ -113,7 +113,8 @@ describe("ClaudeProvider", () => {
           max_tokens: 1000,
           system: "You are helpful",
           messages: [{ role: "user", content: "Test" }],
-        })
+        }),
+        expect.anything()
       );
     });
 
@@ -14,19 +14,36 @@ import {
   AIResponse,
   GenerateOptions,
   AIProviderError,
-  FileAttachment,
+  PromptCacheUsage,
   calculateCost,
+  calculatePromptCacheUsage,
   DEFAULT_GENERATE_OPTIONS,
   DEFAULT_RETRY_CONFIG,
   REQUEST_TIMEOUT_MS,
   RetryConfig,
+  StreamChunkHandler,
 } from "../types/AIProvider";
+import { ToolCall, ToolDefinition, ToolResult } from "../types/Tools";
 import { Logger } from "../lib/logger";
+import { applyDeadline, getRequestOptions } from "../lib/deadline";
+import { MODEL_IDS } from "../config/models";
+import { PreparedAttachments, prepareAttachments, formatAttachmentText } from "../lib/attachments";
+import { estimateInputTokens } from "../lib/tokens";
 
 /**
  * Default model for Claude - Opus 4 (highest quality)
  */
-const DEFAULT_MODEL = "claude-opus-4-5-20251101";
+const DEFAULT_MODEL = MODEL_IDS.claude;
+
+/**
+ * File types sent natively: images as image blocks, PDFs as document blocks
+ */
+const CLAUDE_FILE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"];
+
+/**
+ * Highest temperature the messages API accepts (requests allow up to 2)
+ */
+const MAX_TEMPERATURE = 1;
 
 /**
  * Claude Provider implementation
@@ -41,6 +58,12 @@ const DEFAULT_MODEL = "claude-opus-4-5-20251101";
  * - Token counting using tiktoken (cl100k_base encoding)
  * - Accurate cost calculation from API response usage
  * - Structured error handling
+ * - Streaming output via the messages API
+ * - Prompt caching of the system blocks (`prompt_cache` option)
+ * - Extended thinking within a token budget (`reasoning` option), except
+ *   on turns that return tool results
+ * - Tool calling through the Anthropic tools API (`tools` option)
+ * - PDF document blocks, and text/CSV/JSON/markdown/DOCX files as text
  *
  * @example
  * ```typescript
@@ -118,36 +141,51 @@ export class ClaudeProvider implements IAIProvider {
       files_count: options?.files?.length || 0,
     });
 
+    const attachments = this.prepareFiles(options);
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
       try {
         // Build message content with text and optional file attachments
-        const messageContent = this.buildMessageContent(prompt, options?.files);
-
         const response = await this.client.messages.create({
           model,
-          max_tokens: maxTokens,
-          temperature,
-          system: options?.system_prompt,
-          messages: [{ role: "user", content: messageContent }],
-        });
+          ...this.buildSampling(options, temperature, maxTokens),
+          system: this.buildSystem(options),
+          messages: this.buildMessages(prompt, options, attachments),
+          ...this.buildTools(options),
+        }, getRequestOptions(options));
 
         const latencyMs = Date.now() - startTime;
 
-        // Extract text content from response
+        // Extract text content from response (a forced tool call carries the JSON as input)
         let content = "";
+        let thinking = "";
+        const toolCalls: ToolCall[] = [];
         for (const block of response.content) {
           if (block.type === "text") {
             content += block.text;
+          } else if (block.type === "thinking") {
+            thinking += block.thinking;
+          } else if (block.type === "tool_use" && block.name === options?.response_schema?.name) {
+            content = JSON.stringify(block.input);
+            break;
+          } else if (block.type === "tool_use") {
+            toolCalls.push({
+              id: block.id,
+              name: block.name,
+              arguments: block.input as Record<string, unknown>,
+            });
           }
         }
 
-        // Get token counts from usage
-        const tokensInput = response.usage.input_tokens;
+        // Get token counts from usage (input_tokens excludes cached tokens)
+        const promptCache = this.getPromptCacheUsage(model, response.usage);
+        const tokensInput = response.usage.input_tokens +
+          (promptCache ? promptCache.write_tokens + promptCache.read_tokens : 0);
         const tokensOutput = response.usage.output_tokens;
         const totalTokens = tokensInput + tokensOutput;
-        const costUsd = calculateCost("claude", model, tokensInput, tokensOutput);
+        const costUsd = calculateCost("claude", model, tokensInput, tokensOutput, promptCache);
+        const reasoning = await this.buildReasoningResult(options, tokensOutput, content, thinking);
 
         this.logger.info("Generation successful", {
           model,
@@ -156,6 +194,9 @@ export class ClaudeProvider implements IAIProvider {
           cost_usd: costUsd,
           latency_ms: latencyMs,
           stop_reason: response.stop_reason,
+          ...(promptCache && { prompt_cache: promptCache }),
+          ...(reasoning.tokens_reasoning !== undefined && { tokens_reasoning: reasoning.tokens_reasoning }),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls.length }),
         });
 
         return {
@@ -168,10 +209,22 @@ export class ClaudeProvider implements IAIProvider {
           total_tokens: totalTokens,
           cost_usd: costUsd,
           latency_ms: latencyMs,
+          ...(promptCache && { prompt_cache: promptCache }),
+          ...reasoning,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          ...(attachments.skipped.length > 0 && { skipped_files: attachments.skipped }),
         };
       } catch (error) {
         lastError = error as Error;
-        const { shouldRetry, errorCode, statusCode } = this.parseError(error);
+        const delay = Math.min(
+          this.retryConfig.baseDelayMs * Math.pow(2, attempt),
+          this.retryConfig.maxDelayMs
+        );
+        const { shouldRetry, errorCode, statusCode } = applyDeadline(
+          this.parseError(error),
+          options,
+          attempt < this.retryConfig.maxRetries ? delay : undefined
+        );
 
         if (!shouldRetry || attempt === this.retryConfig.maxRetries) {
           this.logger.error("Generation failed", {
@@ -196,13 +249,150 @@ export class ClaudeProvider implements IAIProvider {
           };
         }
 
-        // Calculate backoff delay
+        this.logger.warn("Retrying after error", {
+          model,
+          attempt: attempt + 1,
+          max_retries: this.retryConfig.maxRetries,
+          delay_ms: delay,
+          error_code: errorCode,
+          status_code: statusCode,
+        });
+
+        await this.sleep(delay);
+      }
+    }
+
+    // Should not reach here, but handle just in case
+    return {
+      success: false,
+      provider: "claude",
+      model,
+      content: "",
+      tokens_input: 0,
+      tokens_output: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      latency_ms: Date.now() - startTime,
+      error: lastError?.message || "Unknown error",
+      error_code: "UNKNOWN_ERROR",
+    };
+  }
+
+  /**
+   * Generates content using Claude's streaming messages API
+   *
+   * @param {string} prompt - User prompt to send to the model
+   * @param {GenerateOptions | undefined} options - Optional generation parameters
+   * @param {StreamChunkHandler} onChunk - Called with each text delta
+   * @returns {Promise<AIResponse>} Final response with full content and usage metadata
+   *
+   * @description
+   * Retries follow the same backoff as generate(), but only while no text
+   * has been emitted yet. A failure after the first chunk is returned as-is.
+   */
+  async generateStream(
+    prompt: string,
+    options: GenerateOptions | undefined,
+    onChunk: StreamChunkHandler
+  ): Promise<AIResponse> {
+    const startTime = Date.now();
+    const model = options?.model || this.model;
+    const temperature = options?.temperature ?? DEFAULT_GENERATE_OPTIONS.temperature;
+    const maxTokens = options?.max_tokens ?? DEFAULT_GENERATE_OPTIONS.max_tokens;
+
+    this.logger.debug("Starting streaming generation", {
+      model,
+      temperature,
+      max_tokens: maxTokens,
+      prompt_length: prompt.length,
+      files_count: options?.files?.length || 0,
+    });
+
+    const attachments = this.prepareFiles(options);
+    let lastError: Error | null = null;
+    let lastErrorCode = "UNKNOWN_ERROR";
+    let streamStarted = false;
+    let content = "";
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        const stream = await this.client.messages.create({
+          model,
+          ...this.buildSampling(options, temperature, maxTokens),
+          system: this.buildSystem(options),
+          messages: this.buildMessages(prompt, options, attachments),
+          stream: true,
+        }, getRequestOptions(options));
+
+        let tokensInput = 0;
+        let tokensOutput = 0;
+        let promptCache: PromptCacheUsage | undefined;
+        let thinking = "";
+
+        for await (const event of stream) {
+          if (event.type === "message_start") {
+            promptCache = this.getPromptCacheUsage(model, event.message.usage);
+            tokensInput = event.message.usage.input_tokens +
+              (promptCache ? promptCache.write_tokens + promptCache.read_tokens : 0);
+            tokensOutput = event.message.usage.output_tokens;
+          } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+            streamStarted = true;
+            content += event.delta.text;
+            onChunk(event.delta.text);
+          } else if (event.type === "content_block_delta" && event.delta.type === "thinking_delta") {
+            thinking += event.delta.thinking;
+          } else if (event.type === "message_delta") {
+            tokensOutput = event.usage.output_tokens;
+          }
+        }
+
+        const latencyMs = Date.now() - startTime;
+        const totalTokens = tokensInput + tokensOutput;
+        const costUsd = calculateCost("claude", model, tokensInput, tokensOutput, promptCache);
+        const reasoning = await this.buildReasoningResult(options, tokensOutput, content, thinking);
+
+        this.logger.info("Streaming generation successful", {
+          model,
+          tokens_input: tokensInput,
+          tokens_output: tokensOutput,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+          ...(promptCache && { prompt_cache: promptCache }),
+          ...(reasoning.tokens_reasoning !== undefined && { tokens_reasoning: reasoning.tokens_reasoning }),
+        });
+
+        return {
+          success: true,
+          provider: "claude",
+          model,
+          content,
+          tokens_input: tokensInput,
+          tokens_output: tokensOutput,
+          total_tokens: totalTokens,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+          ...(promptCache && { prompt_cache: promptCache }),
+          ...reasoning,
+          ...(attachments.skipped.length > 0 && { skipped_files: attachments.skipped }),
+        };
+      } catch (error) {
+        lastError = error as Error;
         const delay = Math.min(
           this.retryConfig.baseDelayMs * Math.pow(2, attempt),
           this.retryConfig.maxDelayMs
         );
+        const { shouldRetry, errorCode, statusCode } = applyDeadline(
+          this.parseError(error),
+          options,
+          attempt < this.retryConfig.maxRetries ? delay : undefined
+        );
+        lastErrorCode = errorCode;
 
-        this.logger.warn("Retrying after error", {
+        if (streamStarted || !shouldRetry || attempt === this.retryConfig.maxRetries) {
+          break;
+        }
+
+        this.logger.warn("Retrying stream after error", {
           model,
           attempt: attempt + 1,
           max_retries: this.retryConfig.maxRetries,
@@ -215,70 +405,343 @@ export class ClaudeProvider implements IAIProvider {
       }
     }
 
-    // Should not reach here, but handle just in case
+    this.logger.error("Streaming generation failed", {
+      model,
+      error_code: lastErrorCode,
+      error_message: lastError?.message,
+      stream_started: streamStarted,
+    });
+
     return {
       success: false,
       provider: "claude",
       model,
-      content: "",
+      content,
       tokens_input: 0,
       tokens_output: 0,
       total_tokens: 0,
       cost_usd: 0,
       latency_ms: Date.now() - startTime,
       error: lastError?.message || "Unknown error",
-      error_code: "UNKNOWN_ERROR",
+      error_code: lastErrorCode,
     };
   }
 
+  /**
+   * Builds the system parameter, as cacheable blocks when prompt caching is on
+   *
+   * @param {GenerateOptions} options - Options with the system prompt and its blocks
+   * @returns {string | Anthropic.TextBlockParam[] | undefined} System prompt for the messages API
+   * @private
+   *
+   * @description
+   * Each block ends with a cache breakpoint, so the base prompt is still
+   * read from the cache when only the site context after it changes.
+   */
+  private buildSystem(options?: GenerateOptions): string | Anthropic.TextBlockParam[] | undefined {
+    if (!options?.prompt_cache || !options.system_prompt) {
+      return options?.system_prompt;
+    }
+
+    const blocks = options.system_blocks?.length ? options.system_blocks : [options.system_prompt];
+
+    return blocks.map((text) => ({
+      type: "text" as const,
+      text,
+      cache_control: { type: "ephemeral" as const },
+    }));
+  }
+
+  /**
+   * Reads the prompt cache token counts from a usage object
+   *
+   * @param {string} model - Model that produced the usage
+   * @param {Anthropic.Usage} usage - Usage from the messages API
+   * @returns {PromptCacheUsage | undefined} Cache usage, or undefined when nothing was cached
+   * @private
+   */
+  private getPromptCacheUsage(
+    model: string,
+    usage: Pick<Anthropic.Usage, "cache_creation_input_tokens" | "cache_read_input_tokens">
+  ): PromptCacheUsage | undefined {
+    const writeTokens = usage.cache_creation_input_tokens ?? 0;
+    const readTokens = usage.cache_read_input_tokens ?? 0;
+
+    if (writeTokens === 0 && readTokens === 0) {
+      return undefined;
+    }
+    return calculatePromptCacheUsage("claude", model, writeTokens, readTokens);
+  }
+
+  /**
+   * Builds the sampling params, enabling extended thinking when reasoning is requested
+   *
+   * @param {GenerateOptions} options - Options with the optional reasoning budget
+   * @param {number} temperature - Requested temperature
+   * @param {number} maxTokens - Requested answer length
+   * @returns {object} max_tokens, temperature and thinking params
+   * @private
+   *
+   * @description
+   * Temperatures above MAX_TEMPERATURE are capped. Thinking counts against
+   * max_tokens, so the budget is added on top of the requested answer
+   * length. Thinking does not accept a custom temperature.
+   */
+  private buildSampling(
+    options: GenerateOptions | undefined,
+    temperature: number,
+    maxTokens: number
+  ): Pick<Anthropic.MessageCreateParamsNonStreaming, "max_tokens" | "temperature" | "thinking"> {
+    if (!options?.reasoning || !this.canThink(options)) {
+      return { max_tokens: maxTokens, temperature: Math.min(temperature, MAX_TEMPERATURE) };
+    }
+
+    return {
+      max_tokens: maxTokens + options.reasoning.budget_tokens,
+      thinking: { type: "enabled", budget_tokens: options.reasoning.budget_tokens },
+    };
+  }
+
+  /**
+   * Checks whether extended thinking may be enabled for a turn
+   *
+   * @param {GenerateOptions} options - Generation options
+   * @returns {boolean} False on a turn that returns tool results
+   * @private
+   *
+   * @description
+   * With thinking on, the assistant turn that called the tools must be sent
+   * back with its signed thinking blocks. Tool calls are relayed through the
+   * client without them, so the turns of a tool loop after the first one
+   * run without thinking.
+   */
+  private canThink(options: GenerateOptions): boolean {
+    return !options.tool_results?.length;
+  }
+
+  /**
+   * Builds the reasoning fields of a response
+   *
+   * @param {GenerateOptions} options - Options with the optional reasoning request
+   * @param {number} tokensOutput - Output tokens reported by the API (thinking included)
+   * @param {string} content - Answer text
+   * @param {string} thinking - Thinking text returned by the API
+   * @returns {Promise<Pick<AIResponse, "tokens_reasoning" | "reasoning">>} Empty without reasoning
+   * @private
+   *
+   * @description
+   * The API bills thinking inside output_tokens without a separate count, so
+   * tokens_reasoning is estimated as output tokens minus the answer's tokens.
+   */
+  private async buildReasoningResult(
+    options: GenerateOptions | undefined,
+    tokensOutput: number,
+    content: string,
+    thinking: string
+  ): Promise<Pick<AIResponse, "tokens_reasoning" | "reasoning">> {
+    if (!options?.reasoning || !this.canThink(options)) {
+      return {};
+    }
+
+    const answerTokens = content ? await this.countTokens(content) : 0;
+
+    return {
+      tokens_reasoning: Math.max(0, tokensOutput - answerTokens),
+      ...(options.reasoning.include_thoughts && thinking && { reasoning: thinking }),
+    };
+  }
+
+  /**
+   * Builds the tools param: the client's tools and the response schema tool
+   *
+   * @param {GenerateOptions} options - Options with optional tools and response schema
+   * @returns {object} tools/tool_choice params, empty without tools or a schema
+   * @private
+   *
+   * @description
+   * A response schema is answered through a tool Claude is forced to call.
+   * Extended thinking does not allow forcing a tool, so with thinking the
+   * tool is only offered and a text answer is parsed as JSON instead.
+   * Client tools are offered with tool_choice auto.
+   */
+  private buildTools(
+    options?: GenerateOptions
+  ): Pick<Anthropic.MessageCreateParamsNonStreaming, "tools" | "tool_choice"> {
+    const tools: Anthropic.Tool[] = (options?.tools || []).map((tool) => this.toClaudeTool(tool));
+    const responseSchema = options?.response_schema;
+
+    if (responseSchema) {
+      tools.push({
+        name: responseSchema.name,
+        description: responseSchema.description,
+        input_schema: responseSchema.schema as unknown as Anthropic.Tool.InputSchema,
+      });
+
+      return {
+        tools,
+        tool_choice: options?.reasoning || options?.tools?.length ?
+          { type: "auto" } :
+          { type: "tool", name: responseSchema.name },
+      };
+    }
+
+    return tools.length > 0 ? { tools, tool_choice: { type: "auto" } } : {};
+  }
+
+  /**
+   * Maps a tool definition to an Anthropic tool
+   *
+   * @param {ToolDefinition} tool - Provider-neutral tool definition
+   * @returns {Anthropic.Tool} Tool for the messages API
+   * @private
+   */
+  private toClaudeTool(tool: ToolDefinition): Anthropic.Tool {
+    return {
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters as unknown as Anthropic.Tool.InputSchema,
+    };
+  }
+
+  /**
+   * Builds the messages array: conversation history, then the prompt
+   *
+   * @param {string} prompt - Text prompt for the current turn
+   * @param {GenerateOptions} options - Options with optional history and tool results
+   * @param {PreparedAttachments} attachments - Files of the current turn
+   * @returns {Anthropic.MessageParam[]} Messages for the messages API
+   * @private
+   *
+   * @description
+   * Tool calls become tool_use blocks on assistant turns, tool results
+   * become tool_result blocks leading the next user turn.
+   */
+  private buildMessages(
+    prompt: string,
+    options: GenerateOptions | undefined,
+    attachments: PreparedAttachments
+  ): Anthropic.MessageParam[] {
+    const history: Anthropic.MessageParam[] = (options?.messages || []).map((message) => {
+      if (message.tool_calls?.length) {
+        return {
+          role: message.role,
+          content: [
+            ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+            ...message.tool_calls.map((call) => ({
+              type: "tool_use" as const,
+              id: call.id,
+              name: call.name,
+              input: call.arguments,
+            })),
+          ],
+        };
+      }
+      if (message.tool_results?.length) {
+        return {
+          role: message.role,
+          content: [
+            ...this.buildToolResultBlocks(message.tool_results),
+            ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ],
+        };
+      }
+      return { role: message.role, content: message.content };
+    });
+
+    const content = this.buildMessageContent(prompt, attachments);
+    if (options?.tool_results?.length) {
+      const promptBlocks = typeof content === "string" ?
+        (content ? [{ type: "text" as const, text: content }] : []) :
+        content;
+
+      return [
+        ...history,
+        { role: "user", content: [...this.buildToolResultBlocks(options.tool_results), ...promptBlocks] },
+      ];
+    }
+
+    return [
+      ...history,
+      { role: "user", content },
+    ];
+  }
+
+  /**
+   * Maps tool results to tool_result blocks
+   *
+   * @param {ToolResult[]} results - Results of the previous turn's tool calls
+   * @returns {Anthropic.ToolResultBlockParam[]} Blocks for a user turn
+   * @private
+   */
+  private buildToolResultBlocks(results: ToolResult[]): Anthropic.ToolResultBlockParam[] {
+    return results.map((result) => ({
+      type: "tool_result",
+      tool_use_id: result.tool_call_id,
+      content: result.content,
+      ...(result.is_error && { is_error: true }),
+    }));
+  }
+
+  /**
+   * Sorts the request files into native, text and skipped files
+   *
+   * @param {GenerateOptions} options - Options with optional file attachments
+   * @returns {PreparedAttachments} Files for the current turn
+   * @private
+   */
+  private prepareFiles(options?: GenerateOptions): PreparedAttachments {
+    const attachments = prepareAttachments(options?.files, CLAUDE_FILE_TYPES, "claude");
+
+    for (const file of attachments.skipped) {
+      this.logger.warn("Skipping file for Claude", {
+        file_name: file.name,
+        file_type: file.type,
+        reason: file.reason,
+      });
+    }
+
+    return attachments;
+  }
+
   /**
    * Builds message content array for multimodal requests
    *
    * @param {string} prompt - Text prompt
-   * @param {FileAttachment[]} files - Optional file attachments
+   * @param {PreparedAttachments} attachments - Files of the current turn
    * @returns {string | Array} Content for message - string if no files, array if multimodal
    * @private
    */
   private buildMessageContent(
     prompt: string,
-    files?: FileAttachment[]
-  ): string | Anthropic.MessageCreateParams["messages"][0]["content"] {
+    attachments: PreparedAttachments
+  ): string | Anthropic.ContentBlockParam[] {
     // If no files, return simple string
-    if (!files || files.length === 0) {
+    if (attachments.binary.length === 0 && attachments.texts.length === 0) {
       return prompt;
     }
 
     // Build content blocks array for multimodal
-    const contentBlocks: Anthropic.MessageCreateParams["messages"][0]["content"] = [];
+    const contentBlocks: Anthropic.ContentBlockParam[] = [];
 
     // Add file blocks first (Claude processes them in order)
-    for (const file of files) {
-      // Only process supported image types for Claude
-      const supportedTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"];
-
-      if (!supportedTypes.includes(file.type)) {
-        this.logger.warn("Unsupported file type for Claude, skipping", {
-          file_name: file.name,
-          file_type: file.type,
+    for (const file of attachments.binary) {
+      if (file.type === "application/pdf") {
+        contentBlocks.push({
+          type: "document",
+          source: { type: "base64", media_type: "application/pdf", data: file.base64 },
+          title: file.name,
+        });
+      } else {
+        contentBlocks.push({
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: file.type as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
+            data: file.base64,
+          },
         });
-        continue;
-      }
-
-      // Remove data URI prefix if present (e.g., "data:image/png;base64,")
-      let base64Data = file.base64;
-      if (base64Data.includes(",")) {
-        base64Data = base64Data.split(",")[1];
       }
 
-      contentBlocks.push({
-        type: "image",
-        source: {
-          type: "base64",
-          media_type: file.type as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
-          data: base64Data,
-        },
-      });
-
       this.logger.debug("Added file to Claude request", {
         file_name: file.name,
         file_type: file.type,
@@ -286,11 +749,17 @@ export class ClaudeProvider implements IAIProvider {
       });
     }
 
-    // Add text prompt last
-    contentBlocks.push({
-      type: "text",
-      text: prompt,
-    });
+    for (const file of attachments.texts) {
+      contentBlocks.push({ type: "text", text: formatAttachmentText(file) });
+    }
+
+    // Add text prompt last (tool result turns may have none)
+    if (prompt) {
+      contentBlocks.push({
+        type: "text",
+        text: prompt,
+      });
+    }
 
     return contentBlocks;
   }
@@ -322,6 +791,35 @@ export class ClaudeProvider implements IAIProvider {
     }
   }
 
+  /**
+   * Counts the input tokens of a request with Anthropic's token counting API
+   *
+   * @param {string} prompt - The user prompt
+   * @param {GenerateOptions} options - Options with system prompt, history, files and tools
+   * @returns {Promise<number>} Input tokens
+   *
+   * @description
+   * Counts exactly what generate() would send. Falls back to the local
+   * estimate if the API call fails.
+   */
+  async countInputTokens(prompt: string, options?: GenerateOptions): Promise<number> {
+    try {
+      const attachments = prepareAttachments(options?.files, CLAUDE_FILE_TYPES, "claude");
+      const result = await this.client.messages.countTokens({
+        model: options?.model || this.model,
+        system: this.buildSystem(options),
+        messages: this.buildMessages(prompt, options, attachments),
+        ...this.buildTools(options),
+      });
+      return result.input_tokens;
+    } catch {
+      this.logger.warn("Claude countTokens failed, using estimation", {
+        model: options?.model || this.model,
+      });
+      return estimateInputTokens(prompt, options);
+    }
+  }
+
   /**
    * Gets the default model name
    *
@@ -13,6 +13,7 @@ describe("GeminiProvider", () => {
   const TEST_API_KEY = "test-gemini-api-key";
   const mockGenerateContent = jest.fn();
   const mockCountTokens = jest.fn();
+  const mockBatchEmbedContents = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -22,6 +23,7 @@ describe("GeminiProvider", () => {
       getGenerativeModel: jest.fn(() => ({
         generateContent: mockGenerateContent,
         countTokens: mockCountTokens,
+        batchEmbedContents: mockBatchEmbedContents,
       })),
     }));
   });
@@ -213,6 +215,43 @@ describe("GeminiProvider", () => {
     });
   });
 
+  describe("embed", () => {
+    it("should embed texts with the task type and estimated tokens", async () => {
+      const provider = new GeminiProvider(TEST_API_KEY);
+
+      mockBatchEmbedContents.mockResolvedValueOnce({
+        embeddings: [{ values: [0.1, 0.2, 0.3] }, { values: [0.4, 0.5, 0.6] }],
+      });
+
+      const result = await provider.embed(["Summer sale", "Contact us"], { dimensions: 3, task: "query" });
+
+      expect(mockBatchEmbedContents).toHaveBeenCalledWith({
+        requests: [
+          { content: { role: "user", parts: [{ text: "Summer sale" }] }, taskType: "RETRIEVAL_QUERY", outputDimensionality: 3 },
+          { content: { role: "user", parts: [{ text: "Contact us" }] }, taskType: "RETRIEVAL_QUERY", outputDimensionality: 3 },
+        ],
+      });
+      expect(result.success).toBe(true);
+      expect(result.model).toBe("gemini-embedding-001");
+      expect(result.embeddings).toEqual([[0.1, 0.2, 0.3], [0.4, 0.5, 0.6]]);
+      expect(result.dimensions).toBe(3);
+      expect(result.tokens_input).toBeGreaterThan(0);
+    });
+
+    it("should return the error without retrying an invalid request", async () => {
+      const provider = new GeminiProvider(TEST_API_KEY);
+
+      mockBatchEmbedContents.mockRejectedValueOnce(new Error("400 Bad Request: invalid argument"));
+
+      const result = await provider.embed(["Summer sale"]);
+
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe("INVALID_REQUEST");
+      expect(result.embeddings).toEqual([]);
+      expect(mockBatchEmbedContents).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("countTokens", () => {
     it("should count tokens using Gemini API", async () => {
       const provider = new GeminiProvider(TEST_API_KEY);
@@ -13,24 +13,62 @@ import {
   GenerationConfig,
   HarmCategory,
   HarmBlockThreshold,
+  Content,
+  FunctionDeclarationSchema,
+  Part,
+  Schema,
+  SchemaType,
+  GenerateContentResponse,
+  Tool,
+  EmbedContentRequest,
+  TaskType,
 } from "@google/generative-ai";
 import {
   IAIProvider,
   AIResponse,
   GenerateOptions,
   AIProviderError,
-  FileAttachment,
   calculateCost,
+  calculateEmbeddingCost,
   DEFAULT_GENERATE_OPTIONS,
   DEFAULT_RETRY_CONFIG,
   RetryConfig,
+  StreamChunkHandler,
 } from "../types/AIProvider";
+import { JsonSchema } from "../types/StructuredOutput";
+import { ToolCall, ToolDefinition, ToolResult } from "../types/Tools";
 import { Logger } from "../lib/logger";
+import { applyDeadline, getRequestOptions } from "../lib/deadline";
+import { EMBEDDING_MODELS, MODEL_IDS } from "../config/models";
+import { PreparedAttachments, prepareAttachments, formatAttachmentText } from "../lib/attachments";
+import { estimateInputTokens, estimateTextTokens } from "../lib/tokens";
+import {
+  EmbedOptions,
+  EmbeddingResult,
+  EmbeddingTask,
+  IEmbeddingProvider,
+} from "../types/Embedding";
 
 /**
  * Default model for Gemini - Pro (fallback provider)
  */
-const DEFAULT_MODEL = "gemini-2.5-pro-preview-05-06";
+const DEFAULT_MODEL = MODEL_IDS.gemini;
+
+/**
+ * File types sent natively as inline data
+ */
+const GEMINI_FILE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"];
+
+/**
+ * Gemini task type of each embedding task
+ */
+const EMBEDDING_TASK_TYPES: Record<EmbeddingTask, TaskType> = {
+  document: "RETRIEVAL_DOCUMENT" as TaskType,
+  query: "RETRIEVAL_QUERY" as TaskType,
+  similarity: "SEMANTIC_SIMILARITY" as TaskType,
+  classification: "CLASSIFICATION" as TaskType,
+  clustering: "CLUSTERING" as TaskType,
+};
 
 /**
  * Safety settings to allow most content (business use case)
@@ -54,6 +92,134 @@ const SAFETY_SETTINGS = [
   },
 ];
 
+/**
+ * Gemini 2.5 thinking settings (not typed by @google/generative-ai yet)
+ */
+interface ThinkingConfig {
+  thinkingBudget: number;
+  includeThoughts?: boolean;
+}
+
+/**
+ * Generation config with the thinking settings
+ */
+type ThinkingGenerationConfig = GenerationConfig & { thinkingConfig?: ThinkingConfig };
+
+/**
+ * Splits a response's parts into answer text and thought summaries
+ *
+ * @param {GenerateContentResponse} response - Response or stream chunk
+ * @returns {{ text: string, thoughts: string }} Answer text and thinking text
+ *
+ * @description
+ * response.text() concatenates every part, thoughts included, so it is
+ * only safe when thoughts were not requested.
+ */
+function splitThoughts(response: GenerateContentResponse): { text: string; thoughts: string } {
+  let text = "";
+  let thoughts = "";
+
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    const partText = (part as { text?: string }).text ?? "";
+    if ((part as { thought?: boolean }).thought) {
+      thoughts += partText;
+    } else {
+      text += partText;
+    }
+  }
+
+  return { text, thoughts };
+}
+
+/**
+ * Reads the function calls from a response's parts
+ *
+ * @param {GenerateContentResponse} response - Response to read
+ * @returns {ToolCall[]} Tool calls, with IDs generated by position (Gemini has none)
+ */
+function getToolCalls(response: GenerateContentResponse): ToolCall[] {
+  const calls: ToolCall[] = [];
+
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.functionCall) {
+      calls.push({
+        id: `call_${calls.length + 1}`,
+        name: part.functionCall.name,
+        arguments: (part.functionCall.args ?? {}) as Record<string, unknown>,
+      });
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Maps tool definitions to a Gemini functionDeclarations tool
+ *
+ * @param {ToolDefinition[]} tools - Provider-neutral tool definitions
+ * @returns {Tool} Tool for getGenerativeModel
+ */
+function toGeminiTool(tools: ToolDefinition[]): Tool {
+  return {
+    functionDeclarations: tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: toGeminiSchema(tool.parameters) as unknown as FunctionDeclarationSchema,
+    })),
+  };
+}
+
+/**
+ * Maps tool results to functionResponse parts
+ *
+ * @param {ToolResult[]} results - Results of the previous turn's tool calls
+ * @returns {Part[]} Parts for a user turn
+ */
+function toFunctionResponseParts(results: ToolResult[]): Part[] {
+  return results.map((result) => ({
+    functionResponse: {
+      name: result.name,
+      response: result.is_error ? { error: result.content } : { content: result.content },
+    },
+  }));
+}
+
+/**
+ * Reads the thinking token count, billed as output but reported apart from candidatesTokenCount
+ */
+function getThoughtsTokenCount(response: GenerateContentResponse): number {
+  return (response.usageMetadata as { thoughtsTokenCount?: number } | undefined)?.thoughtsTokenCount || 0;
+}
+
+/**
+ * Converts a JSON schema to Gemini's OpenAPI schema subset
+ *
+ * @param {JsonSchema} schema - Schema to convert
+ * @returns {Schema} Schema for generationConfig.responseSchema
+ */
+function toGeminiSchema(schema: JsonSchema): Schema {
+  const converted: Record<string, unknown> = {
+    type: schema.type as SchemaType,
+    ...(schema.description && { description: schema.description }),
+  };
+
+  if (schema.type === "object") {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties ?? {}).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    if (schema.required) {
+      converted.required = schema.required;
+    }
+  } else if (schema.type === "array") {
+    converted.items = toGeminiSchema(schema.items ?? { type: "string" });
+  } else if (schema.type === "string" && schema.enum) {
+    converted.format = "enum";
+    converted.enum = schema.enum;
+  }
+
+  return converted as unknown as Schema;
+}
+
 /**
  * Gemini Provider implementation
  *
@@ -67,6 +233,11 @@ const SAFETY_SETTINGS = [
  * - Native token counting using Gemini's countTokens API
  * - Cost calculation based on actual usage
  * - Structured error handling
+ * - Streaming output via generateContentStream
+ * - Thinking budgets and thought summaries (`reasoning` option)
+ * - Tool calling through functionDeclarations (`tools` option)
+ * - Images and PDFs as inline data, text/CSV/JSON/markdown/DOCX files as text
+ * - Embeddings via batchEmbedContents (`embed`)
  *
  * @example
  * ```typescript
@@ -75,7 +246,7 @@ const SAFETY_SETTINGS = [
  * console.log(response.content);
  * ```
  */
-export class GeminiProvider implements IAIProvider {
+export class GeminiProvider implements IAIProvider, IEmbeddingProvider {
   private client: GoogleGenerativeAI;
   private model: string;
   private retryConfig: RetryConfig;
@@ -110,25 +281,64 @@ export class GeminiProvider implements IAIProvider {
     this.logger = new Logger({ provider: "gemini" });
   }
 
+  /**
+   * Builds the thinking config for a reasoning request
+   *
+   * @param {GenerateOptions} options - Options with the optional reasoning budget
+   * @returns {object} thinkingConfig param, empty without reasoning
+   * @private
+   */
+  private buildThinkingConfig(options?: GenerateOptions): Pick<ThinkingGenerationConfig, "thinkingConfig"> {
+    if (!options?.reasoning) {
+      return {};
+    }
+
+    return {
+      thinkingConfig: {
+        thinkingBudget: options.reasoning.budget_tokens,
+        ...(options.reasoning.include_thoughts && { includeThoughts: true }),
+      },
+    };
+  }
+
+  /**
+   * Builds the output limit, leaving room for the thinking budget
+   *
+   * @param {GenerateOptions} options - Options with the optional reasoning budget
+   * @param {number} maxTokens - Requested answer length
+   * @returns {number} maxOutputTokens param
+   * @private
+   *
+   * @description
+   * Thinking counts against maxOutputTokens, so the budget is added on top
+   * of the requested answer length, as for Claude.
+   */
+  private buildMaxOutputTokens(options: GenerateOptions | undefined, maxTokens: number): number {
+    return maxTokens + (options?.reasoning?.budget_tokens ?? 0);
+  }
+
   /**
    * Gets a configured generative model instance
    *
    * @param {string} modelName - Model name to use
    * @param {GenerationConfig} generationConfig - Generation configuration
    * @param {string} systemInstruction - Optional system instruction
+   * @param {ToolDefinition[]} tools - Optional tools the model may call
    * @returns {GenerativeModel} Configured model instance
    * @private
    */
   private getGenerativeModel(
     modelName: string,
     generationConfig: GenerationConfig,
-    systemInstruction?: string
+    systemInstruction?: string,
+    tools?: ToolDefinition[]
   ): GenerativeModel {
     return this.client.getGenerativeModel({
       model: modelName,
       generationConfig,
       safetySettings: SAFETY_SETTINGS,
       systemInstruction,
+      ...(tools?.length && { tools: [toGeminiTool(tools)] }),
     });
   }
 
@@ -155,9 +365,14 @@ export class GeminiProvider implements IAIProvider {
     const temperature = options?.temperature ?? DEFAULT_GENERATE_OPTIONS.temperature;
     const maxTokens = options?.max_tokens ?? DEFAULT_GENERATE_OPTIONS.max_tokens;
 
-    const generationConfig: GenerationConfig = {
+    const generationConfig: ThinkingGenerationConfig = {
       temperature,
-      maxOutputTokens: maxTokens,
+      maxOutputTokens: this.buildMaxOutputTokens(options, maxTokens),
+      ...(options?.response_schema && {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(options.response_schema.schema),
+      }),
+      ...this.buildThinkingConfig(options),
     };
 
     this.logger.debug("Starting generation", {
@@ -168,6 +383,7 @@ export class GeminiProvider implements IAIProvider {
       files_count: options?.files?.length || 0,
     });
 
+    const attachments = this.prepareFiles(options);
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
@@ -175,21 +391,27 @@ export class GeminiProvider implements IAIProvider {
         const model = this.getGenerativeModel(
           modelName,
           generationConfig,
-          options?.system_prompt
+          options?.system_prompt,
+          options?.tools
         );
 
-        // Build content parts - text first, then files
-        const contentParts = this.buildContentParts(prompt, options?.files);
-        const result = await model.generateContent(contentParts);
+        // Build contents - history first, then text and files for this turn
+        const contents = this.buildContents(prompt, options, attachments);
+        const result = await model.generateContent({ contents }, getRequestOptions(options));
         const response = result.response;
-        const content = response.text();
+        const includeThoughts = options?.reasoning?.include_thoughts === true;
+        const { text: content, thoughts } = includeThoughts
+          ? splitThoughts(response)
+          : { text: response.text(), thoughts: "" };
+        const toolCalls = options?.tools?.length ? getToolCalls(response) : [];
 
         const latencyMs = Date.now() - startTime;
 
-        // Get token counts from usage metadata
+        // Get token counts from usage metadata (thinking is billed as output)
         const usageMetadata = response.usageMetadata;
+        const tokensReasoning = getThoughtsTokenCount(response);
         const tokensInput = usageMetadata?.promptTokenCount || 0;
-        const tokensOutput = usageMetadata?.candidatesTokenCount || 0;
+        const tokensOutput = (usageMetadata?.candidatesTokenCount || 0) + tokensReasoning;
         const totalTokens = tokensInput + tokensOutput;
         const costUsd = calculateCost("gemini", modelName, tokensInput, tokensOutput);
 
@@ -199,6 +421,8 @@ export class GeminiProvider implements IAIProvider {
           tokens_output: tokensOutput,
           cost_usd: costUsd,
           latency_ms: latencyMs,
+          ...(tokensReasoning > 0 && { tokens_reasoning: tokensReasoning }),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls.length }),
         });
 
         return {
@@ -211,10 +435,22 @@ export class GeminiProvider implements IAIProvider {
           total_tokens: totalTokens,
           cost_usd: costUsd,
           latency_ms: latencyMs,
+          ...((options?.reasoning || tokensReasoning > 0) && { tokens_reasoning: tokensReasoning }),
+          ...(thoughts && { reasoning: thoughts }),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          ...(attachments.skipped.length > 0 && { skipped_files: attachments.skipped }),
         };
       } catch (error) {
         lastError = error as Error;
-        const { shouldRetry, errorCode, statusCode } = this.parseError(error);
+        const delay = Math.min(
+          this.retryConfig.baseDelayMs * Math.pow(2, attempt),
+          this.retryConfig.maxDelayMs
+        );
+        const { shouldRetry, errorCode, statusCode } = applyDeadline(
+          this.parseError(error),
+          options,
+          attempt < this.retryConfig.maxRetries ? delay : undefined
+        );
 
         if (!shouldRetry || attempt === this.retryConfig.maxRetries) {
           this.logger.error("Generation failed", {
@@ -239,12 +475,6 @@ export class GeminiProvider implements IAIProvider {
           };
         }
 
-        // Calculate backoff delay
-        const delay = Math.min(
-          this.retryConfig.baseDelayMs * Math.pow(2, attempt),
-          this.retryConfig.maxDelayMs
-        );
-
         this.logger.warn("Retrying after error", {
           model: modelName,
           attempt: attempt + 1,
@@ -275,63 +505,249 @@ export class GeminiProvider implements IAIProvider {
   }
 
   /**
-   * Builds content parts array for multimodal requests
+   * Generates content using Gemini's streaming API
    *
-   * @param {string} prompt - Text prompt
-   * @param {FileAttachment[]} files - Optional file attachments
-   * @returns {Array} Content parts for generateContent
-   * @private
+   * @param {string} prompt - User prompt to send to the model
+   * @param {GenerateOptions | undefined} options - Optional generation parameters
+   * @param {StreamChunkHandler} onChunk - Called with each text delta
+   * @returns {Promise<AIResponse>} Final response with full content and usage metadata
+   *
+   * @description
+   * Retries follow the same backoff as generate(), but only while no text
+   * has been emitted yet. A failure after the first chunk is returned as-is.
    */
-  private buildContentParts(
+  async generateStream(
     prompt: string,
-    files?: FileAttachment[]
-  ): Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> {
-    // Start with text part
-    const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [
-      { text: prompt },
-    ];
+    options: GenerateOptions | undefined,
+    onChunk: StreamChunkHandler
+  ): Promise<AIResponse> {
+    const startTime = Date.now();
+    const modelName = options?.model || this.model;
+    const temperature = options?.temperature ?? DEFAULT_GENERATE_OPTIONS.temperature;
+    const maxTokens = options?.max_tokens ?? DEFAULT_GENERATE_OPTIONS.max_tokens;
 
-    // Add file parts if present
-    if (files && files.length > 0) {
-      for (const file of files) {
-        // Only process supported image types for Gemini
-        const supportedTypes = [
-          "image/jpeg",
-          "image/png",
-          "image/gif",
-          "image/webp",
-          "application/pdf",
-        ];
-
-        if (!supportedTypes.includes(file.type)) {
-          this.logger.warn("Unsupported file type for Gemini, skipping", {
-            file_name: file.name,
-            file_type: file.type,
-          });
-          continue;
-        }
+    const generationConfig: ThinkingGenerationConfig = {
+      temperature,
+      maxOutputTokens: this.buildMaxOutputTokens(options, maxTokens),
+      ...this.buildThinkingConfig(options),
+    };
+    const includeThoughts = options?.reasoning?.include_thoughts === true;
+
+    this.logger.debug("Starting streaming generation", {
+      model: modelName,
+      temperature,
+      max_tokens: maxTokens,
+      prompt_length: prompt.length,
+      files_count: options?.files?.length || 0,
+    });
+
+    const attachments = this.prepareFiles(options);
+    let lastError: Error | null = null;
+    let lastErrorCode = "UNKNOWN_ERROR";
+    let streamStarted = false;
+    let content = "";
+    let thoughts = "";
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        const model = this.getGenerativeModel(
+          modelName,
+          generationConfig,
+          options?.system_prompt
+        );
 
-        // Remove data URI prefix if present (e.g., "data:image/png;base64,")
-        let base64Data = file.base64;
-        if (base64Data.includes(",")) {
-          base64Data = base64Data.split(",")[1];
+        const contents = this.buildContents(prompt, options, attachments);
+        const result = await model.generateContentStream({ contents }, getRequestOptions(options));
+
+        for await (const chunk of result.stream) {
+          // Thought summaries are collected, never streamed as answer text
+          const parts = includeThoughts ? splitThoughts(chunk) : { text: chunk.text(), thoughts: "" };
+          thoughts += parts.thoughts;
+          const text = parts.text;
+          if (text) {
+            streamStarted = true;
+            content += text;
+            onChunk(text);
+          }
         }
 
-        parts.push({
-          inlineData: {
-            mimeType: file.type,
-            data: base64Data,
-          },
+        const response = await result.response;
+        const latencyMs = Date.now() - startTime;
+
+        const usageMetadata = response.usageMetadata;
+        const tokensReasoning = getThoughtsTokenCount(response);
+        const tokensInput = usageMetadata?.promptTokenCount || 0;
+        const tokensOutput = (usageMetadata?.candidatesTokenCount || 0) + tokensReasoning;
+        const totalTokens = tokensInput + tokensOutput;
+        const costUsd = calculateCost("gemini", modelName, tokensInput, tokensOutput);
+
+        this.logger.info("Streaming generation successful", {
+          model: modelName,
+          tokens_input: tokensInput,
+          tokens_output: tokensOutput,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+          ...(tokensReasoning > 0 && { tokens_reasoning: tokensReasoning }),
         });
 
-        this.logger.debug("Added file to Gemini request", {
-          file_name: file.name,
-          file_type: file.type,
-          file_size: file.size,
+        return {
+          success: true,
+          provider: "gemini",
+          model: modelName,
+          content,
+          tokens_input: tokensInput,
+          tokens_output: tokensOutput,
+          total_tokens: totalTokens,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+          ...((options?.reasoning || tokensReasoning > 0) && { tokens_reasoning: tokensReasoning }),
+          ...(thoughts && { reasoning: thoughts }),
+          ...(attachments.skipped.length > 0 && { skipped_files: attachments.skipped }),
+        };
+      } catch (error) {
+        lastError = error as Error;
+        const delay = Math.min(
+          this.retryConfig.baseDelayMs * Math.pow(2, attempt),
+          this.retryConfig.maxDelayMs
+        );
+        const { shouldRetry, errorCode, statusCode } = applyDeadline(
+          this.parseError(error),
+          options,
+          attempt < this.retryConfig.maxRetries ? delay : undefined
+        );
+        lastErrorCode = errorCode;
+
+        if (streamStarted || !shouldRetry || attempt === this.retryConfig.maxRetries) {
+          break;
+        }
+
+        this.logger.warn("Retrying stream after error", {
+          model: modelName,
+          attempt: attempt + 1,
+          max_retries: this.retryConfig.maxRetries,
+          delay_ms: delay,
+          error_code: errorCode,
+          status_code: statusCode,
         });
+
+        await this.sleep(delay);
       }
     }
 
+    this.logger.error("Streaming generation failed", {
+      model: modelName,
+      error_code: lastErrorCode,
+      error_message: lastError?.message,
+      stream_started: streamStarted,
+    });
+
+    return {
+      success: false,
+      provider: "gemini",
+      model: modelName,
+      content,
+      tokens_input: 0,
+      tokens_output: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      latency_ms: Date.now() - startTime,
+      error: lastError?.message || "Unknown error",
+      error_code: lastErrorCode,
+    };
+  }
+
+  /**
+   * Builds the contents array: conversation history, then the prompt
+   *
+   * @param {string} prompt - Text prompt for the current turn
+   * @param {GenerateOptions} options - Options with optional history and tool results
+   * @param {PreparedAttachments} attachments - Files of the current turn
+   * @returns {Content[]} Contents for generateContent (assistant maps to "model")
+   * @private
+   */
+  private buildContents(
+    prompt: string,
+    options: GenerateOptions | undefined,
+    attachments: PreparedAttachments
+  ): Content[] {
+    const history: Content[] = (options?.messages || []).map((message) => {
+      const parts: Part[] = message.tool_results?.length ? toFunctionResponseParts(message.tool_results) : [];
+      if (message.content || (parts.length === 0 && !message.tool_calls?.length)) {
+        parts.push({ text: message.content });
+      }
+      for (const call of message.tool_calls ?? []) {
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      }
+      return {
+        role: message.role === "assistant" ? "model" : "user",
+        parts,
+      };
+    });
+
+    // Tool results lead the turn; the prompt text may then be empty
+    const toolResults = options?.tool_results ?? [];
+    const promptParts = this.buildContentParts(prompt, attachments)
+      .filter((part) => toolResults.length === 0 || !("text" in part) || part.text !== "");
+
+    return [
+      ...history,
+      { role: "user", parts: [...toFunctionResponseParts(toolResults), ...promptParts] },
+    ];
+  }
+
+  /**
+   * Sorts the request files into native, text and skipped files
+   *
+   * @param {GenerateOptions} options - Options with optional file attachments
+   * @returns {PreparedAttachments} Files for the current turn
+   * @private
+   */
+  private prepareFiles(options?: GenerateOptions): PreparedAttachments {
+    const attachments = prepareAttachments(options?.files, GEMINI_FILE_TYPES, "gemini");
+
+    for (const file of attachments.skipped) {
+      this.logger.warn("Skipping file for Gemini", {
+        file_name: file.name,
+        file_type: file.type,
+        reason: file.reason,
+      });
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Builds content parts array for multimodal requests
+   *
+   * @param {string} prompt - Text prompt
+   * @param {PreparedAttachments} attachments - Files of the current turn
+   * @returns {Part[]} Content parts for generateContent
+   * @private
+   */
+  private buildContentParts(prompt: string, attachments: PreparedAttachments): Part[] {
+    // Start with text part
+    const parts: Part[] = [{ text: prompt }];
+
+    // Add file parts
+    for (const file of attachments.binary) {
+      parts.push({
+        inlineData: {
+          mimeType: file.type,
+          data: file.base64,
+        },
+      });
+
+      this.logger.debug("Added file to Gemini request", {
+        file_name: file.name,
+        file_type: file.type,
+        file_size: file.size,
+      });
+    }
+
+    for (const file of attachments.texts) {
+      parts.push({ text: formatAttachmentText(file) });
+    }
+
     return parts;
   }
 
@@ -359,6 +775,148 @@ export class GeminiProvider implements IAIProvider {
     }
   }
 
+  /**
+   * Counts the input tokens of a request with Gemini's countTokens API
+   *
+   * @param {string} prompt - The user prompt
+   * @param {GenerateOptions} options - Options with system prompt, history, files and tools
+   * @returns {Promise<number>} Input tokens
+   *
+   * @description
+   * Counts the contents, system instruction and tools generate() would
+   * send. Falls back to the local estimate if the API call fails.
+   */
+  async countInputTokens(prompt: string, options?: GenerateOptions): Promise<number> {
+    const modelName = options?.model || this.model;
+
+    try {
+      const model = this.getGenerativeModel(modelName, {}, options?.system_prompt, options?.tools);
+      const attachments = prepareAttachments(options?.files, GEMINI_FILE_TYPES, "gemini");
+      const result = await model.countTokens({ contents: this.buildContents(prompt, options, attachments) });
+      return result.totalTokens;
+    } catch {
+      this.logger.warn("Gemini countTokens failed, using estimation", {
+        model: modelName,
+      });
+      return estimateInputTokens(prompt, options);
+    }
+  }
+
+  /**
+   * Embeds a batch of texts with Gemini's batchEmbedContents API
+   *
+   * @param {string[]} texts - Texts to embed
+   * @param {EmbedOptions} options - Model, dimensions and task
+   * @returns {Promise<EmbeddingResult>} One vector per text, in order
+   *
+   * @description
+   * The API reports no token usage, so the texts are billed on the local
+   * estimate. Retries follow the same backoff as generate().
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.embed(["Summer sale", "Contact us"], { task: "document" });
+   * console.log(result.dimensions); // 3072
+   * ```
+   */
+  async embed(texts: string[], options?: EmbedOptions): Promise<EmbeddingResult> {
+    const startTime = Date.now();
+    const modelName = options?.model || EMBEDDING_MODELS.gemini;
+    const tokensInput = texts.reduce((sum, text) => sum + estimateTextTokens(text), 0);
+    let lastError: Error | null = null;
+
+    // outputDimensionality is not typed by @google/generative-ai yet
+    const requests = texts.map((text) => ({
+      content: { role: "user", parts: [{ text }] },
+      ...(options?.task && { taskType: EMBEDDING_TASK_TYPES[options.task] }),
+      ...(options?.dimensions && { outputDimensionality: options.dimensions }),
+    }) as EmbedContentRequest);
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        const model = this.client.getGenerativeModel({ model: modelName });
+        const result = await model.batchEmbedContents({ requests });
+        const embeddings = result.embeddings.map((embedding) => embedding.values);
+
+        const latencyMs = Date.now() - startTime;
+        const costUsd = calculateEmbeddingCost(modelName, tokensInput);
+
+        this.logger.info("Embedding successful", {
+          model: modelName,
+          texts: texts.length,
+          tokens_input: tokensInput,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+        });
+
+        return {
+          success: true,
+          provider: "gemini",
+          model: modelName,
+          embeddings,
+          dimensions: embeddings[0]?.length ?? 0,
+          tokens_input: tokensInput,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+        };
+      } catch (error) {
+        lastError = error as Error;
+        const { shouldRetry, errorCode } = this.parseError(error);
+
+        if (!shouldRetry || attempt === this.retryConfig.maxRetries) {
+          this.logger.error("Embedding failed", {
+            model: modelName,
+            attempt,
+            error_code: errorCode,
+            error_message: lastError.message,
+          });
+
+          return {
+            success: false,
+            provider: "gemini",
+            model: modelName,
+            embeddings: [],
+            dimensions: 0,
+            tokens_input: 0,
+            cost_usd: 0,
+            latency_ms: Date.now() - startTime,
+            error: lastError.message,
+            error_code: errorCode,
+          };
+        }
+
+        const delay = Math.min(
+          this.retryConfig.baseDelayMs * Math.pow(2, attempt),
+          this.retryConfig.maxDelayMs
+        );
+
+        this.logger.warn("Retrying after error", {
+          model: modelName,
+          attempt: attempt + 1,
+          max_retries: this.retryConfig.maxRetries,
+          delay_ms: delay,
+          error_code: errorCode,
+        });
+
+        await this.sleep(delay);
+      }
+    }
+
+    // Should not reach here, but handle just in case
+    return {
+      success: false,
+      provider: "gemini",
+      model: modelName,
+      embeddings: [],
+      dimensions: 0,
+      tokens_input: 0,
+      cost_usd: 0,
+      latency_ms: Date.now() - startTime,
+      error: lastError?.message || "Unknown error",
+      error_code: "UNKNOWN_ERROR",
+    };
+  }
+
   /**
    * Gets the default model name
    *
@@ -22,16 +22,21 @@
 import { OpenAIProvider } from "./openai";
 import { GeminiProvider } from "./gemini";
 import { ClaudeProvider } from "./claude";
+import { MockProvider, loadMockFixtures } from "./mock";
 import {
   IAIProvider,
   ProviderName,
   AIProviderError,
+  DEFAULT_RETRY_CONFIG,
 } from "../types/AIProvider";
+import { MOCK_MODEL } from "../types/MockProvider";
+import { MODEL_IDS, getOpenAICompatibleConfig, getRegisteredModels } from "../config/models";
 
 // Export provider classes
 export { OpenAIProvider } from "./openai";
 export { GeminiProvider } from "./gemini";
 export { ClaudeProvider } from "./claude";
+export { MockProvider, isMockProviderMode, loadMockFixtures } from "./mock";
 
 /**
  * Configuration for creating a provider
@@ -52,7 +57,7 @@ export interface ProviderConfig {
  * Creates an AI provider instance
  *
  * @param {ProviderName} providerName - Name of the provider to create
- * @param {string} apiKey - API key for authentication
+ * @param {string} apiKey - API key for authentication (unused by "mock")
  * @param {string} model - Optional model override
  * @returns {IAIProvider} Provider instance
  *
@@ -77,11 +82,13 @@ export function createProvider(
 ): IAIProvider {
   switch (providerName) {
     case "openai":
-      return new OpenAIProvider(apiKey, model);
+      return new OpenAIProvider(apiKey, model, DEFAULT_RETRY_CONFIG, getOpenAICompatibleConfig().base_url);
     case "gemini":
       return new GeminiProvider(apiKey, model);
     case "claude":
       return new ClaudeProvider(apiKey, model);
+    case "mock":
+      return new MockProvider(loadMockFixtures(), model);
     default:
       throw new AIProviderError(
         `Unknown provider: ${providerName}`,
@@ -93,30 +100,23 @@ export function createProvider(
 }
 
 /**
- * Map of provider names to their default models
+ * Map of provider names to their default models (from config/models)
  */
 export const DEFAULT_MODELS: Record<ProviderName, string> = {
-  openai: "gpt-4o",
-  gemini: "gemini-2.5-flash-preview-05-20",
-  claude: "claude-sonnet-4-20250514",
+  openai: MODEL_IDS.openai,
+  gemini: MODEL_IDS.gemini,
+  claude: MODEL_IDS.claude,
+  mock: MOCK_MODEL,
 };
 
 /**
- * Map of provider names to their alternative models
+ * Map of provider names to their registered models (from MODEL_REGISTRY)
  */
 export const ALTERNATIVE_MODELS: Record<ProviderName, string[]> = {
-  openai: ["gpt-4o", "gpt-4o-mini"],
-  gemini: [
-    "gemini-2.5-flash-preview-05-20",
-    "gemini-2.5-pro-preview-05-06",
-    "gemini-2.0-flash-exp",
-    "gemini-1.5-pro",
-  ],
-  claude: [
-    "claude-opus-4-5-20251101",
-    "claude-sonnet-4-20250514",
-    "claude-3-5-sonnet-20241022",
-  ],
+  openai: getRegisteredModels("openai"),
+  gemini: getRegisteredModels("gemini"),
+  claude: getRegisteredModels("claude"),
+  mock: getRegisteredModels("mock"),
 };
 
 /**
@@ -124,9 +124,13 @@ export const ALTERNATIVE_MODELS: Record<ProviderName, string[]> = {
  *
  * @param {ProviderName} provider - Provider name
  * @param {string} model - Model name to check
- * @returns {boolean} True if model is valid for provider
+ * @returns {boolean} True if model is valid for provider (for "openai",
+ * the models in OPENAI_MODELS are valid too)
  */
 export function isValidModel(provider: ProviderName, model: string): boolean {
+  if (provider === "openai" && getOpenAICompatibleConfig().models.includes(model)) {
+    return true;
+  }
   const models = ALTERNATIVE_MODELS[provider];
   return models ? models.includes(model) : false;
 }
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Unit tests for Mock Provider
+ */
+
+import { MockProvider } from "./mock";
+import { MockFixture } from "../types/MockProvider";
+
+describe("MockProvider", () => {
+  it("should answer from the first fixture matching the prompt and model", async () => {
+    // Arrange
+    const provider = new MockProvider([
+      { match: "^translate", content: "Ciao", tokens_input: 12, tokens_output: 3 },
+      { match: "seo", model: "claude-opus-4-5-20251101", content: "Claude SEO tips" },
+      { match: "seo", content: "SEO tips" },
+    ], "gemini-2.5-pro");
+
+    // Act
+    const translated = await provider.generate("Translate 'hello'");
+    const seo = await provider.generate("Give me SEO tips");
+
+    // Assert
+    expect(translated).toEqual(expect.objectContaining({
+      success: true,
+      provider: "mock",
+      model: "gemini-2.5-pro",
+      content: "Ciao",
+      tokens_input: 12,
+      tokens_output: 3,
+      total_tokens: 15,
+      cost_usd: 0,
+    }));
+    expect(seo.content).toBe("SEO tips");
+  });
+
+  it("should answer deterministically without a fixture, following the response schema", async () => {
+    // Arrange
+    const provider = new MockProvider();
+
+    // Act
+    const text = await provider.generate("Write a tagline");
+    const structured = await provider.generate("Rate this post", {
+      response_schema: {
+        name: "rating",
+        schema: {
+          type: "object",
+          properties: {
+            score: { type: "integer" },
+            verdict: { type: "string", enum: ["good", "bad"] },
+            tags: { type: "array", items: { type: "string" } },
+          },
+          required: ["score", "verdict", "tags"],
+        },
+      },
+    });
+
+    // Assert
+    expect(text.content).toBe("Mock response (mock-1): Write a tagline");
+    expect(text.tokens_input).toBe(Math.ceil("Write a tagline".length / 4));
+    expect(JSON.parse(structured.content)).toEqual({ score: 0, verdict: "good", tags: ["mock"] });
+  });
+
+  it("should simulate failures for the first fail_times calls, then answer", async () => {
+    // Arrange
+    const fixtures: MockFixture[] = [
+      { match: "busy", error: "overloaded", fail_times: 1, content: "Recovered" },
+      { match: "limit", error: "rate_limited" },
+      { match: "slow", error: "timeout", latency_ms: 20 },
+    ];
+    const provider = new MockProvider(fixtures);
+
+    // Act
+    const overloaded = await provider.generate("busy");
+    const recovered = await provider.generate("busy");
+    const limited = await provider.generate("limit");
+    const timedOut = await provider.generate("slow");
+
+    // Assert
+    expect(overloaded).toEqual(expect.objectContaining({ success: false, error_code: "PROVIDER_ERROR" }));
+    expect(overloaded.error).toContain("529");
+    expect(recovered).toEqual(expect.objectContaining({ success: true, content: "Recovered" }));
+    expect(limited).toEqual(expect.objectContaining({ success: false, error_code: "RATE_LIMITED" }));
+    expect(limited.error).toContain("429");
+    expect(timedOut).toEqual(expect.objectContaining({ success: false, error_code: "TIMEOUT" }));
+    expect(timedOut.latency_ms).toBeGreaterThanOrEqual(15);
+  });
+
+  it("should return fixture tool calls only when tools are declared", async () => {
+    // Arrange
+    const toolCalls = [{ id: "call_1", name: "get_post", arguments: { id: 42 } }];
+    const provider = new MockProvider([{ match: "post 42", tool_calls: toolCalls }]);
+    const tools = [{
+      name: "get_post",
+      description: "Reads a post by ID",
+      parameters: { type: "object" as const, properties: { id: { type: "integer" as const } } },
+    }];
+
+    // Act
+    const withTools = await provider.generate("Summarize post 42", { tools });
+    const withoutTools = await provider.generate("Summarize post 42");
+
+    // Assert
+    expect(withTools.tool_calls).toEqual(toolCalls);
+    expect(withTools.content).toBe("");
+    expect(withoutTools.tool_calls).toBeUndefined();
+    expect(withoutTools.content).toBe("Mock response (mock-1): Summarize post 42");
+  });
+
+  it("should stream the content in chunks", async () => {
+    // Arrange
+    const content = "A scripted answer that spans several chunks";
+    const provider = new MockProvider([{ content }]);
+    const chunks: string[] = [];
+
+    // Act
+    const response = await provider.generateStream("Anything", undefined, (text) => chunks.push(text));
+
+    // Assert
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(content);
+    expect(response.content).toBe(content);
+  });
+
+  it("should embed texts as deterministic unit vectors", async () => {
+    // Arrange
+    const provider = new MockProvider();
+
+    // Act
+    const first = await provider.embed(["Garden furniture", "Teak care"], { dimensions: 64 });
+    const second = await provider.embed(["Garden furniture"], { dimensions: 64 });
+
+    // Assert
+    expect(first).toEqual(expect.objectContaining({
+      success: true,
+      model: "mock-embedding-1",
+      dimensions: 64,
+      cost_usd: 0,
+    }));
+    expect(first.embeddings).toHaveLength(2);
+    expect(second.embeddings[0]).toEqual(first.embeddings[0]);
+    expect(first.embeddings[1]).not.toEqual(first.embeddings[0]);
+    expect(Math.hypot(...first.embeddings[0])).toBeCloseTo(1, 6);
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * @fileoverview Mock Provider Client for Creator AI Proxy
+ * @module providers/mock
+ *
+ * @description
+ * Implements the IAIProvider interface without calling any API. Answers
+ * come from fixtures matched by prompt pattern, or a deterministic default,
+ * with simulated latency, token usage, 429/529 errors and timeouts.
+ * Selected with `AI_PROVIDER_MODE=mock`, so the functions can run entirely
+ * offline against the Firestore emulator.
+ */
+
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import {
+  IAIProvider,
+  AIErrorCode,
+  AIResponse,
+  GenerateOptions,
+  StreamChunkHandler,
+} from "../types/AIProvider";
+import { JsonSchema } from "../types/StructuredOutput";
+import { MockErrorKind, MockFixture, MOCK_EMBEDDING_MODEL, MOCK_MODEL } from "../types/MockProvider";
+import { EmbedOptions, EmbeddingResult, IEmbeddingProvider } from "../types/Embedding";
+import { EMBEDDING_MODEL_REGISTRY } from "../config/models";
+import { Logger } from "../lib/logger";
+import { estimateInputTokens, estimateTextTokens } from "../lib/tokens";
+import { getStopReason } from "../lib/deadline";
+
+/**
+ * Characters per streamed chunk
+ */
+const STREAM_CHUNK_CHARS = 16;
+
+/**
+ * Error code and message of each simulated failure
+ */
+const MOCK_ERRORS: Record<MockErrorKind, { code: AIErrorCode; message: string }> = {
+  rate_limited: { code: "RATE_LIMITED", message: "429 Rate limit exceeded (mock)" },
+  overloaded: { code: "PROVIDER_ERROR", message: "529 Overloaded (mock)" },
+  timeout: { code: "TIMEOUT", message: "Request timeout (mock)" },
+  network: { code: "NETWORK_ERROR", message: "ECONNREFUSED network error (mock)" },
+};
+
+/**
+ * Failures simulated so far per fixture, shared by all instances so that
+ * `fail_times` spans requests
+ */
+const failureCounts = new WeakMap<MockFixture, number>();
+
+/**
+ * Fixtures loaded from MOCK_AI_FIXTURES, by file path
+ */
+let loadedFixtures: { path: string; fixtures: MockFixture[] } | null = null;
+
+/**
+ * Checks whether providers are configured to run in mock mode
+ *
+ * @returns {boolean} True when AI_PROVIDER_MODE is "mock"
+ */
+export function isMockProviderMode(): boolean {
+  return process.env.AI_PROVIDER_MODE?.toLowerCase() === "mock";
+}
+
+/**
+ * Loads the fixtures from the JSON file in MOCK_AI_FIXTURES
+ *
+ * @returns {MockFixture[]} Fixtures, in match order (empty when no file is configured)
+ * @throws {Error} If the file cannot be read or is not a JSON array
+ *
+ * @description
+ * The file is read once per path; later calls return the same objects,
+ * so `fail_times` counts across requests.
+ */
+export function loadMockFixtures(): MockFixture[] {
+  const path = process.env.MOCK_AI_FIXTURES;
+  if (!path) {
+    return [];
+  }
+
+  if (loadedFixtures?.path !== path) {
+    const fixtures = JSON.parse(readFileSync(path, "utf8")) as unknown;
+    if (!Array.isArray(fixtures)) {
+      throw new Error(`MOCK_AI_FIXTURES must contain a JSON array: ${path}`);
+    }
+    loadedFixtures = { path, fixtures: fixtures as MockFixture[] };
+  }
+
+  return loadedFixtures.fixtures;
+}
+
+/**
+ * Builds a value that follows a JSON schema (first enum value, empty strings, zeros)
+ *
+ * @param {JsonSchema} schema - The schema
+ * @returns {unknown} Sample value
+ */
+function buildSampleValue(schema: JsonSchema): unknown {
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, buildSampleValue(property)])
+      );
+    case "array":
+      return schema.items ? [buildSampleValue(schema.items)] : [];
+    case "string":
+      return "mock";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Estimates tokens at ~4 characters per token
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Builds a unit vector from the SHA-256 of a text, so equal texts get
+ * equal vectors
+ *
+ * @param {string} text - Text to embed
+ * @param {number} dimensions - Vector size
+ * @returns {number[]} Normalized vector
+ */
+function buildMockEmbedding(text: string, dimensions: number): number[] {
+  const values: number[] = [];
+  for (let block = 0; values.length < dimensions; block++) {
+    const digest = createHash("sha256").update(`${block}:${text}`).digest();
+    for (const byte of digest) {
+      values.push(byte / 127.5 - 1);
+    }
+  }
+
+  const vector = values.slice(0, dimensions);
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * Mock Provider implementation
+ *
+ * @class MockProvider
+ * @implements {IAIProvider}
+ *
+ * @description
+ * Answers each call with the first fixture whose `match` pattern fits the
+ * prompt (the last user message on tool follow-ups) and whose `model`, if
+ * set, is the requested model. Without a matching fixture it answers
+ * "Mock response (model): prompt", or a sample object following the
+ * response schema. Nothing is retried and every call is free.
+ *
+ * @example
+ * ```typescript
+ * const provider = new MockProvider([{ match: "^hello", content: "Hi!", latency_ms: 200 }]);
+ * const response = await provider.generate("Hello there");
+ * console.log(response.content); // "Hi!"
+ * ```
+ */
+export class MockProvider implements IAIProvider, IEmbeddingProvider {
+  private fixtures: MockFixture[];
+  private model: string;
+  private logger: Logger;
+
+  /**
+   * Creates a mock provider instance
+   *
+   * @param {MockFixture[]} fixtures - Scripted answers, tried in order
+   * @param {string} model - Model ID to report (defaults to mock-1)
+   */
+  constructor(fixtures: MockFixture[] = [], model: string = MOCK_MODEL) {
+    this.fixtures = fixtures;
+    this.model = model;
+    this.logger = new Logger({ provider: "mock" });
+  }
+
+  /**
+   * Generates a scripted response
+   *
+   * @param {string} prompt - User prompt
+   * @param {GenerateOptions} options - Optional generation parameters
+   * @returns {Promise<AIResponse>} Fixture or default response, or a simulated failure
+   */
+  async generate(prompt: string, options?: GenerateOptions): Promise<AIResponse> {
+    return this.respond(prompt, options);
+  }
+
+  /**
+   * Generates a scripted response, emitting its content in small chunks
+   *
+   * @param {string} prompt - User prompt
+   * @param {GenerateOptions | undefined} options - Optional generation parameters
+   * @param {StreamChunkHandler} onChunk - Called with each text delta
+   * @returns {Promise<AIResponse>} Final response with full content
+   */
+  async generateStream(
+    prompt: string,
+    options: GenerateOptions | undefined,
+    onChunk: StreamChunkHandler
+  ): Promise<AIResponse> {
+    const response = await this.respond(prompt, { ...options, tools: undefined });
+
+    if (response.success) {
+      for (let i = 0; i < response.content.length; i += STREAM_CHUNK_CHARS) {
+        onChunk(response.content.slice(i, i + STREAM_CHUNK_CHARS));
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Counts tokens at ~4 characters per token
+   *
+   * @param {string} text - Text to count tokens for
+   * @returns {Promise<number>} Estimated token count
+   */
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  /**
+   * Counts the input tokens of a request with the local estimate
+   *
+   * @param {string} prompt - The user prompt
+   * @param {GenerateOptions} options - Options with the rest of the input
+   * @returns {Promise<number>} Estimated input tokens
+   */
+  async countInputTokens(prompt: string, options?: GenerateOptions): Promise<number> {
+    return estimateInputTokens(prompt, options);
+  }
+
+  /**
+   * Embeds texts with deterministic hash-based vectors
+   *
+   * @param {string[]} texts - Texts to embed
+   * @param {EmbedOptions} options - Dimensions (model and task are ignored)
+   * @returns {Promise<EmbeddingResult>} One vector per text, free of charge
+   */
+  async embed(texts: string[], options?: EmbedOptions): Promise<EmbeddingResult> {
+    const dimensions = options?.dimensions || EMBEDDING_MODEL_REGISTRY[MOCK_EMBEDDING_MODEL].dimensions;
+    const embeddings = texts.map((text) => buildMockEmbedding(text, dimensions));
+    const tokensInput = texts.reduce((sum, text) => sum + estimateTextTokens(text), 0);
+
+    return {
+      success: true,
+      provider: "mock",
+      model: MOCK_EMBEDDING_MODEL,
+      embeddings,
+      dimensions,
+      tokens_input: tokensInput,
+      cost_usd: 0,
+      latency_ms: 0,
+    };
+  }
+
+  /**
+   * Gets the default model name
+   *
+   * @returns {string} Model identifier
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Gets the provider name
+   *
+   * @returns {"mock"} Provider identifier
+   */
+  getProviderName(): "mock" {
+    return "mock";
+  }
+
+  /**
+   * Builds the response of one call, after the simulated latency
+   *
+   * @param {string} prompt - User prompt
+   * @param {GenerateOptions} options - Generation parameters
+   * @returns {Promise<AIResponse>} The response
+   * @private
+   */
+  private async respond(prompt: string, options?: GenerateOptions): Promise<AIResponse> {
+    const startTime = Date.now();
+    const model = options?.model || this.model;
+    const fixture = this.findFixture(prompt, options, model);
+
+    if (fixture?.latency_ms) {
+      await this.sleep(fixture.latency_ms, options?.signal);
+    }
+
+    // Like the SDKs, the simulated call is cut short by the deadline or the caller
+    const stopReason = getStopReason(options);
+    const failure = stopReason
+      ? { code: stopReason, message: "Request was aborted." }
+      : fixture ? this.getFailure(fixture) : null;
+    if (failure) {
+      this.logger.warn("Simulated failure", { model, error_code: failure.code });
+
+      return {
+        success: false,
+        provider: "mock",
+        model,
+        content: "",
+        tokens_input: 0,
+        tokens_output: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+        latency_ms: Date.now() - startTime,
+        error: failure.message,
+        error_code: failure.code,
+      };
+    }
+
+    const toolCalls = options?.tools?.length && fixture?.tool_calls?.length
+      ? fixture.tool_calls
+      : undefined;
+    const content = fixture?.content ?? (toolCalls ? "" : this.buildDefaultContent(prompt, model, options));
+    const tokensInput = fixture?.tokens_input ?? estimateTokens([
+      options?.system_prompt ?? "",
+      ...(options?.messages ?? []).map((message) => message.content),
+      prompt,
+    ].join("\n"));
+    const tokensOutput = fixture?.tokens_output ?? estimateTokens(content);
+
+    return {
+      success: true,
+      provider: "mock",
+      model,
+      content,
+      tokens_input: tokensInput,
+      tokens_output: tokensOutput,
+      total_tokens: tokensInput + tokensOutput,
+      cost_usd: 0,
+      latency_ms: Date.now() - startTime,
+      ...(toolCalls && { tool_calls: toolCalls }),
+    };
+  }
+
+  /**
+   * Finds the first fixture for the prompt and model
+   *
+   * @private
+   */
+  private findFixture(prompt: string, options: GenerateOptions | undefined, model: string): MockFixture | undefined {
+    const userMessages = (options?.messages ?? []).filter((message) => message.role === "user" && message.content);
+    const text = prompt || userMessages[userMessages.length - 1]?.content || "";
+
+    return this.fixtures.find((fixture) =>
+      (!fixture.model || fixture.model === model) &&
+      (!fixture.match || new RegExp(fixture.match, "i").test(text))
+    );
+  }
+
+  /**
+   * Gets the failure a fixture simulates on this call, counting it
+   *
+   * @private
+   */
+  private getFailure(fixture: MockFixture): { code: AIErrorCode; message: string } | null {
+    if (!fixture.error) {
+      return null;
+    }
+
+    const failures = failureCounts.get(fixture) ?? 0;
+    if (fixture.fail_times !== undefined && failures >= fixture.fail_times) {
+      return null;
+    }
+
+    failureCounts.set(fixture, failures + 1);
+    return MOCK_ERRORS[fixture.error];
+  }
+
+  /**
+   * Builds the answer when no fixture sets one
+   *
+   * @private
+   */
+  private buildDefaultContent(prompt: string, model: string, options?: GenerateOptions): string {
+    if (options?.response_schema) {
+      return JSON.stringify(buildSampleValue(options.response_schema.schema));
+    }
+    return `Mock response (${model}): ${prompt.slice(0, 200)}`;
+  }
+
+  /**
+   * Sleep utility for simulated latency, ending early when the signal fires
+   *
+   * @param {number} ms - Milliseconds to sleep
+   * @param {AbortSignal} signal - Optional signal of the call
+   * @returns {Promise<void>}
+   * @private
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+}
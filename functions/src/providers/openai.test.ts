@@ -29,6 +29,7 @@ function createMockAPIError(status: number, message: string): Error & { status:
 describe("OpenAIProvider", () => {
   const TEST_API_KEY = "sk-test-api-key-12345";
   const mockCreate = jest.fn();
+  const mockEmbeddingsCreate = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -40,6 +41,9 @@ describe("OpenAIProvider", () => {
           create: mockCreate,
         },
       },
+      embeddings: {
+        create: mockEmbeddingsCreate,
+      },
     }));
   });
 
@@ -115,8 +119,97 @@ describe("OpenAIProvider", () => {
             { role: "system", content: "You are helpful" },
             { role: "user", content: "Test" },
           ]),
-        })
+        }),
+        expect.anything()
+      );
+    });
+
+    it("should send history between the system prompt and the prompt", async () => {
+      const provider = new OpenAIProvider(TEST_API_KEY);
+
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: "Second answer" } }],
+        usage: { prompt_tokens: 5, completion_tokens: 10 },
+      });
+
+      await provider.generate("Follow-up", {
+        system_prompt: "You are helpful",
+        messages: [
+          { role: "user", content: "First question" },
+          { role: "assistant", content: "First answer" },
+        ],
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: [
+            { role: "system", content: "You are helpful" },
+            { role: "user", content: "First question" },
+            { role: "assistant", content: "First answer" },
+            { role: "user", content: "Follow-up" },
+          ],
+        }),
+        expect.anything()
+      );
+    });
+
+    it("should send function tools and parse tool calls", async () => {
+      const provider = new OpenAIProvider(TEST_API_KEY);
+      const tools = [{
+        name: "get_post",
+        description: "Reads a post by ID",
+        parameters: { type: "object" as const, properties: { id: { type: "integer" as const } } },
+      }];
+
+      mockCreate.mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{ id: "call_abc", type: "function", function: { name: "get_post", arguments: "{\"id\":42}" } }],
+          },
+        }],
+        usage: { prompt_tokens: 50, completion_tokens: 10 },
+      });
+
+      const response = await provider.generate("Summarize post 42", { tools });
+
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [{
+            type: "function",
+            function: { name: "get_post", description: "Reads a post by ID", parameters: tools[0].parameters },
+          }],
+        }),
+        expect.anything()
       );
+      expect(response.tool_calls).toEqual([{ id: "call_abc", name: "get_post", arguments: { id: 42 } }]);
+    });
+
+    it("should send tool results as tool messages after the assistant calls", async () => {
+      const provider = new OpenAIProvider(TEST_API_KEY);
+
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: "Post 42 is about SEO." } }],
+        usage: { prompt_tokens: 80, completion_tokens: 10 },
+      });
+
+      await provider.generate("", {
+        messages: [
+          { role: "user", content: "Summarize post 42" },
+          { role: "assistant", content: "", tool_calls: [{ id: "call_abc", name: "get_post", arguments: { id: 42 } }] },
+        ],
+        tool_results: [{ tool_call_id: "call_abc", name: "get_post", content: "{\"title\":\"SEO\"}" }],
+      });
+
+      expect(mockCreate.mock.calls[0][0].messages).toEqual([
+        { role: "user", content: "Summarize post 42" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "call_abc", type: "function", function: { name: "get_post", arguments: "{\"id\":42}" } }],
+        },
+        { role: "tool", tool_call_id: "call_abc", content: "{\"title\":\"SEO\"}" },
+      ]);
     });
 
     it("should handle rate limit error with retry", async () => {
@@ -206,6 +299,46 @@ describe("OpenAIProvider", () => {
     });
   });
 
+  describe("embed", () => {
+    it("should return the vectors in input order and bill the prompt tokens", async () => {
+      const provider = new OpenAIProvider(TEST_API_KEY);
+
+      mockEmbeddingsCreate.mockResolvedValueOnce({
+        data: [
+          { index: 1, embedding: [0.3, 0.4] },
+          { index: 0, embedding: [0.1, 0.2] },
+        ],
+        usage: { prompt_tokens: 1000, total_tokens: 1000 },
+      });
+
+      const result = await provider.embed(["First", "Second"], { dimensions: 2 });
+
+      expect(mockEmbeddingsCreate).toHaveBeenCalledWith({
+        model: "text-embedding-3-small",
+        input: ["First", "Second"],
+        dimensions: 2,
+      });
+      expect(result.success).toBe(true);
+      expect(result.embeddings).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+      expect(result.dimensions).toBe(2);
+      expect(result.tokens_input).toBe(1000);
+      expect(result.cost_usd).toBeCloseTo(0.00002, 8);
+    });
+
+    it("should not retry on authentication error", async () => {
+      const provider = new OpenAIProvider(TEST_API_KEY);
+
+      mockEmbeddingsCreate.mockRejectedValueOnce(createMockAPIError(401, "Invalid API key"));
+
+      const result = await provider.embed(["First"]);
+
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe("INVALID_API_KEY");
+      expect(result.embeddings).toEqual([]);
+      expect(mockEmbeddingsCreate).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("countTokens", () => {
     it("should count tokens using tiktoken", async () => {
       const provider = new OpenAIProvider(TEST_API_KEY);
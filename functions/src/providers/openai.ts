@@ -3,7 +3,8 @@
  * @module providers/openai
  *
  * @description
- * Implements the IAIProvider interface for OpenAI's GPT models.
+ * Implements the IAIProvider interface for OpenAI's GPT models and any
+ * OpenAI-compatible endpoint (Azure OpenAI, vLLM, Ollama) via a base URL.
  * Handles API calls, token counting, cost calculation, and retry logic.
  */
 
@@ -15,17 +16,24 @@ import {
   GenerateOptions,
   AIProviderError,
   calculateCost,
+  calculateEmbeddingCost,
   DEFAULT_GENERATE_OPTIONS,
   DEFAULT_RETRY_CONFIG,
   REQUEST_TIMEOUT_MS,
   RetryConfig,
+  StreamChunkHandler,
 } from "../types/AIProvider";
+import { ToolCall, ToolResult } from "../types/Tools";
 import { Logger } from "../lib/logger";
+import { applyDeadline, getRequestOptions } from "../lib/deadline";
+import { EMBEDDING_MODELS, MODEL_IDS } from "../config/models";
+import { collectRequestText } from "../lib/tokens";
+import { EmbedOptions, EmbeddingResult, IEmbeddingProvider } from "../types/Embedding";
 
 /**
  * Default model for OpenAI
  */
-const DEFAULT_MODEL = "gpt-4o";
+const DEFAULT_MODEL = MODEL_IDS.openai;
 
 /**
  * OpenAI Provider implementation
@@ -40,15 +48,22 @@ const DEFAULT_MODEL = "gpt-4o";
  * - Accurate token counting using tiktoken
  * - Cost calculation based on actual usage
  * - Structured error handling
+ * - Streaming output with usage reporting
+ * - Tool calling through function tools (`tools` option)
+ * - Custom base URL for OpenAI-compatible servers
+ * - Embeddings (`embed`)
  *
  * @example
  * ```typescript
  * const provider = new OpenAIProvider(apiKey);
  * const response = await provider.generate("Write a poem about coding");
  * console.log(response.content);
+ *
+ * // Local Ollama server
+ * const local = new OpenAIProvider("ollama", "llama3.1:8b", DEFAULT_RETRY_CONFIG, "http://localhost:11434/v1");
  * ```
  */
-export class OpenAIProvider implements IAIProvider {
+export class OpenAIProvider implements IAIProvider, IEmbeddingProvider {
   private client: OpenAI;
   private model: string;
   private retryConfig: RetryConfig;
@@ -60,13 +75,15 @@ export class OpenAIProvider implements IAIProvider {
    * @param {string} apiKey - OpenAI API key from Firebase Secrets
    * @param {string} model - Model to use (defaults to gpt-4o)
    * @param {RetryConfig} retryConfig - Retry configuration
+   * @param {string} baseURL - Optional base URL of an OpenAI-compatible API
    *
    * @throws {AIProviderError} If API key is missing or invalid
    */
   constructor(
     apiKey: string,
     model: string = DEFAULT_MODEL,
-    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+    baseURL?: string
   ) {
     if (!apiKey || apiKey.trim() === "") {
       throw new AIProviderError(
@@ -80,6 +97,7 @@ export class OpenAIProvider implements IAIProvider {
     this.client = new OpenAI({
       apiKey,
       timeout: REQUEST_TIMEOUT_MS,
+      ...(baseURL && { baseURL }),
     });
     this.model = model;
     this.retryConfig = retryConfig;
@@ -109,13 +127,7 @@ export class OpenAIProvider implements IAIProvider {
     const temperature = options?.temperature ?? DEFAULT_GENERATE_OPTIONS.temperature;
     const maxTokens = options?.max_tokens ?? DEFAULT_GENERATE_OPTIONS.max_tokens;
 
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-    if (options?.system_prompt) {
-      messages.push({ role: "system", content: options.system_prompt });
-    }
-
-    messages.push({ role: "user", content: prompt });
+    const messages = this.buildMessages(prompt, options);
 
     this.logger.debug("Starting generation", {
       model,
@@ -133,10 +145,31 @@ export class OpenAIProvider implements IAIProvider {
           messages,
           temperature,
           max_tokens: maxTokens,
-        });
+          ...(options?.response_schema && {
+            response_format: {
+              type: "json_schema" as const,
+              json_schema: {
+                name: options.response_schema.name,
+                description: options.response_schema.description,
+                schema: options.response_schema.schema as unknown as Record<string, unknown>,
+              },
+            },
+          }),
+          ...(options?.tools?.length && {
+            tools: options.tools.map((tool) => ({
+              type: "function" as const,
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters as unknown as Record<string, unknown>,
+              },
+            })),
+          }),
+        }, getRequestOptions(options));
 
         const latencyMs = Date.now() - startTime;
         const content = response.choices[0]?.message?.content || "";
+        const toolCalls = this.parseToolCalls(response.choices[0]?.message?.tool_calls);
         const tokensInput = response.usage?.prompt_tokens || 0;
         const tokensOutput = response.usage?.completion_tokens || 0;
         const totalTokens = tokensInput + tokensOutput;
@@ -148,6 +181,7 @@ export class OpenAIProvider implements IAIProvider {
           tokens_output: tokensOutput,
           cost_usd: costUsd,
           latency_ms: latencyMs,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls.length }),
         });
 
         return {
@@ -160,10 +194,19 @@ export class OpenAIProvider implements IAIProvider {
           total_tokens: totalTokens,
           cost_usd: costUsd,
           latency_ms: latencyMs,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
         };
       } catch (error) {
         lastError = error as Error;
-        const { shouldRetry, errorCode, statusCode } = this.parseError(error);
+        const delay = Math.min(
+          this.retryConfig.baseDelayMs * Math.pow(2, attempt),
+          this.retryConfig.maxDelayMs
+        );
+        const { shouldRetry, errorCode, statusCode } = applyDeadline(
+          this.parseError(error),
+          options,
+          attempt < this.retryConfig.maxRetries ? delay : undefined
+        );
 
         if (!shouldRetry || attempt === this.retryConfig.maxRetries) {
           this.logger.error("Generation failed", {
@@ -188,13 +231,140 @@ export class OpenAIProvider implements IAIProvider {
           };
         }
 
-        // Calculate backoff delay
+        this.logger.warn("Retrying after error", {
+          model,
+          attempt: attempt + 1,
+          max_retries: this.retryConfig.maxRetries,
+          delay_ms: delay,
+          error_code: errorCode,
+          status_code: statusCode,
+        });
+
+        await this.sleep(delay);
+      }
+    }
+
+    // Should not reach here, but handle just in case
+    return {
+      success: false,
+      provider: "openai",
+      model,
+      content: "",
+      tokens_input: 0,
+      tokens_output: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      latency_ms: Date.now() - startTime,
+      error: lastError?.message || "Unknown error",
+      error_code: "UNKNOWN_ERROR",
+    };
+  }
+
+  /**
+   * Generates content using OpenAI's streaming chat completion API
+   *
+   * @param {string} prompt - User prompt to send to the model
+   * @param {GenerateOptions | undefined} options - Optional generation parameters
+   * @param {StreamChunkHandler} onChunk - Called with each text delta
+   * @returns {Promise<AIResponse>} Final response with full content and usage metadata
+   *
+   * @description
+   * Requests usage in the final stream chunk via `stream_options.include_usage`.
+   * Retries follow the same backoff as generate(), but only while no text
+   * has been emitted yet. A failure after the first chunk is returned as-is.
+   */
+  async generateStream(
+    prompt: string,
+    options: GenerateOptions | undefined,
+    onChunk: StreamChunkHandler
+  ): Promise<AIResponse> {
+    const startTime = Date.now();
+    const model = options?.model || this.model;
+    const temperature = options?.temperature ?? DEFAULT_GENERATE_OPTIONS.temperature;
+    const maxTokens = options?.max_tokens ?? DEFAULT_GENERATE_OPTIONS.max_tokens;
+
+    const messages = this.buildMessages(prompt, options);
+
+    this.logger.debug("Starting streaming generation", {
+      model,
+      temperature,
+      max_tokens: maxTokens,
+      prompt_length: prompt.length,
+    });
+
+    let lastError: Error | null = null;
+    let lastErrorCode = "UNKNOWN_ERROR";
+    let streamStarted = false;
+    let content = "";
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        const stream = await this.client.chat.completions.create({
+          model,
+          messages,
+          temperature,
+          max_tokens: maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+        }, getRequestOptions(options));
+
+        let tokensInput = 0;
+        let tokensOutput = 0;
+
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) {
+            streamStarted = true;
+            content += text;
+            onChunk(text);
+          }
+          if (chunk.usage) {
+            tokensInput = chunk.usage.prompt_tokens;
+            tokensOutput = chunk.usage.completion_tokens;
+          }
+        }
+
+        const latencyMs = Date.now() - startTime;
+        const totalTokens = tokensInput + tokensOutput;
+        const costUsd = calculateCost("openai", model, tokensInput, tokensOutput);
+
+        this.logger.info("Streaming generation successful", {
+          model,
+          tokens_input: tokensInput,
+          tokens_output: tokensOutput,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+        });
+
+        return {
+          success: true,
+          provider: "openai",
+          model,
+          content,
+          tokens_input: tokensInput,
+          tokens_output: tokensOutput,
+          total_tokens: totalTokens,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+        };
+      } catch (error) {
+        lastError = error as Error;
         const delay = Math.min(
           this.retryConfig.baseDelayMs * Math.pow(2, attempt),
           this.retryConfig.maxDelayMs
         );
+        const { shouldRetry, errorCode, statusCode } = applyDeadline(
+          this.parseError(error),
+          options,
+          attempt < this.retryConfig.maxRetries ? delay : undefined
+        );
+        lastErrorCode = errorCode;
 
-        this.logger.warn("Retrying after error", {
+        if (streamStarted || !shouldRetry || attempt === this.retryConfig.maxRetries) {
+          break;
+        }
+
+        this.logger.warn("Retrying stream after error", {
           model,
           attempt: attempt + 1,
           max_retries: this.retryConfig.maxRetries,
@@ -207,19 +377,25 @@ export class OpenAIProvider implements IAIProvider {
       }
     }
 
-    // Should not reach here, but handle just in case
+    this.logger.error("Streaming generation failed", {
+      model,
+      error_code: lastErrorCode,
+      error_message: lastError?.message,
+      stream_started: streamStarted,
+    });
+
     return {
       success: false,
       provider: "openai",
       model,
-      content: "",
+      content,
       tokens_input: 0,
       tokens_output: 0,
       total_tokens: 0,
       cost_usd: 0,
       latency_ms: Date.now() - startTime,
       error: lastError?.message || "Unknown error",
-      error_code: "UNKNOWN_ERROR",
+      error_code: lastErrorCode,
     };
   }
 
@@ -250,6 +426,130 @@ export class OpenAIProvider implements IAIProvider {
     }
   }
 
+  /**
+   * Counts the input tokens of a request with tiktoken
+   *
+   * @param {string} prompt - The user prompt
+   * @param {GenerateOptions} options - Options with system prompt, history and tools
+   * @returns {Promise<number>} Input tokens
+   *
+   * @description
+   * Attachments are not sent to OpenAI, so only the texts are counted.
+   */
+  async countInputTokens(prompt: string, options?: GenerateOptions): Promise<number> {
+    return this.countTokens(collectRequestText(prompt, options));
+  }
+
+  /**
+   * Embeds a batch of texts with OpenAI's embeddings API
+   *
+   * @param {string[]} texts - Texts to embed
+   * @param {EmbedOptions} options - Model and dimensions (the task is ignored)
+   * @returns {Promise<EmbeddingResult>} One vector per text, in order
+   *
+   * @description
+   * Billed on the prompt tokens reported by the API. Retries follow the
+   * same backoff as generate().
+   */
+  async embed(texts: string[], options?: EmbedOptions): Promise<EmbeddingResult> {
+    const startTime = Date.now();
+    const model = options?.model || EMBEDDING_MODELS.openai;
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        const response = await this.client.embeddings.create({
+          model,
+          input: texts,
+          ...(options?.dimensions && { dimensions: options.dimensions }),
+        });
+
+        // The API may return the vectors out of order
+        const embeddings = [...response.data]
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding);
+        const tokensInput = response.usage?.prompt_tokens || 0;
+
+        const latencyMs = Date.now() - startTime;
+        const costUsd = calculateEmbeddingCost(model, tokensInput);
+
+        this.logger.info("Embedding successful", {
+          model,
+          texts: texts.length,
+          tokens_input: tokensInput,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+        });
+
+        return {
+          success: true,
+          provider: "openai",
+          model,
+          embeddings,
+          dimensions: embeddings[0]?.length ?? 0,
+          tokens_input: tokensInput,
+          cost_usd: costUsd,
+          latency_ms: latencyMs,
+        };
+      } catch (error) {
+        lastError = error as Error;
+        const { shouldRetry, errorCode, statusCode } = this.parseError(error);
+
+        if (!shouldRetry || attempt === this.retryConfig.maxRetries) {
+          this.logger.error("Embedding failed", {
+            model,
+            attempt,
+            error_code: errorCode,
+            error_message: lastError.message,
+          });
+
+          return {
+            success: false,
+            provider: "openai",
+            model,
+            embeddings: [],
+            dimensions: 0,
+            tokens_input: 0,
+            cost_usd: 0,
+            latency_ms: Date.now() - startTime,
+            error: lastError.message,
+            error_code: errorCode,
+          };
+        }
+
+        const delay = Math.min(
+          this.retryConfig.baseDelayMs * Math.pow(2, attempt),
+          this.retryConfig.maxDelayMs
+        );
+
+        this.logger.warn("Retrying after error", {
+          model,
+          attempt: attempt + 1,
+          max_retries: this.retryConfig.maxRetries,
+          delay_ms: delay,
+          error_code: errorCode,
+          status_code: statusCode,
+        });
+
+        await this.sleep(delay);
+      }
+    }
+
+    // Should not reach here, but handle just in case
+    return {
+      success: false,
+      provider: "openai",
+      model,
+      embeddings: [],
+      dimensions: 0,
+      tokens_input: 0,
+      cost_usd: 0,
+      latency_ms: Date.now() - startTime,
+      error: lastError?.message || "Unknown error",
+      error_code: "UNKNOWN_ERROR",
+    };
+  }
+
   /**
    * Gets the default model name
    *
@@ -268,6 +568,98 @@ export class OpenAIProvider implements IAIProvider {
     return "openai";
   }
 
+  /**
+   * Builds the messages array: system prompt, conversation history, then the prompt
+   *
+   * @param {string} prompt - Text prompt for the current turn
+   * @param {GenerateOptions} options - Options with optional system prompt, history and tool results
+   * @returns {OpenAI.Chat.ChatCompletionMessageParam[]} Messages for chat completions
+   * @private
+   *
+   * @description
+   * Tool calls stay on their assistant message; each tool result becomes a
+   * "tool" message answering its call, sent before the user text of that turn.
+   */
+  private buildMessages(
+    prompt: string,
+    options?: GenerateOptions
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    if (options?.system_prompt) {
+      messages.push({ role: "system", content: options.system_prompt });
+    }
+
+    for (const message of options?.messages || []) {
+      if (message.role === "assistant" && message.tool_calls?.length) {
+        messages.push({
+          role: "assistant",
+          content: message.content || null,
+          tool_calls: message.tool_calls.map((call) => ({
+            id: call.id,
+            type: "function" as const,
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        });
+        continue;
+      }
+
+      messages.push(...this.buildToolMessages(message.tool_results));
+      if (message.content || !message.tool_results?.length) {
+        messages.push({ role: message.role, content: message.content });
+      }
+    }
+
+    messages.push(...this.buildToolMessages(options?.tool_results));
+    if (prompt || !options?.tool_results?.length) {
+      messages.push({ role: "user", content: prompt });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Maps tool results to "tool" messages
+   *
+   * @param {ToolResult[] | undefined} results - Results of the previous turn's tool calls
+   * @returns {OpenAI.Chat.ChatCompletionToolMessageParam[]} One message per result
+   * @private
+   */
+  private buildToolMessages(results?: ToolResult[]): OpenAI.Chat.ChatCompletionToolMessageParam[] {
+    return (results || []).map((result) => ({
+      role: "tool",
+      tool_call_id: result.tool_call_id,
+      content: result.is_error ? `Error: ${result.content}` : result.content,
+    }));
+  }
+
+  /**
+   * Parses the function tool calls of a completion message
+   *
+   * @param {OpenAI.Chat.ChatCompletionMessageToolCall[] | undefined} toolCalls - Calls from the API
+   * @returns {ToolCall[]} Tool calls (arguments that are not valid JSON become an empty object)
+   * @private
+   */
+  private parseToolCalls(toolCalls?: OpenAI.Chat.ChatCompletionMessageToolCall[]): ToolCall[] {
+    const calls: ToolCall[] = [];
+
+    for (const call of toolCalls || []) {
+      if (call.type !== "function") {
+        continue;
+      }
+
+      let args: Record<string, unknown> = {};
+      try {
+        args = JSON.parse(call.function.arguments || "{}");
+      } catch {
+        this.logger.warn("Tool call arguments are not valid JSON", { tool: call.function.name });
+      }
+      calls.push({ id: call.id, name: call.function.name, arguments: args });
+    }
+
+    return calls;
+  }
+
   /**
    * Maps OpenAI model names to tiktoken model names
    *
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Schemas of the authentication endpoints
+ * @module schemas/auth
+ */
+
+import { ApiOperation } from "../types/ApiSchema";
+import { errorResponses, nonEmptyString } from "./common";
+
+/**
+ * POST /api/auth/validate-license
+ *
+ * @description
+ * The license key format is checked by the licensing service
+ * (INVALID_FORMAT), after trimming.
+ */
+export const VALIDATE_LICENSE_OPERATION: ApiOperation = {
+  operationId: "validateLicense",
+  method: "post",
+  path: "/api/auth/validate-license",
+  summary: "Validate a license key and get a site token",
+  tag: "auth",
+  auth: false,
+  errorCode: "MISSING_FIELDS",
+  body: {
+    type: "object",
+    properties: {
+      license_key: nonEmptyString("License key (format: CREATOR-YYYY-XXXXX-XXXXX)"),
+      site_url: { ...nonEmptyString("Site URL requesting validation"), format: "uri" },
+    },
+    required: ["license_key", "site_url"],
+  },
+  responses: {
+    200: {
+      description: "License valid",
+      schema: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          user_id: { type: "string" },
+          site_token: { type: "string", description: "JWT for subsequent API calls" },
+          plan: { type: "string", enum: ["starter", "pro", "enterprise"] },
+          tokens_limit: { type: "integer" },
+          tokens_remaining: { type: "integer" },
+          reset_date: { type: "string", description: "Next quota reset (ISO date)" },
+        },
+        required: ["success", "user_id", "site_token", "plan", "tokens_limit", "tokens_remaining", "reset_date"],
+      },
+    },
+    ...errorResponses({
+      400: "Missing fields or invalid license key format",
+      403: "License suspended, expired or registered to another site",
+      404: "License not found",
+      405: "Method not allowed",
+      429: "Rate limited or quota exceeded",
+      500: "Internal error",
+    }),
+  },
+};
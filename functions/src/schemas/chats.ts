@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Schemas of the chat session endpoints
+ * @module schemas/chats
+ *
+ * @description
+ * Path parameter and response of /api/ai/chats/{chat_id}. GET fetches
+ * the session and DELETE removes it; both take the same chat_id.
+ */
+
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+import { CHAT_ID_PATTERN } from "../types/ChatSession";
+import { errorResponses } from "./common";
+
+/**
+ * A chat session ID, as sent in a body or a path
+ */
+export const CHAT_ID_SCHEMA: ApiSchema = {
+  type: "string",
+  pattern: CHAT_ID_PATTERN.source,
+  description: "Chat session ID",
+  errorCode: "INVALID_CHAT_ID",
+  message: "must be 1-128 letters, digits, '_' or '-'",
+};
+
+/**
+ * Response of GET /api/ai/chats/{chat_id}
+ */
+const CHAT_SESSION_RESPONSE_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    chat_id: { type: "string" },
+    message_count: { type: "integer", description: "Turns ever stored, including trimmed ones" },
+    locked_model: { type: "string", description: "Model the session is locked to" },
+    messages: {
+      type: "array",
+      description: "Stored turns, oldest first",
+      items: {
+        type: "object",
+        properties: {
+          role: { type: "string", enum: ["user", "assistant"] },
+          content: { type: "string" },
+          model: { type: "string", description: "Model that answered (assistant turns)" },
+          model_id: { type: "string" },
+          created_at: { type: "string", description: "ISO 8601" },
+        },
+        required: ["role", "content", "created_at"],
+      },
+    },
+    created_at: { type: "string", description: "ISO 8601" },
+    updated_at: { type: "string", description: "ISO 8601" },
+  },
+  required: ["success", "chat_id", "message_count", "messages", "created_at", "updated_at"],
+};
+
+/**
+ * GET /api/ai/chats/{chat_id} (DELETE on the same path deletes the session)
+ */
+export const CHAT_SESSION_OPERATION: ApiOperation = {
+  operationId: "chatSessions",
+  method: "get",
+  path: "/api/ai/chats/{chat_id}",
+  summary: "Fetch a chat session with its messages",
+  tag: "ai",
+  auth: true,
+  errorCode: "INVALID_REQUEST",
+  params: {
+    type: "object",
+    properties: {
+      chat_id: CHAT_ID_SCHEMA,
+    },
+    required: ["chat_id"],
+  },
+  responses: {
+    200: { description: "The session", schema: CHAT_SESSION_RESPONSE_SCHEMA },
+    ...errorResponses({
+      400: "Invalid chat_id",
+      401: "Missing or invalid site token",
+      404: "Chat not found",
+      405: "Method not allowed",
+      429: "Rate limited",
+      500: "Internal error",
+    }),
+  },
+};
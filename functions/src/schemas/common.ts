@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Schemas shared by every endpoint
+ * @module schemas/common
+ *
+ * @description
+ * The error envelope every endpoint answers failures with, and small
+ * helpers to declare an operation's error responses.
+ */
+
+import { ApiResponseSpec, ApiSchema } from "../types/ApiSchema";
+
+/**
+ * A field that failed validation
+ */
+export const FIELD_ERROR_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    field: { type: "string", description: "Path of the field, e.g. task_data.topics[0] (body for the whole body)" },
+    code: { type: "string", description: "Machine-readable error code" },
+    message: { type: "string", description: "Human-readable message, starting with the field" },
+  },
+  required: ["field", "code", "message"],
+};
+
+/**
+ * Error envelope of every endpoint
+ */
+export const ERROR_RESPONSE_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", description: "Always false" },
+    error: { type: "string", description: "Human-readable error message" },
+    code: { type: "string", description: "Machine-readable error code" },
+    details: {
+      type: "array",
+      description: "Every failing field, on validation errors (400)",
+      items: FIELD_ERROR_SCHEMA,
+    },
+  },
+  required: ["success", "error", "code"],
+};
+
+/**
+ * Declares error responses that use the error envelope
+ *
+ * @param {Record<number, string>} descriptions - Description by HTTP status
+ * @returns {Record<number, ApiResponseSpec>} Responses for an ApiOperation
+ *
+ * @example
+ * ```typescript
+ * responses: {
+ *   200: { description: "Job queued", schema: SUBMIT_TASK_RESPONSE_SCHEMA },
+ *   ...errorResponses({ 400: "Invalid request", 429: "Rate limited" }),
+ * }
+ * ```
+ */
+export function errorResponses(descriptions: Record<number, string>): Record<number, ApiResponseSpec> {
+  return Object.fromEntries(
+    Object.entries(descriptions).map(([status, description]) => [
+      status,
+      { description, schema: ERROR_RESPONSE_SCHEMA },
+    ])
+  );
+}
+
+/**
+ * A non-empty string
+ */
+export function nonEmptyString(description: string, maxLength?: number): ApiSchema {
+  return {
+    type: "string",
+    description,
+    minLength: 1,
+    ...(maxLength !== undefined && { maxLength }),
+    check: (value) => (value as string).trim().length === 0 ? "must not be blank" : undefined,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Schemas of the embeddings endpoint
+ * @module schemas/embed
+ *
+ * @description
+ * Request and response schemas of POST /api/ai/embed. `dimensions` is
+ * checked against the model of the requested provider, whose vectors can
+ * be shortened down to its `min_dimensions`.
+ *
+ * "openai" embeds with text-embedding-3-small, which a server behind
+ * OPENAI_BASE_URL (vLLM, Ollama...) does not serve, so it is only
+ * accepted for api.openai.com.
+ */
+
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+import {
+  DEFAULT_EMBEDDING_PROVIDER,
+  EmbeddingTask,
+  MAX_EMBED_TEXTS,
+  MAX_EMBED_TEXT_LENGTH,
+} from "../types/Embedding";
+import {
+  EMBEDDING_MODELS,
+  EMBEDDING_MODEL_REGISTRY,
+  EmbeddingProvider,
+  getOpenAICompatibleConfig,
+} from "../config/models";
+import { isValidProvider } from "../types/ModelConfig";
+import { errorResponses, nonEmptyString } from "./common";
+
+/**
+ * Embedding tasks, for the enum
+ */
+const EMBEDDING_TASKS: EmbeddingTask[] = ["document", "query", "similarity", "classification", "clustering"];
+
+/**
+ * Body of POST /api/ai/embed
+ */
+export const EMBED_REQUEST_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    texts: {
+      type: "array",
+      description: "Texts to embed, one vector each",
+      minItems: 1,
+      maxItems: MAX_EMBED_TEXTS,
+      items: nonEmptyString("Text to embed", MAX_EMBED_TEXT_LENGTH),
+      errorCode: "INVALID_TEXTS",
+    },
+    model: {
+      type: "string",
+      enum: ["gemini", "openai"],
+      description: "Embedding provider (default gemini); openai needs the OpenAI endpoint without a custom base URL",
+      errorCode: "INVALID_MODEL",
+      check: (value) => {
+        if (!isValidProvider(value as string)) {
+          return "must be gemini (the OpenAI-compatible endpoint is not enabled)";
+        }
+        return value === "openai" && getOpenAICompatibleConfig().base_url
+          ? "must be gemini (the OpenAI-compatible endpoint at OPENAI_BASE_URL serves no embedding model)"
+          : undefined;
+      },
+    },
+    dimensions: {
+      type: "integer",
+      description: "Shortened vector size (default: the model's full size)",
+      minimum: 1,
+      errorCode: "INVALID_DIMENSIONS",
+      check: (value, body) => {
+        const provider = (body.model ?? DEFAULT_EMBEDDING_PROVIDER) as EmbeddingProvider;
+        const model = EMBEDDING_MODEL_REGISTRY[EMBEDDING_MODELS[provider]];
+        if (!model) {
+          return undefined;
+        }
+        return (value as number) < model.min_dimensions || (value as number) > model.dimensions
+          ? `must be between ${model.min_dimensions} and ${model.dimensions} for ${provider}`
+          : undefined;
+      },
+    },
+    task: {
+      type: "string",
+      enum: EMBEDDING_TASKS,
+      description: "What the vectors are for; tunes Gemini embeddings, ignored by openai",
+      errorCode: "INVALID_TASK",
+    },
+  },
+  required: ["texts"],
+};
+
+/**
+ * Answer of POST /api/ai/embed
+ */
+export const EMBED_RESPONSE_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    embeddings: {
+      type: "array",
+      description: "One vector per text, in request order",
+      items: { type: "array", items: { type: "number" } },
+    },
+    model: { type: "string", enum: ["gemini", "openai"], description: "Provider that answered" },
+    model_id: { type: "string", description: "Embedding model that answered" },
+    dimensions: { type: "integer", description: "Size of each vector" },
+    tokens_used: { type: "integer", description: "Input tokens" },
+    cost_usd: { type: "number" },
+    latency_ms: { type: "integer" },
+  },
+  required: ["success", "embeddings", "model", "model_id", "dimensions", "tokens_used", "cost_usd", "latency_ms"],
+};
+
+/**
+ * POST /api/ai/embed
+ */
+export const EMBED_OPERATION: ApiOperation = {
+  operationId: "embed",
+  method: "post",
+  path: "/api/ai/embed",
+  summary: "Embed a batch of texts for semantic search",
+  tag: "ai",
+  auth: true,
+  idempotent: true,
+  errorCode: "INVALID_REQUEST",
+  body: EMBED_REQUEST_SCHEMA,
+  responses: {
+    200: { description: "Embedded", schema: EMBED_RESPONSE_SCHEMA },
+    ...errorResponses({
+      400: "Invalid request",
+      401: "Missing or invalid site token",
+      403: "Quota exceeded or insufficient",
+      409: "Idempotency-Key in use",
+      422: "Idempotency-Key reused with a different body",
+      429: "Rate limited",
+      500: "Internal error",
+      503: "Embedding provider failed",
+    }),
+  },
+};
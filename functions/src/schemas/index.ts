@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Central export of the API schemas
+ * @module schemas
+ */
+
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+import { ERROR_RESPONSE_SCHEMA, FIELD_ERROR_SCHEMA } from "./common";
+import { VALIDATE_LICENSE_OPERATION } from "./auth";
+import { ROUTE_BATCH_OPERATION, ROUTE_REQUEST_OPERATION } from "./route";
+import { EMBED_OPERATION } from "./embed";
+import { CHAT_SESSION_OPERATION } from "./chats";
+import { SUBMIT_TASK_OPERATION } from "./tasks";
+import {
+  GET_PLUGIN_DOCS_ALL_VERSIONS_OPERATION,
+  GET_PLUGIN_DOCS_OPERATION,
+  GET_PLUGIN_DOCS_STATS_OPERATION,
+  RESEARCH_PLUGIN_DOCS_OPERATION,
+  SAVE_PLUGIN_DOCS_OPERATION,
+  SYNC_PLUGIN_DOCS_OPERATION,
+  PLUGIN_DOCS_ENTRY_SCHEMA,
+} from "./pluginDocs";
+
+export * from "./common";
+export * from "./auth";
+export * from "./route";
+export * from "./embed";
+export * from "./chats";
+export * from "./tasks";
+export * from "./pluginDocs";
+export { buildOpenApiDocument, toOpenApiSchema } from "./openapi";
+
+/**
+ * Every operation with a declared contract, in document order
+ */
+export const API_OPERATIONS: ApiOperation[] = [
+  VALIDATE_LICENSE_OPERATION,
+  ROUTE_REQUEST_OPERATION,
+  ROUTE_BATCH_OPERATION,
+  EMBED_OPERATION,
+  CHAT_SESSION_OPERATION,
+  SUBMIT_TASK_OPERATION,
+  GET_PLUGIN_DOCS_OPERATION,
+  SAVE_PLUGIN_DOCS_OPERATION,
+  GET_PLUGIN_DOCS_STATS_OPERATION,
+  GET_PLUGIN_DOCS_ALL_VERSIONS_OPERATION,
+  RESEARCH_PLUGIN_DOCS_OPERATION,
+  SYNC_PLUGIN_DOCS_OPERATION,
+];
+
+/**
+ * Schemas shared across operations, by OpenAPI component name
+ */
+export const API_COMPONENTS: Record<string, ApiSchema> = {
+  ErrorResponse: ERROR_RESPONSE_SCHEMA,
+  FieldError: FIELD_ERROR_SCHEMA,
+  PluginDocsEntry: PLUGIN_DOCS_ENTRY_SCHEMA,
+};
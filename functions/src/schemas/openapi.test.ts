@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Unit tests for the generated OpenAPI document
+ * @module schemas/openapi.test
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { API_COMPONENTS, API_OPERATIONS, buildOpenApiDocument, toOpenApiSchema } from "./index";
+import { ApiSchema } from "../types/ApiSchema";
+
+const DOCUMENT_PATH = path.resolve(__dirname, "../../../docs/openapi.json");
+const PACKAGE_PATH = path.resolve(__dirname, "../../package.json");
+
+describe("OpenAPI document", () => {
+  const { version } = JSON.parse(fs.readFileSync(PACKAGE_PATH, "utf8")) as { version: string };
+  const document = buildOpenApiDocument(API_OPERATIONS, version, API_COMPONENTS);
+
+  it("should match the committed docs/openapi.json (run npm run openapi:generate)", () => {
+    const committed = JSON.parse(fs.readFileSync(DOCUMENT_PATH, "utf8"));
+    expect(committed).toEqual(JSON.parse(JSON.stringify(document)));
+  });
+
+  it("should give every operation a unique operationId", () => {
+    const ids = API_OPERATIONS.map((operation) => operation.operationId);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("should document a 400 for every operation that validates input", () => {
+    for (const operation of API_OPERATIONS.filter((op) => op.body || op.params || op.query)) {
+      expect(operation.responses[400]).toBeDefined();
+    }
+  });
+
+  it("should declare every path parameter of the path template", () => {
+    for (const operation of API_OPERATIONS) {
+      const names = [...operation.path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+      expect(Object.keys(operation.params?.properties ?? {})).toEqual(names);
+    }
+  });
+
+  it("should require the site token on authenticated operations only", () => {
+    const paths = document.paths as Record<string, Record<string, { security?: unknown }>>;
+    expect(paths["/api/ai/route-request"].post.security).toEqual([{ siteToken: [] }]);
+    expect(paths["/api/auth/validate-license"].post.security).toBeUndefined();
+  });
+});
+
+describe("toOpenApiSchema", () => {
+  it("should drop validation-only fields and keep error codes as extensions", () => {
+    const schema: ApiSchema = {
+      type: "string",
+      minLength: 1,
+      errorCode: "INVALID_PROMPT",
+      message: "must be set",
+      check: () => undefined,
+    };
+
+    expect(toOpenApiSchema(schema)).toEqual({
+      type: "string",
+      minLength: 1,
+      "x-error-code": "INVALID_PROMPT",
+    });
+  });
+
+  it("should export variants as oneOf", () => {
+    const schema: ApiSchema = {
+      variants: {
+        by: "kind",
+        schemas: { a: { type: "string" }, b: { type: "integer" } },
+      },
+    };
+
+    expect(toOpenApiSchema(schema)).toEqual({
+      oneOf: [{ type: "string" }, { type: "integer" }],
+      "x-variant-by": "kind",
+    });
+  });
+
+  it("should reference shared schemas", () => {
+    const shared: ApiSchema = { type: "object", properties: { id: { type: "string" } } };
+    const refs = new Map([[shared, "Thing"]]);
+
+    expect(toOpenApiSchema({ type: "array", items: shared }, refs)).toEqual({
+      type: "array",
+      items: { $ref: "#/components/schemas/Thing" },
+    });
+  });
+});
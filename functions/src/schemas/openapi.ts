@@ -0,0 +1,221 @@
+/**
+ * @fileoverview OpenAPI document generated from the API schemas
+ * @module schemas/openapi
+ *
+ * @description
+ * Converts ApiOperations into an OpenAPI 3.0 document. Validation-only
+ * fields (check, message, validateItems) are dropped, variants become
+ * oneOf, and error codes are kept as x-error-code extensions so clients
+ * can be checked against the codes they handle. Shared schemas (the error
+ * envelope, plugin docs entries) are emitted once under components and
+ * referenced with $ref.
+ *
+ * The committed copy lives at docs/openapi.json; regenerate it with
+ * `npm run openapi:generate` after changing a schema.
+ */
+
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_KEY_TTL_SECONDS,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from "../types/Idempotency";
+
+/**
+ * An OpenAPI object (the document is plain JSON)
+ */
+type OpenApiObject = Record<string, unknown>;
+
+/**
+ * Public base URL of the API (Firebase Hosting)
+ */
+const SERVER_URL = "https://creator-ai-proxy.firebaseapp.com";
+
+/**
+ * Name of the site_token security scheme
+ */
+const SECURITY_SCHEME = "siteToken";
+
+/**
+ * Keywords copied as-is from an ApiSchema
+ */
+const PLAIN_KEYWORDS = [
+  "type", "description", "enum", "minimum", "maximum", "minLength", "maxLength",
+  "pattern", "minItems", "maxItems", "format", "required",
+] as const;
+
+/**
+ * Component names of shared schemas, by schema
+ */
+type SchemaRefs = Map<ApiSchema, string>;
+
+/**
+ * Converts an ApiSchema to an OpenAPI schema object
+ *
+ * @param {ApiSchema} schema - Schema to convert
+ * @param {SchemaRefs} refs - Shared schemas, replaced by a $ref wherever they appear
+ * @returns {OpenApiObject} OpenAPI schema
+ */
+export function toOpenApiSchema(schema: ApiSchema, refs: SchemaRefs = new Map()): OpenApiObject {
+  const ref = refs.get(schema);
+  if (ref) {
+    return { $ref: `#/components/schemas/${ref}` };
+  }
+  return convertSchema(schema, refs);
+}
+
+/**
+ * Converts the keywords of a schema (children may become $refs)
+ */
+function convertSchema(schema: ApiSchema, refs: SchemaRefs): OpenApiObject {
+  const result: OpenApiObject = {};
+  const convert = (child: ApiSchema): OpenApiObject => toOpenApiSchema(child, refs);
+
+  for (const keyword of PLAIN_KEYWORDS) {
+    if (schema[keyword] !== undefined) {
+      result[keyword] = schema[keyword];
+    }
+  }
+
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, convert(property)])
+    );
+  }
+  if (schema.items) {
+    result.items = convert(schema.items);
+  }
+  if (schema.oneOf) {
+    result.oneOf = schema.oneOf.map(convert);
+  }
+  if (schema.variants) {
+    result.oneOf = Object.values(schema.variants.schemas).map(convert);
+    result["x-variant-by"] = schema.variants.by;
+  }
+  if (schema.errorCode) {
+    result["x-error-code"] = schema.errorCode;
+  }
+  if (schema.missingErrorCode) {
+    result["x-missing-error-code"] = schema.missingErrorCode;
+  }
+
+  return result;
+}
+
+/**
+ * Lists the parameters declared by an object schema
+ */
+function toParameters(
+  schema: ApiSchema | undefined,
+  location: "path" | "query",
+  refs: SchemaRefs
+): OpenApiObject[] {
+  return Object.entries(schema?.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || (schema?.required ?? []).includes(name),
+    schema: toOpenApiSchema(property, refs),
+  }));
+}
+
+/**
+ * Idempotency-Key header parameter of idempotent operations
+ */
+const IDEMPOTENCY_KEY_PARAMETER: OpenApiObject = {
+  name: IDEMPOTENCY_KEY_HEADER,
+  in: "header",
+  required: false,
+  description: `Retries with the same key get the first response back (kept ${IDEMPOTENCY_KEY_TTL_SECONDS / 3600} hours)`,
+  schema: { type: "string", minLength: 1, maxLength: MAX_IDEMPOTENCY_KEY_LENGTH },
+};
+
+/**
+ * Converts an ApiOperation to an OpenAPI operation object
+ */
+function toOperation(operation: ApiOperation, refs: SchemaRefs): OpenApiObject {
+  const parameters = [
+    ...toParameters(operation.params, "path", refs),
+    ...toParameters(operation.query, "query", refs),
+    ...(operation.idempotent ? [IDEMPOTENCY_KEY_PARAMETER] : []),
+  ];
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    ...(operation.auth && { security: [{ [SECURITY_SCHEME]: [] }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: toOpenApiSchema(operation.body, refs) } },
+      },
+    }),
+    responses: Object.fromEntries(
+      Object.entries(operation.responses).map(([status, response]) => [
+        status,
+        {
+          description: response.description,
+          ...(response.schema && {
+            content: { "application/json": { schema: toOpenApiSchema(response.schema, refs) } },
+          }),
+        },
+      ])
+    ),
+    "x-error-code": operation.errorCode,
+  };
+}
+
+/**
+ * Builds the OpenAPI document of a set of operations
+ *
+ * @param {ApiOperation[]} operations - Operations to document, in order
+ * @param {string} version - API version
+ * @param {Record<string, ApiSchema>} components - Shared schemas, by component name
+ * @returns {OpenApiObject} OpenAPI 3.0 document
+ *
+ * @example
+ * ```typescript
+ * const document = buildOpenApiDocument(API_OPERATIONS, "1.0.0", API_COMPONENTS);
+ * fs.writeFileSync("docs/openapi.json", JSON.stringify(document, null, 2));
+ * ```
+ */
+export function buildOpenApiDocument(
+  operations: ApiOperation[],
+  version: string,
+  components: Record<string, ApiSchema> = {}
+): OpenApiObject {
+  const refs: SchemaRefs = new Map(Object.entries(components).map(([name, schema]) => [schema, name]));
+
+  const paths: Record<string, OpenApiObject> = {};
+  for (const operation of operations) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperation(operation, refs) };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Creator AI Proxy API",
+      version,
+      description: "Generated from functions/src/schemas. Validation failures answer 400 " +
+        "with { success: false, error, code, details }, one entry per failing field. " +
+        "Every /api path is also served under /v1 (e.g. /v1/ai/route-request).",
+    },
+    servers: [{ url: SERVER_URL }],
+    tags: [...new Set(operations.map((operation) => operation.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(components).map(([name, schema]) => [name, convertSchema(schema, refs)])
+      ),
+      securitySchemes: {
+        [SECURITY_SCHEME]: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "site_token returned by /api/auth/validate-license",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,343 @@
+/**
+ * @fileoverview Schemas of the plugin documentation cache endpoints
+ * @module schemas/pluginDocs
+ *
+ * @description
+ * Shapes follow what the PHP PluginDocsRepository sends: cached_by is the
+ * WordPress user ID and since_timestamp is empty before the first sync.
+ */
+
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+import { errorResponses, nonEmptyString } from "./common";
+
+/**
+ * Firestore Timestamp, as serialized in JSON responses
+ */
+const TIMESTAMP_SCHEMA: ApiSchema = {
+  type: "object",
+  description: "Firestore timestamp",
+  properties: {
+    _seconds: { type: "integer" },
+    _nanoseconds: { type: "integer" },
+  },
+};
+
+/**
+ * Documentation fields shared by saved and synced entries
+ */
+const DOCS_PROPERTIES: Record<string, ApiSchema> = {
+  plugin_slug: { type: "string" },
+  plugin_version: { type: "string" },
+  docs_url: { type: "string" },
+  main_functions: { type: "array", items: { type: "string" } },
+  api_reference: { type: "string" },
+  version_notes: { type: "array", items: { type: "string" } },
+};
+
+/**
+ * A cached documentation entry
+ */
+export const PLUGIN_DOCS_ENTRY_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    ...DOCS_PROPERTIES,
+    functions_url: { type: "string" },
+    cached_at: TIMESTAMP_SCHEMA,
+    cached_by: { oneOf: [{ type: "string" }, { type: "integer" }] },
+    cache_hits: { type: "integer" },
+    source: { type: "string", enum: ["ai_research", "manual", "fallback"] },
+    last_verified: TIMESTAMP_SCHEMA,
+  },
+  required: ["plugin_slug", "plugin_version", "docs_url", "main_functions", "cache_hits", "source"],
+};
+
+/**
+ * Response carrying one entry (get, save, research)
+ */
+const PLUGIN_DOCS_RESPONSE_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    cached: { type: "boolean" },
+    source: { type: "string" },
+    data: PLUGIN_DOCS_ENTRY_SCHEMA,
+    message: { type: "string" },
+    warning: { type: "string", description: "Research failure, when a fallback entry was saved" },
+    research_meta: { type: "object", description: "AI provider, model and cost of the research" },
+  },
+  required: ["success", "cached", "data"],
+};
+
+/**
+ * Path parameter holding the plugin slug
+ */
+const PLUGIN_SLUG_PARAM: ApiSchema = nonEmptyString("Plugin slug (e.g. advanced-custom-fields)");
+
+/**
+ * GET /api/plugin-docs/{plugin_slug}/{plugin_version}
+ */
+export const GET_PLUGIN_DOCS_OPERATION: ApiOperation = {
+  operationId: "getPluginDocsApi",
+  method: "get",
+  path: "/api/plugin-docs/{plugin_slug}/{plugin_version}",
+  summary: "Get cached documentation of a plugin version",
+  tag: "plugin-docs",
+  auth: false,
+  errorCode: "INVALID_REQUEST",
+  params: {
+    type: "object",
+    properties: {
+      plugin_slug: PLUGIN_SLUG_PARAM,
+      plugin_version: nonEmptyString("Plugin version"),
+    },
+    required: ["plugin_slug", "plugin_version"],
+  },
+  responses: {
+    200: { description: "Cache hit", schema: PLUGIN_DOCS_RESPONSE_SCHEMA },
+    404: {
+      description: "Cache miss",
+      schema: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          cached: { type: "boolean" },
+          error: { type: "string" },
+        },
+        required: ["success", "cached", "error"],
+      },
+    },
+    ...errorResponses({
+      400: "Missing plugin_slug or plugin_version",
+      405: "Method not allowed",
+      500: "Internal error",
+    }),
+  },
+};
+
+/**
+ * POST /api/plugin-docs
+ */
+export const SAVE_PLUGIN_DOCS_OPERATION: ApiOperation = {
+  operationId: "savePluginDocsApi",
+  method: "post",
+  path: "/api/plugin-docs",
+  summary: "Save researched documentation to the shared cache",
+  tag: "plugin-docs",
+  auth: false,
+  errorCode: "INVALID_REQUEST",
+  body: {
+    type: "object",
+    properties: {
+      plugin_slug: PLUGIN_SLUG_PARAM,
+      plugin_version: nonEmptyString("Plugin version"),
+      data: {
+        type: "object",
+        properties: {
+          docs_url: nonEmptyString("Official documentation URL"),
+          main_functions: { type: "array", items: { type: "string" } },
+          api_reference: { type: "string" },
+          version_notes: { type: "array", items: { type: "string" } },
+        },
+        required: ["docs_url", "main_functions"],
+      },
+      cached_by: {
+        description: "Who researched the docs (WordPress user ID)",
+        oneOf: [{ type: "string" }, { type: "integer" }],
+      },
+    },
+    required: ["plugin_slug", "plugin_version", "data"],
+  },
+  responses: {
+    200: { description: "Already cached", schema: PLUGIN_DOCS_RESPONSE_SCHEMA },
+    201: { description: "Saved", schema: PLUGIN_DOCS_RESPONSE_SCHEMA },
+    ...errorResponses({
+      400: "Invalid request",
+      405: "Method not allowed",
+      500: "Internal error",
+    }),
+  },
+};
+
+/**
+ * GET /api/plugin-docs/stats
+ */
+export const GET_PLUGIN_DOCS_STATS_OPERATION: ApiOperation = {
+  operationId: "getPluginDocsStatsApi",
+  method: "get",
+  path: "/api/plugin-docs/stats",
+  summary: "Get plugin docs cache statistics",
+  tag: "plugin-docs",
+  auth: false,
+  errorCode: "INVALID_REQUEST",
+  responses: {
+    200: {
+      description: "Statistics",
+      schema: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          data: {
+            type: "object",
+            properties: {
+              total_entries: { type: "integer" },
+              total_cache_hits: { type: "integer" },
+              cache_hit_rate: { type: "number" },
+              ai_research_count: { type: "integer" },
+              most_requested: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    plugin_slug: { type: "string" },
+                    cache_hits: { type: "integer" },
+                  },
+                },
+              },
+              last_updated: TIMESTAMP_SCHEMA,
+            },
+          },
+        },
+        required: ["success", "data"],
+      },
+    },
+    ...errorResponses({
+      405: "Method not allowed",
+      500: "Internal error",
+    }),
+  },
+};
+
+/**
+ * GET /api/plugin-docs/all/{plugin_slug}
+ */
+export const GET_PLUGIN_DOCS_ALL_VERSIONS_OPERATION: ApiOperation = {
+  operationId: "getPluginDocsAllVersionsApi",
+  method: "get",
+  path: "/api/plugin-docs/all/{plugin_slug}",
+  summary: "List every cached version of a plugin",
+  tag: "plugin-docs",
+  auth: false,
+  errorCode: "INVALID_REQUEST",
+  params: {
+    type: "object",
+    properties: {
+      plugin_slug: PLUGIN_SLUG_PARAM,
+    },
+    required: ["plugin_slug"],
+  },
+  responses: {
+    200: {
+      description: "Cached versions",
+      schema: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          data: {
+            type: "object",
+            properties: {
+              plugin_slug: { type: "string" },
+              versions_count: { type: "integer" },
+              versions: { type: "array", items: PLUGIN_DOCS_ENTRY_SCHEMA },
+            },
+            required: ["plugin_slug", "versions_count", "versions"],
+          },
+        },
+        required: ["success", "data"],
+      },
+    },
+    ...errorResponses({
+      400: "Missing plugin_slug",
+      405: "Method not allowed",
+      500: "Internal error",
+    }),
+  },
+};
+
+/**
+ * POST /api/plugin-docs/research
+ */
+export const RESEARCH_PLUGIN_DOCS_OPERATION: ApiOperation = {
+  operationId: "researchPluginDocsApi",
+  method: "post",
+  path: "/api/plugin-docs/research",
+  summary: "Research plugin documentation with AI on a cache miss",
+  tag: "plugin-docs",
+  auth: false,
+  errorCode: "INVALID_REQUEST",
+  body: {
+    type: "object",
+    properties: {
+      plugin_slug: PLUGIN_SLUG_PARAM,
+      plugin_version: nonEmptyString("Plugin version"),
+      plugin_name: { type: "string", description: "Plugin display name" },
+      plugin_uri: { type: "string", description: "Plugin homepage (may be empty)" },
+    },
+    required: ["plugin_slug", "plugin_version"],
+  },
+  responses: {
+    200: { description: "Cached, fallback or basic entry", schema: PLUGIN_DOCS_RESPONSE_SCHEMA },
+    201: { description: "Researched and cached", schema: PLUGIN_DOCS_RESPONSE_SCHEMA },
+    ...errorResponses({
+      400: "Invalid request",
+      405: "Method not allowed",
+      500: "Internal error",
+    }),
+  },
+};
+
+/**
+ * POST /api/plugin-docs/sync
+ */
+export const SYNC_PLUGIN_DOCS_OPERATION: ApiOperation = {
+  operationId: "syncPluginDocsApi",
+  method: "post",
+  path: "/api/plugin-docs/sync",
+  summary: "Get cached docs for the local WordPress fallback",
+  tag: "plugin-docs",
+  auth: false,
+  errorCode: "INVALID_REQUEST",
+  body: {
+    type: "object",
+    properties: {
+      plugin_slugs: {
+        type: "array",
+        description: "Only these plugins (the first 30 are used)",
+        items: { type: "string" },
+      },
+      since_timestamp: {
+        type: "string",
+        format: "date-time",
+        description: "Only entries cached after this time (empty for all)",
+      },
+      limit: { type: "integer", minimum: 1, description: "Maximum entries, capped at 500 (default 100)" },
+    },
+  },
+  responses: {
+    200: {
+      description: "Entries to sync",
+      schema: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          data: {
+            type: "object",
+            properties: {
+              synced_count: { type: "integer" },
+              plugins: {
+                type: "array",
+                items: { type: "object", properties: DOCS_PROPERTIES },
+              },
+            },
+            required: ["synced_count", "plugins"],
+          },
+        },
+        required: ["success", "data"],
+      },
+    },
+    ...errorResponses({
+      400: "Invalid request",
+      405: "Method not allowed",
+      500: "Internal error",
+    }),
+  },
+};
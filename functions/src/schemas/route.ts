@@ -0,0 +1,440 @@
+/**
+ * @fileoverview Schemas of the AI routing endpoints
+ * @module schemas/route
+ *
+ * @description
+ * Request and response schemas of route-request and route-batch. Each
+ * field keeps the error code route-request used before the schemas
+ * (INVALID_TASK_TYPE, INVALID_MODEL, ...), so clients that switch on
+ * `code` are unaffected.
+ */
+
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+import { isValidProvider } from "../types/ModelConfig";
+import { MAX_PROMPT_LENGTH, VALID_TASK_TYPES } from "../types/Route";
+import { MAX_BATCH_ITEMS, UNSUPPORTED_BATCH_FIELDS } from "../types/RouteBatch";
+import { MODEL_LOCK_POLICIES } from "../types/ChatSession";
+import { CODE_SAFETY_MODES } from "../types/CodeSafety";
+import { MAX_RESPONSE_CACHE_TTL_SECONDS, RESPONSE_CACHE_SCOPES } from "../types/ResponseCache";
+import { MAX_REASONING_BUDGET_TOKENS, MIN_REASONING_BUDGET_TOKENS } from "../types/Reasoning";
+import { MAX_TOOLS, MAX_TOOL_TURNS, ToolDefinition } from "../types/Tools";
+import { RESPONSE_SCHEMAS } from "../types/StructuredOutput";
+import { MODEL_REGISTRY } from "../config/models";
+import { resolveResponseSchema } from "../services/structuredOutput";
+import { isValidToolDefinitions, isValidToolTurns } from "../services/toolCalling";
+import { FIELD_ERROR_SCHEMA, errorResponses, nonEmptyString } from "./common";
+import { CHAT_ID_SCHEMA } from "./chats";
+
+/**
+ * Largest max_tokens any registered model accepts
+ */
+const MAX_OUTPUT_TOKENS = Math.max(...Object.values(MODEL_REGISTRY).map((model) => model.max_output_tokens));
+
+/**
+ * An object, or the empty array PHP's json_encode sends for an empty one
+ */
+function phpObject(schema: ApiSchema): ApiSchema {
+  return {
+    description: schema.description,
+    oneOf: [schema, { type: "array", maxItems: 0 }],
+  };
+}
+
+/**
+ * A file attachment
+ */
+const FILE_ATTACHMENT_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "File name" },
+    type: { type: "string", description: "MIME type, e.g. image/png" },
+    size: { type: "number", description: "Size in bytes" },
+    base64: { type: "string", description: "Base64 data, with or without a data URI prefix" },
+  },
+  required: ["name", "type", "base64"],
+};
+
+/**
+ * A JSON Schema sent by the client (tool parameters, custom response schemas)
+ */
+const CLIENT_JSON_SCHEMA: ApiSchema = {
+  type: "object",
+  description: "JSON Schema subset: type, description, properties, required, items, enum",
+};
+
+/**
+ * Fields of a route request, in validation order
+ */
+const ROUTE_REQUEST_PROPERTIES: Record<string, ApiSchema> = {
+  task_type: {
+    type: "string",
+    enum: VALID_TASK_TYPES,
+    description: "Type of AI task, selects the routing chain",
+    errorCode: "INVALID_TASK_TYPE",
+  },
+  prompt: {
+    ...nonEmptyString("Prompt sent to the model", MAX_PROMPT_LENGTH),
+    errorCode: "INVALID_PROMPT",
+  },
+  model: {
+    type: "string",
+    enum: ["gemini", "claude", "openai"],
+    description: "Model to try first (otherwise the routing chain decides); openai needs the OpenAI-compatible endpoint",
+    errorCode: "INVALID_MODEL",
+    check: (value) => isValidProvider(value as string)
+      ? undefined
+      : "must be gemini or claude (the OpenAI-compatible endpoint is not enabled)",
+  },
+  chat_id: { ...CHAT_ID_SCHEMA, description: "Chat session ID; history is kept server-side" },
+  model_lock_policy: {
+    type: "string",
+    enum: MODEL_LOCK_POLICIES,
+    description: "What to do when a chat's locked model fails (default fallback_once)",
+    errorCode: "INVALID_MODEL_LOCK_POLICY",
+  },
+  code_safety: {
+    type: "string",
+    enum: CODE_SAFETY_MODES,
+    description: "What to do with unsafe generated PHP (default block)",
+    errorCode: "INVALID_CODE_SAFETY_MODE",
+  },
+  cache: {
+    description: "Opt into the response cache (true for the defaults)",
+    errorCode: "INVALID_CACHE_OPTIONS",
+    oneOf: [
+      { type: "boolean" },
+      {
+        type: "object",
+        properties: {
+          scope: { type: "string", enum: RESPONSE_CACHE_SCOPES },
+          ttl_seconds: { type: "integer", minimum: 1, maximum: MAX_RESPONSE_CACHE_TTL_SECONDS },
+          force: { type: "boolean", description: "Use the cache even when temperature > 0" },
+        },
+      },
+    ],
+  },
+  reasoning: {
+    type: "object",
+    description: "Let the model think before answering; the budget is capped by the plan",
+    errorCode: "INVALID_REASONING",
+    properties: {
+      budget_tokens: {
+        type: "integer",
+        minimum: MIN_REASONING_BUDGET_TOKENS,
+        maximum: MAX_REASONING_BUDGET_TOKENS,
+      },
+      include_thoughts: { type: "boolean" },
+    },
+    required: ["budget_tokens"],
+  },
+  response_schema: {
+    description: "Schema the answer must follow: a named schema or a custom one (not with stream)",
+    errorCode: "INVALID_RESPONSE_SCHEMA",
+    oneOf: [
+      { type: "string", enum: Object.keys(RESPONSE_SCHEMAS) },
+      {
+        type: "object",
+        properties: {
+          name: { type: "string", pattern: "^[a-zA-Z0-9_-]{1,64}$" },
+          description: { type: "string" },
+          schema: CLIENT_JSON_SCHEMA,
+        },
+        required: ["name", "schema"],
+      },
+    ],
+    check: (value, body) => {
+      if (body.stream === true) {
+        return "is not supported with stream";
+      }
+      return resolveResponseSchema(value) ? undefined : "must have an object schema of supported types";
+    },
+  },
+  tools: {
+    type: "array",
+    description: "Tools the model may call (not with stream or response_schema)",
+    errorCode: "INVALID_TOOLS",
+    minItems: 1,
+    maxItems: MAX_TOOLS,
+    items: {
+      type: "object",
+      properties: {
+        name: { type: "string", pattern: "^[a-zA-Z0-9_-]{1,64}$" },
+        description: { type: "string" },
+        parameters: CLIENT_JSON_SCHEMA,
+      },
+      required: ["name", "description", "parameters"],
+    },
+    check: (value, body) => {
+      if (body.stream === true || body.response_schema !== undefined) {
+        return "are not supported with stream or response_schema";
+      }
+      return isValidToolDefinitions(value)
+        ? undefined
+        : "must have unique names, a description and object parameters";
+    },
+  },
+  tool_turns: {
+    type: "array",
+    description: "Tool calls and results so far, oldest first (follow-up calls of the tool loop)",
+    errorCode: "INVALID_TOOL_TURNS",
+    minItems: 1,
+    maxItems: MAX_TOOL_TURNS,
+    items: {
+      type: "object",
+      properties: {
+        content: { type: "string" },
+        tool_calls: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              name: { type: "string" },
+              arguments: { type: "object" },
+            },
+            required: ["id", "name", "arguments"],
+          },
+        },
+        tool_results: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              tool_call_id: { type: "string" },
+              name: { type: "string" },
+              content: { type: "string" },
+              is_error: { type: "boolean" },
+            },
+            required: ["tool_call_id", "name", "content"],
+          },
+        },
+      },
+      required: ["tool_calls", "tool_results"],
+    },
+    check: (value, body) => Array.isArray(body.tools) && isValidToolTurns(value, body.tools as ToolDefinition[])
+      ? undefined
+      : "must come with the tools and answer each of their calls once",
+  },
+  system_prompt: { type: "string", description: "System prompt override" },
+  temperature: { type: "number", minimum: 0, maximum: 2, description: "Sampling temperature (capped at 1 for Claude)" },
+  max_tokens: { type: "integer", minimum: 1, maximum: MAX_OUTPUT_TOKENS },
+  context: phpObject({ type: "object", description: "Site context (site_info, theme_info, plugins...)" }),
+  files: { type: "array", description: "Attachments (images, PDFs, text, DOCX)", items: FILE_ATTACHMENT_SCHEMA },
+  stream: { type: "boolean", description: "Stream the answer as Server-Sent Events" },
+  prompt_cache: { type: "boolean", description: "Cache the system prompt and context with the provider" },
+  options: phpObject({
+    type: "object",
+    description: "Additional options; files here are accepted for backwards compatibility",
+    properties: { files: { type: "array", items: FILE_ATTACHMENT_SCHEMA } },
+  }),
+};
+
+/**
+ * Body of POST /api/ai/route-request
+ */
+export const ROUTE_REQUEST_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: ROUTE_REQUEST_PROPERTIES,
+  required: ["task_type", "prompt"],
+};
+
+/**
+ * An item of POST /api/ai/route-batch: a route request without the
+ * per-call features
+ */
+export const ROUTE_BATCH_ITEM_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: Object.fromEntries(Object.entries(ROUTE_REQUEST_PROPERTIES).map(([key, property]) => [
+    key,
+    (UNSUPPORTED_BATCH_FIELDS as readonly string[]).includes(key)
+      ? {
+        description: "Not supported in a batch",
+        errorCode: "UNSUPPORTED_IN_BATCH",
+        check: () => "is not supported in a batch",
+      }
+      : property,
+  ])),
+  required: ["task_type", "prompt"],
+};
+
+/**
+ * A skipped attachment
+ */
+const SKIPPED_FILE_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    type: { type: "string" },
+    reason: { type: "string" },
+  },
+  required: ["name", "type", "reason"],
+};
+
+/**
+ * Safety findings of generated PHP
+ */
+const CODE_SAFETY_REPORT_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    risk: { type: "string", enum: ["low", "medium", "high"] },
+    reported_risk: { type: "string", enum: ["low", "medium", "high"] },
+    blocked: { type: "boolean" },
+    findings: { type: "array", items: { type: "object" } },
+  },
+  required: ["risk", "blocked", "findings"],
+};
+
+/**
+ * Fields shared by a route-request answer and a batch item result
+ */
+const GENERATION_PROPERTIES: Record<string, ApiSchema> = {
+  content: { type: "string", description: "Generated content" },
+  model: { type: "string", enum: ["gemini", "claude", "openai"], description: "Provider that answered" },
+  model_id: { type: "string", description: "Model that answered" },
+  used_fallback: { type: "boolean" },
+  tokens_used: { type: "integer", description: "Input + output tokens" },
+  cost_usd: { type: "number" },
+  latency_ms: { type: "integer" },
+  data: { type: "object", description: "Parsed structured output (with response_schema)" },
+  cache_hit: { type: "boolean", description: "Whether the response cache answered (with cache)" },
+  code_safety: CODE_SAFETY_REPORT_SCHEMA,
+  skipped_files: { type: "array", items: SKIPPED_FILE_SCHEMA },
+};
+
+/**
+ * Answer of POST /api/ai/route-request (also the `done` event of a stream)
+ */
+export const ROUTE_RESPONSE_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    ...GENERATION_PROPERTIES,
+    circuits_open: { type: "array", items: { type: "string" }, description: "Models skipped by an open circuit" },
+    context_tokens: { type: "integer", description: "Input tokens counted before the call" },
+    repaired: { type: "boolean", description: "Whether the structured output needed a repair call" },
+    tokens_reasoning: { type: "integer" },
+    reasoning: { type: "string", description: "Thinking text (with reasoning.include_thoughts)" },
+    tool_calls: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { id: { type: "string" }, name: { type: "string" }, arguments: { type: "object" } },
+        required: ["id", "name", "arguments"],
+      },
+    },
+    model_lock: { type: "object", description: "Model the chat is locked to (with chat_id)" },
+  },
+  required: ["success", "content", "model", "model_id", "used_fallback", "tokens_used", "cost_usd", "latency_ms"],
+};
+
+/**
+ * POST /api/ai/route-request
+ */
+export const ROUTE_REQUEST_OPERATION: ApiOperation = {
+  operationId: "routeRequest",
+  method: "post",
+  path: "/api/ai/route-request",
+  summary: "Generate with the task's routing chain and fallback",
+  tag: "ai",
+  auth: true,
+  idempotent: true,
+  errorCode: "INVALID_REQUEST",
+  body: ROUTE_REQUEST_SCHEMA,
+  responses: {
+    200: { description: "Generated (JSON, or Server-Sent Events with stream)", schema: ROUTE_RESPONSE_SCHEMA },
+    ...errorResponses({
+      400: "Invalid request",
+      401: "Missing or invalid site token",
+      403: "Quota exceeded or insufficient, or reasoning not in the plan",
+      409: "Idempotency-Key in use",
+      413: "Input exceeds every model's context window",
+      422: "Generated code failed the safety check, or Idempotency-Key reused with a different body",
+      429: "Rate limited",
+      500: "Internal error",
+      503: "All models failed",
+      504: "Deadline exceeded",
+    }),
+  },
+};
+
+/**
+ * Result of one batch item
+ */
+const ROUTE_BATCH_ITEM_RESULT_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    index: { type: "integer" },
+    success: { type: "boolean" },
+    ...GENERATION_PROPERTIES,
+    error: { type: "string" },
+    code: { type: "string" },
+    details: { type: "array", description: "Failing fields of an invalid item", items: FIELD_ERROR_SCHEMA },
+  },
+  required: ["index", "success"],
+};
+
+/**
+ * POST /api/ai/route-batch
+ *
+ * @description
+ * Items are validated one by one by the endpoint: an invalid item fails
+ * in its result, the others still run.
+ */
+export const ROUTE_BATCH_OPERATION: ApiOperation = {
+  operationId: "routeBatch",
+  method: "post",
+  path: "/api/ai/route-batch",
+  summary: "Run several route requests in one call",
+  tag: "ai",
+  auth: true,
+  idempotent: true,
+  errorCode: "INVALID_BATCH",
+  body: {
+    type: "object",
+    properties: {
+      items: {
+        type: "array",
+        minItems: 1,
+        maxItems: MAX_BATCH_ITEMS,
+        items: ROUTE_BATCH_ITEM_SCHEMA,
+        validateItems: false,
+      },
+    },
+    required: ["items"],
+  },
+  responses: {
+    200: {
+      description: "Batch ran (see each result)",
+      schema: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          results: { type: "array", items: ROUTE_BATCH_ITEM_RESULT_SCHEMA },
+          summary: {
+            type: "object",
+            properties: {
+              items: { type: "integer" },
+              succeeded: { type: "integer" },
+              failed: { type: "integer" },
+              tokens_used: { type: "integer" },
+              cost_usd: { type: "number" },
+              latency_ms: { type: "integer" },
+            },
+            required: ["items", "succeeded", "failed", "tokens_used", "cost_usd", "latency_ms"],
+          },
+        },
+        required: ["success", "results", "summary"],
+      },
+    },
+    ...errorResponses({
+      400: "Invalid batch",
+      401: "Missing or invalid site token",
+      403: "Quota exceeded or insufficient for the batch",
+      409: "Idempotency-Key in use",
+      422: "Idempotency-Key reused with a different body",
+      429: "Rate limited",
+      500: "Internal error",
+    }),
+  },
+};
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Unit tests for the task schemas
+ * @module schemas/tasks.test
+ */
+
+import { validateRequest, validateSchema } from "../lib/validation";
+import { ApiSchema } from "../types/ApiSchema";
+import { MAX_BULK_ITEMS } from "../types/Job";
+import {
+  BULK_ARTICLES_TASK_DATA_SCHEMA,
+  BULK_PRODUCTS_TASK_DATA_SCHEMA,
+  DESIGN_BATCH_TASK_DATA_SCHEMA,
+  SUBMIT_TASK_OPERATION,
+} from "./tasks";
+
+/**
+ * Validates task data the way submitTask does
+ */
+function validate(schema: ApiSchema, data: unknown) {
+  return validateSchema(data, schema, "task_data", "INVALID_TASK_DATA");
+}
+
+describe("Task schemas", () => {
+  describe("BULK_ARTICLES_TASK_DATA_SCHEMA", () => {
+    it("should accept proper task data", () => {
+      const errors = validate(BULK_ARTICLES_TASK_DATA_SCHEMA, {
+        topics: ["Topic 1", "Topic 2"],
+        tone: "professional",
+        language: "en",
+      });
+      expect(errors).toEqual([]);
+    });
+
+    it("should reject data that is not an object", () => {
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, null)).toHaveLength(1);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, "string")).toHaveLength(1);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, undefined)).toHaveLength(1);
+    });
+
+    it("should require topics", () => {
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, {})).toEqual([
+        { field: "task_data.topics", code: "INVALID_TASK_DATA", message: "task_data.topics is required" },
+      ]);
+    });
+
+    it("should reject topics that is not an array", () => {
+      const errors = validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: "not an array" });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.topics must be an array");
+    });
+
+    it("should reject empty topics", () => {
+      const errors = validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: [] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.topics must not be empty");
+    });
+
+    it("should reject topics over the max limit", () => {
+      const topics = Array(MAX_BULK_ITEMS + 1).fill("topic");
+      const errors = validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain(`${MAX_BULK_ITEMS} items`);
+    });
+
+    it("should reject a topic that is not a string", () => {
+      const errors = validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: [123, "valid"] });
+      expect(errors).toEqual([
+        { field: "task_data.topics[0]", code: "INVALID_TASK_DATA", message: "task_data.topics[0] must be a string" },
+      ]);
+    });
+
+    it("should reject an empty or blank topic", () => {
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["", "valid"] })[0].message)
+        .toBe("task_data.topics[0] must not be empty");
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["valid", "   "] })[0].message)
+        .toBe("task_data.topics[1] must not be blank");
+    });
+
+    it("should reject an invalid tone", () => {
+      const errors = validate(BULK_ARTICLES_TASK_DATA_SCHEMA, {
+        topics: ["Topic"],
+        tone: "invalid_tone",
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("task_data.tone");
+      expect(errors[0].message).toBe("task_data.tone must be one of: professional, casual, technical, friendly");
+    });
+
+    it("should accept valid tone values", () => {
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], tone: "professional" })).toEqual([]);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], tone: "casual" })).toEqual([]);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], tone: "technical" })).toEqual([]);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], tone: "friendly" })).toEqual([]);
+    });
+
+    it("should validate word_count range", () => {
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], word_count: 50 })).toHaveLength(1);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], word_count: 100 })).toEqual([]);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], word_count: 5000 })).toEqual([]);
+      expect(validate(BULK_ARTICLES_TASK_DATA_SCHEMA, { topics: ["T"], word_count: 5001 })[0].message)
+        .toBe("task_data.word_count must be between 100 and 5000");
+    });
+
+    it("should report every failing field", () => {
+      const errors = validate(BULK_ARTICLES_TASK_DATA_SCHEMA, {
+        topics: ["", "ok", 7],
+        tone: "loud",
+      });
+      expect(errors.map((error) => error.field)).toEqual([
+        "task_data.topics[0]",
+        "task_data.topics[2]",
+        "task_data.tone",
+      ]);
+    });
+  });
+
+  describe("BULK_PRODUCTS_TASK_DATA_SCHEMA", () => {
+    it("should accept proper task data", () => {
+      const errors = validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, {
+        products: [
+          { name: "Product 1", category: "Electronics", price: 19.99 },
+          { name: "Product 2", price: "24.90" },
+        ],
+        language: "en",
+      });
+      expect(errors).toEqual([]);
+    });
+
+    it("should reject data that is not an object", () => {
+      expect(validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, null)).toHaveLength(1);
+    });
+
+    it("should reject products that is not an array", () => {
+      const errors = validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, { products: "not an array" });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.products must be an array");
+    });
+
+    it("should reject empty products", () => {
+      const errors = validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, { products: [] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("task_data.products");
+    });
+
+    it("should reject products over the max limit", () => {
+      const products = Array(MAX_BULK_ITEMS + 1).fill({ name: "Product" });
+      const errors = validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, { products });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain(`${MAX_BULK_ITEMS} items`);
+    });
+
+    it("should reject a product that is not an object", () => {
+      const errors = validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, { products: ["not an object"] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.products[0] must be an object");
+    });
+
+    it("should reject a product without a name", () => {
+      const errors = validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, { products: [{ category: "Test" }] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.products[0].name is required");
+    });
+
+    it("should reject a product with an empty name", () => {
+      const errors = validate(BULK_PRODUCTS_TASK_DATA_SCHEMA, { products: [{ name: "" }] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.products[0].name must not be empty");
+    });
+  });
+
+  describe("DESIGN_BATCH_TASK_DATA_SCHEMA", () => {
+    it("should accept proper task data", () => {
+      const errors = validate(DESIGN_BATCH_TASK_DATA_SCHEMA, {
+        sections: [
+          { name: "Hero", description: "Hero section" },
+          { name: "Features", description: "Features section" },
+        ],
+      });
+      expect(errors).toEqual([]);
+    });
+
+    it("should reject data that is not an object", () => {
+      expect(validate(DESIGN_BATCH_TASK_DATA_SCHEMA, null)).toHaveLength(1);
+    });
+
+    it("should reject sections that is not an array", () => {
+      const errors = validate(DESIGN_BATCH_TASK_DATA_SCHEMA, { sections: "not an array" });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.sections must be an array");
+    });
+
+    it("should reject empty sections", () => {
+      const errors = validate(DESIGN_BATCH_TASK_DATA_SCHEMA, { sections: [] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe("task_data.sections");
+    });
+
+    it("should reject sections over the max limit", () => {
+      const sections = Array(MAX_BULK_ITEMS + 1).fill({ name: "Section", description: "Desc" });
+      const errors = validate(DESIGN_BATCH_TASK_DATA_SCHEMA, { sections });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain(`${MAX_BULK_ITEMS} items`);
+    });
+
+    it("should reject a section that is not an object", () => {
+      const errors = validate(DESIGN_BATCH_TASK_DATA_SCHEMA, { sections: ["not an object"] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.sections[0] must be an object");
+    });
+
+    it("should reject a section without a name", () => {
+      const errors = validate(DESIGN_BATCH_TASK_DATA_SCHEMA, { sections: [{ description: "Desc" }] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.sections[0].name is required");
+    });
+
+    it("should reject a section without a description", () => {
+      const errors = validate(DESIGN_BATCH_TASK_DATA_SCHEMA, { sections: [{ name: "Hero" }] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe("task_data.sections[0].description is required");
+    });
+  });
+
+  describe("SUBMIT_TASK_OPERATION", () => {
+    const request = (body: unknown) => validateRequest({ path: "/", body }, SUBMIT_TASK_OPERATION);
+
+    it("should validate task_data against the schema of its task_type", () => {
+      expect(request({ task_type: "bulk_articles", task_data: { topics: ["T"] } }).valid).toBe(true);
+      expect(request({ task_type: "bulk_products", task_data: { products: [{ name: "P" }] } }).valid).toBe(true);
+      expect(request({ task_type: "design_batch", task_data: { sections: [{ name: "S", description: "D" }] } }).valid)
+        .toBe(true);
+      expect(request({ task_type: "bulk_products", task_data: { topics: ["T"] } }).errors[0]).toEqual({
+        field: "task_data.products",
+        code: "INVALID_TASK_DATA",
+        message: "task_data.products is required",
+      });
+    });
+
+    it("should reject an unknown task type with INVALID_TASK_TYPE", () => {
+      const result = request({ task_type: "unknown", task_data: {} });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].code).toBe("INVALID_TASK_TYPE");
+    });
+
+    it("should report missing task_data with MISSING_TASK_DATA", () => {
+      const result = request({ task_type: "bulk_articles" });
+      expect(result.errors).toEqual([
+        { field: "task_data", code: "MISSING_TASK_DATA", message: "task_data is required" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Schemas of the async task endpoints
+ * @module schemas/tasks
+ *
+ * @description
+ * Task data schemas by task type, and the submit operation. task_data is
+ * validated against the schema of the submitted task_type.
+ */
+
+import { ApiOperation, ApiSchema } from "../types/ApiSchema";
+import { JobTaskType, MAX_BULK_ITEMS, VALID_JOB_TASK_TYPES } from "../types/Job";
+import { errorResponses, nonEmptyString } from "./common";
+
+/**
+ * task_data of bulk_articles
+ */
+export const BULK_ARTICLES_TASK_DATA_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    topics: {
+      type: "array",
+      description: "Topics to write an article about",
+      minItems: 1,
+      maxItems: MAX_BULK_ITEMS,
+      items: nonEmptyString("Topic"),
+    },
+    tone: { type: "string", enum: ["professional", "casual", "technical", "friendly"] },
+    language: { type: "string", description: "Target language (ISO 639-1)" },
+    word_count: { type: "number", description: "Target word count per article", minimum: 100, maximum: 5000 },
+    include_seo: { type: "boolean", description: "Include SEO title, description and keywords" },
+  },
+  required: ["topics"],
+};
+
+/**
+ * task_data of bulk_products
+ */
+export const BULK_PRODUCTS_TASK_DATA_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    products: {
+      type: "array",
+      description: "Products to describe",
+      minItems: 1,
+      maxItems: MAX_BULK_ITEMS,
+      items: {
+        type: "object",
+        properties: {
+          name: nonEmptyString("Product name"),
+          category: { type: "string" },
+          specs: { type: "string", description: "Specifications and features" },
+          price: {
+            description: "Price, for context",
+            oneOf: [{ type: "number" }, { type: "string" }],
+          },
+          context: { type: "string" },
+        },
+        required: ["name"],
+      },
+    },
+    language: { type: "string", description: "Target language (ISO 639-1)" },
+    tone: { type: "string", enum: ["professional", "casual", "luxury", "technical"] },
+    include_seo: { type: "boolean" },
+  },
+  required: ["products"],
+};
+
+/**
+ * task_data of design_batch
+ */
+export const DESIGN_BATCH_TASK_DATA_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    sections: {
+      type: "array",
+      description: "Sections to design",
+      minItems: 1,
+      maxItems: MAX_BULK_ITEMS,
+      items: {
+        type: "object",
+        properties: {
+          name: nonEmptyString("Section name"),
+          description: nonEmptyString("Section purpose"),
+          style: { type: "string", enum: ["modern", "minimal", "classic", "bold"] },
+          colors: { type: "array", items: { type: "string" }, description: "Hex colors" },
+          section_type: {
+            type: "string",
+            enum: ["hero", "features", "testimonials", "cta", "footer", "gallery", "pricing"],
+          },
+        },
+        required: ["name", "description"],
+      },
+    },
+    theme: {
+      type: "object",
+      properties: {
+        primary_color: { type: "string" },
+        secondary_color: { type: "string" },
+        font_family: { type: "string" },
+      },
+    },
+  },
+  required: ["sections"],
+};
+
+/**
+ * task_data schema by task type
+ */
+export const TASK_DATA_SCHEMAS: Record<JobTaskType, ApiSchema> = {
+  bulk_articles: BULK_ARTICLES_TASK_DATA_SCHEMA,
+  bulk_products: BULK_PRODUCTS_TASK_DATA_SCHEMA,
+  design_batch: DESIGN_BATCH_TASK_DATA_SCHEMA,
+};
+
+/**
+ * Body of POST /api/tasks/submit
+ */
+export const SUBMIT_TASK_SCHEMA: ApiSchema = {
+  type: "object",
+  properties: {
+    task_type: {
+      type: "string",
+      enum: VALID_JOB_TASK_TYPES,
+      errorCode: "INVALID_TASK_TYPE",
+    },
+    task_data: {
+      description: "Input of the task, by task_type",
+      errorCode: "INVALID_TASK_DATA",
+      missingErrorCode: "MISSING_TASK_DATA",
+      variants: { by: "task_type", schemas: TASK_DATA_SCHEMAS },
+    },
+  },
+  required: ["task_type", "task_data"],
+};
+
+/**
+ * POST /api/tasks/submit
+ */
+export const SUBMIT_TASK_OPERATION: ApiOperation = {
+  operationId: "submitTask",
+  method: "post",
+  path: "/api/tasks/submit",
+  summary: "Queue a bulk task for background processing",
+  tag: "tasks",
+  auth: true,
+  idempotent: true,
+  errorCode: "INVALID_REQUEST",
+  body: SUBMIT_TASK_SCHEMA,
+  responses: {
+    202: {
+      description: "Job queued",
+      schema: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          job_id: { type: "string" },
+          status: { type: "string", enum: ["pending"] },
+          estimated_wait_seconds: { type: "integer" },
+        },
+        required: ["success", "job_id", "status", "estimated_wait_seconds"],
+      },
+    },
+    ...errorResponses({
+      400: "Invalid request or task_data",
+      401: "Missing or invalid site token",
+      403: "Quota exceeded",
+      409: "Idempotency-Key in use",
+      422: "Idempotency-Key reused with a different body",
+      429: "Rate limited or too many pending jobs",
+      500: "Internal error",
+    }),
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Script to generate the OpenAPI document from the API schemas
+ * @module scripts/generateOpenApi
+ *
+ * Run with: npm run openapi:generate (builds, then runs lib/scripts/generateOpenApi.js)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { API_COMPONENTS, API_OPERATIONS, buildOpenApiDocument } from "../schemas";
+
+/**
+ * Where the document is written (repository docs/)
+ */
+const OUTPUT_PATH = path.resolve(__dirname, "../../../docs/openapi.json");
+
+/**
+ * Writes docs/openapi.json
+ */
+function generateOpenApi(): void {
+  const { version } = JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, "../../package.json"), "utf8")
+  ) as { version: string };
+
+  const document = buildOpenApiDocument(API_OPERATIONS, version, API_COMPONENTS);
+  fs.writeFileSync(OUTPUT_PATH, `${JSON.stringify(document, null, 2)}\n`);
+
+  console.log(`✅ OpenAPI document written to ${OUTPUT_PATH}`);
+  console.log(`   Operations: ${API_OPERATIONS.length}`);
+}
+
+generateOpenApi();
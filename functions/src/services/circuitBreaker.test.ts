@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Unit tests for Circuit Breaker service
+ * @module services/circuitBreaker.test
+ */
+
+import {
+  CircuitBreaker,
+  CircuitBreakerStore,
+  InMemoryCircuitBreakerStore,
+  getCircuitKey,
+} from "./circuitBreaker";
+import { Logger } from "../lib/logger";
+
+// Mock Firestore (the Firestore store is not used in these tests)
+jest.mock("../lib/firestore", () => ({
+  getProviderHealth: jest.fn(),
+  saveProviderHealth: jest.fn(),
+  updateProviderHealth: jest.fn(),
+}));
+
+/**
+ * Creates a mock logger for testing
+ */
+function createMockLogger(): Logger {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn(() => mockLogger),
+  } as unknown as Logger;
+  return mockLogger;
+}
+
+describe("CircuitBreaker", () => {
+  const key = getCircuitKey("claude", "claude-opus-4-5-20251101");
+  let store: InMemoryCircuitBreakerStore;
+  let breaker: CircuitBreaker;
+  let logger: Logger;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    logger = createMockLogger();
+    store = new InMemoryCircuitBreakerStore();
+    breaker = new CircuitBreaker(store, logger, { failure_threshold: 3, cooldown_ms: 10000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Records the given number of tripping failures
+   */
+  async function fail(times: number, errorCode: string = "PROVIDER_ERROR"): Promise<void> {
+    for (let i = 0; i < times; i++) {
+      await breaker.recordResult(key, false, errorCode);
+    }
+  }
+
+  it("should build keys in provider:model format", () => {
+    expect(key).toBe("claude:claude-opus-4-5-20251101");
+  });
+
+  it("should allow requests for untracked providers", async () => {
+    expect(await breaker.allowRequest(key)).toBe(true);
+    expect(await breaker.getState(key)).toBe("closed");
+  });
+
+  it("should open after consecutive tripping failures", async () => {
+    await fail(2);
+    expect(await breaker.allowRequest(key)).toBe(true);
+
+    await fail(1, "TIMEOUT");
+
+    expect(await breaker.getState(key)).toBe("open");
+    expect(await breaker.allowRequest(key)).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Circuit opened",
+      expect.objectContaining({ circuit: key, consecutive_failures: 3 })
+    );
+  });
+
+  it("should ignore non-tripping errors", async () => {
+    await fail(5, "INVALID_REQUEST");
+    await fail(5, "CONTENT_FILTERED");
+
+    expect(await breaker.getState(key)).toBe("closed");
+  });
+
+  it("should reset the failure count on success", async () => {
+    await fail(2);
+    await breaker.recordResult(key, true);
+    await fail(2);
+
+    expect(await breaker.getState(key)).toBe("closed");
+  });
+
+  it("should half-open after the cooldown and admit a single probe", async () => {
+    await fail(3);
+
+    jest.advanceTimersByTime(10001);
+
+    expect(await breaker.allowRequest(key)).toBe(true);
+    expect(await breaker.getState(key)).toBe("half_open");
+    expect(await breaker.allowRequest(key)).toBe(false);
+  });
+
+  it("should admit a single probe when requests race for it", async () => {
+    await fail(3);
+    jest.advanceTimersByTime(10001);
+
+    const allowed = await Promise.all([
+      breaker.allowRequest(key),
+      breaker.allowRequest(key),
+      breaker.allowRequest(key),
+    ]);
+
+    expect(allowed.filter(Boolean)).toHaveLength(1);
+    expect(await breaker.getState(key)).toBe("half_open");
+  });
+
+  it("should close when the probe succeeds", async () => {
+    await fail(3);
+    jest.advanceTimersByTime(10001);
+    await breaker.allowRequest(key);
+
+    await breaker.recordResult(key, true);
+
+    expect(await breaker.getState(key)).toBe("closed");
+    expect(await breaker.allowRequest(key)).toBe(true);
+  });
+
+  it("should reopen when the probe fails", async () => {
+    await fail(3);
+    jest.advanceTimersByTime(10001);
+    await breaker.allowRequest(key);
+
+    await fail(1);
+
+    expect(await breaker.getState(key)).toBe("open");
+    expect(await breaker.allowRequest(key)).toBe(false);
+  });
+
+  it("should fail open when the store is unavailable", async () => {
+    const brokenStore: CircuitBreakerStore = {
+      get: jest.fn().mockRejectedValue(new Error("unavailable")),
+      set: jest.fn().mockRejectedValue(new Error("unavailable")),
+      update: jest.fn().mockRejectedValue(new Error("unavailable")),
+    };
+    const brokenBreaker = new CircuitBreaker(brokenStore, logger);
+
+    expect(await brokenBreaker.allowRequest(key)).toBe(true);
+    await expect(brokenBreaker.recordResult(key, false, "PROVIDER_ERROR")).resolves.toBe("closed");
+  });
+});
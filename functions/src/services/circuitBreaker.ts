@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Circuit breaker for AI provider health tracking
+ * @module services/circuitBreaker
+ *
+ * @description
+ * Tracks consecutive failures per provider:model. After
+ * `failure_threshold` tripping failures (PROVIDER_ERROR, TIMEOUT, 529)
+ * the circuit opens and routing skips that provider. Once `cooldown_ms`
+ * has elapsed the circuit half-opens and a single probe request is let
+ * through: success closes it, failure opens it again.
+ *
+ * State lives in a CircuitBreakerStore so it can be shared across
+ * function instances (Firestore) or kept local (in-memory, for tests).
+ */
+
+import { getProviderHealth, saveProviderHealth, updateProviderHealth } from "../lib/firestore";
+import {
+  CircuitState,
+  ProviderHealthRecord,
+  CircuitBreakerConfig,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  CIRCUIT_BREAKER_ERROR_CODES,
+} from "../types/ProviderHealth";
+import { AIErrorCode } from "../types/AIProvider";
+import { Logger } from "../lib/logger";
+
+/**
+ * Persistence for circuit breaker records
+ */
+export interface CircuitBreakerStore {
+  /** Gets the record for a key, or null if never tracked */
+  get(key: string): Promise<ProviderHealthRecord | null>;
+
+  /** Stores the record under record.key */
+  set(record: ProviderHealthRecord): Promise<void>;
+
+  /**
+   * Atomically reads the record and stores the updater's result (null
+   * leaves it unchanged). Returns what was stored.
+   */
+  update(
+    key: string,
+    updater: (record: ProviderHealthRecord | null) => ProviderHealthRecord | null
+  ): Promise<ProviderHealthRecord | null>;
+}
+
+/**
+ * In-memory store, local to the current instance
+ */
+export class InMemoryCircuitBreakerStore implements CircuitBreakerStore {
+  private records: Map<string, ProviderHealthRecord> = new Map();
+
+  async get(key: string): Promise<ProviderHealthRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async set(record: ProviderHealthRecord): Promise<void> {
+    this.records.set(record.key, { ...record });
+  }
+
+  async update(
+    key: string,
+    updater: (record: ProviderHealthRecord | null) => ProviderHealthRecord | null
+  ): Promise<ProviderHealthRecord | null> {
+    // Read and write happen in the same tick, so no other call can interleave
+    const current = this.records.get(key);
+    const next = updater(current ? { ...current } : null);
+
+    if (next) {
+      this.records.set(key, { ...next });
+    }
+    return next;
+  }
+}
+
+/**
+ * Firestore store, shared by all instances via the provider_health collection
+ */
+export class FirestoreCircuitBreakerStore implements CircuitBreakerStore {
+  async get(key: string): Promise<ProviderHealthRecord | null> {
+    return getProviderHealth(key);
+  }
+
+  async set(record: ProviderHealthRecord): Promise<void> {
+    await saveProviderHealth(record);
+  }
+
+  async update(
+    key: string,
+    updater: (record: ProviderHealthRecord | null) => ProviderHealthRecord | null
+  ): Promise<ProviderHealthRecord | null> {
+    return updateProviderHealth(key, updater);
+  }
+}
+
+/**
+ * Builds the breaker key for a provider and model
+ *
+ * @param {string} provider - Provider name
+ * @param {string} model - Model identifier
+ * @returns {string} Key in {provider}:{model} format
+ */
+export function getCircuitKey(provider: string, model: string): string {
+  return `${provider}:${model}`;
+}
+
+/**
+ * Circuit breaker class
+ *
+ * @class CircuitBreaker
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker(new FirestoreCircuitBreakerStore(), logger);
+ * const key = getCircuitKey("claude", "claude-opus-4-5-20251101");
+ *
+ * if (await breaker.allowRequest(key)) {
+ *   const response = await provider.generate(prompt);
+ *   await breaker.recordResult(key, response.success, response.error_code);
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private store: CircuitBreakerStore;
+  private logger: Logger;
+  private config: CircuitBreakerConfig;
+
+  /**
+   * Creates a circuit breaker
+   *
+   * @param {CircuitBreakerStore} store - State persistence
+   * @param {Logger} logger - Logger instance
+   * @param {Partial<CircuitBreakerConfig>} config - Optional threshold/cooldown overrides
+   */
+  constructor(
+    store: CircuitBreakerStore,
+    logger: Logger,
+    config: Partial<CircuitBreakerConfig> = {}
+  ) {
+    this.store = store;
+    this.logger = logger.child({ service: "circuitBreaker" });
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  /**
+   * Gets the current state for a key
+   *
+   * @param {string} key - Breaker key
+   * @returns {Promise<CircuitState>} Current state (closed if never tracked)
+   */
+  async getState(key: string): Promise<CircuitState> {
+    const record = await this.load(key);
+    return record?.state ?? "closed";
+  }
+
+  /**
+   * Checks whether a request may be sent to the provider
+   *
+   * @param {string} key - Breaker key
+   * @returns {Promise<boolean>} False while the circuit is open
+   *
+   * @description
+   * An open circuit past its cooldown transitions to half_open and admits
+   * one probe. Other requests keep skipping the provider until the probe
+   * resolves (or itself exceeds the cooldown). The probe is claimed in the
+   * same store transaction that reads the state, so concurrent instances
+   * cannot both send one. Store failures fail open.
+   */
+  async allowRequest(key: string): Promise<boolean> {
+    const record = await this.load(key);
+
+    if (!record || record.state === "closed") {
+      return true;
+    }
+
+    if (!this.canProbe(record, Date.now())) {
+      return false;
+    }
+
+    try {
+      // Set by the updater, which reruns if the transaction is retried
+      let allowed = false;
+      const claimed = await this.store.update(key, (current) => {
+        const now = Date.now();
+        if (!current || current.state === "closed") {
+          allowed = true;
+          return null;
+        }
+        allowed = this.canProbe(current, now);
+        return allowed
+          ? { ...current, state: "half_open", probe_started_at: now, updated_at: now }
+          : null;
+      });
+
+      if (claimed) {
+        this.logger.info("Circuit half-open, sending probe", { circuit: key });
+      }
+      return allowed;
+    } catch (error) {
+      this.logger.warn("Failed to claim circuit probe", {
+        circuit: key,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Checks whether an open or half-open record may send a probe now
+   */
+  private canProbe(record: ProviderHealthRecord, now: number): boolean {
+    if (record.state === "open") {
+      return record.opened_at === null || now - record.opened_at >= this.config.cooldown_ms;
+    }
+
+    // half_open: only one probe at a time, unless the previous probe went stale
+    return record.probe_started_at === null || now - record.probe_started_at >= this.config.cooldown_ms;
+  }
+
+  /**
+   * Records the outcome of a provider call
+   *
+   * @param {string} key - Breaker key
+   * @param {boolean} success - Whether the call succeeded
+   * @param {string} errorCode - Error code when the call failed
+   * @returns {Promise<CircuitState>} State after recording
+   */
+  async recordResult(
+    key: string,
+    success: boolean,
+    errorCode?: string
+  ): Promise<CircuitState> {
+    const record = await this.load(key);
+    const now = Date.now();
+
+    if (success) {
+      // Avoid a write per request while healthy
+      if (!record || (record.state === "closed" && record.consecutive_failures === 0)) {
+        return "closed";
+      }
+
+      if (record.state !== "closed") {
+        this.logger.info("Circuit closed", { circuit: key });
+      }
+
+      await this.save({
+        key,
+        state: "closed",
+        consecutive_failures: 0,
+        opened_at: null,
+        probe_started_at: null,
+        updated_at: now,
+      });
+      return "closed";
+    }
+
+    if (!CIRCUIT_BREAKER_ERROR_CODES.includes(errorCode as AIErrorCode)) {
+      return record?.state ?? "closed";
+    }
+
+    const failures = (record?.consecutive_failures ?? 0) + 1;
+    const shouldOpen =
+      record?.state === "half_open" || failures >= this.config.failure_threshold;
+
+    if (shouldOpen) {
+      this.logger.warn("Circuit opened", {
+        circuit: key,
+        consecutive_failures: failures,
+        error_code: errorCode,
+        cooldown_ms: this.config.cooldown_ms,
+      });
+    }
+
+    const state: CircuitState = shouldOpen ? "open" : record?.state ?? "closed";
+
+    await this.save({
+      key,
+      state,
+      consecutive_failures: failures,
+      opened_at: shouldOpen ? now : record?.opened_at ?? null,
+      probe_started_at: null,
+      last_error_code: errorCode,
+      updated_at: now,
+    });
+    return state;
+  }
+
+  /**
+   * Loads a record, treating store errors as "no record"
+   */
+  private async load(key: string): Promise<ProviderHealthRecord | null> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.logger.warn("Failed to read circuit state", {
+        circuit: key,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Saves a record, logging instead of throwing on store errors
+   */
+  private async save(record: ProviderHealthRecord): Promise<void> {
+    try {
+      await this.store.set(record);
+    } catch (error) {
+      this.logger.warn("Failed to save circuit state", {
+        circuit: record.key,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+}
+
+/**
+ * Creates a circuit breaker shared across instances through Firestore
+ *
+ * @param {Logger} logger - Logger instance
+ * @returns {CircuitBreaker} Firestore-backed circuit breaker
+ */
+export function createCircuitBreaker(logger: Logger): CircuitBreaker {
+  return new CircuitBreaker(new FirestoreCircuitBreakerStore(), logger);
+}
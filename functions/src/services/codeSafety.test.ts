@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Unit tests for Code Safety service
+ * @module services/codeSafety.test
+ */
+
+import { analyzePhpCode, reviewExecuteCode, tokenizePhp } from "./codeSafety";
+
+/**
+ * Returns the rules of a report's findings
+ */
+function rulesOf(code: string): string[] {
+  return analyzePhpCode(code).findings.map((finding) => finding.rule);
+}
+
+describe("tokenizePhp", () => {
+  it("should skip comments and keep strings as single tokens", () => {
+    const tokens = tokenizePhp("// exec('ls');\n/* system() */ echo 'exec(1)'; # shell_exec()");
+
+    expect(tokens.map((token) => token.type)).toEqual(["identifier", "string", "punct"]);
+    expect(tokens[1]).toEqual({ type: "string", value: "exec(1)", line: 2 });
+  });
+
+  it("should read heredocs and fully qualified names", () => {
+    const tokens = tokenizePhp("$sql = <<<SQL\nDROP TABLE x\nSQL;\n\\exec('ls');");
+
+    expect(tokens[2]).toEqual({ type: "string", value: "DROP TABLE x", line: 1 });
+    expect(tokens.find((token) => token.type === "identifier")?.value).toBe("exec");
+  });
+});
+
+describe("analyzePhpCode", () => {
+  it("should pass ordinary WordPress code", () => {
+    const report = analyzePhpCode(
+      "$post_id = wp_insert_post(['post_title' => 'Hello', 'post_status' => 'publish']);\n" +
+      "if (is_wp_error($post_id)) { throw new Exception($post_id->get_error_message()); }\n" +
+      "echo 'Page created with ID: ' . $post_id;",
+      "low"
+    );
+
+    expect(report).toEqual({ risk: "low", reported_risk: "low", blocked: false, findings: [] });
+  });
+
+  it("should block forbidden calls in any case and with a leading backslash", () => {
+    const report = analyzePhpCode("$a = 1;\n$out = SHELL_EXEC('ls');\n\\system('id');");
+
+    expect(report.blocked).toBe(true);
+    expect(report.risk).toBe("high");
+    expect(report.findings).toEqual([
+      { rule: "forbidden_function", severity: "critical", message: "Forbidden function: SHELL_EXEC()", line: 2 },
+      { rule: "forbidden_function", severity: "critical", message: "Forbidden function: system()", line: 3 },
+    ]);
+  });
+
+  it("should block constructs used without parentheses", () => {
+    expect(rulesOf("include 'wp-config.php';")).toEqual(["forbidden_function"]);
+    expect(rulesOf("wp_safe_redirect('/'); exit;")).toEqual(["forbidden_function"]);
+    expect(rulesOf("$r = new ReflectionFunction('x');")).toEqual(["forbidden_function"]);
+  });
+
+  it("should not flag forbidden names in strings, comments or method calls", () => {
+    expect(rulesOf("echo 'Do not exec() this'; // system()\n$file->copy($a); $obj->exec();")).toEqual([]);
+  });
+
+  it("should block backtick shell execution", () => {
+    expect(rulesOf("$files = `ls -la`;")).toEqual(["shell_execution"]);
+  });
+
+  it("should block writes to PHP files but only flag other writes", () => {
+    expect(rulesOf("file_put_contents(ABSPATH . 'wp-content/x.php', $payload);")).toEqual(["php_file_write"]);
+    expect(rulesOf("$h = fopen(__DIR__ . '/.htaccess', 'w');")).toEqual(["php_file_write"]);
+
+    const report = analyzePhpCode("file_put_contents($upload_dir . '/export.csv', $csv);");
+    expect(report.blocked).toBe(false);
+    expect(report.findings[0]).toMatchObject({ rule: "file_write", severity: "medium" });
+  });
+
+  it("should block destructive SQL and flag raw queries", () => {
+    const report = analyzePhpCode("global $wpdb;\n$wpdb->query(\"DROP TABLE {$wpdb->prefix}posts\");");
+
+    expect(report.blocked).toBe(true);
+    expect(report.findings.map((finding) => finding.rule)).toEqual(["raw_sql", "destructive_sql"]);
+    expect(rulesOf("$wpdb->query(\"DELETE FROM {$wpdb->posts}\");")).toEqual(["raw_sql", "destructive_sql"]);
+    expect(analyzePhpCode("$wpdb->query(\"DELETE FROM t WHERE id = 1\");").risk).toBe("medium");
+  });
+
+  it("should block decoded payloads that are executed", () => {
+    expect(rulesOf("eval(base64_decode('ZWNobyAxOw=='));")).toEqual(["forbidden_function", "obfuscated_call"]);
+    expect(rulesOf("base64_decode('c3lzdGVt')('id');")).toEqual(["obfuscated_call"]);
+    expect(rulesOf("$f = str_rot13('flfgrz');\n$f('id');")).toEqual(["obfuscated_call"]);
+    expect(rulesOf("call_user_func(gzinflate($blob));")).toEqual(["obfuscated_call"]);
+  });
+
+  it("should allow decoding data that is not executed", () => {
+    expect(rulesOf("$image = base64_decode($data); wp_upload_bits('a.png', null, $image);")).toEqual([]);
+  });
+
+  it("should block forbidden functions passed as callbacks", () => {
+    expect(rulesOf("call_user_func('passthru', 'id');")).toEqual(["forbidden_function"]);
+    expect(rulesOf("array_map('unlink', glob('*'));")).toEqual(["forbidden_function"]);
+  });
+
+  it("should block preg_replace with the /e modifier", () => {
+    expect(rulesOf("preg_replace('/.*/e', $_GET['c'], '');")).toEqual(["forbidden_function"]);
+    expect(rulesOf("preg_replace('/\\s+/', ' ', $text);")).toEqual([]);
+  });
+
+  it("should raise the risk for destructive calls but never lower the reported risk", () => {
+    expect(analyzePhpCode("wp_delete_post(42, true);", "low").risk).toBe("high");
+    expect(analyzePhpCode("update_option('blogdescription', 'x');", "low").risk).toBe("medium");
+    expect(analyzePhpCode("echo 'hi';", "high").risk).toBe("high");
+  });
+});
+
+describe("reviewExecuteCode", () => {
+  const action = {
+    type: "execute_code",
+    target: "system",
+    details: { description: "List files", code: "echo shell_exec('ls');", estimated_risk: "low" },
+    message: "Done",
+  };
+
+  it("should analyze the action in the parsed data or the raw content", () => {
+    expect(reviewExecuteCode("", action)?.blocked).toBe(true);
+    expect(reviewExecuteCode("```json\n" + JSON.stringify(action) + "\n```")).toMatchObject({
+      blocked: true,
+      reported_risk: "low",
+      risk: "high",
+    });
+  });
+
+  it("should ignore responses without an execute_code action", () => {
+    expect(reviewExecuteCode("Here is your article about SEO.")).toBeUndefined();
+    expect(reviewExecuteCode(JSON.stringify({ type: "other", details: { code: "exec('x');" } }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * @fileoverview Static safety analysis of generated PHP
+ * @module services/codeSafety
+ *
+ * @description
+ * The WordPress plugin eval()s the `details.code` of execute_code actions.
+ * This analyzer tokenizes that PHP (so strings and comments are not mistaken
+ * for calls) and flags forbidden functions, shell execution, writes to PHP
+ * files, destructive SQL and obfuscated calls. The findings recompute
+ * `estimated_risk`; critical ones block the response.
+ */
+
+import {
+  CodeRisk,
+  CodeSafetyFinding,
+  CodeSafetyReport,
+  CodeSafetySeverity,
+  FORBIDDEN_PHP_FUNCTIONS,
+} from "../types/CodeSafety";
+import { extractJsonObject } from "./structuredOutput";
+
+/**
+ * A PHP token
+ */
+interface PhpToken {
+  type: "identifier" | "variable" | "string" | "backtick" | "number" | "punct";
+  value: string;
+  line: number;
+}
+
+/**
+ * Forbidden names, lowercased (PHP function names are case-insensitive)
+ */
+const FORBIDDEN = new Set(FORBIDDEN_PHP_FUNCTIONS.map((name) => name.toLowerCase()));
+
+/**
+ * Language constructs that do not need parentheses
+ */
+const CONSTRUCTS = new Set([
+  "eval", "include", "include_once", "require", "require_once", "exit", "die",
+]);
+
+/**
+ * Functions that decode hidden payloads
+ */
+const DECODERS = new Set([
+  "base64_decode", "str_rot13", "gzinflate", "gzuncompress", "gzdecode",
+  "hex2bin", "convert_uudecode", "strrev",
+]);
+
+/**
+ * Functions that run code or callbacks given as arguments
+ */
+const CALLBACK_RUNNERS = new Set([
+  "eval", "assert", "create_function", "call_user_func", "call_user_func_array",
+  "array_map", "array_filter", "array_walk", "usort", "uasort", "uksort",
+  "register_shutdown_function", "add_action", "add_filter", "preg_replace_callback",
+]);
+
+/**
+ * Functions that write to a path given as first argument
+ */
+const FILE_WRITERS = new Set(["file_put_contents", "fopen"]);
+
+/**
+ * WordPress calls that are allowed but destructive or site-wide
+ */
+const HIGH_RISK_FUNCTIONS = new Set([
+  "wp_delete_post", "wp_delete_user", "wp_delete_term", "wp_delete_attachment",
+  "delete_option", "deactivate_plugins", "delete_plugins", "switch_theme",
+  "wp_set_password", "remove_role", "wp_delete_comment",
+]);
+
+/**
+ * Calls that change site data and deserve a review
+ */
+const MEDIUM_RISK_FUNCTIONS = new Set([
+  "update_option", "wp_trash_post", "wp_update_user", "add_role", "fwrite",
+  "wp_remote_post", "set_role",
+]);
+
+/**
+ * $wpdb methods that run raw SQL
+ */
+const RAW_SQL_METHODS = new Set(["query", "get_results", "get_var", "get_row", "get_col"]);
+
+/**
+ * Paths PHP would execute
+ */
+const PHP_FILE_REGEX = /\.(php\d?|phtml|phar|inc)\b|\.htaccess\b|\.user\.ini\b/i;
+
+/**
+ * Destructive SQL statements
+ */
+const DESTRUCTIVE_SQL_REGEX = /\b(DROP|TRUNCATE)\s+(TABLE|DATABASE|SCHEMA)\b/i;
+
+/**
+ * DELETE statements (flagged when they have no WHERE clause)
+ */
+const DELETE_REGEX = /\bDELETE\s+FROM\b/i;
+
+/**
+ * Multi-character punctuation kept as single tokens
+ */
+const MULTI_CHAR_PUNCT = ["?->", "->", "::", "=>"];
+
+/**
+ * Splits PHP source into tokens, dropping comments and whitespace
+ *
+ * @param {string} code - PHP code (with or without an opening tag)
+ * @returns {PhpToken[]} Tokens in source order
+ */
+export function tokenizePhp(code: string): PhpToken[] {
+  const tokens: PhpToken[] = [];
+  let line = 1;
+  let i = 0;
+
+  const advance = (to: number) => {
+    for (let j = i; j < to && j < code.length; j++) {
+      if (code[j] === "\n") {
+        line++;
+      }
+    }
+    i = to;
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+    const rest = code.slice(i, i + 5);
+
+    if (/\s/.test(char)) {
+      advance(i + 1);
+    } else if (rest.toLowerCase() === "<?php") {
+      advance(i + 5);
+    } else if (code.startsWith("?>", i) || code.startsWith("<?=", i)) {
+      advance(i + (char === "?" ? 2 : 3));
+    } else if (code.startsWith("//", i) || (char === "#" && code[i + 1] !== "[")) {
+      const end = code.indexOf("\n", i);
+      advance(end === -1 ? code.length : end);
+    } else if (code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      advance(end === -1 ? code.length : end + 2);
+    } else if (char === "'" || char === "\"" || char === "`") {
+      const start = i;
+      const startLine = line;
+      let j = i + 1;
+      while (j < code.length && code[j] !== char) {
+        j += code[j] === "\\" ? 2 : 1;
+      }
+      tokens.push({
+        type: char === "`" ? "backtick" : "string",
+        value: code.slice(start + 1, j),
+        line: startLine,
+      });
+      advance(j + 1);
+    } else if (code.startsWith("<<<", i)) {
+      const header = /^<<<[ \t]*(['"]?)([A-Za-z_]\w*)\1\r?\n/.exec(code.slice(i));
+      if (!header) {
+        tokens.push({ type: "punct", value: "<", line });
+        advance(i + 1);
+        continue;
+      }
+      const bodyStart = i + header[0].length;
+      const terminator = new RegExp(`\\n[ \\t]*${header[2]}\\b`).exec(code.slice(bodyStart - 1));
+      const bodyEnd = terminator ? bodyStart - 1 + terminator.index : code.length;
+      tokens.push({ type: "string", value: code.slice(bodyStart, bodyEnd), line });
+      advance(terminator ? bodyEnd + terminator[0].length : code.length);
+    } else if (char === "$" && /[A-Za-z_\x80-\uffff]/.test(code[i + 1] ?? "")) {
+      const match = /^\$[A-Za-z_\x80-\uffff][\w\x80-\uffff]*/.exec(code.slice(i)) as RegExpExecArray;
+      tokens.push({ type: "variable", value: match[0], line });
+      advance(i + match[0].length);
+    } else if (/[A-Za-z_\\\x80-\uffff]/.test(char)) {
+      const match = /^[A-Za-z_\\\x80-\uffff][\w\\\x80-\uffff]*/.exec(code.slice(i)) as RegExpExecArray;
+      // Fully qualified names (\exec) resolve to the same function
+      tokens.push({ type: "identifier", value: match[0].replace(/^\\+/, ""), line });
+      advance(i + match[0].length);
+    } else if (/\d/.test(char)) {
+      const match = /^\d[\w.]*/.exec(code.slice(i)) as RegExpExecArray;
+      tokens.push({ type: "number", value: match[0], line });
+      advance(i + match[0].length);
+    } else {
+      const punct = MULTI_CHAR_PUNCT.find((candidate) => code.startsWith(candidate, i)) ?? char;
+      tokens.push({ type: "punct", value: punct, line });
+      advance(i + punct.length);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Finds the index of the parenthesis closing the one at openIndex
+ */
+function findClosingParen(tokens: PhpToken[], openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    if (tokens[i].type !== "punct") {
+      continue;
+    }
+    if (tokens[i].value === "(") {
+      depth++;
+    } else if (tokens[i].value === ")") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Returns the tokens of the first argument of the call opened at openIndex
+ */
+function getFirstArgument(tokens: PhpToken[], openIndex: number): PhpToken[] {
+  const argument: PhpToken[] = [];
+  let depth = 0;
+
+  for (let i = openIndex + 1; i < tokens.length; i++) {
+    const { type, value } = tokens[i];
+    if (type !== "punct") {
+      argument.push(tokens[i]);
+      continue;
+    }
+    if (value === "(" || value === "[" || value === "{") {
+      depth++;
+    } else if (value === ")" || value === "]" || value === "}") {
+      if (depth === 0) {
+        break;
+      }
+      depth--;
+    } else if (value === "," && depth === 0) {
+      break;
+    }
+    argument.push(tokens[i]);
+  }
+
+  return argument;
+}
+
+/**
+ * Analyzes PHP code for unsafe constructs
+ *
+ * @param {string} code - PHP code from details.code
+ * @param {CodeRisk} reportedRisk - Risk estimated by the model, if any
+ * @returns {CodeSafetyReport} Findings and the recomputed risk
+ *
+ * @example
+ * ```typescript
+ * const report = analyzePhpCode("$out = shell_exec('ls'); echo $out;");
+ * // report.blocked === true, report.risk === "high"
+ * // report.findings[0].message === "Forbidden function: shell_exec()"
+ * ```
+ */
+export function analyzePhpCode(code: string, reportedRisk?: CodeRisk): CodeSafetyReport {
+  const tokens = tokenizePhp(code);
+  const findings: CodeSafetyFinding[] = [];
+  const decodedVariables = new Set<string>();
+
+  // Callee of each open parenthesis (null for grouping parentheses)
+  const callStack: (string | null)[] = [];
+
+  const add = (rule: string, severity: CodeSafetySeverity, message: string, line: number) => {
+    findings.push({ rule, severity, message, line });
+  };
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    const isMember = previous?.value === "->" || previous?.value === "?->" || previous?.value === "::";
+    const isCall = next?.type === "punct" && next.value === "(";
+
+    if (token.type === "punct" && token.value === "(") {
+      callStack.push(previous?.type === "identifier" ? previous.value.toLowerCase() : null);
+      return;
+    }
+    if (token.type === "punct" && token.value === ")") {
+      callStack.pop();
+      return;
+    }
+
+    if (token.type === "backtick") {
+      add("shell_execution", "critical", "Backtick shell execution", token.line);
+      return;
+    }
+
+    if (token.type === "string") {
+      if (DESTRUCTIVE_SQL_REGEX.test(token.value)) {
+        add("destructive_sql", "critical", "Destructive SQL statement (DROP/TRUNCATE)", token.line);
+      } else if (DELETE_REGEX.test(token.value) && !/\bWHERE\b/i.test(token.value)) {
+        add("destructive_sql", "high", "DELETE statement without WHERE clause", token.line);
+      } else if (/\bALTER\s+TABLE\b/i.test(token.value)) {
+        add("schema_change", "high", "ALTER TABLE statement", token.line);
+      }
+
+      // A forbidden function passed by name as a callback
+      const callee = callStack[callStack.length - 1];
+      if (callee && CALLBACK_RUNNERS.has(callee) && FORBIDDEN.has(token.value.toLowerCase())) {
+        add(
+          "forbidden_function",
+          "critical",
+          `Forbidden function passed as callback: ${token.value}()`,
+          token.line
+        );
+      }
+      return;
+    }
+
+    if (token.type === "variable" && isCall) {
+      if (decodedVariables.has(token.value)) {
+        add("obfuscated_call", "critical", `Call through decoded variable ${token.value}`, token.line);
+      } else {
+        add("dynamic_call", "medium", `Dynamic function call ${token.value}()`, token.line);
+      }
+      return;
+    }
+
+    if (token.type !== "identifier") {
+      return;
+    }
+
+    // Namespaced calls fall back to the global function of the same name
+    const name = (token.value.split("\\").pop() as string).toLowerCase();
+
+    // $wpdb->query("...") and friends: raw SQL deserves a review
+    if (isMember) {
+      if (previous?.value !== "::" && isCall && RAW_SQL_METHODS.has(name) && tokens[index - 2]?.value === "$wpdb") {
+        add("raw_sql", "medium", `Raw SQL via $wpdb->${token.value}()`, token.line);
+      }
+      return;
+    }
+
+    if (previous?.value === "function" || previous?.value === "const") {
+      return;
+    }
+
+    if (FORBIDDEN.has(name)) {
+      const isReflection = name.startsWith("reflection");
+      const used = CONSTRUCTS.has(name) ||
+        isCall ||
+        (isReflection && (previous?.value.toLowerCase() === "new" || next?.value === "::"));
+      if (used) {
+        add("forbidden_function", "critical", `Forbidden function: ${token.value}()`, token.line);
+      }
+      return;
+    }
+
+    if (!isCall) {
+      return;
+    }
+
+    if (DECODERS.has(name)) {
+      const closing = findClosingParen(tokens, index + 1);
+      const insideRunner = callStack.some((callee) => callee !== null && CALLBACK_RUNNERS.has(callee));
+
+      if (tokens[closing + 1]?.value === "(" || insideRunner) {
+        add("obfuscated_call", "critical", `Decoded payload executed: ${token.value}()`, token.line);
+      } else if (previous?.value === "=" && tokens[index - 2]?.type === "variable") {
+        decodedVariables.add(tokens[index - 2].value);
+      }
+      return;
+    }
+
+    if (FILE_WRITERS.has(name)) {
+      const path = getFirstArgument(tokens, index + 1);
+      const literals = path.filter((part) => part.type === "string");
+
+      if (literals.some((part) => PHP_FILE_REGEX.test(part.value))) {
+        add("php_file_write", "critical", `${token.value}() on an executable PHP file`, token.line);
+      } else if (name === "file_put_contents") {
+        add("file_write", literals.length > 0 ? "medium" : "high", "file_put_contents() writes to disk", token.line);
+      }
+      return;
+    }
+
+    if (name === "preg_replace") {
+      const pattern = getFirstArgument(tokens, index + 1).find((part) => part.type === "string");
+      const modifiers = pattern && /^([^\w\s\\])[\s\S]*\1([a-zA-Z]*)$/.exec(pattern.value.trim());
+      if (modifiers && modifiers[2].includes("e")) {
+        add("forbidden_function", "critical", "preg_replace() with /e modifier", token.line);
+      }
+      return;
+    }
+
+    if (HIGH_RISK_FUNCTIONS.has(name)) {
+      add("destructive_call", "high", `Destructive call: ${token.value}()`, token.line);
+    } else if (MEDIUM_RISK_FUNCTIONS.has(name)) {
+      add("site_change", "medium", `Site-wide change: ${token.value}()`, token.line);
+    }
+  });
+
+  return {
+    risk: computeRisk(findings, reportedRisk),
+    ...(reportedRisk && { reported_risk: reportedRisk }),
+    blocked: findings.some((finding) => finding.severity === "critical"),
+    findings,
+  };
+}
+
+/**
+ * Recomputes the risk from the findings, never going below the model's estimate
+ */
+function computeRisk(findings: CodeSafetyFinding[], reportedRisk?: CodeRisk): CodeRisk {
+  const levels: CodeRisk[] = ["low", "medium", "high"];
+  const found = findings.reduce<CodeRisk>((risk, finding) => {
+    const level: CodeRisk = finding.severity === "medium" ? "medium" : "high";
+    return levels.indexOf(level) > levels.indexOf(risk) ? level : risk;
+  }, "low");
+
+  return reportedRisk && levels.indexOf(reportedRisk) > levels.indexOf(found)
+    ? reportedRisk
+    : found;
+}
+
+/**
+ * Analyzes the execute_code action in a model response, if there is one
+ *
+ * @param {string} content - Model output
+ * @param {Record<string, unknown>} data - Parsed structured output, if any
+ * @returns {CodeSafetyReport | undefined} The report, undefined without an execute_code action
+ */
+export function reviewExecuteCode(
+  content: string,
+  data?: Record<string, unknown>
+): CodeSafetyReport | undefined {
+  const action = data ?? extractJsonObject(content);
+
+  if (!action || action.type !== "execute_code") {
+    return undefined;
+  }
+
+  const details = action.details as Record<string, unknown> | undefined;
+  if (!details || typeof details.code !== "string") {
+    return undefined;
+  }
+
+  const reportedRisk = ["low", "medium", "high"].includes(details.estimated_risk as string)
+    ? details.estimated_risk as CodeRisk
+    : undefined;
+
+  return analyzePhpCode(details.code, reportedRisk);
+}
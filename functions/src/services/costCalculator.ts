@@ -10,9 +10,10 @@
  */
 
 import {
+  BilledProviderName,
   ProviderName,
-  PROVIDER_PRICING,
   ProviderPricing,
+  getProviderPricing,
 } from "../types/AIProvider";
 import {
   CostTrackingDocument,
@@ -56,6 +57,7 @@ const DEFAULT_PRICING: ProviderPricing = {
  *
  * @param {ProviderName} provider - Provider name
  * @param {string} model - Model name
+ * @param {number} inputTokens - Input tokens of the request, to pick the long-prompt tier (default 0)
  * @returns {ProviderPricing} Pricing configuration
  *
  * @example
@@ -66,15 +68,10 @@ const DEFAULT_PRICING: ProviderPricing = {
  */
 export function getPricing(
   provider: ProviderName,
-  model: string
+  model: string,
+  inputTokens = 0
 ): ProviderPricing {
-  const providerPricing = PROVIDER_PRICING[provider];
-
-  if (!providerPricing) {
-    return DEFAULT_PRICING;
-  }
-
-  return providerPricing[model] || DEFAULT_PRICING;
+  return getProviderPricing(provider, model, inputTokens) || DEFAULT_PRICING;
 }
 
 /**
@@ -87,8 +84,8 @@ export function getPricing(
  * @returns {CostCalculationResult} Detailed cost breakdown
  *
  * @description
- * Uses provider-specific pricing when available, falls back to
- * conservative estimates for unknown models.
+ * Uses the model's registry pricing (long-prompt tier included) when
+ * available, falls back to conservative estimates for unknown models.
  *
  * @example
  * ```typescript
@@ -102,7 +99,7 @@ export function calculateRequestCost(
   inputTokens: number,
   outputTokens: number
 ): CostCalculationResult {
-  const pricing = getPricing(provider, model);
+  const pricing = getPricing(provider, model, inputTokens);
 
   const inputCost = (inputTokens * pricing.input_cost_per_1k) / 1000;
   const outputCost = (outputTokens * pricing.output_cost_per_1k) / 1000;
@@ -135,8 +132,8 @@ export function calculateTotalCostFromDocument(
  * Builds provider breakdown from cost tracking document
  *
  * @param {CostTrackingDocument} doc - Cost tracking document
- * @param {Record<ProviderName, number>} requestCounts - Request counts per provider
- * @returns {Record<ProviderName, ProviderBreakdown>} Provider breakdowns
+ * @param {Record<BilledProviderName, number>} requestCounts - Request counts per provider
+ * @returns {Record<BilledProviderName, ProviderBreakdown>} Provider breakdowns
  *
  * @example
  * ```typescript
@@ -146,8 +143,8 @@ export function calculateTotalCostFromDocument(
  */
 export function buildProviderBreakdown(
   doc: CostTrackingDocument,
-  requestCounts: Record<ProviderName, number>
-): Record<ProviderName, ProviderBreakdown> {
+  requestCounts: Record<BilledProviderName, number>
+): Record<BilledProviderName, ProviderBreakdown> {
   return {
     openai: {
       tokens: doc.openai_tokens_input + doc.openai_tokens_output,
@@ -179,7 +176,7 @@ export function buildProviderBreakdown(
  * @param {CostTrackingDocument | null} doc - Cost tracking document (null if not found)
  * @param {string} licenseId - License ID
  * @param {string} period - Period in YYYY-MM format
- * @param {Record<ProviderName, number>} requestCounts - Request counts per provider
+ * @param {Record<BilledProviderName, number>} requestCounts - Request counts per provider
  * @returns {AnalyticsResponse} Analytics response
  *
  * @example
@@ -196,7 +193,7 @@ export function buildAnalyticsFromCostTracking(
   doc: CostTrackingDocument | null,
   licenseId: string,
   period: string,
-  requestCounts: Record<ProviderName, number>
+  requestCounts: Record<BilledProviderName, number>
 ): AnalyticsResponse {
   if (!doc) {
     return createEmptyAnalyticsResponse(licenseId, period);
@@ -243,7 +240,7 @@ export function calculateCostSummary(
     doc.claude_tokens_output;
 
   // Determine primary provider by cost
-  const providerCosts: { provider: ProviderName; cost: number }[] = [
+  const providerCosts: { provider: BilledProviderName; cost: number }[] = [
     { provider: "openai", cost: doc.openai_cost_usd },
     { provider: "gemini", cost: doc.gemini_cost_usd },
     { provider: "claude", cost: doc.claude_cost_usd },
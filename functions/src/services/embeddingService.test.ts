@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Unit tests for the embedding service
+ * @module services/embeddingService.test
+ */
+
+import { EmbeddingService, estimateEmbeddingTokens } from "./embeddingService";
+import { Logger } from "../lib/logger";
+
+describe("EmbeddingService", () => {
+  const texts = ["Summer sale on garden furniture", "How to care for teak"];
+
+  afterEach(() => {
+    delete process.env.AI_PROVIDER_MODE;
+  });
+
+  it("should embed with the mock provider in mock mode", async () => {
+    // Arrange
+    process.env.AI_PROVIDER_MODE = "mock";
+    const service = new EmbeddingService({ gemini: "" }, new Logger());
+
+    // Act
+    const result = await service.embed({ texts, dimensions: 32 });
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.embeddings).toHaveLength(2);
+    expect(result.dimensions).toBe(32);
+    expect(result.tokens_input).toBe(estimateEmbeddingTokens(texts));
+  });
+
+  it("should reject a batch above the token budget without calling a provider", async () => {
+    // Arrange
+    process.env.AI_PROVIDER_MODE = "mock";
+    const service = new EmbeddingService({ gemini: "" }, new Logger());
+
+    // Act
+    const result = await service.embed({ texts }, 5);
+
+    // Assert
+    expect(result).toEqual(expect.objectContaining({
+      success: false,
+      model: "gemini-embedding-001",
+      error_code: "INSUFFICIENT_QUOTA",
+    }));
+  });
+
+  it("should fail without throwing when the provider has no API key", async () => {
+    // Arrange
+    const service = new EmbeddingService({ gemini: "" }, new Logger());
+
+    // Act
+    const result = await service.embed({ texts });
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.error_code).toBe("INVALID_API_KEY");
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Embedding service
+ * @module services/embeddingService
+ *
+ * @description
+ * Picks the embedding provider of a request and embeds its texts. No
+ * fallback: vectors of different models are not comparable, so a client
+ * that stored Gemini vectors must not silently get OpenAI ones.
+ */
+
+import { GeminiProvider } from "../providers/gemini";
+import { OpenAIProvider } from "../providers/openai";
+import { MockProvider, isMockProviderMode } from "../providers/mock";
+import { AIProviderError, DEFAULT_RETRY_CONFIG } from "../types/AIProvider";
+import {
+  DEFAULT_EMBEDDING_PROVIDER,
+  EmbedRequest,
+  EmbeddingResult,
+  IEmbeddingProvider,
+} from "../types/Embedding";
+import { EMBEDDING_MODELS, EmbeddingProvider, getOpenAICompatibleConfig } from "../config/models";
+import { estimateTextTokens } from "../lib/tokens";
+import { Logger } from "../lib/logger";
+import { ModelServiceKeys } from "./modelService";
+
+/**
+ * Estimates the input tokens of a batch of texts
+ *
+ * @param {string[]} texts - Texts to embed
+ * @returns {number} Estimated tokens
+ */
+export function estimateEmbeddingTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + estimateTextTokens(text), 0);
+}
+
+/**
+ * Embedding Service
+ *
+ * @class EmbeddingService
+ *
+ * @description
+ * Before the provider is called, the estimated input tokens are checked
+ * against the token budget (the license's remaining tokens); a batch that
+ * does not fit fails with INSUFFICIENT_QUOTA.
+ *
+ * In mock mode (`AI_PROVIDER_MODE=mock`) every request is served by a
+ * MockProvider with deterministic vectors.
+ *
+ * @example
+ * ```typescript
+ * const service = new EmbeddingService(keys, logger);
+ * const result = await service.embed({ texts: ["About us", "Contact"] }, tokensRemaining);
+ * ```
+ */
+export class EmbeddingService {
+  private keys: Pick<ModelServiceKeys, "gemini" | "openai">;
+  private logger: Logger;
+
+  /**
+   * Creates an embedding service
+   *
+   * @param {Pick<ModelServiceKeys, "gemini" | "openai">} keys - API keys
+   * @param {Logger} logger - Logger instance
+   */
+  constructor(keys: Pick<ModelServiceKeys, "gemini" | "openai">, logger: Logger) {
+    this.keys = keys;
+    this.logger = logger.child({ service: "embeddingService" });
+  }
+
+  /**
+   * Embeds the texts of a request
+   *
+   * @param {EmbedRequest} request - Texts, provider, dimensions and task
+   * @param {number} tokenBudget - Optional maximum input tokens
+   * @returns {Promise<EmbeddingResult>} Vectors and usage, or the error
+   */
+  async embed(request: EmbedRequest, tokenBudget?: number): Promise<EmbeddingResult> {
+    const provider = request.model || DEFAULT_EMBEDDING_PROVIDER;
+    const model = EMBEDDING_MODELS[provider];
+    const inputTokens = estimateEmbeddingTokens(request.texts);
+
+    if (tokenBudget !== undefined && inputTokens > tokenBudget) {
+      this.logger.warn("Request rejected before embedding", {
+        input_tokens: inputTokens,
+        token_budget: tokenBudget,
+      });
+
+      return this.failure(
+        provider,
+        model,
+        `Request needs ${inputTokens} input tokens, but only ${Math.max(tokenBudget, 0)} remain on the license`,
+        "INSUFFICIENT_QUOTA"
+      );
+    }
+
+    try {
+      return await this.getProvider(provider).embed(request.texts, {
+        model,
+        dimensions: request.dimensions,
+        task: request.task,
+      });
+    } catch (error) {
+      // Provider construction fails on a missing API key
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const code = error instanceof AIProviderError ? error.code : "UNKNOWN_ERROR";
+
+      this.logger.error("Embedding provider unavailable", { provider, error: message });
+      return this.failure(provider, model, message, code);
+    }
+  }
+
+  /**
+   * Creates the provider of a request
+   *
+   * @param {EmbeddingProvider} provider - Provider name
+   * @returns {IEmbeddingProvider} Provider instance
+   * @private
+   */
+  private getProvider(provider: EmbeddingProvider): IEmbeddingProvider {
+    if (isMockProviderMode()) {
+      return new MockProvider();
+    }
+
+    switch (provider) {
+      case "openai":
+        return new OpenAIProvider(
+          this.keys.openai ?? "",
+          EMBEDDING_MODELS.openai,
+          DEFAULT_RETRY_CONFIG,
+          getOpenAICompatibleConfig().base_url
+        );
+      case "gemini":
+        return new GeminiProvider(this.keys.gemini, EMBEDDING_MODELS.gemini);
+    }
+  }
+
+  /**
+   * Builds a failed result
+   *
+   * @private
+   */
+  private failure(
+    provider: EmbeddingProvider,
+    model: string,
+    error: string,
+    errorCode: string
+  ): EmbeddingResult {
+    return {
+      success: false,
+      provider,
+      model,
+      embeddings: [],
+      dimensions: 0,
+      tokens_input: 0,
+      cost_usd: 0,
+      latency_ms: 0,
+      error,
+      error_code: errorCode,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Unit tests for idempotency key helpers
+ * @module services/idempotency.test
+ */
+
+import { hashIdempotentRequest, parseIdempotencyKey } from "./idempotency";
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from "../types/Idempotency";
+
+describe("Idempotency", () => {
+  describe("parseIdempotencyKey", () => {
+    it("should accept printable keys", () => {
+      expect(parseIdempotencyKey("4f0c2a1e-8b7d-4c3a-9e21-5d6f7a8b9c0d")).toBe(
+        "4f0c2a1e-8b7d-4c3a-9e21-5d6f7a8b9c0d"
+      );
+      expect(parseIdempotencyKey("  retry 42  ")).toBe("retry 42");
+    });
+
+    it("should reject empty and overlong keys", () => {
+      expect(parseIdempotencyKey("")).toBeNull();
+      expect(parseIdempotencyKey("   ")).toBeNull();
+      expect(parseIdempotencyKey("k".repeat(MAX_IDEMPOTENCY_KEY_LENGTH))).not.toBeNull();
+      expect(parseIdempotencyKey("k".repeat(MAX_IDEMPOTENCY_KEY_LENGTH + 1))).toBeNull();
+    });
+
+    it("should reject control and non-ASCII characters", () => {
+      expect(parseIdempotencyKey("key\tvalue")).toBeNull();
+      expect(parseIdempotencyKey("clé")).toBeNull();
+    });
+
+    it("should reject a header sent more than once", () => {
+      expect(parseIdempotencyKey(["a", "b"])).toBeNull();
+    });
+  });
+
+  describe("hashIdempotentRequest", () => {
+    const body = { prompt: "Write a tagline", task_type: "TEXT_GEN" };
+
+    it("should give the same hash for the same route and body", () => {
+      expect(hashIdempotentRequest("/ai/route-request", body)).toBe(
+        hashIdempotentRequest("/ai/route-request", { ...body })
+      );
+    });
+
+    it("should ignore the order of the body's keys", () => {
+      expect(hashIdempotentRequest("/ai/route-request", { ...body, options: { a: 1, b: [{ x: 1, y: 2 }] } })).toBe(
+        hashIdempotentRequest("/ai/route-request", {
+          options: { b: [{ y: 2, x: 1 }], a: 1 },
+          task_type: "TEXT_GEN",
+          prompt: "Write a tagline",
+        })
+      );
+    });
+
+    it("should give a different hash for a different body", () => {
+      expect(hashIdempotentRequest("/ai/route-request", body)).not.toBe(
+        hashIdempotentRequest("/ai/route-request", { ...body, prompt: "Write a slogan" })
+      );
+    });
+
+    it("should give a different hash for a different route", () => {
+      expect(hashIdempotentRequest("/ai/route-request", body)).not.toBe(
+        hashIdempotentRequest("/tasks/submit", body)
+      );
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Idempotency key helpers
+ * @module services/idempotency
+ *
+ * @description
+ * Parses the Idempotency-Key header and fingerprints the request it came
+ * with. The pipeline stage (middleware/pipeline) claims the key in
+ * Firestore and replays the stored response of a retried request; a key
+ * reused with a different fingerprint is rejected.
+ */
+
+import { createHash } from "crypto";
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from "../types/Idempotency";
+
+/**
+ * Printable ASCII, no whitespace other than spaces
+ */
+const IDEMPOTENCY_KEY_PATTERN = /^[\x20-\x7e]+$/;
+
+/**
+ * Parses the Idempotency-Key header
+ *
+ * @param {string | string[]} header - Header value
+ * @returns {string | null} The key, or null if it is not 1 to
+ * MAX_IDEMPOTENCY_KEY_LENGTH printable characters
+ *
+ * @example
+ * ```typescript
+ * parseIdempotencyKey("4f0c2a1e-retry");  // "4f0c2a1e-retry"
+ * parseIdempotencyKey(["a", "b"]);        // null (sent twice)
+ * ```
+ */
+export function parseIdempotencyKey(header: string | string[]): string | null {
+  if (Array.isArray(header)) {
+    return null;
+  }
+
+  const key = header.trim();
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH || !IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return null;
+  }
+
+  return key;
+}
+
+/**
+ * Sorts the keys of every object in a JSON value
+ *
+ * @param {unknown} value - Parsed JSON value
+ * @returns {unknown} The same value with its object keys in order
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Fingerprints a request sent with an idempotency key
+ *
+ * @param {string} route - Route path, so a key reused on another endpoint is a mismatch
+ * @param {unknown} body - Request body
+ * @returns {string} SHA-256 hex digest
+ *
+ * @description
+ * The body is canonicalized first, so a retry that serializes the same
+ * fields in another order is not a mismatch.
+ */
+export function hashIdempotentRequest(route: string, body: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ route, body: canonicalize(body ?? null) }))
+    .digest("hex");
+}
@@ -5,5 +5,6 @@
 
 export * from "./licensing";
 export * from "./aiRouter";
+export * from "./routingConfig";
 export * from "./costCalculator";
 export * from "./jobProcessor";
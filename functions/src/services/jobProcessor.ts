@@ -8,7 +8,8 @@
  * and updates to Firestore.
  */
 
-import { AIRouter, ProviderKeys } from "./aiRouter";
+import { ModelService, ModelServiceKeys } from "./modelService";
+import { createCircuitBreaker } from "./circuitBreaker";
 import { Logger } from "../lib/logger";
 import {
   updateJob,
@@ -107,13 +108,13 @@ function getMostUsedProvider(result: JobResult): "openai" | "gemini" | "claude"
  * Processes a job based on its task type
  *
  * @param {Job} job - The job to process
- * @param {AIRouter} router - AI router instance
+ * @param {ModelService} modelService - Model routing service
  * @param {Logger} logger - Logger instance
  * @returns {Promise<JobProcessingResult>} Processing result
  */
 async function processJobByType(
   job: Job,
-  router: AIRouter,
+  modelService: ModelService,
   logger: Logger
 ): Promise<JobProcessingResult> {
   const taskType = job.task_type;
@@ -124,7 +125,7 @@ async function processJobByType(
     switch (taskType) {
       case "bulk_articles": {
         const taskData = job.task_data as BulkArticlesTaskData;
-        result = await processBulkArticles(job.job_id, taskData, router, logger);
+        result = await processBulkArticles(job.job_id, taskData, modelService, logger);
         const articlesResult = result as BulkArticlesResult;
         return {
           success: true,
@@ -137,7 +138,7 @@ async function processJobByType(
 
       case "bulk_products": {
         const taskData = job.task_data as BulkProductsTaskData;
-        result = await processBulkProducts(job.job_id, taskData, router, logger);
+        result = await processBulkProducts(job.job_id, taskData, modelService, logger);
         const productsResult = result as BulkProductsResult;
         return {
           success: true,
@@ -150,7 +151,7 @@ async function processJobByType(
 
       case "design_batch": {
         const taskData = job.task_data as DesignBatchTaskData;
-        result = await processDesignBatch(job.job_id, taskData, router, logger);
+        result = await processDesignBatch(job.job_id, taskData, modelService, logger);
         const designResult = result as DesignBatchResult;
         return {
           success: true,
@@ -205,7 +206,7 @@ function sleep(ms: number): Promise<void> {
  * Main job processor - processes a job with retry logic
  *
  * @param {Job} job - The job to process
- * @param {ProviderKeys} keys - API keys for providers
+ * @param {ModelServiceKeys} keys - API keys for providers
  * @param {Logger} logger - Logger instance
  * @returns {Promise<void>}
  *
@@ -224,7 +225,7 @@ function sleep(ms: number): Promise<void> {
  */
 export async function processJob(
   job: Job,
-  keys: ProviderKeys,
+  keys: ModelServiceKeys,
   logger: Logger
 ): Promise<void> {
   const processingLogger = logger.child({
@@ -241,8 +242,8 @@ export async function processJob(
   // Set status to processing
   await updateJobStatus(job.job_id, "processing");
 
-  // Create router
-  const router = new AIRouter(keys, logger);
+  // Create model service (routing matrix follows the license plan)
+  const modelService = new ModelService(keys, logger, createCircuitBreaker(logger), job.plan);
 
   let currentAttempt = job.attempts;
   let lastError: string | undefined;
@@ -253,7 +254,7 @@ export async function processJob(
       max_attempts: MAX_JOB_ATTEMPTS,
     });
 
-    const result = await processJobByType(job, router, processingLogger);
+    const result = await processJobByType(job, modelService, processingLogger);
 
     if (result.success && result.result) {
       // Job succeeded
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Unit tests for Model Lock service
+ * @module services/modelLock.test
+ */
+
+import { Timestamp } from "firebase-admin/firestore";
+import { resolveChatModel, isFallbackAllowed, getNextModelLock } from "./modelLock";
+import { ChatSession } from "../types/ChatSession";
+
+/**
+ * Builds a session locked to the given model
+ */
+function createSession(lockedModel?: ChatSession["locked_model"]): ChatSession {
+  const now = Timestamp.now();
+  return {
+    chat_id: "chat_1",
+    license_id: "CREATOR-2025-ABCDE-FGHIJ",
+    messages: [],
+    message_count: 2,
+    ...(lockedModel && { locked_model: lockedModel }),
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+describe("resolveChatModel", () => {
+  it("should use the requested model for new chats", () => {
+    expect(resolveChatModel(null, "claude")).toBe("claude");
+  });
+
+  it("should use the requested model for sessions without a lock", () => {
+    expect(resolveChatModel(createSession(), "claude")).toBe("claude");
+  });
+
+  it("should override the requested model with the lock", () => {
+    expect(resolveChatModel(createSession("gemini"), "claude")).toBe("gemini");
+  });
+});
+
+describe("isFallbackAllowed", () => {
+  it("should only disable fallback for the fail policy", () => {
+    expect(isFallbackAllowed("fail")).toBe(false);
+    expect(isFallbackAllowed("fallback_once")).toBe(true);
+    expect(isFallbackAllowed("relock")).toBe(true);
+  });
+});
+
+describe("getNextModelLock", () => {
+  it("should lock new sessions to the answering model", () => {
+    expect(getNextModelLock(undefined, "fallback_once", "gemini")).toEqual({
+      locked_model: "gemini",
+      policy: "fallback_once",
+      changed: true,
+    });
+  });
+
+  it("should keep the lock when the locked model answers", () => {
+    expect(getNextModelLock("claude", "relock", "claude")).toEqual({
+      locked_model: "claude",
+      policy: "relock",
+      changed: false,
+    });
+  });
+
+  it("should keep the lock after a one-off fallback", () => {
+    expect(getNextModelLock("claude", "fallback_once", "gemini")).toEqual({
+      locked_model: "claude",
+      policy: "fallback_once",
+      changed: false,
+    });
+  });
+
+  it("should move the lock to the fallback with relock", () => {
+    expect(getNextModelLock("claude", "relock", "gemini")).toEqual({
+      locked_model: "gemini",
+      policy: "relock",
+      changed: true,
+    });
+  });
+
+  it("should not lock a session to a provider clients cannot select", () => {
+    expect(getNextModelLock(undefined, "relock", "openai")).toBeUndefined();
+    expect(getNextModelLock("claude", "relock", "openai")).toEqual({
+      locked_model: "claude",
+      policy: "relock",
+      changed: false,
+    });
+  });
+});
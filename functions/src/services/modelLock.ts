@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Model locking for chat sessions
+ * @module services/modelLock
+ *
+ * @description
+ * A chat session is locked to the model that answers its first turn, so
+ * every later turn is sent to the same model regardless of `model` in the
+ * request. When the locked model fails, the session's ModelLockPolicy
+ * decides whether the other model may answer and whether the lock moves.
+ */
+
+import { AIModel, isValidProvider } from "../types/ModelConfig";
+import { ProviderName } from "../types/AIProvider";
+import { ChatSession, ModelLockPolicy, ModelLockState } from "../types/ChatSession";
+
+/**
+ * Picks the model for the next turn of a chat
+ *
+ * @param {ChatSession | null} session - Existing session, if any
+ * @param {AIModel} requestedModel - Model requested in the body, if any
+ * @returns {AIModel | undefined} The locked model, or the requested one for new chats
+ */
+export function resolveChatModel(
+  session: ChatSession | null,
+  requestedModel?: AIModel
+): AIModel | undefined {
+  return session?.locked_model ?? requestedModel;
+}
+
+/**
+ * Checks whether a policy lets the other model answer
+ *
+ * @param {ModelLockPolicy} policy - Lock policy
+ * @returns {boolean} False for "fail"
+ */
+export function isFallbackAllowed(policy: ModelLockPolicy): boolean {
+  return policy !== "fail";
+}
+
+/**
+ * Computes the lock after a successful turn
+ *
+ * @param {AIModel | undefined} lockedModel - Lock before this turn
+ * @param {ModelLockPolicy} policy - Lock policy
+ * @param {ProviderName} answeredBy - Provider that produced the answer
+ * @returns {ModelLockState | undefined} Lock state to store and return to the
+ * client, undefined for a new chat answered by a provider that cannot be locked
+ *
+ * @example
+ * ```typescript
+ * getNextModelLock(undefined, "fallback_once", "gemini");
+ * // { locked_model: "gemini", policy: "fallback_once", changed: true }
+ *
+ * getNextModelLock("claude", "relock", "gemini");
+ * // { locked_model: "gemini", policy: "relock", changed: true }
+ * ```
+ */
+export function getNextModelLock(
+  lockedModel: AIModel | undefined,
+  policy: ModelLockPolicy,
+  answeredBy: ProviderName
+): ModelLockState | undefined {
+  // Sessions can only be locked to a model the client is allowed to select
+  const lockable = isValidProvider(answeredBy);
+
+  if (lockable && (!lockedModel || (policy === "relock" && answeredBy !== lockedModel))) {
+    return { locked_model: answeredBy, policy, changed: true };
+  }
+
+  return lockedModel ? { locked_model: lockedModel, policy, changed: false } : undefined;
+}
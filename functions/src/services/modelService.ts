@@ -1,23 +1,60 @@
 /**
- * @fileoverview Simple Model Service for Creator AI Proxy
+ * @fileoverview Model Service (routing engine) for Creator AI Proxy
  * @module services/modelService
  *
  * @description
- * Handles AI model calls with automatic fallback.
- * Primary model: User's choice (Gemini or Claude)
- * Fallback: The other model if primary fails
+ * Routes every AI generation request (sync endpoint, async jobs, plugin
+ * docs research) through one provider chain with automatic fallback.
+ * The chain honors the task type's routing matrix, the license plan and
+ * the user's model preference.
+ * The request's site context is rendered into the system prompt.
+ * With a response schema, the answer is validated and repaired once if needed.
+ * Requests opting into the response cache are answered from it when possible.
+ * With `prompt_cache`, the system prompt and site context are cached by the provider.
+ * With `reasoning`, models that support it think within the requested budget.
+ * With `tools`, the model may answer with tool calls the client runs and sends back.
+ * With `AI_PROVIDER_MODE=mock`, every model is served offline by the mock provider.
+ * Before any model is called, the input is checked against each model's context window.
  */
 
+import { OpenAIProvider } from "../providers/openai";
 import { GeminiProvider } from "../providers/gemini";
 import { ClaudeProvider } from "../providers/claude";
+import { MockProvider, isMockProviderMode, loadMockFixtures } from "../providers/mock";
 import {
-  AIModel,
+  HedgeAttempt,
   ModelRequest,
   ModelResponse,
-  MODEL_IDS,
+  getPrimaryModel,
   getFallbackModel,
 } from "../types/ModelConfig";
+import {
+  IAIProvider,
+  GenerateOptions,
+  PromptCacheUsage,
+  BilledProviderName,
+  StreamChunkHandler,
+  DEFAULT_RETRY_CONFIG,
+  calculateCost,
+} from "../types/AIProvider";
+import { getOpenAICompatibleConfig } from "../config/models";
+import { ProviderRouteConfig } from "../types/Route";
+import { LicensePlan } from "../types/License";
+import { getRoutingMatrix } from "./routingConfig";
+import { CircuitBreaker, getCircuitKey } from "./circuitBreaker";
+import { renderSiteContext, buildSystemPrompt } from "./siteContext";
+import { parseStructuredOutput, buildRepairPrompt } from "./structuredOutput";
+import { ResponseCache, isCacheableRequest } from "./responseCache";
+import { runPreflight } from "./preflight";
 import { Logger } from "../lib/logger";
+import { estimateTextTokens } from "../lib/tokens";
+import {
+  DeadlineErrorCode,
+  combineSignals,
+  createDeadlineSignal,
+  getStopReason,
+  hasTimeFor,
+} from "../lib/deadline";
 
 /**
  * Default system prompt for Creator AI - Universal PHP Engine
@@ -109,10 +146,87 @@ Return ONLY the JSON object.`;
 
 /**
  * Provider keys configuration
+ *
+ * @description
+ * OpenAI is optional: chain entries for a provider without a key are skipped.
  */
 export interface ModelServiceKeys {
   gemini: string;
   claude: string;
+  openai?: string;
+}
+
+/**
+ * System prompt sent to every model in the chain, with the blocks it was built from
+ */
+interface RenderedSystemPrompt {
+  text: string;
+  blocks: string[];
+}
+
+/**
+ * Outcome of a hedged call: the answer, and the other attempt if one was started
+ */
+interface HedgedCall {
+  config: ProviderRouteConfig;
+  result: ModelResponse;
+  loser?: HedgeAttempt;
+}
+
+/**
+ * A model call of a hedged race, finished or cancelled
+ */
+interface HedgeOutcome {
+  config: ProviderRouteConfig;
+  result: ModelResponse;
+  cancelled: boolean;
+}
+
+/**
+ * Tokens and cost billed by the providers for a call
+ */
+type CallUsage = Pick<
+  ModelResponse,
+  "tokens_input" | "tokens_output" | "total_tokens" | "cost_usd" | "prompt_cache" | "tokens_reasoning"
+>;
+
+/**
+ * Usage of a chain before any model was billed
+ */
+const NO_USAGE: CallUsage = { tokens_input: 0, tokens_output: 0, total_tokens: 0, cost_usd: 0 };
+
+/**
+ * Adds up the usage of two calls
+ */
+function sumUsage(first: CallUsage, second: CallUsage): CallUsage {
+  const promptCache = sumPromptCacheUsage(first.prompt_cache, second.prompt_cache);
+  return {
+    tokens_input: first.tokens_input + second.tokens_input,
+    tokens_output: first.tokens_output + second.tokens_output,
+    total_tokens: first.total_tokens + second.total_tokens,
+    cost_usd: first.cost_usd + second.cost_usd,
+    ...(promptCache && { prompt_cache: promptCache }),
+    ...((first.tokens_reasoning !== undefined || second.tokens_reasoning !== undefined) && {
+      tokens_reasoning: (first.tokens_reasoning ?? 0) + (second.tokens_reasoning ?? 0),
+    }),
+  };
+}
+
+/**
+ * Adds up the prompt cache usage of an answer and its repair
+ */
+function sumPromptCacheUsage(
+  first?: PromptCacheUsage,
+  second?: PromptCacheUsage
+): PromptCacheUsage | undefined {
+  if (!first || !second) {
+    return first ?? second;
+  }
+  return {
+    write_tokens: first.write_tokens + second.write_tokens,
+    read_tokens: first.read_tokens + second.read_tokens,
+    savings_usd: first.savings_usd + second.savings_usd,
+  };
 }
 
 /**
@@ -121,133 +235,763 @@ export interface ModelServiceKeys {
  * @class ModelService
  *
  * @description
- * Simple service that calls the selected AI model with automatic fallback.
+ * Single routing engine for sync requests, async jobs and plugin docs
+ * research. Builds a provider chain for the request and tries it in order:
+ * - With `task_type`, the chain comes from the routing matrix for the
+ *   license plan (Firestore overrides over DEFAULT_ROUTING_MATRIX)
+ * - Without it, the chain is the gemini/claude pair
+ * - The preferred `model`, if any, is moved to the front of the chain
+ *
+ * With a circuit breaker, entries whose circuit is open are skipped, except
+ * the last one when nothing else was tried.
+ *
+ * With `response_schema`, each answer is parsed and validated. An invalid
+ * answer gets one repair re-prompt on the same model; if that is invalid
+ * too, the model counts as failed and the chain moves on. The providers
+ * billed both calls, so their usage is added to the final result, whether
+ * a later model answers or the whole chain fails.
+ *
+ * With a response cache, requests with `cache` set (and temperature 0, or
+ * `cache.force`) are looked up before the chain runs and stored after a
+ * successful answer. Hits cost no tokens and report `cache_hit: true`.
+ *
+ * With `tools`, every model in the chain gets the same tool definitions and
+ * tool results, so a fallback model can continue the same tool loop.
+ *
+ * Before the chain runs, the input tokens are counted and entries whose
+ * context window cannot hold input plus `max_tokens` are skipped. When no
+ * entry fits, or the input exceeds `token_budget`, the request fails with
+ * CONTEXT_WINDOW_EXCEEDED or INSUFFICIENT_QUOTA without calling a model.
+ *
+ * With a `deadline`, every call gets a signal that fires at the deadline
+ * (or when the request's `signal` fires) and aborts the in-flight call. No
+ * fallback starts once too little time is left, and the request fails with
+ * DEADLINE_EXCEEDED (or CANCELLED) instead of ALL_MODELS_FAILED.
+ *
+ * With `hedge` and a `hedge_after_ms` on the task's route, a first model
+ * that has not answered after that time is raced against the next model in
+ * the chain. The first success wins and the other call is cancelled; it is
+ * reported as `hedge_loser` so its cost can be recorded.
+ *
+ * In mock mode (`AI_PROVIDER_MODE=mock`) no API key is needed: each chain
+ * entry is served by a MockProvider for its model ID, so routing, fallback,
+ * circuit breaking and model locking behave as with the real providers.
+ *
+ * @example
+ * ```typescript
+ * const service = new ModelService(keys, logger, createCircuitBreaker(logger), "pro");
+ * const result = await service.generate({
+ *   task_type: "CODE_GEN",
+ *   model: "gemini",
+ *   prompt: "Create a contact page",
+ * });
+ * ```
  */
 export class ModelService {
   private keys: ModelServiceKeys;
   private logger: Logger;
+  private circuitBreaker?: CircuitBreaker;
+  private plan?: LicensePlan;
+  private responseCache?: ResponseCache;
+  private providers: Map<string, IAIProvider> = new Map();
+  private mockMode: boolean;
 
-  constructor(keys: ModelServiceKeys, logger: Logger) {
+  /**
+   * Creates a model service
+   *
+   * @param {ModelServiceKeys} keys - API keys for each provider
+   * @param {Logger} logger - Logger instance
+   * @param {CircuitBreaker} circuitBreaker - Optional breaker to skip unhealthy providers
+   * @param {LicensePlan} plan - Optional license plan for per-plan routing
+   * @param {ResponseCache} responseCache - Optional cache for requests with `cache` set
+   */
+  constructor(
+    keys: ModelServiceKeys,
+    logger: Logger,
+    circuitBreaker?: CircuitBreaker,
+    plan?: LicensePlan,
+    responseCache?: ResponseCache
+  ) {
     this.keys = keys;
     this.logger = logger.child({ service: "modelService" });
+    this.circuitBreaker = circuitBreaker;
+    this.plan = plan;
+    this.responseCache = responseCache;
+    this.mockMode = isMockProviderMode();
   }
 
   /**
-   * Generate content using the selected model with fallback
+   * Generate content, falling back along the provider chain
    */
   async generate(request: ModelRequest): Promise<ModelResponse> {
+    return this.generateWithFallback(request);
+  }
+
+  /**
+   * Generate content with streaming, forwarding text deltas to onChunk
+   *
+   * @description
+   * Falls back to the next provider only if the current one fails before
+   * the first chunk was emitted. Once text has reached the client, a
+   * failure is returned as-is so the output is never duplicated or mixed.
+   */
+  async generateStream(
+    request: ModelRequest,
+    onChunk: StreamChunkHandler
+  ): Promise<ModelResponse> {
+    return this.generateWithFallback(request, onChunk);
+  }
+
+  /**
+   * Builds the ordered provider chain for a request
+   *
+   * @param {ModelRequest} request - The request
+   * @returns {Promise<ProviderRouteConfig[]>} Providers to try, in order, without duplicates
+   */
+  async getRouteChain(request: ModelRequest): Promise<ProviderRouteConfig[]> {
+    let chain: ProviderRouteConfig[];
+
+    if (request.task_type) {
+      const matrix = await getRoutingMatrix(this.plan, this.logger);
+      const route = matrix[request.task_type];
+      chain = [route.primary, route.fallback1, route.fallback2];
+    } else {
+      const model = request.model ?? "gemini";
+      const fallback = getFallbackModel(model);
+      chain = [
+        { provider: model, model: getPrimaryModel(model) },
+        { provider: fallback, model: getPrimaryModel(fallback) },
+      ];
+    }
+
+    // The preferred model goes first, using the plan's model for that provider if routed
+    if (request.model) {
+      const preferred = chain.find((config) => config.provider === request.model) ??
+        { provider: request.model, model: getPrimaryModel(request.model) };
+      chain = [preferred, ...chain];
+    }
+
+    const seen = new Set<string>();
+    return chain.filter((config) => {
+      const circuit = getCircuitKey(config.provider, config.model);
+      if (seen.has(circuit) || (!this.mockMode && !this.keys[config.provider])) {
+        return false;
+      }
+      seen.add(circuit);
+      return true;
+    });
+  }
+
+  /**
+   * Shared entry point for generate() and generateStream(): cache, then chain
+   */
+  private async generateWithFallback(
+    request: ModelRequest,
+    onChunk?: StreamChunkHandler
+  ): Promise<ModelResponse> {
+    const cache = this.responseCache && isCacheableRequest(request)
+      ? this.responseCache
+      : undefined;
+
+    if (!cache) {
+      return this.runChain(request, onChunk);
+    }
+
     const startTime = Date.now();
-    const primaryModel = request.model;
-    const fallbackModel = getFallbackModel(primaryModel);
+    const cached = await cache.lookup(request);
+
+    if (cached) {
+      // A hit streams as a single chunk
+      onChunk?.(cached.content);
+      return { ...cached, latency_ms: Date.now() - startTime };
+    }
+
+    const result = await this.runChain(request, onChunk);
+    if (result.success) {
+      await cache.save(request, result);
+    }
+
+    return { ...result, cache_hit: false };
+  }
+
+  /**
+   * Walks the provider chain until a model answers
+   */
+  private async runChain(
+    request: ModelRequest,
+    onChunk?: StreamChunkHandler
+  ): Promise<ModelResponse> {
+    const startTime = Date.now();
+
+    // One signal for the whole chain: fires at the deadline or when the caller aborts
+    request = { ...request, signal: createDeadlineSignal(request.deadline, request.signal) };
+    const fullChain = await this.getRouteChain(request);
+
+    // Without a fallback only the first model is tried, whatever its circuit state
+    const routedChain = request.allow_fallback === false ? fullChain.slice(0, 1) : fullChain;
+
+    let streamStarted = false;
+    let streamedText = "";
+    const forwardChunk: StreamChunkHandler | undefined = onChunk
+      ? (text) => {
+        streamStarted = true;
+        streamedText += text;
+        onChunk(text);
+      }
+      : undefined;
 
     this.logger.info("Starting model generation", {
-      model: primaryModel,
+      task_type: request.task_type,
+      model: request.model,
+      plan: this.plan,
       prompt_length: request.prompt.length,
+      stream: !!onChunk,
+      providers_chain: routedChain.map((config) => `${config.provider}:${config.model}`),
     });
 
-    // Try primary model
-    const primaryResult = await this.callModel(primaryModel, request);
+    // Render the site context once, every model gets the same system prompt
+    const siteContext = request.context ? renderSiteContext(request.context) : undefined;
+    const basePrompt = request.system_prompt === null ? "" : request.system_prompt || DEFAULT_SYSTEM_PROMPT;
+    const systemPrompt: RenderedSystemPrompt = {
+      text: buildSystemPrompt(basePrompt, siteContext),
+      blocks: [basePrompt, siteContext?.text ?? ""].filter((block) => block !== ""),
+    };
+    const contextTokens = siteContext?.text ? siteContext.tokens : undefined;
 
-    if (primaryResult.success) {
-      this.logger.info("Primary model succeeded", {
-        model: primaryModel,
-        tokens: primaryResult.total_tokens,
-        latency_ms: primaryResult.latency_ms,
+    if (siteContext?.omitted_plugins) {
+      this.logger.debug("Site context truncated", {
+        context_tokens: siteContext.tokens,
+        omitted_plugins: siteContext.omitted_plugins,
       });
+    }
 
-      return {
-        ...primaryResult,
-        used_fallback: false,
-        latency_ms: Date.now() - startTime,
-      };
+    // Skip the models that cannot hold the request, reject it if none can
+    let chain = routedChain;
+    let inputTokens = 0;
+    if (routedChain.length > 0) {
+      const preflight = await runPreflight(
+        routedChain,
+        (config) => this.getProvider(config),
+        request.prompt,
+        this.buildGenerateOptions(request, systemPrompt, onChunk),
+        request.token_budget,
+        this.logger
+      );
+
+      if (preflight.error) {
+        this.logger.warn("Request rejected before generation", {
+          error_code: preflight.error.code,
+          input_tokens: preflight.input_tokens,
+          token_budget: request.token_budget,
+        });
+
+        return {
+          success: false,
+          content: "",
+          model: routedChain[0].provider,
+          model_id: routedChain[0].model,
+          used_fallback: false,
+          tokens_input: 0,
+          tokens_output: 0,
+          total_tokens: 0,
+          cost_usd: 0,
+          latency_ms: Date.now() - startTime,
+          error: preflight.error.message,
+          error_code: preflight.error.code,
+          providers_attempted: [],
+        };
+      }
+
+      chain = preflight.chain;
+      inputTokens = preflight.input_tokens;
     }
 
-    // Primary failed, try fallback
-    this.logger.warn("Primary model failed, trying fallback", {
-      primary: primaryModel,
-      fallback: fallbackModel,
-      error: primaryResult.error,
-    });
+    const providersAttempted: BilledProviderName[] = [];
+    // Failed answers the providers still billed (e.g. invalid structured output)
+    let billedFailures: CallUsage = NO_USAGE;
+    const circuitsOpen: string[] = [];
+    const errors: string[] = [];
+    let lastErrorCode: string | undefined;
+    let stopReason: DeadlineErrorCode | undefined;
 
-    const fallbackResult = await this.callModel(fallbackModel, request);
+    // Streams cannot be raced, their chunks already reach the client
+    const hedgeAfterMs = onChunk ? undefined : await this.getHedgeAfterMs(request);
+    let hedgeBackup: ProviderRouteConfig | undefined;
+    let hedgeLoser: HedgeAttempt | undefined;
 
-    if (fallbackResult.success) {
-      this.logger.info("Fallback model succeeded", {
-        model: fallbackModel,
-        tokens: fallbackResult.total_tokens,
-        latency_ms: fallbackResult.latency_ms,
-      });
+    for (const [index, config] of chain.entries()) {
+      // Already called as the hedge of the previous model
+      if (config === hedgeBackup) {
+        continue;
+      }
 
-      return {
-        ...fallbackResult,
-        used_fallback: true,
-        latency_ms: Date.now() - startTime,
-      };
+      stopReason = getStopReason(request) ?? (hasTimeFor(request.deadline) ? undefined : "DEADLINE_EXCEEDED");
+      if (stopReason) {
+        this.logger.warn("Request stopped before the next model", {
+          provider: config.provider,
+          model: config.model,
+          stop_reason: stopReason,
+          remaining_models: chain.length - index,
+        });
+        break;
+      }
+
+      const circuit = getCircuitKey(config.provider, config.model);
+      const isLastResort = index === chain.length - 1 && providersAttempted.length === 0;
+
+      if (!isLastResort && !(await this.isCircuitAllowed(circuit))) {
+        circuitsOpen.push(circuit);
+        errors.push("Circuit open");
+
+        this.logger.warn("Circuit open, skipping model", {
+          provider: config.provider,
+          model: config.model,
+          circuit,
+        });
+        continue;
+      }
+
+      providersAttempted.push(config.provider);
+
+      // Only the first model called is hedged, with the next one in the chain
+      const backup = providersAttempted.length === 1 ? chain[index + 1] : undefined;
+      let answered = config;
+      let result: ModelResponse;
+      let backupError: string | undefined;
+
+      if (hedgeAfterMs !== undefined && backup) {
+        const hedged = await this.callHedged(config, backup, request, systemPrompt, hedgeAfterMs, inputTokens);
+        ({ config: answered, result } = hedged);
+
+        if (hedged.loser) {
+          hedgeBackup = backup;
+          hedgeLoser = hedged.loser;
+          providersAttempted.push(backup.provider);
+          backupError = hedged.loser.error;
+        }
+      } else {
+        result = await this.callModel(config, request, systemPrompt, forwardChunk);
+        await this.recordCircuitResult(circuit, result);
+      }
+
+      if (result.success && request.response_schema && !onChunk && !result.tool_calls) {
+        result = await this.applyResponseSchema(answered, request, systemPrompt, result);
+      }
+
+      if (result.success) {
+        this.logger.info("Model succeeded", {
+          provider: answered.provider,
+          model: answered.model,
+          attempts: providersAttempted.length,
+          tokens: result.total_tokens,
+          latency_ms: result.latency_ms,
+          ...(hedgeLoser && { hedged: true }),
+        });
+
+        return {
+          ...result,
+          ...sumUsage(result, billedFailures),
+          used_fallback: answered !== chain[0],
+          latency_ms: Date.now() - startTime,
+          providers_attempted: providersAttempted,
+          ...(circuitsOpen.length > 0 && { circuits_open: circuitsOpen }),
+          ...(contextTokens !== undefined && { context_tokens: contextTokens }),
+          ...(hedgeLoser && { hedge_loser: hedgeLoser }),
+        };
+      }
+
+      // A broken stream reports no usage, but the client already has its output
+      if (streamStarted && result.total_tokens === 0) {
+        result = { ...result, ...this.estimateStreamUsage(answered, inputTokens, streamedText) };
+      }
+
+      billedFailures = sumUsage(billedFailures, result);
+      errors.push(result.error || "Unknown error");
+      if (backupError) {
+        errors.push(backupError);
+      }
+      lastErrorCode = result.error_code;
+
+      // The client already has partial output, the request was stopped, or there is nothing to fall back to
+      const stopped = result.error_code === "DEADLINE_EXCEEDED" || result.error_code === "CANCELLED";
+      if (streamStarted || stopped || chain.length === 1) {
+        this.logger.error(
+          streamStarted
+            ? "Model failed after streaming started"
+            : stopped ? "Model stopped by the deadline or the caller" : "Model failed, fallback disabled",
+          {
+            provider: answered.provider,
+            model: answered.model,
+            error: result.error,
+          }
+        );
+
+        return {
+          ...result,
+          ...billedFailures,
+          used_fallback: answered !== chain[0],
+          latency_ms: Date.now() - startTime,
+          providers_attempted: providersAttempted,
+          ...(circuitsOpen.length > 0 && { circuits_open: circuitsOpen }),
+          ...(hedgeLoser && { hedge_loser: hedgeLoser }),
+        };
+      }
+
+      this.logger.warn("Model failed, trying fallback", {
+        provider: config.provider,
+        model: config.model,
+        error: result.error,
+        error_code: result.error_code,
+        remaining_models: chain.length - index - 1,
+      });
     }
 
-    // Both failed
-    this.logger.error("Both models failed", {
-      primary: primaryModel,
-      fallback: fallbackModel,
-      primary_error: primaryResult.error,
-      fallback_error: fallbackResult.error,
+    // Every model failed, or the deadline left no time for the rest
+    this.logger.error(stopReason ? "Request stopped" : "All models failed", {
+      task_type: request.task_type,
+      providers_attempted: providersAttempted,
+      circuits_open: circuitsOpen,
+      last_error_code: lastErrorCode,
+      ...(stopReason && { stop_reason: stopReason }),
     });
 
+    const first: ProviderRouteConfig = fullChain[0] ??
+      { provider: request.model ?? "gemini", model: getPrimaryModel(request.model ?? "gemini") };
+    const failures = errors
+      .map((error, index) => `${index === 0 ? "Primary" : "Fallback"}: ${error}`)
+      .join(". ");
+
     return {
       success: false,
       content: "",
-      model: primaryModel,
-      model_id: MODEL_IDS[primaryModel],
+      model: first.provider,
+      model_id: first.model,
       used_fallback: true,
-      tokens_input: 0,
-      tokens_output: 0,
-      total_tokens: 0,
-      cost_usd: 0,
+      ...billedFailures,
       latency_ms: Date.now() - startTime,
-      error: `Both models failed. Primary: ${primaryResult.error}. Fallback: ${fallbackResult.error}`,
-      error_code: "ALL_MODELS_FAILED",
+      error: stopReason
+        ? `${stopReason === "CANCELLED" ? "Request cancelled" : "Request deadline exceeded"}` +
+          (errors.length > 0 ? `. ${failures}` : "")
+        : errors.length > 0
+          ? `${errors.length === 2 ? "Both" : "All"} models failed. ${failures}`
+          : "No model configured for this request",
+      error_code: stopReason ?? "ALL_MODELS_FAILED",
+      providers_attempted: providersAttempted,
+      ...(circuitsOpen.length > 0 && { circuits_open: circuitsOpen }),
+      ...(hedgeLoser && { hedge_loser: hedgeLoser }),
+    };
+  }
+
+  /**
+   * Parses a successful answer against the request's schema, re-prompting once if invalid
+   *
+   * @returns The answer with `data`, the repaired answer, or an INVALID_STRUCTURED_OUTPUT failure
+   */
+  private async applyResponseSchema(
+    config: ProviderRouteConfig,
+    request: ModelRequest,
+    systemPrompt: RenderedSystemPrompt,
+    result: ModelResponse
+  ): Promise<ModelResponse> {
+    const responseSchema = request.response_schema;
+    if (!responseSchema) {
+      return result;
+    }
+
+    const parsed = parseStructuredOutput(result.content, responseSchema);
+    if (parsed.valid) {
+      return { ...result, data: parsed.data };
+    }
+
+    this.logger.warn("Structured output invalid, requesting repair", {
+      provider: config.provider,
+      model: config.model,
+      schema: responseSchema.name,
+      errors: parsed.errors,
+    });
+
+    // The invalid answer goes into the history so the model can correct it
+    const repair = await this.callModel(config, {
+      ...request,
+      prompt: buildRepairPrompt(responseSchema, parsed.errors),
+      files: undefined,
+      messages: [
+        ...(request.messages ?? []),
+        { role: "user", content: request.prompt },
+        { role: "assistant", content: result.content },
+      ],
+    }, systemPrompt);
+
+    const usage = {
+      ...sumUsage(result, repair),
+      latency_ms: result.latency_ms + repair.latency_ms,
+    };
+
+    const reparsed = repair.success
+      ? parseStructuredOutput(repair.content, responseSchema)
+      : { valid: false, errors: [repair.error || "Repair request failed"] };
+
+    if (reparsed.valid) {
+      this.logger.info("Structured output repaired", {
+        provider: config.provider,
+        model: config.model,
+        schema: responseSchema.name,
+      });
+      return { ...repair, ...usage, data: reparsed.data, repaired: true };
+    }
+
+    return {
+      ...result,
+      ...usage,
+      success: false,
+      content: "",
+      error: `Invalid structured output: ${reparsed.errors.join("; ")}`,
+      error_code: "INVALID_STRUCTURED_OUTPUT",
+    };
+  }
+
+  /**
+   * Gets the hedging threshold of a request's route, if hedging applies
+   */
+  private async getHedgeAfterMs(request: ModelRequest): Promise<number | undefined> {
+    if (!request.hedge || !request.task_type) {
+      return undefined;
+    }
+    const matrix = await getRoutingMatrix(this.plan, this.logger);
+    return matrix[request.task_type].hedge_after_ms;
+  }
+
+  /**
+   * Calls a model and, if it has not answered after hedgeAfterMs, races the backup model
+   *
+   * @returns The first successful answer (the primary's failure when both fail),
+   * and the other attempt if the backup was started
+   */
+  private async callHedged(
+    primary: ProviderRouteConfig,
+    backup: ProviderRouteConfig,
+    request: ModelRequest,
+    systemPrompt: RenderedSystemPrompt,
+    hedgeAfterMs: number,
+    inputTokens: number
+  ): Promise<HedgedCall> {
+    const start = (config: ProviderRouteConfig) => {
+      const controller = new AbortController();
+      const done = this.callModel(
+        config,
+        { ...request, signal: combineSignals(request.signal, controller.signal) },
+        systemPrompt
+      ).then(async (result): Promise<HedgeOutcome> => {
+        const cancelled = !result.success && controller.signal.aborted;
+        // A call cancelled by the race says nothing about the model's health
+        if (!cancelled) {
+          await this.recordCircuitResult(getCircuitKey(config.provider, config.model), result);
+        }
+        return { config, result, cancelled };
+      });
+      return { done, cancel: () => controller.abort() };
     };
+
+    const first = start(primary);
+    let timer: NodeJS.Timeout | undefined;
+    const early = await Promise.race([
+      first.done,
+      new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => resolve(undefined), hedgeAfterMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (early) {
+      return { config: early.config, result: early.result };
+    }
+
+    if (!hasTimeFor(request.deadline) || !(await this.isCircuitAllowed(getCircuitKey(backup.provider, backup.model)))) {
+      const { config, result } = await first.done;
+      return { config, result };
+    }
+
+    this.logger.info("Model slow, hedging with the next one", {
+      provider: primary.provider,
+      model: primary.model,
+      hedge_provider: backup.provider,
+      hedge_model: backup.model,
+      hedge_after_ms: hedgeAfterMs,
+    });
+
+    const second = start(backup);
+    const settled = await Promise.race([first.done, second.done]);
+    const other = settled.config === primary ? second : first;
+
+    // The first success wins and cancels the other call; a failure waits for it
+    if (settled.result.success) {
+      other.cancel();
+      const loser = await other.done;
+      return { config: settled.config, result: settled.result, loser: this.toHedgeAttempt(loser, inputTokens) };
+    }
+
+    const answered = await other.done;
+    const [winner, loser] = answered.result.success || answered.config === primary
+      ? [answered, settled]
+      : [settled, answered];
+    return { config: winner.config, result: winner.result, loser: this.toHedgeAttempt(loser, inputTokens) };
   }
 
   /**
-   * Call a specific model
+   * Describes the losing call of a hedged race, with the cost it may have billed
+   *
+   * @description
+   * A cancelled call has no usage; providers may still bill its input, so
+   * the request's counted input tokens are charged at the model's price.
+   */
+  private toHedgeAttempt(outcome: HedgeOutcome, inputTokens: number): HedgeAttempt {
+    const { config, result, cancelled } = outcome;
+
+    return {
+      model: config.provider,
+      model_id: config.model,
+      tokens_input: cancelled ? inputTokens : result.tokens_input,
+      tokens_output: cancelled ? 0 : result.tokens_output,
+      cost_usd: cancelled
+        ? (this.mockMode ? 0 : calculateCost(config.provider, config.model, inputTokens, 0))
+        : result.cost_usd,
+      latency_ms: result.latency_ms,
+      cancelled,
+      ...(!cancelled && !result.success && { error: result.error }),
+    };
+  }
+
+  /**
+   * Estimates the usage of a stream that failed after its first chunk
+   *
+   * @description
+   * The provider billed the input and the output it streamed; neither was
+   * reported, so the request's counted input tokens and the streamed
+   * text's estimated tokens are charged at the model's price.
+   */
+  private estimateStreamUsage(
+    config: ProviderRouteConfig,
+    inputTokens: number,
+    streamedText: string
+  ): CallUsage {
+    const tokensOutput = estimateTextTokens(streamedText);
+
+    return {
+      tokens_input: inputTokens,
+      tokens_output: tokensOutput,
+      total_tokens: inputTokens + tokensOutput,
+      cost_usd: this.mockMode ? 0 : calculateCost(config.provider, config.model, inputTokens, tokensOutput),
+    };
+  }
+
+  /**
+   * Checks the circuit breaker, allowing every request when none is configured
+   */
+  private async isCircuitAllowed(circuit: string): Promise<boolean> {
+    if (!this.circuitBreaker) {
+      return true;
+    }
+    return this.circuitBreaker.allowRequest(circuit);
+  }
+
+  /**
+   * Records a model call outcome on the circuit breaker, if configured
+   */
+  private async recordCircuitResult(circuit: string, result: ModelResponse): Promise<void> {
+    if (!this.circuitBreaker) {
+      return;
+    }
+    await this.circuitBreaker.recordResult(circuit, result.success, result.error_code);
+  }
+
+  /**
+   * Gets or creates the provider client for a chain entry
+   */
+  private getProvider(config: ProviderRouteConfig): IAIProvider {
+    const cacheKey = getCircuitKey(config.provider, config.model);
+    let provider = this.providers.get(cacheKey);
+
+    if (!provider && this.mockMode) {
+      provider = new MockProvider(loadMockFixtures(), config.model);
+      this.providers.set(cacheKey, provider);
+    }
+
+    if (!provider) {
+      switch (config.provider) {
+        case "openai":
+          provider = new OpenAIProvider(
+            this.keys.openai ?? "",
+            config.model,
+            DEFAULT_RETRY_CONFIG,
+            getOpenAICompatibleConfig().base_url
+          );
+          break;
+        case "gemini":
+          provider = new GeminiProvider(this.keys.gemini, config.model);
+          break;
+        case "claude":
+          provider = new ClaudeProvider(this.keys.claude, config.model);
+          break;
+        default:
+          throw new Error(`Unknown provider: ${config.provider}`);
+      }
+      this.providers.set(cacheKey, provider);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Builds the options every model in the chain is called with
+   */
+  private buildGenerateOptions(
+    request: ModelRequest,
+    systemPrompt: RenderedSystemPrompt,
+    onChunk?: StreamChunkHandler
+  ): GenerateOptions {
+    return {
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.max_tokens ?? 8000,
+      system_prompt: systemPrompt.text || undefined,
+      files: request.files,
+      messages: request.messages,
+      // Native structured output modes cannot be repaired mid-stream
+      response_schema: onChunk ? undefined : request.response_schema,
+      ...(request.prompt_cache && { prompt_cache: true, system_blocks: systemPrompt.blocks }),
+      reasoning: request.reasoning,
+      // Tool calls are only returned by non-streaming generation
+      tools: onChunk ? undefined : request.tools,
+      tool_results: request.tool_results,
+      deadline: request.deadline,
+      signal: request.signal,
+    };
+  }
+
+  /**
+   * Call a specific model, streaming when onChunk is provided
    */
   private async callModel(
-    model: AIModel,
-    request: ModelRequest
+    config: ProviderRouteConfig,
+    request: ModelRequest,
+    systemPrompt: RenderedSystemPrompt,
+    onChunk?: StreamChunkHandler
   ): Promise<ModelResponse> {
     const startTime = Date.now();
-    const modelId = MODEL_IDS[model];
-
-    // Use default system prompt if none provided
-    const systemPrompt = request.system_prompt || DEFAULT_SYSTEM_PROMPT;
+    const { provider: providerName, model: modelId } = config;
 
     try {
-      let response;
-
-      if (model === "gemini") {
-        const provider = new GeminiProvider(this.keys.gemini, modelId);
-        response = await provider.generate(request.prompt, {
-          temperature: request.temperature ?? 0.7,
-          max_tokens: request.max_tokens ?? 8000,
-          system_prompt: systemPrompt,
-          files: request.files,
-        });
-      } else {
-        const provider = new ClaudeProvider(this.keys.claude, modelId);
-        response = await provider.generate(request.prompt, {
-          temperature: request.temperature ?? 0.7,
-          max_tokens: request.max_tokens ?? 8000,
-          system_prompt: systemPrompt,
-          files: request.files,
-        });
-      }
+      const provider = this.getProvider(config);
+      const options = this.buildGenerateOptions(request, systemPrompt, onChunk);
+
+      const response = onChunk
+        ? await provider.generateStream(request.prompt, options, onChunk)
+        : await provider.generate(request.prompt, options);
 
       if (response.success) {
         return {
           success: true,
           content: response.content,
-          model,
+          model: providerName,
           model_id: modelId,
           used_fallback: false,
           tokens_input: response.tokens_input,
@@ -255,13 +999,18 @@ export class ModelService {
           total_tokens: response.total_tokens,
           cost_usd: response.cost_usd,
           latency_ms: Date.now() - startTime,
+          ...(response.prompt_cache && { prompt_cache: response.prompt_cache }),
+          ...(response.tokens_reasoning !== undefined && { tokens_reasoning: response.tokens_reasoning }),
+          ...(response.reasoning && { reasoning: response.reasoning }),
+          ...(response.tool_calls && { tool_calls: response.tool_calls }),
+          ...(response.skipped_files && { skipped_files: response.skipped_files }),
         };
       }
 
       return {
         success: false,
         content: "",
-        model,
+        model: providerName,
         model_id: modelId,
         used_fallback: false,
         tokens_input: 0,
@@ -274,14 +1023,15 @@ export class ModelService {
       };
     } catch (error) {
       this.logger.error("Model call failed", {
-        model,
+        provider: providerName,
+        model: modelId,
         error: error instanceof Error ? error.message : "Unknown error",
       });
 
       return {
         success: false,
         content: "",
-        model,
+        model: providerName,
         model_id: modelId,
         used_fallback: false,
         tokens_input: 0,
@@ -8,6 +8,7 @@
  */
 
 import { ModelService, ModelServiceKeys } from "./modelService";
+import { createCircuitBreaker } from "./circuitBreaker";
 import { Logger } from "../lib/logger";
 import { savePluginDocs, getPluginDocs } from "../lib/firestore";
 import {
@@ -60,7 +61,7 @@ export class PluginDocsResearchService {
   private logger: Logger;
 
   constructor(keys: ModelServiceKeys, logger: Logger) {
-    this.modelService = new ModelService(keys, logger);
+    this.modelService = new ModelService(keys, logger, createCircuitBreaker(logger));
     this.logger = logger.child({ service: "pluginDocsResearch" });
   }
 
@@ -107,6 +108,7 @@ export class PluginDocsResearchService {
     try {
       // Call AI to research
       const response = await this.modelService.generate({
+        task_type: "TEXT_GEN",
         model: "gemini", // Use Gemini for research (faster/cheaper)
         prompt,
         system_prompt: RESEARCH_SYSTEM_PROMPT,
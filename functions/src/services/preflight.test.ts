@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Unit tests for the pre-flight token check
+ * @module services/preflight.test
+ */
+
+import { runPreflight } from "./preflight";
+import { estimateInputTokens } from "../lib/tokens";
+import { IAIProvider } from "../types/AIProvider";
+import { ProviderRouteConfig } from "../types/Route";
+
+const chain: ProviderRouteConfig[] = [
+  { provider: "openai", model: "gpt-4o" },
+  { provider: "claude", model: "claude-opus-4-5-20251101" },
+  { provider: "gemini", model: "gemini-2.5-pro" },
+];
+
+/**
+ * Returns a provider whose countInputTokens answers the given count
+ */
+function countingProvider(count: (prompt: string) => number): IAIProvider {
+  return {
+    countInputTokens: jest.fn(async (prompt: string) => count(prompt)),
+  } as unknown as IAIProvider;
+}
+
+describe("runPreflight", () => {
+  it("should use the estimate without calling providers for small requests", async () => {
+    // Arrange
+    const getProvider = jest.fn();
+
+    // Act
+    const result = await runPreflight(chain, getProvider, "Write a tagline", { max_tokens: 8000 }, 100000);
+
+    // Assert
+    expect(result).toEqual({
+      chain,
+      input_tokens: estimateInputTokens("Write a tagline", { max_tokens: 8000 }),
+      skipped: [],
+    });
+    expect(getProvider).not.toHaveBeenCalled();
+  });
+
+  it("should skip models whose window cannot hold the input and the output reservation", async () => {
+    // Arrange: ~150k tokens, beyond gpt-4o (128k) and Claude (200k with 60k output)
+    const prompt = "x".repeat(600000);
+    const provider = countingProvider((text) => Math.ceil(text.length / 4));
+
+    // Act
+    const result = await runPreflight(chain, () => provider, prompt, { max_tokens: 50000, reasoning: { budget_tokens: 10000 } });
+
+    // Assert
+    expect(result.chain).toEqual([chain[2]]);
+    expect(result.skipped).toEqual(["openai:gpt-4o", "claude:claude-opus-4-5-20251101"]);
+    expect(result.input_tokens).toBe(150000);
+    expect(result.error).toBeUndefined();
+    // Gemini's window is far from full, so the estimate is not confirmed
+    const countedModels = (provider.countInputTokens as jest.Mock).mock.calls.map(([, options]) => options.model);
+    expect(countedModels).toEqual(["gpt-4o", "claude-opus-4-5-20251101"]);
+  });
+
+  it("should reject requests no model in the chain can hold", async () => {
+    // Arrange
+    const provider = countingProvider(() => 3000000);
+
+    // Act
+    const result = await runPreflight(chain, () => provider, "x".repeat(4000000), { max_tokens: 8000 });
+
+    // Assert
+    expect(result.chain).toEqual([]);
+    expect(result.error?.code).toBe("CONTEXT_WINDOW_EXCEEDED");
+    expect(result.error?.message).toContain("1048576");
+  });
+
+  it("should reject requests whose input exceeds the token budget", async () => {
+    // Arrange
+    const provider = countingProvider(() => 12000);
+
+    // Act
+    const result = await runPreflight(chain, () => provider, "x".repeat(40000), { max_tokens: 8000 }, 5000);
+
+    // Assert
+    expect(result.error).toEqual({
+      code: "INSUFFICIENT_QUOTA",
+      message: "Request needs 12000 input tokens, but only 5000 remain on the license",
+    });
+  });
+
+  it("should fall back to the estimate when native counting fails", async () => {
+    // Arrange
+    const provider = {
+      countInputTokens: jest.fn().mockRejectedValue(new Error("API unavailable")),
+    } as unknown as IAIProvider;
+    const prompt = "x".repeat(400000);
+
+    // Act
+    const result = await runPreflight(chain.slice(1), () => provider, prompt, { max_tokens: 8000 });
+
+    // Assert
+    expect(provider.countInputTokens).toHaveBeenCalledTimes(1);
+    expect(result.input_tokens).toBe(100000);
+    expect(result.chain).toEqual(chain.slice(1));
+  });
+});
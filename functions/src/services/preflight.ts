@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Pre-flight token check
+ * @module services/preflight
+ *
+ * @description
+ * Counts a request's input tokens before any model is called and drops the
+ * chain entries whose context window cannot hold the input plus the output
+ * reservation, so a model with a larger window is picked instead. Requests
+ * no model can hold, or whose input alone exceeds the license's remaining
+ * tokens, are rejected before anything is billed.
+ *
+ * The local estimate (lib/tokens) is used while the request is well within
+ * limits; near a limit the provider's own counting decides.
+ */
+
+import { GenerateOptions, IAIProvider } from "../types/AIProvider";
+import { ProviderRouteConfig } from "../types/Route";
+import { getContextWindow } from "../config/models";
+import { estimateInputTokens } from "../lib/tokens";
+import { Logger } from "../lib/logger";
+
+/**
+ * Share of a limit above which the estimate is confirmed by the provider
+ */
+const NATIVE_COUNT_THRESHOLD = 0.5;
+
+/**
+ * Error codes of a rejected request
+ *
+ * - CONTEXT_WINDOW_EXCEEDED: no model in the chain can hold the request
+ * - INSUFFICIENT_QUOTA: the input alone exceeds the remaining license tokens
+ */
+export type PreflightErrorCode = "CONTEXT_WINDOW_EXCEEDED" | "INSUFFICIENT_QUOTA";
+
+/**
+ * Outcome of the pre-flight check
+ */
+export interface PreflightResult {
+  /** Chain entries that can hold the request, in order */
+  chain: ProviderRouteConfig[];
+
+  /** Input tokens of the request, as counted for the first fitting entry */
+  input_tokens: number;
+
+  /** Entries dropped because their context window is too small ("provider:model") */
+  skipped: string[];
+
+  /** Set when the request must be rejected */
+  error?: {
+    code: PreflightErrorCode;
+    message: string;
+  };
+}
+
+/**
+ * Checks a request against the context windows of its chain and the token budget
+ *
+ * @param {ProviderRouteConfig[]} chain - Chain entries, in order
+ * @param {Function} getProvider - Returns the provider client of an entry
+ * @param {string} prompt - User prompt
+ * @param {GenerateOptions} options - Options the models will be called with
+ * @param {number} tokenBudget - Remaining license tokens (unchecked when omitted)
+ * @param {Logger} logger - Optional logger
+ * @returns {Promise<PreflightResult>} Fitting entries, or the rejection
+ *
+ * @description
+ * The output reservation is `max_tokens` plus the reasoning budget. An
+ * entry fits when input and reservation are within its context window.
+ * Native counting is only used when the estimate is above half of a
+ * limit; if it fails, the provider falls back to the estimate.
+ *
+ * @example
+ * ```typescript
+ * const preflight = await runPreflight(chain, (config) => this.getProvider(config), prompt, options, 50000);
+ * if (preflight.error) {
+ *   return reject(preflight.error.code);
+ * }
+ * ```
+ */
+export async function runPreflight(
+  chain: ProviderRouteConfig[],
+  getProvider: (config: ProviderRouteConfig) => IAIProvider,
+  prompt: string,
+  options: GenerateOptions,
+  tokenBudget?: number,
+  logger?: Logger
+): Promise<PreflightResult> {
+  const estimate = estimateInputTokens(prompt, options);
+  const reservedOutput = (options.max_tokens ?? 0) + (options.reasoning?.budget_tokens ?? 0);
+  const nearBudget = tokenBudget !== undefined && estimate > tokenBudget * NATIVE_COUNT_THRESHOLD;
+
+  const fitting: ProviderRouteConfig[] = [];
+  const skipped: string[] = [];
+  let inputTokens: number | undefined;
+  let largest = { window: 0, input_tokens: estimate };
+
+  for (const config of chain) {
+    const window = getContextWindow(config.model);
+    const nearWindow = estimate + reservedOutput > window * NATIVE_COUNT_THRESHOLD;
+    const tokens = nearWindow || nearBudget
+      ? await countWithProvider(config, getProvider, prompt, options, estimate, logger)
+      : estimate;
+
+    if (window > largest.window) {
+      largest = { window, input_tokens: tokens };
+    }
+
+    if (tokens + reservedOutput > window) {
+      skipped.push(`${config.provider}:${config.model}`);
+      continue;
+    }
+
+    fitting.push(config);
+    inputTokens = inputTokens ?? tokens;
+  }
+
+  if (skipped.length > 0) {
+    logger?.warn("Models skipped, request exceeds their context window", {
+      input_tokens: estimate,
+      reserved_output_tokens: reservedOutput,
+      skipped,
+    });
+  }
+
+  if (inputTokens === undefined) {
+    return {
+      chain: [],
+      input_tokens: largest.input_tokens,
+      skipped,
+      error: {
+        code: "CONTEXT_WINDOW_EXCEEDED",
+        message: `Request needs ${largest.input_tokens} input tokens plus ${reservedOutput} output tokens, ` +
+          `more than the largest available context window (${largest.window} tokens)`,
+      },
+    };
+  }
+
+  if (tokenBudget !== undefined && inputTokens > tokenBudget) {
+    return {
+      chain: [],
+      input_tokens: inputTokens,
+      skipped,
+      error: {
+        code: "INSUFFICIENT_QUOTA",
+        message: `Request needs ${inputTokens} input tokens, but only ${Math.max(tokenBudget, 0)} remain on the license`,
+      },
+    };
+  }
+
+  return { chain: fitting, input_tokens: inputTokens, skipped };
+}
+
+/**
+ * Counts the input tokens with the entry's provider, falling back to the estimate
+ */
+async function countWithProvider(
+  config: ProviderRouteConfig,
+  getProvider: (config: ProviderRouteConfig) => IAIProvider,
+  prompt: string,
+  options: GenerateOptions,
+  estimate: number,
+  logger?: Logger
+): Promise<number> {
+  try {
+    return await getProvider(config).countInputTokens(prompt, { ...options, model: config.model });
+  } catch (error) {
+    logger?.warn("Token counting failed, using estimation", {
+      provider: config.provider,
+      model: config.model,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return estimate;
+  }
+}
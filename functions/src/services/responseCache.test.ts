@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Unit tests for Response Cache service
+ * @module services/responseCache.test
+ */
+
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  ResponseCache,
+  InMemoryResponseCacheStore,
+  buildResponseCacheKey,
+  isCacheableRequest,
+} from "./responseCache";
+import { Logger } from "../lib/logger";
+import { ModelRequest, ModelResponse } from "../types/ModelConfig";
+
+jest.mock("../lib/firestore", () => ({
+  getCachedResponse: jest.fn(),
+  saveCachedResponse: jest.fn(),
+}));
+
+const LICENSE_A = "CREATOR-2025-AAAAA-AAAAA";
+const LICENSE_B = "CREATOR-2025-BBBBB-BBBBB";
+
+const baseRequest: ModelRequest = {
+  task_type: "TEXT_GEN",
+  prompt: "Write a product description for a blue mug",
+  temperature: 0,
+  cache: { scope: "license" },
+};
+
+const response: ModelResponse = {
+  success: true,
+  content: "A sturdy blue mug...",
+  model: "claude",
+  model_id: "claude-opus-4-5-20251101",
+  used_fallback: false,
+  tokens_input: 120,
+  tokens_output: 300,
+  total_tokens: 420,
+  cost_usd: 0.0243,
+  latency_ms: 2100,
+};
+
+describe("isCacheableRequest", () => {
+  it("should require the cache option", () => {
+    expect(isCacheableRequest({ ...baseRequest, cache: undefined })).toBe(false);
+  });
+
+  it("should bypass sampling with temperature > 0 unless forced", () => {
+    expect(isCacheableRequest(baseRequest)).toBe(true);
+    expect(isCacheableRequest({ ...baseRequest, temperature: 0.7 })).toBe(false);
+    expect(isCacheableRequest({ ...baseRequest, temperature: undefined })).toBe(false);
+    expect(isCacheableRequest({ ...baseRequest, temperature: 0.7, cache: { force: true } })).toBe(true);
+  });
+});
+
+describe("buildResponseCacheKey", () => {
+  it("should be stable for identical requests", () => {
+    expect(buildResponseCacheKey({ ...baseRequest }, LICENSE_A)).toBe(
+      buildResponseCacheKey({ ...baseRequest }, LICENSE_A)
+    );
+    expect(buildResponseCacheKey(baseRequest, LICENSE_A)).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it("should change with any input that shapes the answer", () => {
+    const key = buildResponseCacheKey(baseRequest, LICENSE_A);
+    const variants: ModelRequest[] = [
+      { ...baseRequest, model: "gemini" },
+      { ...baseRequest, system_prompt: "Be brief" },
+      { ...baseRequest, prompt: "Write a product description for a red mug" },
+      { ...baseRequest, max_tokens: 500 },
+      { ...baseRequest, cache: { scope: "license", force: true }, temperature: 0.2 },
+      { ...baseRequest, files: [{ name: "mug.png", type: "image/png", size: 3, base64: "AAA" }] },
+    ];
+
+    for (const variant of variants) {
+      expect(buildResponseCacheKey(variant, LICENSE_A)).not.toBe(key);
+    }
+  });
+
+  it("should scope license entries per license and share global ones", () => {
+    const global: ModelRequest = { ...baseRequest, cache: { scope: "global" } };
+
+    expect(buildResponseCacheKey(baseRequest, LICENSE_A)).not.toBe(buildResponseCacheKey(baseRequest, LICENSE_B));
+    expect(buildResponseCacheKey(global, LICENSE_A)).toBe(buildResponseCacheKey(global, LICENSE_B));
+  });
+
+  it("should not share entries between plans", () => {
+    const global: ModelRequest = { ...baseRequest, cache: { scope: "global" } };
+
+    expect(buildResponseCacheKey(baseRequest, LICENSE_A, "starter")).not.toBe(
+      buildResponseCacheKey(baseRequest, LICENSE_A, "pro")
+    );
+    expect(buildResponseCacheKey(global, LICENSE_A, "starter")).not.toBe(
+      buildResponseCacheKey(global, LICENSE_B, "enterprise")
+    );
+    expect(buildResponseCacheKey(global, LICENSE_A, "pro")).toBe(buildResponseCacheKey(global, LICENSE_B, "pro"));
+  });
+});
+
+describe("ResponseCache", () => {
+  let store: InMemoryResponseCacheStore;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    store = new InMemoryResponseCacheStore();
+    cache = new ResponseCache(store, new Logger(), LICENSE_A);
+  });
+
+  it("should miss, then hit with zero tokens and cost", async () => {
+    expect(await cache.lookup(baseRequest)).toBeNull();
+
+    await cache.save(baseRequest, response);
+    const hit = await cache.lookup(baseRequest);
+
+    expect(hit).toMatchObject({
+      success: true,
+      content: "A sturdy blue mug...",
+      model: "claude",
+      model_id: "claude-opus-4-5-20251101",
+      tokens_input: 0,
+      tokens_output: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      cache_hit: true,
+    });
+  });
+
+  it("should store the original cost and the TTL expiry", async () => {
+    const set = jest.spyOn(store, "set");
+
+    await cache.save({ ...baseRequest, cache: { ttl_seconds: 60 } }, response);
+
+    const entry = set.mock.calls[0][0];
+    expect(entry.cost_usd).toBe(0.0243);
+    expect(entry.license_id).toBe(LICENSE_A);
+    expect(entry.expires_at.toMillis() - entry.created_at.toMillis()).toBe(60000);
+  });
+
+  it("should ignore expired entries", async () => {
+    await store.set({
+      key: buildResponseCacheKey(baseRequest, LICENSE_A),
+      scope: "license",
+      license_id: LICENSE_A,
+      content: "old",
+      model: "gemini",
+      model_id: "gemini-2.5-pro",
+      tokens_input: 1,
+      tokens_output: 1,
+      cost_usd: 0.001,
+      created_at: Timestamp.fromMillis(Date.now() - 120000),
+      expires_at: Timestamp.fromMillis(Date.now() - 60000),
+    });
+
+    expect(await cache.lookup(baseRequest)).toBeNull();
+  });
+
+  it("should treat store errors as a miss", async () => {
+    jest.spyOn(store, "get").mockRejectedValue(new Error("unavailable"));
+
+    expect(await cache.lookup(baseRequest)).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Response cache for identical AI requests
+ * @module services/responseCache
+ *
+ * @description
+ * Opt-in cache in front of ModelService. A request is keyed by a SHA-256
+ * hash of everything that shapes the answer (model preference, task type,
+ * system prompt, site context, history, prompt, files, temperature,
+ * max_tokens, response schema, reasoning, tools and tool results), the
+ * license plan (it decides the routed model chain) plus the license for
+ * license-scoped entries.
+ *
+ * Sampling with temperature > 0 is not deterministic, so those requests
+ * bypass the cache unless `force` is set.
+ *
+ * Entries live in a ResponseCacheStore: Firestore (shared, with a TTL on
+ * `expires_at`) or in-memory for tests.
+ */
+
+import { createHash } from "crypto";
+import { Timestamp } from "firebase-admin/firestore";
+import { getCachedResponse, saveCachedResponse } from "../lib/firestore";
+import {
+  CachedResponse,
+  ResponseCacheOptions,
+  DEFAULT_RESPONSE_CACHE_TTL_SECONDS,
+} from "../types/ResponseCache";
+import { ModelRequest, ModelResponse } from "../types/ModelConfig";
+import { LicensePlan } from "../types/License";
+import { Logger } from "../lib/logger";
+
+/**
+ * Temperature ModelService uses when the request has none
+ */
+const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Max tokens ModelService uses when the request has none
+ */
+const DEFAULT_MAX_TOKENS = 8000;
+
+/**
+ * Persistence for cached responses
+ */
+export interface ResponseCacheStore {
+  /** Gets a live entry, or null if missing or expired */
+  get(key: string): Promise<CachedResponse | null>;
+
+  /** Stores the entry under entry.key */
+  set(entry: CachedResponse): Promise<void>;
+}
+
+/**
+ * In-memory store, local to the current instance
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private entries: Map<string, CachedResponse> = new Map();
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = this.entries.get(key);
+    return entry && entry.expires_at.toMillis() > Date.now() ? { ...entry } : null;
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    this.entries.set(entry.key, { ...entry });
+  }
+}
+
+/**
+ * Firestore store, shared by all instances via the response_cache collection
+ */
+export class FirestoreResponseCacheStore implements ResponseCacheStore {
+  async get(key: string): Promise<CachedResponse | null> {
+    return getCachedResponse(key);
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    await saveCachedResponse(entry);
+  }
+}
+
+/**
+ * Checks whether a request may use the cache
+ *
+ * @param {ModelRequest} request - The request
+ * @returns {boolean} True when caching was requested and sampling is deterministic (or forced)
+ */
+export function isCacheableRequest(request: ModelRequest): boolean {
+  if (!request.cache) {
+    return false;
+  }
+  return (request.temperature ?? DEFAULT_TEMPERATURE) === 0 || request.cache.force === true;
+}
+
+/**
+ * Builds the cache key for a request
+ *
+ * @param {ModelRequest} request - The request
+ * @param {string} licenseId - License making the request (ignored for global entries)
+ * @param {LicensePlan} plan - Plan of the license, even for global entries
+ * @returns {string} SHA-256 hex digest
+ *
+ * @description
+ * Files are hashed by content so large attachments do not bloat the key input.
+ * Plans route the same request to different models, so a global entry is
+ * only shared between licenses on the same plan.
+ */
+export function buildResponseCacheKey(
+  request: ModelRequest,
+  licenseId: string,
+  plan?: LicensePlan
+): string {
+  const scope = request.cache?.scope ?? "license";
+
+  const material = {
+    scope: scope === "global" ? "global" : `license:${licenseId}`,
+    plan: plan ?? null,
+    model: request.model ?? null,
+    task_type: request.task_type ?? null,
+    system_prompt: request.system_prompt ?? null,
+    context: request.context ?? null,
+    messages: request.messages ?? [],
+    prompt: request.prompt,
+    files: (request.files ?? []).map((file) => ({
+      name: file.name,
+      type: file.type,
+      sha256: createHash("sha256").update(file.base64).digest("hex"),
+    })),
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+    response_schema: request.response_schema ?? null,
+    reasoning: request.reasoning ?? null,
+    tools: request.tools ?? null,
+    tool_results: request.tool_results ?? null,
+  };
+
+  return createHash("sha256").update(JSON.stringify(material)).digest("hex");
+}
+
+/**
+ * Response cache class
+ *
+ * @class ResponseCache
+ *
+ * @example
+ * ```typescript
+ * const cache = createResponseCache(logger, licenseId, plan);
+ * const service = new ModelService(keys, logger, breaker, plan, cache);
+ *
+ * const result = await service.generate({ prompt, temperature: 0, cache: { scope: "license" } });
+ * // result.cache_hit === true on the second identical request
+ * ```
+ */
+export class ResponseCache {
+  private store: ResponseCacheStore;
+  private logger: Logger;
+  private licenseId: string;
+  private plan?: LicensePlan;
+
+  /**
+   * Creates a response cache
+   *
+   * @param {ResponseCacheStore} store - Entry persistence
+   * @param {Logger} logger - Logger instance
+   * @param {string} licenseId - License making the requests
+   * @param {LicensePlan} plan - Plan of the license
+   */
+  constructor(store: ResponseCacheStore, logger: Logger, licenseId: string, plan?: LicensePlan) {
+    this.store = store;
+    this.logger = logger.child({ service: "responseCache" });
+    this.licenseId = licenseId;
+    this.plan = plan;
+  }
+
+  /**
+   * Looks up a cached response for a request
+   *
+   * @param {ModelRequest} request - The request
+   * @returns {Promise<ModelResponse | null>} Hit with zero tokens and cost, or null on a miss
+   *
+   * @description
+   * Store errors count as a miss so an unavailable cache never fails a request.
+   */
+  async lookup(request: ModelRequest): Promise<ModelResponse | null> {
+    const key = buildResponseCacheKey(request, this.licenseId, this.plan);
+
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      this.logger.info("Response cache hit", {
+        scope: entry.scope,
+        model: entry.model,
+        saved_cost_usd: entry.cost_usd,
+      });
+
+      return {
+        success: true,
+        content: entry.content,
+        ...(entry.data && { data: entry.data }),
+        ...(entry.tool_calls && { tool_calls: entry.tool_calls }),
+        model: entry.model,
+        model_id: entry.model_id,
+        used_fallback: false,
+        tokens_input: 0,
+        tokens_output: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+        latency_ms: 0,
+        cache_hit: true,
+      };
+    } catch (error) {
+      this.logger.warn("Failed to read response cache", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Stores a successful response for a request
+   *
+   * @param {ModelRequest} request - The request
+   * @param {ModelResponse} response - Successful response to cache
+   * @returns {Promise<void>} Resolves once stored (errors are logged, not thrown)
+   */
+  async save(request: ModelRequest, response: ModelResponse): Promise<void> {
+    const options: ResponseCacheOptions = request.cache ?? {};
+    const ttlSeconds = options.ttl_seconds ?? DEFAULT_RESPONSE_CACHE_TTL_SECONDS;
+    const now = Date.now();
+
+    try {
+      await this.store.set({
+        key: buildResponseCacheKey(request, this.licenseId, this.plan),
+        scope: options.scope ?? "license",
+        license_id: this.licenseId,
+        content: response.content,
+        ...(response.data && { data: response.data }),
+        ...(response.tool_calls && { tool_calls: response.tool_calls }),
+        model: response.model,
+        model_id: response.model_id,
+        tokens_input: response.tokens_input,
+        tokens_output: response.tokens_output,
+        cost_usd: response.cost_usd,
+        created_at: Timestamp.fromMillis(now),
+        expires_at: Timestamp.fromMillis(now + ttlSeconds * 1000),
+      });
+    } catch (error) {
+      this.logger.warn("Failed to save response cache", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+}
+
+/**
+ * Creates a response cache shared across instances through Firestore
+ *
+ * @param {Logger} logger - Logger instance
+ * @param {string} licenseId - License making the requests
+ * @param {LicensePlan} plan - Plan of the license
+ * @returns {ResponseCache} Firestore-backed response cache
+ */
+export function createResponseCache(
+  logger: Logger,
+  licenseId: string,
+  plan?: LicensePlan
+): ResponseCache {
+  return new ResponseCache(new FirestoreResponseCacheStore(), logger, licenseId, plan);
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Unit tests for Routing Config service
+ * @module services/routingConfig.test
+ */
+
+import {
+  getRoutingMatrix,
+  resolveRoutingMatrix,
+  isValidTaskRouteConfig,
+  clearRoutingConfigCache,
+  ROUTING_CONFIG_CACHE_TTL_MS,
+} from "./routingConfig";
+import { getRoutingConfigDocs } from "../lib/firestore";
+import { DEFAULT_ROUTING_MATRIX, TaskRouteConfig } from "../types/Route";
+import { Logger } from "../lib/logger";
+
+// Mock Firestore
+jest.mock("../lib/firestore", () => ({
+  getRoutingConfigDocs: jest.fn(),
+}));
+
+const mockGetRoutingConfigDocs = getRoutingConfigDocs as jest.MockedFunction<
+  typeof getRoutingConfigDocs
+>;
+
+/**
+ * Creates a mock logger for testing
+ */
+function createMockLogger(): Logger {
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn(() => mockLogger),
+  } as unknown as Logger;
+  return mockLogger;
+}
+
+const cheapRoute: TaskRouteConfig = {
+  primary: { provider: "gemini", model: "gemini-2.5-flash-preview-05-20" },
+  fallback1: { provider: "claude", model: "claude-sonnet-4-20250514" },
+  fallback2: { provider: "openai", model: "gpt-4o-mini" },
+};
+
+const opusRoute: TaskRouteConfig = {
+  primary: { provider: "claude", model: "claude-opus-4-5-20251101" },
+  fallback1: { provider: "claude", model: "claude-sonnet-4-20250514" },
+  fallback2: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
+};
+
+describe("isValidTaskRouteConfig", () => {
+  it("should accept entries with known provider models", () => {
+    expect(isValidTaskRouteConfig(cheapRoute)).toBe(true);
+  });
+
+  it("should reject unknown models", () => {
+    expect(
+      isValidTaskRouteConfig({
+        ...cheapRoute,
+        primary: { provider: "gemini", model: "gemini-99-ultra" },
+      })
+    ).toBe(false);
+  });
+
+  it("should reject unknown providers and missing fallbacks", () => {
+    expect(
+      isValidTaskRouteConfig({
+        ...cheapRoute,
+        primary: { provider: "mistral", model: "mistral-large" },
+      })
+    ).toBe(false);
+    expect(isValidTaskRouteConfig({ primary: cheapRoute.primary })).toBe(false);
+    expect(isValidTaskRouteConfig(null)).toBe(false);
+  });
+
+  it("should accept a positive hedge_after_ms only", () => {
+    expect(isValidTaskRouteConfig({ ...cheapRoute, hedge_after_ms: 8000 })).toBe(true);
+    expect(isValidTaskRouteConfig({ ...cheapRoute, hedge_after_ms: 0 })).toBe(false);
+    expect(isValidTaskRouteConfig({ ...cheapRoute, hedge_after_ms: "8000" })).toBe(false);
+  });
+});
+
+describe("resolveRoutingMatrix", () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = createMockLogger();
+  });
+
+  it("should return the default matrix when there are no overrides", () => {
+    expect(resolveRoutingMatrix({}, "pro", logger)).toEqual(DEFAULT_ROUTING_MATRIX);
+  });
+
+  it("should apply plan overrides over global overrides", () => {
+    const matrix = resolveRoutingMatrix(
+      {
+        default: { matrix: { TEXT_GEN: opusRoute, CODE_GEN: opusRoute } },
+        starter: { matrix: { TEXT_GEN: cheapRoute } },
+      },
+      "starter",
+      logger
+    );
+
+    expect(matrix.TEXT_GEN).toEqual(cheapRoute);
+    expect(matrix.CODE_GEN).toEqual(opusRoute);
+    expect(matrix.DESIGN_GEN).toEqual(DEFAULT_ROUTING_MATRIX.DESIGN_GEN);
+  });
+
+  it("should not apply other plans' overrides", () => {
+    const matrix = resolveRoutingMatrix(
+      { starter: { matrix: { TEXT_GEN: cheapRoute } } },
+      "enterprise",
+      logger
+    );
+
+    expect(matrix.TEXT_GEN).toEqual(DEFAULT_ROUTING_MATRIX.TEXT_GEN);
+  });
+
+  it("should ignore invalid entries and log a warning", () => {
+    const matrix = resolveRoutingMatrix(
+      {
+        starter: {
+          matrix: {
+            TEXT_GEN: {
+              ...cheapRoute,
+              primary: { provider: "gemini", model: "not-a-model" },
+            },
+          },
+        },
+      },
+      "starter",
+      logger
+    );
+
+    expect(matrix.TEXT_GEN).toEqual(DEFAULT_ROUTING_MATRIX.TEXT_GEN);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Ignoring invalid routing config entry",
+      expect.objectContaining({ config_id: "starter", task_type: "TEXT_GEN" })
+    );
+  });
+});
+
+describe("getRoutingMatrix", () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    clearRoutingConfigCache();
+    logger = createMockLogger();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should cache routing documents until the TTL expires", async () => {
+    mockGetRoutingConfigDocs.mockResolvedValue({
+      starter: { matrix: { TEXT_GEN: cheapRoute } },
+    });
+
+    await getRoutingMatrix("starter", logger);
+    await getRoutingMatrix("pro", logger);
+    expect(mockGetRoutingConfigDocs).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(ROUTING_CONFIG_CACHE_TTL_MS + 1);
+
+    const matrix = await getRoutingMatrix("starter", logger);
+    expect(mockGetRoutingConfigDocs).toHaveBeenCalledTimes(2);
+    expect(matrix.TEXT_GEN).toEqual(cheapRoute);
+  });
+
+  it("should fall back to the default matrix when Firestore fails", async () => {
+    mockGetRoutingConfigDocs.mockRejectedValue(new Error("unavailable"));
+
+    const matrix = await getRoutingMatrix("starter", logger);
+
+    expect(matrix).toEqual(DEFAULT_ROUTING_MATRIX);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+
+  it("should keep the last loaded documents when a refresh fails", async () => {
+    mockGetRoutingConfigDocs.mockResolvedValueOnce({
+      starter: { matrix: { TEXT_GEN: cheapRoute } },
+    });
+    await getRoutingMatrix("starter", logger);
+
+    jest.advanceTimersByTime(ROUTING_CONFIG_CACHE_TTL_MS + 1);
+    mockGetRoutingConfigDocs.mockRejectedValueOnce(new Error("unavailable"));
+
+    const matrix = await getRoutingMatrix("starter", logger);
+    expect(matrix.TEXT_GEN).toEqual(cheapRoute);
+  });
+});
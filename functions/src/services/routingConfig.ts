@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Routing configuration service for per-plan provider chains
+ * @module services/routingConfig
+ *
+ * @description
+ * Resolves the routing matrix used by ModelService for a given license plan.
+ * Overrides are stored in the Firestore routing_config collection and are
+ * layered over the compile-time DEFAULT_ROUTING_MATRIX:
+ *
+ *   DEFAULT_ROUTING_MATRIX ← routing_config/default ← routing_config/{plan}
+ *
+ * Every override is validated against the known provider models; invalid
+ * entries are ignored and logged. Documents are cached in memory for
+ * ROUTING_CONFIG_CACHE_TTL_MS so changes apply without a redeploy.
+ */
+
+import { getRoutingConfigDocs } from "../lib/firestore";
+import { isValidModel } from "../providers";
+import { ProviderName } from "../types/AIProvider";
+import { LicensePlan } from "../types/License";
+import {
+  TaskRouteConfig,
+  RoutingMatrix,
+  RoutingConfigDocument,
+  DEFAULT_ROUTING_MATRIX,
+  VALID_TASK_TYPES,
+} from "../types/Route";
+import { Logger } from "../lib/logger";
+
+/**
+ * How long loaded routing documents are reused before re-reading Firestore
+ */
+export const ROUTING_CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Document ID holding overrides that apply to every plan
+ */
+export const DEFAULT_ROUTING_CONFIG_ID = "default";
+
+/**
+ * Providers a routing entry may reference
+ */
+const ROUTABLE_PROVIDERS: ProviderName[] = ["openai", "gemini", "claude"];
+
+/**
+ * In-memory cache of routing documents
+ */
+let cachedDocs: Record<string, RoutingConfigDocument> | null = null;
+let cacheExpiresAt = 0;
+
+/**
+ * Checks that a single provider entry references a known model
+ *
+ * @param {unknown} value - Candidate provider entry
+ * @returns {boolean} True if provider and model are known
+ */
+function isValidProviderEntry(value: unknown): boolean {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const { provider, model } = value as { provider?: unknown; model?: unknown };
+
+  return (
+    typeof provider === "string" &&
+    typeof model === "string" &&
+    ROUTABLE_PROVIDERS.includes(provider as ProviderName) &&
+    isValidModel(provider as ProviderName, model)
+  );
+}
+
+/**
+ * Validates a task routing entry against the known provider models
+ *
+ * @param {unknown} value - Candidate routing entry from Firestore
+ * @returns {boolean} True if primary, fallback1 and fallback2 are all valid,
+ * and hedge_after_ms (if set) is a positive number of ms
+ *
+ * @example
+ * ```typescript
+ * isValidTaskRouteConfig({
+ *   primary: { provider: "claude", model: "claude-opus-4-5-20251101" },
+ *   fallback1: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
+ *   fallback2: { provider: "openai", model: "gpt-4o" },
+ * }); // true
+ * ```
+ */
+export function isValidTaskRouteConfig(value: unknown): value is TaskRouteConfig {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const config = value as Record<string, unknown>;
+
+  return (
+    isValidProviderEntry(config.primary) &&
+    isValidProviderEntry(config.fallback1) &&
+    isValidProviderEntry(config.fallback2) &&
+    (config.hedge_after_ms === undefined ||
+      (typeof config.hedge_after_ms === "number" && config.hedge_after_ms > 0))
+  );
+}
+
+/**
+ * Builds the routing matrix for a plan from loaded override documents
+ *
+ * @param {Record<string, RoutingConfigDocument>} docs - Override documents by ID
+ * @param {LicensePlan | undefined} plan - License plan, if known
+ * @param {Logger} logger - Logger for invalid entries
+ * @returns {RoutingMatrix} Matrix with defaults, global and plan overrides applied
+ */
+export function resolveRoutingMatrix(
+  docs: Record<string, RoutingConfigDocument>,
+  plan: LicensePlan | undefined,
+  logger: Logger
+): RoutingMatrix {
+  const matrix: RoutingMatrix = { ...DEFAULT_ROUTING_MATRIX };
+  const layers = plan ? [DEFAULT_ROUTING_CONFIG_ID, plan] : [DEFAULT_ROUTING_CONFIG_ID];
+
+  for (const docId of layers) {
+    const overrides = docs[docId]?.matrix;
+    if (!overrides) {
+      continue;
+    }
+
+    for (const taskType of VALID_TASK_TYPES) {
+      const entry = overrides[taskType];
+      if (entry === undefined) {
+        continue;
+      }
+
+      if (!isValidTaskRouteConfig(entry)) {
+        logger.warn("Ignoring invalid routing config entry", {
+          config_id: docId,
+          task_type: taskType,
+        });
+        continue;
+      }
+
+      matrix[taskType] = {
+        primary: { provider: entry.primary.provider, model: entry.primary.model },
+        fallback1: { provider: entry.fallback1.provider, model: entry.fallback1.model },
+        fallback2: { provider: entry.fallback2.provider, model: entry.fallback2.model },
+        ...(entry.hedge_after_ms !== undefined && { hedge_after_ms: entry.hedge_after_ms }),
+      };
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Loads routing documents, using the in-memory cache while it is fresh
+ *
+ * @param {Logger} logger - Logger instance
+ * @returns {Promise<Record<string, RoutingConfigDocument>>} Documents by ID
+ *
+ * @description
+ * If Firestore is unavailable the last loaded documents are kept (or none,
+ * which means DEFAULT_ROUTING_MATRIX) so routing never fails on config reads.
+ */
+async function loadRoutingConfigDocs(
+  logger: Logger
+): Promise<Record<string, RoutingConfigDocument>> {
+  const now = Date.now();
+
+  if (cachedDocs && now < cacheExpiresAt) {
+    return cachedDocs;
+  }
+
+  try {
+    cachedDocs = await getRoutingConfigDocs();
+  } catch (error) {
+    logger.warn("Failed to load routing config, using last known matrix", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    cachedDocs = cachedDocs || {};
+  }
+
+  cacheExpiresAt = now + ROUTING_CONFIG_CACHE_TTL_MS;
+  return cachedDocs;
+}
+
+/**
+ * Gets the effective routing matrix for a license plan
+ *
+ * @param {LicensePlan | undefined} plan - License plan (undefined uses global overrides only)
+ * @param {Logger} logger - Logger instance
+ * @returns {Promise<RoutingMatrix>} Effective routing matrix
+ *
+ * @example
+ * ```typescript
+ * const matrix = await getRoutingMatrix("starter", logger);
+ * const chain = matrix.CODE_GEN;
+ * ```
+ */
+export async function getRoutingMatrix(
+  plan: LicensePlan | undefined,
+  logger: Logger
+): Promise<RoutingMatrix> {
+  const docs = await loadRoutingConfigDocs(logger);
+  return resolveRoutingMatrix(docs, plan, logger);
+}
+
+/**
+ * Clears the in-memory routing config cache
+ *
+ * @description
+ * Forces the next getRoutingMatrix() call to re-read Firestore.
+ */
+export function clearRoutingConfigCache(): void {
+  cachedDocs = null;
+  cacheExpiresAt = 0;
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Unit tests for Site Context service
+ * @module services/siteContext.test
+ */
+
+import {
+  renderSiteContext,
+  buildSystemPrompt,
+  estimateContextTokens,
+} from "./siteContext";
+
+describe("renderSiteContext", () => {
+  it("should render the plugin's nested context shape", () => {
+    const rendered = renderSiteContext({
+      site_info: {
+        site_title: "My Shop",
+        site_url: "https://shop.example.com",
+        wordpress_version: "6.4.2",
+        php_version: "8.2.0",
+      },
+      theme_info: { theme_name: "Astra", theme_author: "Brainstorm Force" },
+      integrations: {
+        woocommerce: { name: "WooCommerce", installed: true, active: true, version: "8.2.1" },
+        elementor: { name: "Elementor", installed: true, active: false, version: "3.18.0" },
+        rank_math: { name: "Rank Math SEO", installed: false, active: false, version: null },
+      },
+      current_user: { id: 1, email: "admin@example.com", role: "administrator" },
+    });
+
+    expect(rendered.text).toBe([
+      "SITE CONTEXT:",
+      "- Site: My Shop (https://shop.example.com)",
+      "- WordPress 6.4.2, PHP 8.2.0",
+      "- Theme: Astra",
+      "- User role: administrator",
+      "- Active plugins: WooCommerce 8.2.1",
+      "- Installed, inactive: Elementor 3.18.0",
+      "Only call plugin-specific functions for the active plugins listed above.",
+    ].join("\n"));
+    expect(rendered.tokens).toBe(estimateContextTokens(rendered.text));
+    expect(rendered.omitted_plugins).toBe(0);
+  });
+
+  it("should not include the user's email", () => {
+    const rendered = renderSiteContext({
+      site_title: "My Site",
+      current_user: { email: "admin@example.com", role: "editor" },
+    });
+
+    expect(rendered.text).not.toContain("admin@example.com");
+  });
+
+  it("should render flat keys and plugin name lists", () => {
+    const rendered = renderSiteContext({
+      site_title: "Blog",
+      wp_version: "6.5",
+      theme: "Twenty Twenty-Four",
+      plugins: ["Akismet", "WooCommerce"],
+    });
+
+    expect(rendered.text).toContain("- Site: Blog");
+    expect(rendered.text).toContain("- WordPress 6.5");
+    expect(rendered.text).toContain("- Theme: Twenty Twenty-Four");
+    expect(rendered.text).toContain("- Active plugins: WooCommerce, Akismet");
+  });
+
+  it("should keep priority plugins when truncating to the budget", () => {
+    const plugins = Array.from({ length: 200 }, (_, i) => ({
+      name: `Filler Plugin ${i}`,
+      version: "1.0.0",
+    }));
+    plugins.push({ name: "Elementor", version: "3.18.0" });
+    plugins.push({ name: "WooCommerce", version: "8.2.1" });
+
+    const rendered = renderSiteContext({ site_title: "Big Site", active_plugins: plugins }, 100);
+
+    expect(rendered.tokens).toBeLessThanOrEqual(100);
+    expect(rendered.text).toContain("- Active plugins: WooCommerce 8.2.1, Elementor 3.18.0, Filler Plugin 0");
+    expect(rendered.omitted_plugins).toBeGreaterThan(0);
+    expect(rendered.text).toContain(`(+${rendered.omitted_plugins} more)`);
+  });
+
+  it("should return an empty section for an unusable context", () => {
+    expect(renderSiteContext({ unrelated: true })).toEqual({
+      text: "",
+      tokens: 0,
+      omitted_plugins: 0,
+    });
+  });
+});
+
+describe("buildSystemPrompt", () => {
+  it("should append the context section", () => {
+    const rendered = renderSiteContext({ site_title: "Blog" });
+
+    expect(buildSystemPrompt("Base prompt", rendered)).toBe(
+      "Base prompt\n\nSITE CONTEXT:\n- Site: Blog"
+    );
+  });
+
+  it("should return the prompt unchanged without a context", () => {
+    expect(buildSystemPrompt("Base prompt")).toBe("Base prompt");
+    expect(buildSystemPrompt("Base prompt", renderSiteContext({}))).toBe("Base prompt");
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Site context rendering for system prompts
+ * @module services/siteContext
+ *
+ * @description
+ * Turns the context object sent by the WordPress plugin into a compact
+ * prompt section so generated code targets the plugins actually installed.
+ *
+ * Accepts both the plugin's nested shape (`site_info`, `theme_info`,
+ * `integrations`, `active_plugins`) and flat keys (`site_title`, `theme`,
+ * `wp_version`, `plugins`). Plugin lists are ordered by PRIORITY_PLUGINS
+ * and truncated to stay within the token budget.
+ */
+
+import {
+  RenderedSiteContext,
+  SiteContextPlugin,
+  SITE_CONTEXT_TOKEN_BUDGET,
+  PRIORITY_PLUGINS,
+} from "../types/SiteContext";
+
+/**
+ * Maximum characters kept for a single context value
+ */
+const MAX_VALUE_LENGTH = 100;
+
+/**
+ * Section heading used in the system prompt
+ */
+const SECTION_HEADING = "SITE CONTEXT:";
+
+/**
+ * Instruction appended when plugins are listed
+ */
+const PLUGIN_INSTRUCTION =
+  "Only call plugin-specific functions for the active plugins listed above.";
+
+/**
+ * Estimates tokens for a text (~4 characters per token)
+ *
+ * @param {string} text - Text to measure
+ * @returns {number} Estimated token count
+ */
+export function estimateContextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Returns the value as a plain object, or undefined
+ */
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * Returns the first non-empty string (or number) found under the given keys
+ */
+function readString(
+  source: Record<string, unknown> | undefined,
+  ...keys: string[]
+): string | undefined {
+  if (!source) {
+    return undefined;
+  }
+
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "string" && value.trim() !== "") {
+      return value.trim().slice(0, MAX_VALUE_LENGTH);
+    }
+    if (typeof value === "number") {
+      return String(value);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts a plugin list entry (string or object) to a SiteContextPlugin
+ */
+function toPlugin(entry: unknown, defaultActive: boolean): SiteContextPlugin | null {
+  if (typeof entry === "string") {
+    const name = entry.trim().slice(0, MAX_VALUE_LENGTH);
+    return name ? { name, active: defaultActive } : null;
+  }
+
+  const record = asRecord(entry);
+  const name = readString(record, "name", "Name", "key", "slug");
+
+  if (!record || !name) {
+    return null;
+  }
+
+  if (record.installed === false) {
+    return null;
+  }
+
+  return {
+    name,
+    version: readString(record, "version", "Version"),
+    active: typeof record.active === "boolean" ? record.active : defaultActive,
+  };
+}
+
+/**
+ * Collects plugins from every supported context key, deduplicated by name
+ */
+function collectPlugins(context: Record<string, unknown>): SiteContextPlugin[] {
+  const entries: SiteContextPlugin[] = [];
+
+  const addAll = (source: unknown, defaultActive: boolean) => {
+    const list = Array.isArray(source) ? source : Object.values(asRecord(source) ?? {});
+    for (const entry of list) {
+      const plugin = toPlugin(entry, defaultActive);
+      if (plugin) {
+        entries.push(plugin);
+      }
+    }
+  };
+
+  // Detected integrations report installed/active explicitly
+  addAll(context.integrations, false);
+  addAll(context.active_plugins, true);
+  addAll(context.plugins, true);
+
+  const seen = new Map<string, SiteContextPlugin>();
+  for (const plugin of entries) {
+    const key = plugin.name.toLowerCase();
+    const existing = seen.get(key);
+    if (!existing) {
+      seen.set(key, plugin);
+    } else if (plugin.active && !existing.active) {
+      seen.set(key, { ...plugin, version: plugin.version ?? existing.version });
+    }
+  }
+
+  return [...seen.values()];
+}
+
+/**
+ * Ranks a plugin by PRIORITY_PLUGINS (lower is more important)
+ */
+function getPluginPriority(plugin: SiteContextPlugin): number {
+  const name = plugin.name.toLowerCase();
+  const index = PRIORITY_PLUGINS.findIndex((candidate) => name.includes(candidate));
+  return index === -1 ? PRIORITY_PLUGINS.length : index;
+}
+
+/**
+ * Formats a plugin as "Name version"
+ */
+function formatPlugin(plugin: SiteContextPlugin): string {
+  return plugin.version ? `${plugin.name} ${plugin.version}` : plugin.name;
+}
+
+/**
+ * Builds a plugin list line, fitting as many plugins as the character budget allows
+ *
+ * @returns The line (or null if nothing fits) and how many plugins were left out
+ */
+function buildPluginLine(
+  label: string,
+  plugins: SiteContextPlugin[],
+  charBudget: number
+): { line: string | null; omitted: number } {
+  const names: string[] = [];
+
+  for (const plugin of plugins) {
+    const candidate = [...names, formatPlugin(plugin)];
+    const remaining = plugins.length - candidate.length;
+    const line = `- ${label}: ${candidate.join(", ")}${remaining > 0 ? ` (+${remaining} more)` : ""}`;
+
+    if (line.length > charBudget) {
+      break;
+    }
+    names.push(formatPlugin(plugin));
+  }
+
+  const omitted = plugins.length - names.length;
+
+  if (names.length === 0) {
+    return { line: null, omitted };
+  }
+
+  return {
+    line: `- ${label}: ${names.join(", ")}${omitted > 0 ? ` (+${omitted} more)` : ""}`,
+    omitted,
+  };
+}
+
+/**
+ * Renders the site context as a prompt section
+ *
+ * @param {Record<string, unknown>} context - Context sent by the WordPress plugin
+ * @param {number} tokenBudget - Maximum estimated tokens for the section
+ * @returns {RenderedSiteContext} The section text, its token estimate and omitted plugin count
+ *
+ * @example
+ * ```typescript
+ * const rendered = renderSiteContext({
+ *   site_info: { site_title: "My Shop", wordpress_version: "6.4.2", php_version: "8.2.0" },
+ *   integrations: { woocommerce: { name: "WooCommerce", active: true, installed: true, version: "8.2.1" } },
+ * });
+ * // rendered.text:
+ * // SITE CONTEXT:
+ * // - Site: My Shop
+ * // - WordPress 6.4.2, PHP 8.2.0
+ * // - Active plugins: WooCommerce 8.2.1
+ * // Only call plugin-specific functions for the active plugins listed above.
+ * ```
+ */
+export function renderSiteContext(
+  context: Record<string, unknown>,
+  tokenBudget: number = SITE_CONTEXT_TOKEN_BUDGET
+): RenderedSiteContext {
+  const siteInfo = asRecord(context.site_info) ?? context;
+  const themeInfo = asRecord(context.theme_info) ?? asRecord(context.theme);
+  const currentUser = asRecord(context.current_user);
+
+  const lines: string[] = [];
+
+  const title = readString(siteInfo, "site_title", "title", "name");
+  const url = readString(siteInfo, "site_url", "url");
+  if (title || url) {
+    lines.push(`- Site: ${[title, url && title ? `(${url})` : url].filter(Boolean).join(" ")}`);
+  }
+
+  const wpVersion = readString(siteInfo, "wordpress_version", "wp_version");
+  const phpVersion = readString(siteInfo, "php_version");
+  const versions = [
+    wpVersion && `WordPress ${wpVersion}`,
+    phpVersion && `PHP ${phpVersion}`,
+  ].filter(Boolean);
+  if (versions.length > 0) {
+    lines.push(`- ${versions.join(", ")}`);
+  }
+
+  const themeName = readString(themeInfo, "theme_name", "name") ??
+    readString(context, "theme");
+  if (themeName) {
+    const themeVersion = readString(themeInfo, "version", "theme_version");
+    const parent = readString(asRecord(themeInfo?.parent), "name");
+    lines.push(
+      `- Theme: ${themeVersion ? `${themeName} ${themeVersion}` : themeName}` +
+      (parent ? ` (child of ${parent})` : "")
+    );
+  }
+
+  const role = readString(currentUser, "role") ??
+    (Array.isArray(currentUser?.roles) ? currentUser?.roles.join(",") : undefined);
+  if (role) {
+    lines.push(`- User role: ${role.slice(0, MAX_VALUE_LENGTH)}`);
+  }
+
+  const plugins = collectPlugins(context).sort(
+    (a, b) => getPluginPriority(a) - getPluginPriority(b)
+  );
+  const active = plugins.filter((plugin) => plugin.active);
+  const inactive = plugins.filter((plugin) => !plugin.active);
+
+  // Characters left for plugin lines once the fixed lines are in
+  const fixedText = [SECTION_HEADING, ...lines, PLUGIN_INSTRUCTION].join("\n");
+  let charBudget = tokenBudget * 4 - fixedText.length;
+  let omittedPlugins = 0;
+  const pluginLines: string[] = [];
+
+  for (const [label, list] of [["Active plugins", active], ["Installed, inactive", inactive]] as const) {
+    if (list.length === 0) {
+      continue;
+    }
+
+    // Each line also costs a newline
+    const { line, omitted } = buildPluginLine(label, list, charBudget - 1);
+    omittedPlugins += omitted;
+
+    if (line) {
+      pluginLines.push(line);
+      charBudget -= line.length + 1;
+    }
+  }
+
+  if (lines.length === 0 && pluginLines.length === 0) {
+    return { text: "", tokens: 0, omitted_plugins: omittedPlugins };
+  }
+
+  const text = [
+    SECTION_HEADING,
+    ...lines,
+    ...pluginLines,
+    ...(pluginLines.length > 0 ? [PLUGIN_INSTRUCTION] : []),
+  ].join("\n");
+
+  return {
+    text,
+    tokens: estimateContextTokens(text),
+    omitted_plugins: omittedPlugins,
+  };
+}
+
+/**
+ * Appends the rendered site context to a system prompt
+ *
+ * @param {string} systemPrompt - Default or custom system prompt
+ * @param {RenderedSiteContext | undefined} siteContext - Rendered context, if any
+ * @returns {string} The system prompt with the context section appended
+ */
+export function buildSystemPrompt(
+  systemPrompt: string,
+  siteContext?: RenderedSiteContext
+): string {
+  if (!siteContext || !siteContext.text) {
+    return systemPrompt;
+  }
+  return `${systemPrompt}\n\n${siteContext.text}`;
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Unit tests for Structured Output service
+ * @module services/structuredOutput.test
+ */
+
+import {
+  extractJsonObject,
+  validateJsonSchema,
+  parseStructuredOutput,
+  buildRepairPrompt,
+  isValidResponseSchema,
+} from "./structuredOutput";
+import { EXECUTE_CODE_SCHEMA } from "../types/StructuredOutput";
+
+const validAction = {
+  type: "execute_code",
+  target: "system",
+  details: {
+    description: "Update site tagline",
+    code: "update_option('blogdescription', 'New'); echo 'Done';",
+    estimated_risk: "low",
+  },
+  message: "Tagline updated.",
+};
+
+describe("extractJsonObject", () => {
+  it("should parse raw JSON", () => {
+    expect(extractJsonObject(JSON.stringify(validAction))).toEqual(validAction);
+  });
+
+  it("should parse JSON inside markdown fences", () => {
+    const content = "```json\n" + JSON.stringify(validAction, null, 2) + "\n```";
+    expect(extractJsonObject(content)).toEqual(validAction);
+  });
+
+  it("should find JSON surrounded by prose", () => {
+    const content = `Sure! Here is the action:\n${JSON.stringify(validAction)}\nLet me know.`;
+    expect(extractJsonObject(content)).toEqual(validAction);
+  });
+
+  it("should ignore braces inside strings", () => {
+    const content = "Result: {\"code\": \"if ($a) { echo '}'; }\"} done";
+    expect(extractJsonObject(content)).toEqual({ code: "if ($a) { echo '}'; }" });
+  });
+
+  it("should return null without a JSON object", () => {
+    expect(extractJsonObject("I created the page for you.")).toBeNull();
+    expect(extractJsonObject("[1, 2, 3]")).toBeNull();
+  });
+});
+
+describe("validateJsonSchema", () => {
+  it("should accept a valid execute_code action", () => {
+    expect(validateJsonSchema(validAction, EXECUTE_CODE_SCHEMA.schema)).toEqual([]);
+  });
+
+  it("should report missing, mistyped and out-of-enum fields with their path", () => {
+    const errors = validateJsonSchema(
+      {
+        ...validAction,
+        message: 42,
+        details: { description: "x", estimated_risk: "extreme" },
+      },
+      EXECUTE_CODE_SCHEMA.schema
+    );
+
+    expect(errors).toEqual([
+      "$.details.code: is required",
+      "$.details.estimated_risk: must be one of low, medium, high",
+      "$.message: expected string",
+    ]);
+  });
+
+  it("should validate array items and integers", () => {
+    const schema = { type: "array" as const, items: { type: "integer" as const } };
+
+    expect(validateJsonSchema([1, 2], schema)).toEqual([]);
+    expect(validateJsonSchema([1, 2.5], schema)).toEqual(["$[1]: expected integer"]);
+  });
+});
+
+describe("parseStructuredOutput", () => {
+  it("should return the parsed object when valid", () => {
+    const result = parseStructuredOutput(
+      "```\n" + JSON.stringify(validAction) + "\n```",
+      EXECUTE_CODE_SCHEMA
+    );
+
+    expect(result).toEqual({ valid: true, data: validAction, errors: [] });
+  });
+
+  it("should report content without JSON", () => {
+    const result = parseStructuredOutput("Done!", EXECUTE_CODE_SCHEMA);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["$: no JSON object found in the response"]);
+  });
+});
+
+describe("buildRepairPrompt", () => {
+  it("should list the errors and the schema", () => {
+    const prompt = buildRepairPrompt(EXECUTE_CODE_SCHEMA, ["$.details.code: is required"]);
+
+    expect(prompt).toContain("- $.details.code: is required");
+    expect(prompt).toContain("Required JSON schema (execute_code):");
+    expect(prompt).toContain(JSON.stringify(EXECUTE_CODE_SCHEMA.schema));
+  });
+});
+
+describe("isValidResponseSchema", () => {
+  it("should accept object schemas with a valid name", () => {
+    expect(isValidResponseSchema(EXECUTE_CODE_SCHEMA)).toBe(true);
+  });
+
+  it("should reject invalid definitions", () => {
+    expect(isValidResponseSchema(null)).toBe(false);
+    expect(isValidResponseSchema({ name: "bad name", schema: { type: "object" } })).toBe(false);
+    expect(isValidResponseSchema({ name: "list", schema: { type: "array" } })).toBe(false);
+    expect(isValidResponseSchema({
+      name: "action",
+      schema: { type: "object", properties: { code: { type: "php" } } },
+    })).toBe(false);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Structured output extraction and validation
+ * @module services/structuredOutput
+ *
+ * @description
+ * Extracts a JSON object from model output (raw, inside markdown fences, or
+ * surrounded by prose) and validates it against a ResponseSchema. When the
+ * output is invalid, buildRepairPrompt() produces the follow-up prompt
+ * ModelService sends to ask the model for a corrected answer.
+ */
+
+import {
+  JsonSchema,
+  ResponseSchema,
+  RESPONSE_SCHEMAS,
+  StructuredOutputResult,
+} from "../types/StructuredOutput";
+
+/**
+ * Schema names accepted by providers (Claude tool names)
+ */
+const SCHEMA_NAME_REGEX = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Supported JSON types
+ */
+const JSON_TYPES = ["object", "array", "string", "number", "integer", "boolean"];
+
+/**
+ * Maximum validation errors reported back to the model
+ */
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * Finds the first balanced JSON object in a text
+ *
+ * @param {string} text - Text to scan
+ * @returns {string | null} The object's source text, or null if none
+ */
+function findJsonObject(text: string): string | null {
+  let start = text.indexOf("{");
+
+  while (start !== -1) {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === "\"") {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === "\"") {
+        inString = true;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}") {
+        depth--;
+        if (depth === 0) {
+          const candidate = text.slice(start, i + 1);
+          try {
+            JSON.parse(candidate);
+            return candidate;
+          } catch {
+            break;
+          }
+        }
+      }
+    }
+
+    start = text.indexOf("{", start + 1);
+  }
+
+  return null;
+}
+
+/**
+ * Extracts a JSON object from model output
+ *
+ * @param {string} content - Model output
+ * @returns {Record<string, unknown> | null} The parsed object, or null if none was found
+ *
+ * @example
+ * ```typescript
+ * extractJsonObject("Here you go:\n```json\n{\"type\": \"execute_code\"}\n```");
+ * // { type: "execute_code" }
+ * ```
+ */
+export function extractJsonObject(content: string): Record<string, unknown> | null {
+  const candidates = [content.trim()];
+
+  // Fenced blocks first, models often wrap the JSON in ```json ... ```
+  for (const match of content.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)) {
+    candidates.push(match[1].trim());
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Not plain JSON, try the next candidate
+    }
+  }
+
+  const embedded = findJsonObject(content);
+  return embedded ? JSON.parse(embedded) as Record<string, unknown> : null;
+}
+
+/**
+ * Validates a value against a schema
+ *
+ * @param {unknown} value - Value to check
+ * @param {JsonSchema} schema - Expected schema
+ * @param {string} path - Path of the value, used in error messages
+ * @returns {string[]} Validation errors (empty when valid)
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case "object": {
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return [`${path}: expected object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key}: is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case "array":
+      if (!Array.isArray(value)) {
+        return [`${path}: expected array`];
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`));
+        });
+      }
+      break;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) {
+        return [`${path}: expected integer`];
+      }
+      break;
+    default:
+      if (typeof value !== schema.type) {
+        return [`${path}: expected ${schema.type}`];
+      }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(", ")}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Extracts and validates structured output from model content
+ *
+ * @param {string} content - Model output
+ * @param {ResponseSchema} responseSchema - Schema the output must follow
+ * @returns {StructuredOutputResult} The parsed object, or the errors found
+ */
+export function parseStructuredOutput(
+  content: string,
+  responseSchema: ResponseSchema
+): StructuredOutputResult {
+  const data = extractJsonObject(content);
+
+  if (!data) {
+    return { valid: false, errors: ["$: no JSON object found in the response"] };
+  }
+
+  const errors = validateJsonSchema(data, responseSchema.schema);
+  return errors.length === 0 ? { valid: true, data, errors } : { valid: false, errors };
+}
+
+/**
+ * Builds the follow-up prompt asking the model to fix its output
+ *
+ * @param {ResponseSchema} responseSchema - Schema the output must follow
+ * @param {string[]} errors - Validation errors of the previous answer
+ * @returns {string} Repair prompt, sent after the invalid answer
+ */
+export function buildRepairPrompt(
+  responseSchema: ResponseSchema,
+  errors: string[]
+): string {
+  return [
+    "Your previous response was not valid JSON for the required schema.",
+    "Errors:",
+    ...errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `- ${error}`),
+    "",
+    `Required JSON schema (${responseSchema.name}):`,
+    JSON.stringify(responseSchema.schema),
+    "",
+    "Return ONLY the corrected JSON object: no markdown, no code fences, no explanation.",
+  ].join("\n");
+}
+
+/**
+ * Validates a schema definition sent by a client
+ *
+ * @param {unknown} value - Value from the request body
+ * @returns {boolean} True if it is a usable ResponseSchema with an object schema
+ */
+export function isValidResponseSchema(value: unknown): value is ResponseSchema {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+
+  const candidate = value as Partial<ResponseSchema>;
+  return typeof candidate.name === "string" &&
+    SCHEMA_NAME_REGEX.test(candidate.name) &&
+    isValidJsonSchema(candidate.schema) &&
+    candidate.schema.type === "object";
+}
+
+/**
+ * Resolves the response_schema of a request
+ *
+ * @param {unknown} value - A schema name ("execute_code") or a custom definition
+ * @returns {ResponseSchema | undefined} The schema, or undefined if unknown or invalid
+ */
+export function resolveResponseSchema(value: unknown): ResponseSchema | undefined {
+  if (typeof value === "string") {
+    return Object.hasOwn(RESPONSE_SCHEMAS, value) ? RESPONSE_SCHEMAS[value] : undefined;
+  }
+  return isValidResponseSchema(value) ? value : undefined;
+}
+
+/**
+ * Checks that a value is a JsonSchema the validator and providers support
+ */
+function isValidJsonSchema(value: unknown): value is JsonSchema {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+
+  const schema = value as JsonSchema;
+  if (!JSON_TYPES.includes(schema.type)) {
+    return false;
+  }
+  if (schema.properties !== undefined &&
+    (typeof schema.properties !== "object" ||
+      !Object.values(schema.properties).every(isValidJsonSchema))) {
+    return false;
+  }
+  if (schema.items !== undefined && !isValidJsonSchema(schema.items)) {
+    return false;
+  }
+  if (schema.required !== undefined &&
+    (!Array.isArray(schema.required) || !schema.required.every((key) => typeof key === "string"))) {
+    return false;
+  }
+  return schema.enum === undefined ||
+    (Array.isArray(schema.enum) && schema.enum.every((entry) => typeof entry === "string"));
+}
@@ -4,12 +4,13 @@
  *
  * @description
  * Processes bulk_articles jobs by generating articles for each topic
- * using the AI router with TEXT_GEN task type.
+ * using the model service with TEXT_GEN task type.
  */
 
-import { AIRouter, ProviderKeys } from "../aiRouter";
+import { ModelService, ModelServiceKeys } from "../modelService";
 import { Logger } from "../../lib/logger";
 import { updateJobProgress } from "../../lib/firestore";
+import { LicensePlan } from "../../types/License";
 import {
   BulkArticlesTaskData,
   BulkArticlesResult,
@@ -174,7 +175,7 @@ function isTimeoutExceeded(startTime: number): boolean {
  *
  * @param {string} jobId - The job ID
  * @param {BulkArticlesTaskData} taskData - Task input data
- * @param {AIRouter} router - AI router instance
+ * @param {ModelService} modelService - Model routing service
  * @param {Logger} logger - Logger instance
  * @returns {Promise<BulkArticlesResult>} Processing result
  *
@@ -185,7 +186,7 @@ function isTimeoutExceeded(startTime: number): boolean {
  * const result = await processBulkArticles(
  *   "job_xxx",
  *   { topics: ["SEO", "WordPress"], tone: "professional" },
- *   router,
+ *   modelService,
  *   logger
  * );
  * ```
@@ -193,7 +194,7 @@ function isTimeoutExceeded(startTime: number): boolean {
 export async function processBulkArticles(
   jobId: string,
   taskData: BulkArticlesTaskData,
-  router: AIRouter,
+  modelService: ModelService,
   logger: Logger
 ): Promise<BulkArticlesResult> {
   const processingLogger = logger.child({ processor: "bulkArticles", job_id: jobId });
@@ -243,9 +244,12 @@ export async function processBulkArticles(
 
     try {
       const prompt = buildArticlePrompt(topic, taskData);
-      const result = await router.route("TEXT_GEN", prompt, {
+      const result = await modelService.generate({
+        task_type: "TEXT_GEN",
+        prompt,
         temperature: 0.7,
         max_tokens: 4000,
+        system_prompt: null, // The prompt carries its own output format
       });
 
       const itemTime = Date.now() - itemStartTime;
@@ -260,7 +264,7 @@ export async function processBulkArticles(
           content: parsed.content,
           tokens_used: result.total_tokens,
           cost: result.cost_usd,
-          provider: result.provider,
+          provider: result.model,
           status: "success",
           seo: parsed.seo,
         });
@@ -281,7 +285,7 @@ export async function processBulkArticles(
           content: "",
           tokens_used: 0,
           cost: 0,
-          provider: result.provider,
+          provider: result.model,
           status: "failed",
           error: result.error || "Generation failed",
         });
@@ -336,12 +340,17 @@ export async function processBulkArticles(
 }
 
 /**
- * Creates an AI router instance with provided keys
+ * Creates a model service with provided keys
  *
- * @param {ProviderKeys} keys - Provider API keys
+ * @param {ModelServiceKeys} keys - Provider API keys
  * @param {Logger} logger - Logger instance
- * @returns {AIRouter} Configured router
+ * @param {LicensePlan} plan - Optional license plan for per-plan routing
+ * @returns {ModelService} Configured model service
  */
-export function createRouter(keys: ProviderKeys, logger: Logger): AIRouter {
-  return new AIRouter(keys, logger);
+export function createModelService(
+  keys: ModelServiceKeys,
+  logger: Logger,
+  plan?: LicensePlan
+): ModelService {
+  return new ModelService(keys, logger, undefined, plan);
 }
@@ -4,10 +4,10 @@
  *
  * @description
  * Processes bulk_products jobs by generating product descriptions
- * using the AI router with ECOMMERCE_GEN task type.
+ * using the model service with ECOMMERCE_GEN task type.
  */
 
-import { AIRouter } from "../aiRouter";
+import { ModelService } from "../modelService";
 import { Logger } from "../../lib/logger";
 import { updateJobProgress } from "../../lib/firestore";
 import {
@@ -211,7 +211,7 @@ function isTimeoutExceeded(startTime: number): boolean {
  *
  * @param {string} jobId - The job ID
  * @param {BulkProductsTaskData} taskData - Task input data
- * @param {AIRouter} router - AI router instance
+ * @param {ModelService} modelService - Model routing service
  * @param {Logger} logger - Logger instance
  * @returns {Promise<BulkProductsResult>} Processing result
  *
@@ -225,7 +225,7 @@ function isTimeoutExceeded(startTime: number): boolean {
  *     products: [{ name: "Laptop Pro 15", category: "Electronics" }],
  *     language: "it"
  *   },
- *   router,
+ *   modelService,
  *   logger
  * );
  * ```
@@ -233,7 +233,7 @@ function isTimeoutExceeded(startTime: number): boolean {
 export async function processBulkProducts(
   jobId: string,
   taskData: BulkProductsTaskData,
-  router: AIRouter,
+  modelService: ModelService,
   logger: Logger
 ): Promise<BulkProductsResult> {
   const processingLogger = logger.child({ processor: "bulkProducts", job_id: jobId });
@@ -288,9 +288,12 @@ export async function processBulkProducts(
 
     try {
       const prompt = buildProductPrompt(product, taskData);
-      const result = await router.route("ECOMMERCE_GEN", prompt, {
+      const result = await modelService.generate({
+        task_type: "ECOMMERCE_GEN",
+        prompt,
         temperature: 0.7,
         max_tokens: 2000,
+        system_prompt: null, // The prompt carries its own output format
       });
 
       const itemTime = Date.now() - itemStartTime;
@@ -305,7 +308,7 @@ export async function processBulkProducts(
           long_desc: parsed.long_desc,
           tokens_used: result.total_tokens,
           cost: result.cost_usd,
-          provider: result.provider,
+          provider: result.model,
           status: "success",
           seo: parsed.seo,
         });
@@ -326,7 +329,7 @@ export async function processBulkProducts(
           long_desc: "",
           tokens_used: 0,
           cost: 0,
-          provider: result.provider,
+          provider: result.model,
           status: "failed",
           error: result.error || "Generation failed",
         });
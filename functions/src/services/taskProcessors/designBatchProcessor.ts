@@ -4,10 +4,10 @@
  *
  * @description
  * Processes design_batch jobs by generating Elementor-compatible
- * JSON structures using the AI router with DESIGN_GEN task type.
+ * JSON structures using the model service with DESIGN_GEN task type.
  */
 
-import { AIRouter } from "../aiRouter";
+import { ModelService } from "../modelService";
 import { Logger } from "../../lib/logger";
 import { updateJobProgress } from "../../lib/firestore";
 import {
@@ -256,7 +256,7 @@ function isTimeoutExceeded(startTime: number): boolean {
  *
  * @param {string} jobId - The job ID
  * @param {DesignBatchTaskData} taskData - Task input data
- * @param {AIRouter} router - AI router instance
+ * @param {ModelService} modelService - Model routing service
  * @param {Logger} logger - Logger instance
  * @returns {Promise<DesignBatchResult>} Processing result
  *
@@ -273,7 +273,7 @@ function isTimeoutExceeded(startTime: number): boolean {
  *       style: "modern"
  *     }]
  *   },
- *   router,
+ *   modelService,
  *   logger
  * );
  * ```
@@ -281,7 +281,7 @@ function isTimeoutExceeded(startTime: number): boolean {
 export async function processDesignBatch(
   jobId: string,
   taskData: DesignBatchTaskData,
-  router: AIRouter,
+  modelService: ModelService,
   logger: Logger
 ): Promise<DesignBatchResult> {
   const processingLogger = logger.child({ processor: "designBatch", job_id: jobId });
@@ -336,9 +336,12 @@ export async function processDesignBatch(
 
     try {
       const prompt = buildDesignPrompt(section, taskData);
-      const result = await router.route("DESIGN_GEN", prompt, {
+      const result = await modelService.generate({
+        task_type: "DESIGN_GEN",
+        prompt,
         temperature: 0.8, // Slightly higher for creative designs
         max_tokens: 4000,
+        system_prompt: null, // The prompt carries its own output format
       });
 
       const itemTime = Date.now() - itemStartTime;
@@ -359,7 +362,7 @@ export async function processDesignBatch(
           elementor_json: elementorJson,
           tokens_used: result.total_tokens,
           cost: result.cost_usd,
-          provider: result.provider,
+          provider: result.model,
           status: isValid ? "success" : "success", // Still mark as success even if not perfect
         });
 
@@ -379,7 +382,7 @@ export async function processDesignBatch(
           elementor_json: {},
           tokens_used: 0,
           cost: 0,
-          provider: result.provider,
+          provider: result.model,
           status: "failed",
           error: result.error || "Generation failed",
         });
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Unit tests for Tool Calling helpers
+ * @module services/toolCalling.test
+ */
+
+import { buildToolTurnHistory, isValidToolDefinitions, isValidToolTurns } from "./toolCalling";
+import { ToolDefinition, ToolTurn, MAX_TOOLS } from "../types/Tools";
+
+const getPost: ToolDefinition = {
+  name: "get_post",
+  description: "Reads a post by ID",
+  parameters: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] },
+};
+
+const turn: ToolTurn = {
+  content: "Reading the post.",
+  tool_calls: [{ id: "call_1", name: "get_post", arguments: { id: 42 } }],
+  tool_results: [{ tool_call_id: "call_1", name: "get_post", content: "{\"title\":\"SEO\"}" }],
+};
+
+describe("isValidToolDefinitions", () => {
+  it("should accept named tools with a description and object parameters", () => {
+    expect(isValidToolDefinitions([getPost, { ...getPost, name: "list_plugins" }])).toBe(true);
+  });
+
+  it("should reject empty, oversized, duplicate or malformed tool lists", () => {
+    expect(isValidToolDefinitions([])).toBe(false);
+    expect(isValidToolDefinitions(Array.from({ length: MAX_TOOLS + 1 }, (_, i) => ({ ...getPost, name: `t${i}` })))).toBe(false);
+    expect(isValidToolDefinitions([getPost, getPost])).toBe(false);
+    expect(isValidToolDefinitions([{ ...getPost, name: "get post" }])).toBe(false);
+    expect(isValidToolDefinitions([{ ...getPost, description: "" }])).toBe(false);
+    expect(isValidToolDefinitions([{ ...getPost, parameters: { type: "string" } }])).toBe(false);
+  });
+});
+
+describe("isValidToolTurns", () => {
+  it("should accept turns where every call has one result", () => {
+    expect(isValidToolTurns([turn], [getPost])).toBe(true);
+  });
+
+  it("should reject calls to undeclared tools or without a result", () => {
+    expect(isValidToolTurns([turn], [{ ...getPost, name: "list_plugins" }])).toBe(false);
+    expect(isValidToolTurns([{ ...turn, tool_results: [] }], [getPost])).toBe(false);
+    expect(isValidToolTurns([{ ...turn, tool_calls: [] }], [getPost])).toBe(false);
+    expect(isValidToolTurns([{
+      ...turn,
+      tool_results: [{ ...turn.tool_results[0], tool_call_id: "call_2" }],
+    }], [getPost])).toBe(false);
+  });
+});
+
+describe("buildToolTurnHistory", () => {
+  it("should interleave calls and results and return the last results", () => {
+    const second: ToolTurn = {
+      tool_calls: [{ id: "call_2", name: "get_post", arguments: { id: 43 } }],
+      tool_results: [{ tool_call_id: "call_2", name: "get_post", content: "Not found", is_error: true }],
+    };
+
+    const history = buildToolTurnHistory("Compare posts 42 and 43", [turn, second]);
+
+    expect(history.messages).toEqual([
+      { role: "user", content: "Compare posts 42 and 43" },
+      { role: "assistant", content: "Reading the post.", tool_calls: turn.tool_calls },
+      { role: "user", content: "", tool_results: turn.tool_results },
+      { role: "assistant", content: "", tool_calls: second.tool_calls },
+    ]);
+    expect(history.tool_results).toEqual(second.tool_results);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Tool calling helpers
+ * @module services/toolCalling
+ *
+ * @description
+ * Validates the tool definitions and tool turns a client sends, and turns
+ * the tool loop of a follow-up call into provider-neutral chat history:
+ *
+ * 1. The client sends `tools`; the model answers with `tool_calls`.
+ * 2. The client runs the calls locally and calls again with the same
+ *    prompt and tools, plus one `tool_turns` entry per round so far.
+ * 3. The history becomes: prompt, then for each round the assistant's
+ *    calls and a user turn with their results. The last round's results
+ *    are sent as GenerateOptions.tool_results so the model answers them.
+ */
+
+import { ChatMessage } from "../types/AIProvider";
+import {
+  ToolCall,
+  ToolDefinition,
+  ToolResult,
+  ToolTurn,
+  MAX_TOOLS,
+  MAX_TOOL_TURNS,
+} from "../types/Tools";
+import { isValidResponseSchema } from "./structuredOutput";
+
+/**
+ * Tool call IDs: providers use letters, digits, '_' and '-'
+ */
+const TOOL_CALL_ID_REGEX = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Conversation built from a follow-up call's tool turns
+ */
+export interface ToolTurnHistory {
+  /** Messages to append to the chat history */
+  messages: ChatMessage[];
+
+  /** Results of the last round, answering the last assistant message */
+  tool_results: ToolResult[];
+}
+
+/**
+ * Checks if a value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Validates the tool definitions sent by a client
+ *
+ * @param {unknown} value - Value from the request body
+ * @returns {boolean} True for 1 to MAX_TOOLS tools with unique names and object parameter schemas
+ */
+export function isValidToolDefinitions(value: unknown): value is ToolDefinition[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_TOOLS) {
+    return false;
+  }
+
+  const names = new Set<string>();
+  for (const tool of value) {
+    if (!isPlainObject(tool) ||
+      typeof tool.description !== "string" ||
+      tool.description.trim().length === 0 ||
+      !isValidResponseSchema({ name: tool.name, schema: tool.parameters }) ||
+      names.has(tool.name as string)) {
+      return false;
+    }
+    names.add(tool.name as string);
+  }
+  return true;
+}
+
+/**
+ * Checks that a value is a tool call for one of the declared tools
+ */
+function isValidToolCall(value: unknown, toolNames: Set<string>): value is ToolCall {
+  return isPlainObject(value) &&
+    typeof value.id === "string" &&
+    TOOL_CALL_ID_REGEX.test(value.id) &&
+    typeof value.name === "string" &&
+    toolNames.has(value.name) &&
+    isPlainObject(value.arguments);
+}
+
+/**
+ * Checks that a value is a tool result
+ */
+function isValidToolResult(value: unknown): value is ToolResult {
+  return isPlainObject(value) &&
+    typeof value.tool_call_id === "string" &&
+    typeof value.name === "string" &&
+    typeof value.content === "string" &&
+    (value.is_error === undefined || typeof value.is_error === "boolean");
+}
+
+/**
+ * Validates the tool turns sent on a follow-up call
+ *
+ * @param {unknown} value - Value from the request body
+ * @param {ToolDefinition[]} tools - Tools declared on the same request
+ * @returns {boolean} True for 1 to MAX_TOOL_TURNS turns where every call targets a
+ * declared tool and has exactly one result
+ */
+export function isValidToolTurns(value: unknown, tools: ToolDefinition[]): value is ToolTurn[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_TOOL_TURNS) {
+    return false;
+  }
+
+  const toolNames = new Set(tools.map((tool) => tool.name));
+  return value.every((turn) => {
+    if (!isPlainObject(turn) ||
+      (turn.content !== undefined && typeof turn.content !== "string") ||
+      !Array.isArray(turn.tool_calls) ||
+      turn.tool_calls.length === 0 ||
+      !turn.tool_calls.every((call) => isValidToolCall(call, toolNames)) ||
+      !Array.isArray(turn.tool_results) ||
+      !turn.tool_results.every(isValidToolResult)) {
+      return false;
+    }
+
+    const callIds = (turn.tool_calls as ToolCall[]).map((call) => call.id);
+    const resultIds = (turn.tool_results as ToolResult[]).map((result) => result.tool_call_id);
+    return new Set(callIds).size === callIds.length &&
+      resultIds.length === callIds.length &&
+      callIds.every((id) => resultIds.includes(id));
+  });
+}
+
+/**
+ * Builds the conversation of a follow-up call in the tool loop
+ *
+ * @param {string} prompt - The user prompt that started the loop
+ * @param {ToolTurn[]} turns - Rounds of tool calls and results so far, oldest first
+ * @returns {ToolTurnHistory} Messages ending with the last assistant turn, and its results
+ *
+ * @example
+ * ```typescript
+ * const { messages, tool_results } = buildToolTurnHistory(prompt, body.tool_turns);
+ * await modelService.generate({ prompt: "", messages: [...history, ...messages], tools, tool_results });
+ * ```
+ */
+export function buildToolTurnHistory(prompt: string, turns: ToolTurn[]): ToolTurnHistory {
+  const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+
+  turns.forEach((turn, index) => {
+    if (index > 0) {
+      messages.push({ role: "user", content: "", tool_results: turns[index - 1].tool_results });
+    }
+    messages.push({ role: "assistant", content: turn.content ?? "", tool_calls: turn.tool_calls });
+  });
+
+  return {
+    messages,
+    tool_results: turns[turns.length - 1].tool_results,
+  };
+}
@@ -7,10 +7,25 @@
  * This ensures consistent behavior across OpenAI, Gemini, and Claude providers.
  */
 
+import { ResponseSchema } from "./StructuredOutput";
+import { ReasoningOptions } from "./Reasoning";
+import { ToolCall, ToolDefinition, ToolResult } from "./Tools";
+import {
+  EMBEDDING_MODEL_REGISTRY,
+  MODEL_REGISTRY,
+  getOpenAICompatibleConfig,
+  resolvePricingTier,
+} from "../config/models";
+
 /**
  * Supported AI provider names
  */
-export type ProviderName = "openai" | "gemini" | "claude";
+export type ProviderName = "openai" | "gemini" | "claude" | "mock";
+
+/**
+ * Providers backed by a billed API (everything but the offline mock)
+ */
+export type BilledProviderName = Exclude<ProviderName, "mock">;
 
 /**
  * File attachment for multimodal requests
@@ -39,6 +54,45 @@ export interface FileAttachment {
   base64: string;
 }
 
+/**
+ * Attachment a provider could not send to the model
+ *
+ * @interface SkippedFile
+ */
+export interface SkippedFile {
+  /** File name */
+  name: string;
+
+  /** MIME type as sent */
+  type: string;
+
+  /** Why the file was skipped, e.g. "Unsupported file type for claude" */
+  reason: string;
+}
+
+/**
+ * A previous turn in a multi-turn conversation
+ *
+ * @interface ChatMessage
+ *
+ * @description
+ * Roles are provider-neutral; each provider maps them to its own format
+ * (Claude messages, Gemini `user`/`model` contents, OpenAI chat messages).
+ */
+export interface ChatMessage {
+  /** Who produced the message */
+  role: "user" | "assistant";
+
+  /** Message text */
+  content: string;
+
+  /** Tool calls the model requested in this turn (assistant messages) */
+  tool_calls?: ToolCall[];
+
+  /** Results of the previous turn's tool calls (user messages) */
+  tool_results?: ToolResult[];
+}
+
 /**
  * Options for AI generation requests
  *
@@ -75,6 +129,79 @@ export interface GenerateOptions {
    * Supports images (JPEG, PNG, GIF, WebP), PDFs, and documents
    */
   files?: FileAttachment[];
+
+  /**
+   * Conversation history sent before the prompt, oldest first
+   * The prompt is always appended as the final user turn
+   */
+  messages?: ChatMessage[];
+
+  /**
+   * Schema the response must follow, using the provider's native
+   * structured output mode where available (non-streaming only)
+   */
+  response_schema?: ResponseSchema;
+
+  /**
+   * Mark the system prompt blocks for provider-side prompt caching
+   * (Claude `cache_control`; other providers ignore it)
+   */
+  prompt_cache?: boolean;
+
+  /**
+   * The stable parts system_prompt was built from (base prompt, site context),
+   * in order. With prompt_cache, each gets its own cache breakpoint so the
+   * base prompt stays cached when the context changes.
+   */
+  system_blocks?: string[];
+
+  /**
+   * Let the model think before answering, within a token budget
+   * (Claude extended thinking, Gemini thinking budget; other providers ignore it)
+   */
+  reasoning?: ReasoningOptions;
+
+  /**
+   * Tools the model may call instead of answering (non-streaming only)
+   */
+  tools?: ToolDefinition[];
+
+  /**
+   * Results of the tool calls in the last assistant message, sent in the
+   * final user turn before the prompt (the prompt may then be empty)
+   */
+  tool_results?: ToolResult[];
+
+  /**
+   * Time (epoch ms) by which the call must have finished. Each attempt's
+   * timeout is capped at the time left, and retries that cannot finish in
+   * time are skipped (see lib/deadline)
+   */
+  deadline?: number;
+
+  /**
+   * Aborts the in-flight API call when fired
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Prompt cache usage reported by providers with prompt caching
+ *
+ * @interface PromptCacheUsage
+ *
+ * @description
+ * Both token counts are included in `tokens_input`.
+ */
+export interface PromptCacheUsage {
+  /** Input tokens written to the cache (billed above the input price) */
+  write_tokens: number;
+
+  /** Input tokens read from the cache (billed below the input price) */
+  read_tokens: number;
+
+  /** Net saving in USD versus paying the input price for these tokens */
+  savings_usd: number;
 }
 
 /**
@@ -128,6 +255,32 @@ export interface AIResponse {
    */
   latency_ms: number;
 
+  /**
+   * Prompt cache usage, when the provider reported any cached tokens
+   */
+  prompt_cache?: PromptCacheUsage;
+
+  /**
+   * Tokens spent thinking, when reasoning was requested
+   * Included in tokens_output and billed at the output price
+   */
+  tokens_reasoning?: number;
+
+  /**
+   * Thinking text, when reasoning.include_thoughts was set
+   */
+  reasoning?: string;
+
+  /**
+   * Tool calls the model requested, when tools were provided
+   */
+  tool_calls?: ToolCall[];
+
+  /**
+   * Attachments that were not sent to the model, with the reason
+   */
+  skipped_files?: SkippedFile[];
+
   /**
    * Error message if success is false
    */
@@ -139,6 +292,13 @@ export interface AIResponse {
   error_code?: string;
 }
 
+/**
+ * Callback invoked with each text delta during streaming generation
+ *
+ * @param {string} text - Text fragment produced by the model
+ */
+export type StreamChunkHandler = (text: string) => void;
+
 /**
  * AI Provider error types
  */
@@ -150,6 +310,8 @@ export type AIErrorCode =
   | "INVALID_REQUEST"
   | "CONTENT_FILTERED"
   | "PROVIDER_ERROR"
+  | "DEADLINE_EXCEEDED"
+  | "CANCELLED"
   | "UNKNOWN_ERROR";
 
 /**
@@ -243,6 +405,34 @@ export interface IAIProvider {
    */
   generate(prompt: string, options?: GenerateOptions): Promise<AIResponse>;
 
+  /**
+   * Generates content while streaming text deltas as they arrive
+   *
+   * @param {string} prompt - The user prompt to send to the model
+   * @param {GenerateOptions | undefined} options - Optional generation parameters
+   * @param {StreamChunkHandler} onChunk - Called with each text delta, in order
+   * @returns {Promise<AIResponse>} The final response with full content and usage metadata
+   *
+   * @description
+   * Retries are only attempted before the first chunk has been emitted.
+   * Once text has been delivered to `onChunk`, a failure is returned as-is
+   * so callers never receive duplicated output.
+   *
+   * @example
+   * ```typescript
+   * const response = await provider.generateStream(
+   *   "Write a blog post about SEO",
+   *   { max_tokens: 2000 },
+   *   (text) => process.stdout.write(text)
+   * );
+   * ```
+   */
+  generateStream(
+    prompt: string,
+    options: GenerateOptions | undefined,
+    onChunk: StreamChunkHandler
+  ): Promise<AIResponse>;
+
   /**
    * Counts tokens in a text string
    *
@@ -256,6 +446,20 @@ export interface IAIProvider {
    */
   countTokens(text: string): Promise<number>;
 
+  /**
+   * Counts the input tokens of a request before sending it
+   *
+   * @param {string} prompt - The user prompt
+   * @param {GenerateOptions} options - Options with system prompt, history, files and tools
+   * @returns {Promise<number>} Input tokens as the provider would count them
+   *
+   * @description
+   * Uses the provider's token counting API when it has one, otherwise a
+   * local estimate (see lib/tokens). Never throws: a failed count falls
+   * back to the estimate.
+   */
+  countInputTokens(prompt: string, options?: GenerateOptions): Promise<number>;
+
   /**
    * Gets the default model name for this provider
    *
@@ -283,81 +487,164 @@ export interface ProviderPricing {
   input_cost_per_1k: number;
 
   /**
-   * Cost per 1000 output tokens in USD
+   * Cost per 1000 output tokens in USD (thinking tokens included)
    */
   output_cost_per_1k: number;
+
+  /**
+   * Cost per 1000 input tokens written to the prompt cache in USD
+   * (defaults to the input price)
+   */
+  cache_write_cost_per_1k?: number;
+
+  /**
+   * Cost per 1000 input tokens read from the prompt cache in USD
+   * (defaults to the input price)
+   */
+  cache_read_cost_per_1k?: number;
 }
 
 /**
- * Provider pricing constants
- * Updated as of December 2025
+ * Gets the pricing of a provider model
+ *
+ * @param {ProviderName} provider - Provider name
+ * @param {string} model - Model name
+ * @param {number} inputTokens - Input tokens of the request, to pick the long-prompt tier (default 0)
+ * @returns {ProviderPricing | undefined} Pricing, or undefined for models not registered for the provider
  *
- * Active models:
- * - Claude Opus 4 (primary)
- * - Gemini Pro (fallback)
+ * @description
+ * Prices come from MODEL_REGISTRY in config/models. For "openai", prices
+ * from OPENAI_PRICING (the OpenAI-compatible endpoint) take precedence.
  */
-export const PROVIDER_PRICING: Record<ProviderName, Record<string, ProviderPricing>> = {
-  openai: {
-    // OpenAI kept for future compatibility but not actively used
-    "gpt-4o": {
-      input_cost_per_1k: 0.005,
-      output_cost_per_1k: 0.015,
-    },
-  },
-  gemini: {
-    // Gemini Pro - Primary fallback model
-    "gemini-2.5-pro-preview-05-06": {
-      input_cost_per_1k: 0.00125,
-      output_cost_per_1k: 0.01,
-    },
-  },
-  claude: {
-    // Claude Opus 4 - Primary model
-    "claude-opus-4-5-20251101": {
-      input_cost_per_1k: 0.015,
-      output_cost_per_1k: 0.075,
-    },
-  },
-};
+export function getProviderPricing(
+  provider: ProviderName,
+  model: string,
+  inputTokens = 0
+): ProviderPricing | undefined {
+  const configured = provider === "openai" ? getOpenAICompatibleConfig().pricing[model] : undefined;
+  const registered = MODEL_REGISTRY[model]?.provider === provider ? MODEL_REGISTRY[model].pricing : undefined;
+  const pricing = configured ?? registered;
+
+  if (!pricing) {
+    return undefined;
+  }
+
+  const tier = resolvePricingTier(pricing, inputTokens);
+  return {
+    input_cost_per_1k: tier.input,
+    output_cost_per_1k: tier.output,
+    ...(tier.cache_write !== undefined && { cache_write_cost_per_1k: tier.cache_write }),
+    ...(tier.cache_read !== undefined && { cache_read_cost_per_1k: tier.cache_read }),
+  };
+}
 
 /**
  * Calculates the cost for a request based on token usage
  *
  * @param {ProviderName} provider - Provider name
  * @param {string} model - Model name
- * @param {number} inputTokens - Number of input tokens
+ * @param {number} inputTokens - Number of input tokens (including cached ones)
  * @param {number} outputTokens - Number of output tokens
+ * @param {Pick<PromptCacheUsage, "write_tokens" | "read_tokens">} promptCache - Optional cached share of the input
  * @returns {number} Cost in USD
  *
  * @example
  * ```typescript
  * const cost = calculateCost("openai", "gpt-4o", 1000, 500);
  * // Returns: 0.0125 USD
+ *
+ * const cached = calculateCost("claude", "claude-opus-4-5-20251101", 3000, 500, {
+ *   write_tokens: 0,
+ *   read_tokens: 2000,
+ * });
+ * // Returns: 0.0555 USD (2000 tokens at the cache read price)
  * ```
  */
 export function calculateCost(
   provider: ProviderName,
   model: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  promptCache?: Pick<PromptCacheUsage, "write_tokens" | "read_tokens">
 ): number {
-  const pricing = PROVIDER_PRICING[provider]?.[model];
+  const pricing = getProviderPricing(provider, model, inputTokens);
 
   if (!pricing) {
     // Fallback to most expensive pricing if model not found
     return (inputTokens * 0.01 + outputTokens * 0.03) / 1000;
   }
 
-  const inputCost = (inputTokens * pricing.input_cost_per_1k) / 1000;
+  const writeTokens = promptCache?.write_tokens ?? 0;
+  const readTokens = promptCache?.read_tokens ?? 0;
+  const uncachedTokens = inputTokens - writeTokens - readTokens;
+
+  const inputCost = (uncachedTokens * pricing.input_cost_per_1k) / 1000;
+  const cacheWriteCost =
+    (writeTokens * (pricing.cache_write_cost_per_1k ?? pricing.input_cost_per_1k)) / 1000;
+  const cacheReadCost =
+    (readTokens * (pricing.cache_read_cost_per_1k ?? pricing.input_cost_per_1k)) / 1000;
   const outputCost = (outputTokens * pricing.output_cost_per_1k) / 1000;
 
-  return inputCost + outputCost;
+  return inputCost + cacheWriteCost + cacheReadCost + outputCost;
+}
+
+/**
+ * Calculates the cost of an embedding request
+ *
+ * @param {string} model - Embedding model ID
+ * @param {number} inputTokens - Input tokens of all texts
+ * @returns {number} Cost in USD
+ *
+ * @example
+ * ```typescript
+ * calculateEmbeddingCost("text-embedding-3-small", 50000);
+ * // Returns: 0.001 USD
+ * ```
+ */
+export function calculateEmbeddingCost(model: string, inputTokens: number): number {
+  const pricing = EMBEDDING_MODEL_REGISTRY[model]?.pricing;
+
+  // Fallback to most expensive input pricing if model not found
+  return (inputTokens * (pricing?.input ?? 0.01)) / 1000;
+}
+
+/**
+ * Calculates the net saving of prompt caching for a request
+ *
+ * @param {ProviderName} provider - Provider name
+ * @param {string} model - Model name
+ * @param {number} writeTokens - Input tokens written to the cache
+ * @param {number} readTokens - Input tokens read from the cache
+ * @returns {PromptCacheUsage} Cache usage with the saving in USD
+ *
+ * @description
+ * Reads save money, writes cost extra: a request that only writes the
+ * cache reports a negative saving, repaid by the reads that follow.
+ */
+export function calculatePromptCacheUsage(
+  provider: ProviderName,
+  model: string,
+  writeTokens: number,
+  readTokens: number
+): PromptCacheUsage {
+  const cachedTokens = writeTokens + readTokens;
+  const uncachedCost = calculateCost(provider, model, cachedTokens, 0);
+  const cachedCost = calculateCost(provider, model, cachedTokens, 0, {
+    write_tokens: writeTokens,
+    read_tokens: readTokens,
+  });
+
+  return {
+    write_tokens: writeTokens,
+    read_tokens: readTokens,
+    savings_usd: uncachedCost - cachedCost,
+  };
 }
 
 /**
  * Default generation options
  */
-export const DEFAULT_GENERATE_OPTIONS: Required<Omit<GenerateOptions, "system_prompt" | "model" | "files">> = {
+export const DEFAULT_GENERATE_OPTIONS: Required<Omit<GenerateOptions, "system_prompt" | "model" | "files" | "messages" | "response_schema" | "prompt_cache" | "system_blocks" | "reasoning" | "tools" | "tool_results" | "deadline" | "signal">> = {
   temperature: 0.7,
   max_tokens: 4096,
 };
@@ -3,6 +3,8 @@
  * @module types/APIResponse
  */
 
+import { FieldError } from "./ApiSchema";
+
 /**
  * Base success response structure
  *
@@ -39,6 +41,28 @@ export interface APIErrorResponse {
   details?: unknown;
 }
 
+/**
+ * Error response of a request that failed validation
+ *
+ * @interface ValidationErrorResponse
+ *
+ * @example
+ * ```json
+ * {
+ *   "success": false,
+ *   "error": "temperature must be between 0 and 1",
+ *   "code": "INVALID_REQUEST",
+ *   "details": [
+ *     { "field": "temperature", "code": "INVALID_REQUEST", "message": "temperature must be between 0 and 1" }
+ *   ]
+ * }
+ * ```
+ */
+export interface ValidationErrorResponse extends APIErrorResponse {
+  /** Every failing field, in schema order */
+  details: FieldError[];
+}
+
 /**
  * Union type for all API responses
  */
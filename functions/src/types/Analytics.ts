@@ -7,7 +7,7 @@
  * dashboard-ready data structures.
  */
 
-import { ProviderName } from "./AIProvider";
+import { BilledProviderName } from "./AIProvider";
 import { TaskType } from "./Route";
 
 /**
@@ -55,6 +55,15 @@ export interface CostTrackingDocument {
 
   /** Total cost across all providers in USD */
   total_cost_usd: number;
+
+  /** Input tokens written to provider prompt caches */
+  prompt_cache_write_tokens?: number;
+
+  /** Input tokens read from provider prompt caches */
+  prompt_cache_read_tokens?: number;
+
+  /** Net prompt caching saving in USD */
+  prompt_cache_savings_usd?: number;
 }
 
 /**
@@ -121,7 +130,7 @@ export interface AnalyticsResponse {
   total_cost: number;
 
   /** Breakdown by provider */
-  breakdown_by_provider: Record<ProviderName, ProviderBreakdown>;
+  breakdown_by_provider: Record<BilledProviderName, ProviderBreakdown>;
 
   /** Breakdown by task type */
   breakdown_by_task: Record<TaskType, TaskBreakdown>;
@@ -149,7 +158,7 @@ export interface CostSummary {
   avg_cost_per_request: number;
 
   /** Most used provider */
-  primary_provider: ProviderName;
+  primary_provider: BilledProviderName;
 }
 
 /**
@@ -175,7 +184,7 @@ export interface AnalyticsQuery {
  */
 export interface ProviderUsageStats {
   /** Provider name */
-  provider: ProviderName;
+  provider: BilledProviderName;
 
   /** Total tokens consumed */
   total_tokens: number;
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview API contract type definitions
+ * @module types/ApiSchema
+ *
+ * @description
+ * Declarative schemas of the HTTP API. Each endpoint describes its path
+ * parameters, query, body and responses as an ApiOperation; the same
+ * schemas drive runtime validation (lib/validation) and the generated
+ * OpenAPI document (schemas/openapi) the PHP client is checked against.
+ *
+ * ApiSchema extends the JSON Schema subset used for structured output with
+ * the OpenAPI keywords request bodies need (bounds, lengths, patterns and
+ * alternatives), plus a few validation-only fields that are not exported.
+ */
+
+import { JsonSchemaType } from "./StructuredOutput";
+
+/**
+ * Schema of a value in a request or response
+ *
+ * @interface ApiSchema
+ */
+export interface ApiSchema {
+  /** Value type (omitted with oneOf or variants) */
+  type?: JsonSchemaType;
+
+  /** Description shown in the OpenAPI document */
+  description?: string;
+
+  /** Object properties, validated in this order */
+  properties?: Record<string, ApiSchema>;
+
+  /** Required object properties */
+  required?: string[];
+
+  /** Array item schema */
+  items?: ApiSchema;
+
+  /**
+   * False when the endpoint validates each item itself, so that an invalid
+   * item fails alone instead of failing the request
+   */
+  validateItems?: boolean;
+
+  /** Allowed values */
+  enum?: string[];
+
+  /** Inclusive numeric bounds */
+  minimum?: number;
+  maximum?: number;
+
+  /** String length bounds */
+  minLength?: number;
+  maxLength?: number;
+
+  /** Pattern a string must match */
+  pattern?: string;
+
+  /** Array length bounds */
+  minItems?: number;
+  maxItems?: number;
+
+  /** Format hint for the OpenAPI document (e.g. "uri", "date-time") */
+  format?: string;
+
+  /** Alternatives; the value is validated against the one of its type */
+  oneOf?: ApiSchema[];
+
+  /**
+   * Schema chosen by a field of the request body, e.g. task_data by
+   * task_type. Exported as oneOf
+   */
+  variants?: {
+    by: string;
+    schemas: Record<string, ApiSchema>;
+  };
+
+  /** Error code of failures at or below this value (inherited) */
+  errorCode?: string;
+
+  /** Error code when this property is missing (default errorCode) */
+  missingErrorCode?: string;
+
+  /** Replaces the generated message of failures at this value */
+  message?: string;
+
+  /**
+   * Rule the keywords cannot express, run once the value matched the
+   * schema. Returns the failure message, or undefined. Not exported
+   */
+  check?: (value: unknown, body: Record<string, unknown>) => string | undefined;
+}
+
+/**
+ * Response of an operation
+ *
+ * @interface ApiResponseSpec
+ */
+export interface ApiResponseSpec {
+  /** What the response means */
+  description: string;
+
+  /** Response body, if any */
+  schema?: ApiSchema;
+}
+
+/**
+ * An endpoint of the API
+ *
+ * @interface ApiOperation
+ */
+export interface ApiOperation {
+  /** Unique operation name (the exported function name) */
+  operationId: string;
+
+  /** HTTP method */
+  method: "get" | "post" | "delete";
+
+  /** Public path, with {name} path parameters */
+  path: string;
+
+  /** One-line summary */
+  summary: string;
+
+  /** Grouping tag */
+  tag: string;
+
+  /** Whether the site_token bearer is required */
+  auth: boolean;
+
+  /** Whether the Idempotency-Key header is honored */
+  idempotent?: boolean;
+
+  /** Error code of validation failures without a more specific one */
+  errorCode: string;
+
+  /** Path parameters (object schema) */
+  params?: ApiSchema;
+
+  /** Query parameters (object schema) */
+  query?: ApiSchema;
+
+  /** Request body */
+  body?: ApiSchema;
+
+  /** Responses by HTTP status */
+  responses: Record<number, ApiResponseSpec>;
+}
+
+/**
+ * Validation failure of one field
+ *
+ * @interface FieldError
+ */
+export interface FieldError {
+  /** Path of the field, e.g. "task_data.topics[0]" ("body" for the whole body) */
+  field: string;
+
+  /** Machine-readable error code */
+  code: string;
+
+  /** Human-readable message, starting with the field */
+  message: string;
+}
+
+/**
+ * Result of validating a request against its operation
+ *
+ * @interface ValidationResult
+ * @template T - Type of the validated values
+ */
+export interface ValidationResult<T> {
+  /** Whether the request matched the schemas */
+  valid: boolean;
+
+  /** Path parameters, query and body merged, when valid */
+  data?: T;
+
+  /** Field errors, in schema order (empty when valid) */
+  errors: FieldError[];
+}
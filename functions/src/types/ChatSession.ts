@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Chat session type definitions for multi-turn conversations
+ * @module types/ChatSession
+ *
+ * @description
+ * Defines the server-side conversation history kept per license and
+ * chat_id, so the WordPress plugin only sends the new turn.
+ */
+
+import { Timestamp } from "firebase-admin/firestore";
+import { ChatMessage } from "./AIProvider";
+import { AIModel } from "./ModelConfig";
+
+/**
+ * What happens when the locked model fails inside a chat session
+ *
+ * @description
+ * - fail: return the error, never answer with another model
+ * - fallback_once: answer this turn with the fallback, keep the lock
+ * - relock: answer with the fallback and lock the session to it
+ */
+export type ModelLockPolicy = "fail" | "fallback_once" | "relock";
+
+/**
+ * A stored conversation turn
+ *
+ * @interface ChatSessionMessage
+ */
+export interface ChatSessionMessage extends ChatMessage {
+  /** When the turn was stored */
+  created_at: Timestamp;
+
+  /** Model that produced the turn (assistant turns only) */
+  model?: string;
+
+  /** Specific model ID that produced the turn (assistant turns only) */
+  model_id?: string;
+}
+
+/**
+ * Chat session document stored in Firestore
+ *
+ * @interface ChatSession
+ *
+ * @description
+ * Document ID format: {license_id}_{chat_id}
+ * Only the most recent MAX_CHAT_SESSION_MESSAGES turns are kept.
+ * The model that answers the first turn is locked for the whole session.
+ */
+export interface ChatSession {
+  /** Client-supplied conversation ID */
+  chat_id: string;
+
+  /** Owning license */
+  license_id: string;
+
+  /** Conversation history, oldest first */
+  messages: ChatSessionMessage[];
+
+  /** Total turns ever stored (including trimmed ones) */
+  message_count: number;
+
+  /** Model every turn of this session is sent to */
+  locked_model?: AIModel;
+
+  /** Session creation timestamp */
+  created_at: Timestamp;
+
+  /** Last turn timestamp */
+  updated_at: Timestamp;
+}
+
+/**
+ * Model lock state returned with each chat turn
+ *
+ * @interface ModelLockState
+ */
+export interface ModelLockState {
+  /** Model the session is locked to after this turn */
+  locked_model: AIModel;
+
+  /** Policy applied to this turn */
+  policy: ModelLockPolicy;
+
+  /** True if the lock was created or moved on this turn */
+  changed: boolean;
+}
+
+/**
+ * Chat session summary returned by the list endpoint
+ *
+ * @interface ChatSessionSummary
+ */
+export interface ChatSessionSummary {
+  /** Conversation ID */
+  chat_id: string;
+
+  /** Total turns stored */
+  message_count: number;
+
+  /** Model the session is locked to, if any */
+  locked_model?: AIModel;
+
+  /** First characters of the first user turn */
+  preview: string;
+
+  /** ISO 8601 creation time */
+  created_at: string;
+
+  /** ISO 8601 last update time */
+  updated_at: string;
+}
+
+/**
+ * Maximum turns kept per session (oldest are trimmed first)
+ */
+export const MAX_CHAT_SESSION_MESSAGES = 50;
+
+/**
+ * Maximum sessions returned by the list endpoint
+ */
+export const MAX_CHAT_SESSIONS_LISTED = 100;
+
+/**
+ * Length of the preview in session summaries
+ */
+export const CHAT_PREVIEW_LENGTH = 120;
+
+/**
+ * Valid model lock policies
+ */
+export const MODEL_LOCK_POLICIES: ModelLockPolicy[] = [
+  "fail",
+  "fallback_once",
+  "relock",
+];
+
+/**
+ * Policy used when the request does not specify one
+ */
+export const DEFAULT_MODEL_LOCK_POLICY: ModelLockPolicy = "fallback_once";
+
+/**
+ * Checks if a string is a valid model lock policy
+ *
+ * @param {string} policy - The policy to validate
+ * @returns {boolean} True if valid
+ */
+export function isValidModelLockPolicy(policy: string): policy is ModelLockPolicy {
+  return MODEL_LOCK_POLICIES.includes(policy as ModelLockPolicy);
+}
+
+/**
+ * Allowed chat_id format: letters, digits, underscore and dash
+ */
+export const CHAT_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Checks if a value is a valid chat_id
+ *
+ * @param {unknown} chatId - The value to validate
+ * @returns {boolean} True if chatId is 1-128 chars of [A-Za-z0-9_-]
+ */
+export function isValidChatId(chatId: unknown): chatId is string {
+  return typeof chatId === "string" && CHAT_ID_PATTERN.test(chatId);
+}
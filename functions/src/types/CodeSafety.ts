@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Code safety type definitions
+ * @module types/CodeSafety
+ *
+ * @description
+ * Defines the findings and report produced by the static analysis of the
+ * PHP code returned in execute_code actions, and the forbidden function list
+ * it enforces (mirrors CodeExecutor::$forbidden_functions in the plugin).
+ */
+
+/**
+ * Estimated risk of an execute_code action
+ */
+export type CodeRisk = "low" | "medium" | "high";
+
+/**
+ * Severity of a finding
+ * - critical: the code must not run (response is blocked)
+ * - high / medium: raises the estimated risk
+ */
+export type CodeSafetySeverity = "critical" | "high" | "medium";
+
+/**
+ * What to do when critical findings are found
+ * - block: reject the response with 422 UNSAFE_CODE
+ * - annotate: return the response with the findings attached
+ */
+export type CodeSafetyMode = "block" | "annotate";
+
+/**
+ * A single issue found in the code
+ *
+ * @interface CodeSafetyFinding
+ */
+export interface CodeSafetyFinding {
+  /** Rule that matched, e.g. "forbidden_function", "obfuscated_call" */
+  rule: string;
+
+  /** Severity */
+  severity: CodeSafetySeverity;
+
+  /** Human readable description */
+  message: string;
+
+  /** 1-based line in the code */
+  line: number;
+}
+
+/**
+ * Result of analyzing an execute_code action
+ *
+ * @interface CodeSafetyReport
+ */
+export interface CodeSafetyReport {
+  /** Risk recomputed from the findings (never lower than the model's estimate) */
+  risk: CodeRisk;
+
+  /** Risk the model reported in details.estimated_risk, if valid */
+  reported_risk?: CodeRisk;
+
+  /** Whether the code has critical findings */
+  blocked: boolean;
+
+  /** Findings, in code order */
+  findings: CodeSafetyFinding[];
+}
+
+/**
+ * Functions and constructs generated code must never call
+ *
+ * @description
+ * Same list the plugin's CodeExecutor enforces before eval(), so unsafe
+ * code is rejected before it ever reaches the site.
+ */
+export const FORBIDDEN_PHP_FUNCTIONS = [
+  // System execution
+  "exec", "shell_exec", "system", "passthru",
+  "popen", "proc_open", "pcntl_exec", "pcntl_fork",
+  // Dangerous eval
+  "eval", "assert", "create_function",
+  // File system dangerous
+  "unlink", "rmdir", "rename", "copy",
+  "mkdir", "chmod", "chown", "chgrp",
+  // Include/require (could include malicious files)
+  "include", "include_once", "require", "require_once",
+  // Network
+  "fsockopen", "pfsockopen", "stream_socket_client",
+  // Serialization
+  "unserialize",
+  // Output/exit
+  "exit", "die",
+  // PHP settings
+  "ini_set", "ini_alter", "putenv", "set_include_path",
+  // Reflection (could be used to bypass restrictions)
+  "ReflectionFunction", "ReflectionMethod",
+];
+
+/**
+ * Valid code safety modes
+ */
+export const CODE_SAFETY_MODES: CodeSafetyMode[] = ["block", "annotate"];
+
+/**
+ * Default code safety mode
+ */
+export const DEFAULT_CODE_SAFETY_MODE: CodeSafetyMode = "block";
+
+/**
+ * Checks if a value is a valid code safety mode
+ */
+export function isValidCodeSafetyMode(value: unknown): value is CodeSafetyMode {
+  return CODE_SAFETY_MODES.includes(value as CodeSafetyMode);
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Embedding type definitions
+ * @module types/Embedding
+ *
+ * @description
+ * Types for POST /api/ai/embed: a batch of texts turned into vectors by
+ * Gemini or the OpenAI-compatible endpoint, for related posts, duplicate
+ * detection and internal linking in the plugin.
+ */
+
+import { EmbeddingProvider } from "../config/models";
+
+/**
+ * Maximum texts per request (Gemini's batch limit)
+ */
+export const MAX_EMBED_TEXTS = 100;
+
+/**
+ * Maximum characters per text (about 2000 tokens, within every model's input limit)
+ */
+export const MAX_EMBED_TEXT_LENGTH = 8000;
+
+/**
+ * Provider used when the request names none
+ */
+export const DEFAULT_EMBEDDING_PROVIDER: EmbeddingProvider = "gemini";
+
+/**
+ * What the vectors are for; Gemini tunes them accordingly, other
+ * providers ignore it
+ * - document: texts to search in (posts, products)
+ * - query: search queries
+ * - similarity: comparing texts with each other (duplicates)
+ * - classification, clustering: grouping texts
+ */
+export type EmbeddingTask = "document" | "query" | "similarity" | "classification" | "clustering";
+
+/**
+ * Request body of POST /api/ai/embed
+ *
+ * @interface EmbedRequest
+ */
+export interface EmbedRequest {
+  /** Texts to embed, in order */
+  texts: string[];
+
+  /** Provider (default gemini) */
+  model?: EmbeddingProvider;
+
+  /** Shortened vector size (default: the model's full size) */
+  dimensions?: number;
+
+  /** What the vectors are for */
+  task?: EmbeddingTask;
+}
+
+/**
+ * Options of one embedding call
+ *
+ * @interface EmbedOptions
+ */
+export interface EmbedOptions {
+  /** Model ID (defaults to the provider's embedding model) */
+  model?: string;
+
+  /** Shortened vector size */
+  dimensions?: number;
+
+  /** What the vectors are for */
+  task?: EmbeddingTask;
+}
+
+/**
+ * Result of one embedding call
+ *
+ * @interface EmbeddingResult
+ */
+export interface EmbeddingResult {
+  /** Whether every text was embedded */
+  success: boolean;
+
+  /** Provider that answered */
+  provider: EmbeddingProvider | "mock";
+
+  /** Model ID that answered */
+  model: string;
+
+  /** One vector per text, in request order (empty on failure) */
+  embeddings: number[][];
+
+  /** Size of each vector */
+  dimensions: number;
+
+  /** Input tokens billed */
+  tokens_input: number;
+
+  /** Cost in USD */
+  cost_usd: number;
+
+  /** Time taken, in milliseconds */
+  latency_ms: number;
+
+  /** Error message on failure */
+  error?: string;
+
+  /** Error code on failure */
+  error_code?: string;
+}
+
+/**
+ * A provider that can embed texts
+ *
+ * @interface IEmbeddingProvider
+ */
+export interface IEmbeddingProvider {
+  /**
+   * Embeds a batch of texts
+   *
+   * @param {string[]} texts - Texts to embed
+   * @param {EmbedOptions} options - Model, dimensions and task
+   * @returns {Promise<EmbeddingResult>} Vectors and usage, or the error
+   */
+  embed(texts: string[], options?: EmbedOptions): Promise<EmbeddingResult>;
+}
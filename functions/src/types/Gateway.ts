@@ -0,0 +1,196 @@
+/**
+ * @fileoverview API gateway type definitions
+ * @module types/Gateway
+ *
+ * @description
+ * Types for the API gateway: one HTTP function that serves every
+ * versioned route (/v1/...) through a shared middleware pipeline, with
+ * the legacy /api/... URLs kept as aliases of v1.
+ */
+
+import { Request, Response } from "express";
+import { Logger } from "../lib/logger";
+import { ApiOperation } from "./ApiSchema";
+import { AuditLogEntry } from "./APIResponse";
+import { JWTClaims } from "./JWTClaims";
+import { License, PlanEntitlements } from "./License";
+
+/**
+ * API versions served by the gateway
+ */
+export type ApiVersion = "v1";
+
+/**
+ * Version served under the legacy /api/... URLs
+ */
+export const LEGACY_API_VERSION: ApiVersion = "v1";
+
+/**
+ * HTTP methods used by the routes
+ */
+export type HttpMethod = "GET" | "POST" | "DELETE";
+
+/**
+ * State of a request as it goes through the pipeline
+ *
+ * @interface RequestContext
+ * @description
+ * Created by the request context middleware; later stages fill in what
+ * they establish (claims, validated input, license).
+ */
+export interface RequestContext {
+  /** Request ID, also sent back in the X-Request-ID header */
+  requestId: string;
+
+  /** Client IP address */
+  ipAddress: string;
+
+  /** Request-scoped logger */
+  logger: Logger;
+
+  /** Path the route was matched against (without the version prefix) */
+  path: string;
+
+  /** Decoded site_token claims (routes with auth) */
+  claims?: JWTClaims;
+
+  /** Validated input: path parameters, query and body (routes with an operation) */
+  data?: unknown;
+
+  /** License of the claims (routes with an entitlement) */
+  license?: License;
+
+  /** Entitlements of the license plan (routes with an entitlement) */
+  entitlements?: PlanEntitlements;
+
+  /** Set once every stage has passed and the route's handler runs */
+  reachedHandler?: boolean;
+}
+
+/**
+ * Context of a route with an operation
+ */
+export interface ValidatedContext<T = unknown> extends RequestContext {
+  data: T;
+}
+
+/**
+ * Context of a route with auth
+ */
+export interface AuthenticatedContext<T = unknown> extends ValidatedContext<T> {
+  claims: JWTClaims;
+}
+
+/**
+ * Context of a route with auth and an entitlement
+ */
+export interface EntitledContext<T = unknown> extends AuthenticatedContext<T> {
+  license: License;
+  entitlements: PlanEntitlements;
+}
+
+/**
+ * A pipeline stage
+ *
+ * @description
+ * Calls next() to hand the request to the following stage, or answers
+ * the request itself and returns without calling it.
+ */
+export type Middleware = (
+  req: Request,
+  res: Response,
+  ctx: RequestContext,
+  next: () => Promise<void>
+) => Promise<void>;
+
+/**
+ * Rate limit of a route
+ */
+export interface RouteRateLimit {
+  /** "license": per license, after auth; "ip": per client IP */
+  by: "license" | "ip";
+
+  /** Counter bucket (routes sharing a bucket share the limit) */
+  bucket: string;
+
+  /** Maximum requests per minute */
+  maxRequests: number;
+
+  /** Error message of the 429 (license limits) */
+  message?: string;
+}
+
+/**
+ * Plan entitlement check of a route
+ *
+ * @description
+ * Loads the license of the claims and rejects it once its token quota
+ * is used up (403 QUOTA_EXCEEDED, recorded in the audit log).
+ */
+export interface RouteEntitlement {
+  /** Request type of the audit log entry of a rejected request */
+  requestType: AuditLogEntry["request_type"];
+
+  /** Extra metadata for that audit log entry */
+  auditMetadata?(data: unknown): Record<string, unknown>;
+}
+
+/**
+ * A route of the gateway
+ *
+ * @interface GatewayRoute
+ * @description
+ * The pipeline runs, in order: request context, CORS, error mapper,
+ * method check, then auth, rate limit, validation, idempotency and
+ * entitlement when the route asks for them, and finally the handler.
+ *
+ * @example
+ * ```typescript
+ * const SUBMIT_TASK_ROUTE: GatewayRoute<EntitledContext<SubmitTaskRequest>> = {
+ *   methods: ["POST"],
+ *   path: "/tasks/submit",
+ *   auth: true,
+ *   rateLimit: { by: "license", bucket: "task_submit", maxRequests: 10 },
+ *   operation: SUBMIT_TASK_OPERATION,
+ *   idempotent: true,
+ *   entitlement: { requestType: "task_submission" },
+ *   handler: handleSubmitTask,
+ * };
+ * ```
+ */
+export interface GatewayRoute<C extends RequestContext = RequestContext> {
+  /** Methods the route answers (OPTIONS is answered by the CORS stage) */
+  methods: HttpMethod[];
+
+  /**
+   * Path within a version: literal segments, {param} segments, and a
+   * trailing ** for any remaining segments (including none)
+   */
+  path: string;
+
+  /** Requires a valid site_token */
+  auth: boolean;
+
+  /** Rate limit */
+  rateLimit?: RouteRateLimit;
+
+  /** Operation the input is validated against */
+  operation?: ApiOperation;
+
+  /**
+   * Honors the Idempotency-Key header: a retry with the same key gets
+   * the first response back (requires auth)
+   */
+  idempotent?: boolean;
+
+  /** Plan entitlement check (requires auth) */
+  entitlement?: RouteEntitlement;
+
+  /** Answers the request */
+  handler(req: Request, res: Response, ctx: C): Promise<void>;
+}
+
+/**
+ * Routes of each API version
+ */
+export type GatewayVersions = Record<ApiVersion, GatewayRoute[]>;
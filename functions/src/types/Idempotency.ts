@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Idempotency key type definitions
+ * @module types/Idempotency
+ *
+ * @description
+ * Clients retrying a POST (e.g. after an HTTP timeout) send the same
+ * Idempotency-Key header. The first response is stored per license, so a
+ * retry gets it back instead of queueing another job or billing the
+ * tokens twice.
+ */
+
+import { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Request header carrying the key
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Response header set on replayed responses
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/**
+ * Maximum key length
+ */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * How long a key is remembered, in seconds (24h)
+ */
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 86400;
+
+/**
+ * How long an in-progress key stays locked, in seconds
+ *
+ * @description
+ * The longest function timeout: past it the request that claimed the
+ * key was killed, and a retry may claim it again.
+ */
+export const IDEMPOTENCY_LOCK_SECONDS = 300;
+
+/**
+ * State of a key
+ * - in_progress: the first request is still running
+ * - completed: its response is stored
+ */
+export type IdempotencyStatus = "in_progress" | "completed";
+
+/**
+ * Response stored for replays
+ *
+ * @interface StoredResponse
+ */
+export interface StoredResponse {
+  /** HTTP status */
+  status_code: number;
+
+  /** JSON body, serialized (absent for event streams) */
+  body_json?: string;
+
+  /** The response was an event stream, which cannot be replayed */
+  streamed?: boolean;
+}
+
+/**
+ * Idempotency key document stored in Firestore
+ *
+ * @interface IdempotencyRecord
+ *
+ * @description
+ * Document ID: SHA-256 of the license and the key. The `expires_at`
+ * field has a Firestore TTL policy, expired records are also ignored on
+ * read.
+ */
+export interface IdempotencyRecord {
+  /** Key sent by the client */
+  key: string;
+
+  /** License that sent it */
+  license_id: string;
+
+  /** SHA-256 of the route and body of the first request */
+  request_hash: string;
+
+  /** State of the key */
+  status: IdempotencyStatus;
+
+  /** Stored response (completed keys) */
+  response?: StoredResponse;
+
+  /** When the key was first used */
+  created_at: Timestamp;
+
+  /** Last state change */
+  updated_at: Timestamp;
+
+  /** When the key is forgotten */
+  expires_at: Timestamp;
+}
+
+/**
+ * Outcome of claiming a key
+ * - acquired: first use, the request runs
+ * - in_progress: the first request is still running
+ * - mismatch: the key was used with a different request
+ * - completed: the first request finished, with its response
+ */
+export type IdempotencyClaim =
+  | { outcome: "acquired" }
+  | { outcome: "in_progress" }
+  | { outcome: "mismatch" }
+  | { outcome: "completed"; response: StoredResponse };
@@ -9,6 +9,7 @@
  */
 
 import { Timestamp } from "firebase-admin/firestore";
+import { LicensePlan } from "./License";
 
 /**
  * Supported job task types
@@ -373,6 +374,9 @@ export interface Job {
   /** Reference to the license */
   license_id: string;
 
+  /** License plan at submission time (selects the routing matrix) */
+  plan?: LicensePlan;
+
   /** Type of task to execute */
   task_type: JobTaskType;
 
@@ -420,6 +424,7 @@ export interface Job {
  */
 export interface CreateJobData {
   license_id: string;
+  plan?: LicensePlan;
   task_type: JobTaskType;
   task_data: TaskData;
 }
@@ -594,159 +599,6 @@ export function isValidJobTaskType(taskType: string): taskType is JobTaskType {
   return VALID_JOB_TASK_TYPES.includes(taskType as JobTaskType);
 }
 
-/**
- * Validates bulk_articles task data
- *
- * @param {unknown} data - The task data to validate
- * @returns {{ valid: boolean; error?: string }} Validation result
- */
-export function validateBulkArticlesData(
-  data: unknown
-): { valid: boolean; error?: string } {
-  if (!data || typeof data !== "object") {
-    return { valid: false, error: "task_data must be an object" };
-  }
-
-  const taskData = data as Record<string, unknown>;
-
-  if (!Array.isArray(taskData.topics)) {
-    return { valid: false, error: "topics must be an array" };
-  }
-
-  if (taskData.topics.length === 0) {
-    return { valid: false, error: "topics array cannot be empty" };
-  }
-
-  if (taskData.topics.length > MAX_BULK_ITEMS) {
-    return { valid: false, error: `Maximum ${MAX_BULK_ITEMS} topics allowed` };
-  }
-
-  for (const topic of taskData.topics) {
-    if (typeof topic !== "string" || topic.trim().length === 0) {
-      return { valid: false, error: "Each topic must be a non-empty string" };
-    }
-  }
-
-  if (taskData.tone && !["professional", "casual", "technical", "friendly"].includes(taskData.tone as string)) {
-    return { valid: false, error: "Invalid tone value" };
-  }
-
-  if (taskData.word_count && (typeof taskData.word_count !== "number" || taskData.word_count < 100 || taskData.word_count > 5000)) {
-    return { valid: false, error: "word_count must be between 100 and 5000" };
-  }
-
-  return { valid: true };
-}
-
-/**
- * Validates bulk_products task data
- *
- * @param {unknown} data - The task data to validate
- * @returns {{ valid: boolean; error?: string }} Validation result
- */
-export function validateBulkProductsData(
-  data: unknown
-): { valid: boolean; error?: string } {
-  if (!data || typeof data !== "object") {
-    return { valid: false, error: "task_data must be an object" };
-  }
-
-  const taskData = data as Record<string, unknown>;
-
-  if (!Array.isArray(taskData.products)) {
-    return { valid: false, error: "products must be an array" };
-  }
-
-  if (taskData.products.length === 0) {
-    return { valid: false, error: "products array cannot be empty" };
-  }
-
-  if (taskData.products.length > MAX_BULK_ITEMS) {
-    return { valid: false, error: `Maximum ${MAX_BULK_ITEMS} products allowed` };
-  }
-
-  for (const product of taskData.products) {
-    if (!product || typeof product !== "object") {
-      return { valid: false, error: "Each product must be an object" };
-    }
-
-    const p = product as Record<string, unknown>;
-    if (typeof p.name !== "string" || p.name.trim().length === 0) {
-      return { valid: false, error: "Each product must have a non-empty name" };
-    }
-  }
-
-  return { valid: true };
-}
-
-/**
- * Validates design_batch task data
- *
- * @param {unknown} data - The task data to validate
- * @returns {{ valid: boolean; error?: string }} Validation result
- */
-export function validateDesignBatchData(
-  data: unknown
-): { valid: boolean; error?: string } {
-  if (!data || typeof data !== "object") {
-    return { valid: false, error: "task_data must be an object" };
-  }
-
-  const taskData = data as Record<string, unknown>;
-
-  if (!Array.isArray(taskData.sections)) {
-    return { valid: false, error: "sections must be an array" };
-  }
-
-  if (taskData.sections.length === 0) {
-    return { valid: false, error: "sections array cannot be empty" };
-  }
-
-  if (taskData.sections.length > MAX_BULK_ITEMS) {
-    return { valid: false, error: `Maximum ${MAX_BULK_ITEMS} sections allowed` };
-  }
-
-  for (const section of taskData.sections) {
-    if (!section || typeof section !== "object") {
-      return { valid: false, error: "Each section must be an object" };
-    }
-
-    const s = section as Record<string, unknown>;
-    if (typeof s.name !== "string" || s.name.trim().length === 0) {
-      return { valid: false, error: "Each section must have a non-empty name" };
-    }
-
-    if (typeof s.description !== "string" || s.description.trim().length === 0) {
-      return { valid: false, error: "Each section must have a non-empty description" };
-    }
-  }
-
-  return { valid: true };
-}
-
-/**
- * Validates task data based on task type
- *
- * @param {JobTaskType} taskType - The task type
- * @param {unknown} taskData - The task data to validate
- * @returns {{ valid: boolean; error?: string }} Validation result
- */
-export function validateTaskData(
-  taskType: JobTaskType,
-  taskData: unknown
-): { valid: boolean; error?: string } {
-  switch (taskType) {
-    case "bulk_articles":
-      return validateBulkArticlesData(taskData);
-    case "bulk_products":
-      return validateBulkProductsData(taskData);
-    case "design_batch":
-      return validateDesignBatchData(taskData);
-    default:
-      return { valid: false, error: `Unknown task type: ${taskType}` };
-  }
-}
-
 /**
  * Estimates processing time based on task type and item count
  *
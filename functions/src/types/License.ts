@@ -10,6 +10,31 @@ import { Timestamp } from "firebase-admin/firestore";
  */
 export type LicensePlan = "starter" | "pro" | "enterprise";
 
+/**
+ * Features a plan is entitled to
+ *
+ * @interface PlanEntitlements
+ */
+export interface PlanEntitlements {
+  /** Largest reasoning budget a request may ask for (0 = reasoning not available) */
+  max_reasoning_budget_tokens: number;
+}
+
+/**
+ * Entitlements per plan
+ */
+export const PLAN_ENTITLEMENTS: Record<LicensePlan, PlanEntitlements> = {
+  starter: {
+    max_reasoning_budget_tokens: 0,
+  },
+  pro: {
+    max_reasoning_budget_tokens: 16384,
+  },
+  enterprise: {
+    max_reasoning_budget_tokens: 32768,
+  },
+};
+
 /**
  * Status types for license state
  */
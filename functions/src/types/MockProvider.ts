@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Mock provider type definitions
+ * @module types/MockProvider
+ *
+ * @description
+ * Defines the fixtures the offline mock provider answers from. With
+ * `AI_PROVIDER_MODE=mock`, every model in a routing chain is served by
+ * the mock provider, so route-request, async jobs and plugin docs
+ * research run against the Firestore emulator without API keys.
+ * Fixtures are read from the JSON file in `MOCK_AI_FIXTURES`.
+ */
+
+import { ToolCall } from "./Tools";
+
+/**
+ * Provider failure a fixture can simulate
+ *
+ * - rate_limited: HTTP 429 (RATE_LIMITED)
+ * - overloaded: HTTP 529 (PROVIDER_ERROR)
+ * - timeout: no answer within latency_ms (TIMEOUT)
+ * - network: connection refused (NETWORK_ERROR)
+ */
+export type MockErrorKind = "rate_limited" | "overloaded" | "timeout" | "network";
+
+/**
+ * Scripted answer of the mock provider
+ *
+ * @interface MockFixture
+ *
+ * @example
+ * ```json
+ * [
+ *   { "match": "contact page", "model": "gemini-2.5-pro", "error": "rate_limited", "fail_times": 1 },
+ *   { "match": "contact page", "content": "{\"type\":\"execute_code\",...}", "latency_ms": 800 }
+ * ]
+ * ```
+ */
+export interface MockFixture {
+  /** Regular expression tested (case-insensitive) against the prompt; matches all when omitted */
+  match?: string;
+
+  /** Only answer for this model ID (e.g. "claude-opus-4-5-20251101") */
+  model?: string;
+
+  /** Answer text */
+  content?: string;
+
+  /** Tool calls to answer with, when the request declares tools */
+  tool_calls?: ToolCall[];
+
+  /** Simulated latency in milliseconds (default 0) */
+  latency_ms?: number;
+
+  /** Reported input tokens (default: estimated from the prompt) */
+  tokens_input?: number;
+
+  /** Reported output tokens (default: estimated from the content) */
+  tokens_output?: number;
+
+  /** Failure to simulate instead of answering */
+  error?: MockErrorKind;
+
+  /** Fail only the first N matching calls, then answer (default: always fail) */
+  fail_times?: number;
+}
+
+/**
+ * Model ID of the mock provider when used on its own
+ */
+export const MOCK_MODEL = "mock-1";
+
+/**
+ * Embedding model ID of the mock provider
+ */
+export const MOCK_EMBEDDING_MODEL = "mock-embedding-1";
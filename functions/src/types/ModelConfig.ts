@@ -8,6 +8,12 @@
  */
 
 import { AIProvider, AI_MODELS, isValidModel, isValidProvider, getPrimaryModel, MODEL_IDS } from "../config/models";
+import { ChatMessage, PromptCacheUsage, BilledProviderName, SkippedFile } from "./AIProvider";
+import { TaskType } from "./Route";
+import { ResponseSchema } from "./StructuredOutput";
+import { ResponseCacheOptions } from "./ResponseCache";
+import { ReasoningOptions } from "./Reasoning";
+import { ToolCall, ToolDefinition, ToolResult } from "./Tools";
 
 // ============================================================================
 // RE-EXPORTS FROM CONFIG/MODELS
@@ -52,8 +58,11 @@ export interface FileAttachment {
  * Model request interface
  */
 export interface ModelRequest {
-  /** Selected model */
-  model: AIModel;
+  /** Preferred model, tried first (defaults to the task's routing chain) */
+  model?: AIModel;
+
+  /** Task type, selects the routing chain (gemini/claude pair when omitted) */
+  task_type?: TaskType;
 
   /** User prompt */
   prompt: string;
@@ -61,8 +70,8 @@ export interface ModelRequest {
   /** Site context from WordPress */
   context?: Record<string, unknown>;
 
-  /** System prompt override */
-  system_prompt?: string;
+  /** System prompt override (null sends no system prompt) */
+  system_prompt?: string | null;
 
   /** Chat ID for session tracking */
   chat_id?: string;
@@ -75,6 +84,76 @@ export interface ModelRequest {
 
   /** File attachments for multimodal */
   files?: FileAttachment[];
+
+  /** Previous conversation turns, oldest first */
+  messages?: ChatMessage[];
+
+  /** Whether to try the rest of the chain if the first model fails (default true) */
+  allow_fallback?: boolean;
+
+  /** Schema the response must follow, parsed into `data` (ignored when streaming) */
+  response_schema?: ResponseSchema;
+
+  /** Opt-in response cache (needs a ResponseCache on the ModelService) */
+  cache?: ResponseCacheOptions;
+
+  /** Cache the system prompt and site context with the provider (Claude only) */
+  prompt_cache?: boolean;
+
+  /** Thinking budget (Claude extended thinking, Gemini thinking) */
+  reasoning?: ReasoningOptions;
+
+  /** Tools the model may call, sent to every model in the chain (ignored when streaming) */
+  tools?: ToolDefinition[];
+
+  /** Results of the tool calls in the last assistant message of `messages` */
+  tool_results?: ToolResult[];
+
+  /** Remaining license tokens; requests whose input exceeds it are rejected */
+  token_budget?: number;
+
+  /** Epoch ms by which the request must finish; no attempt or fallback starts after it */
+  deadline?: number;
+
+  /** Aborts in-flight model calls when fired (e.g. the client disconnected) */
+  signal?: AbortSignal;
+
+  /**
+   * Race the next model when the first is slow, if the task's route sets
+   * `hedge_after_ms` (interactive requests; ignored when streaming)
+   */
+  hedge?: boolean;
+}
+
+/**
+ * The attempt that lost a hedged race
+ *
+ * @description
+ * Billed separately from the answer. A cancelled call may still have been
+ * charged for its input, which is then counted from the request.
+ */
+export interface HedgeAttempt {
+  /** Provider of the losing attempt */
+  model: BilledProviderName;
+
+  /** Model ID of the losing attempt */
+  model_id: string;
+
+  /** Tokens billed (input only, estimated, when cancelled) */
+  tokens_input: number;
+  tokens_output: number;
+
+  /** Cost in USD */
+  cost_usd: number;
+
+  /** Time until it finished or was cancelled */
+  latency_ms: number;
+
+  /** Whether it was cancelled because the other attempt answered first */
+  cancelled: boolean;
+
+  /** Error, if it failed on its own */
+  error?: string;
 }
 
 /**
@@ -87,8 +166,8 @@ export interface ModelResponse {
   /** Generated content */
   content: string;
 
-  /** Model used */
-  model: AIModel;
+  /** Provider used (the first in the chain when all failed) */
+  model: BilledProviderName;
 
   /** Model ID used */
   model_id: string;
@@ -110,4 +189,40 @@ export interface ModelResponse {
   /** Error if failed */
   error?: string;
   error_code?: string;
+
+  /** Providers actually called, in order */
+  providers_attempted?: BilledProviderName[];
+
+  /** Circuit breaker keys ({provider}:{model}) skipped because their circuit was open */
+  circuits_open?: string[];
+
+  /** Estimated tokens of site context injected into the system prompt */
+  context_tokens?: number;
+
+  /** Parsed structured output, when a response_schema was requested */
+  data?: Record<string, unknown>;
+
+  /** Whether the structured output needed a repair re-prompt */
+  repaired?: boolean;
+
+  /** Whether the response came from the response cache (set when the cache was used) */
+  cache_hit?: boolean;
+
+  /** Provider prompt cache usage, when any input tokens were cached */
+  prompt_cache?: PromptCacheUsage;
+
+  /** Tokens spent thinking (included in tokens_output) */
+  tokens_reasoning?: number;
+
+  /** Thinking text, when reasoning.include_thoughts was set */
+  reasoning?: string;
+
+  /** Tool calls the model requested; the client runs them and calls again */
+  tool_calls?: ToolCall[];
+
+  /** Attachments the answering model could not receive, with the reason */
+  skipped_files?: SkippedFile[];
+
+  /** The other attempt, when hedging started a second model */
+  hedge_loser?: HedgeAttempt;
 }
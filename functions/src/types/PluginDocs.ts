@@ -136,7 +136,8 @@ export interface SavePluginDocsRequest {
     api_reference?: string;
     version_notes?: string[];
   };
-  cached_by?: string;
+  /** Who researched the docs (the plugin sends the WordPress user ID) */
+  cached_by?: string | number;
 }
 
 /**
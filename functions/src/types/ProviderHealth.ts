@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Provider health and circuit breaker type definitions
+ * @module types/ProviderHealth
+ *
+ * @description
+ * Defines the circuit breaker state tracked per provider:model so that
+ * routing can skip a provider during an outage instead of spending the
+ * full retry budget on every request.
+ */
+
+import { AIErrorCode } from "./AIProvider";
+
+/**
+ * Circuit breaker state
+ *
+ * @description
+ * - closed: requests flow normally
+ * - open: requests skip this provider until the cooldown elapses
+ * - half_open: a single probe request is let through to test recovery
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Provider health document stored in Firestore
+ *
+ * @interface ProviderHealthRecord
+ *
+ * @description
+ * Document ID format: {provider}:{model}
+ */
+export interface ProviderHealthRecord {
+  /** Breaker key ({provider}:{model}) */
+  key: string;
+
+  /** Current circuit state */
+  state: CircuitState;
+
+  /** Consecutive tripping failures since the last success */
+  consecutive_failures: number;
+
+  /** When the circuit last opened (epoch ms) */
+  opened_at: number | null;
+
+  /** When the current half-open probe started (epoch ms) */
+  probe_started_at: number | null;
+
+  /** Error code of the most recent tripping failure */
+  last_error_code?: string;
+
+  /** Last update (epoch ms) */
+  updated_at: number;
+}
+
+/**
+ * Circuit breaker tuning
+ *
+ * @interface CircuitBreakerConfig
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive tripping failures before the circuit opens */
+  failure_threshold: number;
+
+  /** How long the circuit stays open before a probe is allowed (ms) */
+  cooldown_ms: number;
+}
+
+/**
+ * Default circuit breaker configuration
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failure_threshold: 3,
+  cooldown_ms: 30000,
+};
+
+/**
+ * Error codes that count toward opening the circuit
+ *
+ * @description
+ * Only failures that indicate the provider itself is unhealthy trip the
+ * breaker. Anthropic 529 (overloaded) and 5xx responses surface as
+ * PROVIDER_ERROR. Client-side errors (invalid request, content filter,
+ * bad API key) never open the circuit.
+ */
+export const CIRCUIT_BREAKER_ERROR_CODES: AIErrorCode[] = [
+  "PROVIDER_ERROR",
+  "TIMEOUT",
+];
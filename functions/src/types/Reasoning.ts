@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Reasoning (extended thinking) type definitions
+ * @module types/Reasoning
+ *
+ * @description
+ * Defines the provider-neutral reasoning option. It maps to Claude extended
+ * thinking (`thinking.budget_tokens`) and Gemini 2.5 thinking budgets
+ * (`thinkingConfig.thinkingBudget`). Who may use it, and with which budget,
+ * is decided by the plan entitlements (see PLAN_ENTITLEMENTS).
+ */
+
+/**
+ * Reasoning options sent with a request
+ *
+ * @interface ReasoningOptions
+ */
+export interface ReasoningOptions {
+  /** Maximum tokens the model may spend thinking before it answers */
+  budget_tokens: number;
+
+  /** Return the thinking text as `reasoning` (default false) */
+  include_thoughts?: boolean;
+}
+
+/**
+ * Smallest accepted budget (Claude's minimum for extended thinking)
+ */
+export const MIN_REASONING_BUDGET_TOKENS = 1024;
+
+/**
+ * Largest accepted budget (Gemini 2.5 Pro's maximum thinking budget)
+ */
+export const MAX_REASONING_BUDGET_TOKENS = 32768;
+
+/**
+ * Checks if a value is valid reasoning options
+ */
+export function isValidReasoningOptions(value: unknown): value is ReasoningOptions {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+
+  const options = value as ReasoningOptions;
+  return Number.isInteger(options.budget_tokens) &&
+    options.budget_tokens >= MIN_REASONING_BUDGET_TOKENS &&
+    options.budget_tokens <= MAX_REASONING_BUDGET_TOKENS &&
+    (options.include_thoughts === undefined || typeof options.include_thoughts === "boolean");
+}
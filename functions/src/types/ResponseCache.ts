@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Response cache type definitions
+ * @module types/ResponseCache
+ *
+ * @description
+ * Defines the opt-in cache of AI responses, so that identical requests
+ * (same model, prompts, files and sampling parameters) are answered from
+ * Firestore instead of paying the provider again.
+ */
+
+import { Timestamp } from "firebase-admin/firestore";
+import { BilledProviderName } from "./AIProvider";
+import { ToolCall } from "./Tools";
+
+/**
+ * Who can share a cached response
+ * - license: only requests from the same license
+ * - global: every license (for deterministic prompts)
+ */
+export type ResponseCacheScope = "license" | "global";
+
+/**
+ * Cache options sent with a request
+ *
+ * @interface ResponseCacheOptions
+ */
+export interface ResponseCacheOptions {
+  /** Sharing scope (default "license") */
+  scope?: ResponseCacheScope;
+
+  /** How long a stored response stays valid, in seconds (default 24h) */
+  ttl_seconds?: number;
+
+  /** Use the cache even when temperature > 0 */
+  force?: boolean;
+}
+
+/**
+ * Cached response document stored in Firestore
+ *
+ * @interface CachedResponse
+ *
+ * @description
+ * Document ID: the cache key (SHA-256 hex). The `expires_at` field has a
+ * Firestore TTL policy, expired entries are also ignored on read.
+ */
+export interface CachedResponse {
+  /** Cache key */
+  key: string;
+
+  /** Sharing scope */
+  scope: ResponseCacheScope;
+
+  /** License that stored the entry */
+  license_id: string;
+
+  /** Generated content */
+  content: string;
+
+  /** Parsed structured output, if any */
+  data?: Record<string, unknown>;
+
+  /** Tool calls the model requested, if any */
+  tool_calls?: ToolCall[];
+
+  /** Provider that generated the content */
+  model: BilledProviderName;
+
+  /** Model ID that generated the content */
+  model_id: string;
+
+  /** Tokens the original generation used */
+  tokens_input: number;
+  tokens_output: number;
+
+  /** Cost of the original generation (USD) */
+  cost_usd: number;
+
+  /** When the entry was stored */
+  created_at: Timestamp;
+
+  /** When the entry expires */
+  expires_at: Timestamp;
+}
+
+/**
+ * Valid cache scopes
+ */
+export const RESPONSE_CACHE_SCOPES: ResponseCacheScope[] = ["license", "global"];
+
+/**
+ * Default cache TTL (24 hours)
+ */
+export const DEFAULT_RESPONSE_CACHE_TTL_SECONDS = 86400;
+
+/**
+ * Maximum cache TTL (7 days)
+ */
+export const MAX_RESPONSE_CACHE_TTL_SECONDS = 604800;
+
+/**
+ * Checks if a value is valid cache options
+ */
+export function isValidResponseCacheOptions(value: unknown): value is ResponseCacheOptions {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+
+  const options = value as ResponseCacheOptions;
+  return (options.scope === undefined || RESPONSE_CACHE_SCOPES.includes(options.scope)) &&
+    (options.force === undefined || typeof options.force === "boolean") &&
+    (options.ttl_seconds === undefined ||
+      (Number.isInteger(options.ttl_seconds) &&
+        options.ttl_seconds > 0 &&
+        options.ttl_seconds <= MAX_RESPONSE_CACHE_TTL_SECONDS));
+}
@@ -7,7 +7,14 @@
  * AI generation requests with automatic provider fallback.
  */
 
-import { ProviderName, FileAttachment } from "./AIProvider";
+import { BilledProviderName, ProviderName, FileAttachment } from "./AIProvider";
+import { ModelLockPolicy } from "./ChatSession";
+import { ResponseSchema } from "./StructuredOutput";
+import { CodeSafetyMode } from "./CodeSafety";
+import { ResponseCacheOptions } from "./ResponseCache";
+import { ReasoningOptions } from "./Reasoning";
+import { ToolDefinition, ToolTurn } from "./Tools";
+import { MODEL_IDS } from "../config/models";
 
 /**
  * Supported task types for AI routing
@@ -58,7 +65,7 @@ export interface RouteRequest {
   system_prompt?: string;
 
   /**
-   * Optional temperature override (0-1)
+   * Optional temperature override (0-2, capped at 1 for Claude)
    */
   temperature?: number;
 
@@ -68,16 +75,75 @@ export interface RouteRequest {
   max_tokens?: number;
 
   /**
-   * Chat session ID for model locking
+   * Chat session ID
+   * History for this ID is kept server-side and sent with each new turn.
+   * The session is locked to the model that answers its first turn.
    */
   chat_id?: string;
 
+  /**
+   * What to do when a chat's locked model fails (default "fallback_once")
+   * Ignored without chat_id
+   */
+  model_lock_policy?: ModelLockPolicy;
+
   /**
    * File attachments for multimodal requests
-   * Supports images (JPEG, PNG, GIF, WebP), PDFs, and documents
+   * Supports images (JPEG, PNG, GIF, WebP) and PDFs natively; plain text,
+   * CSV, JSON, markdown and DOCX are sent as extracted text. Files a model
+   * cannot receive are listed in the response's `skipped_files`
    */
   files?: FileAttachment[];
 
+  /**
+   * Stream the response as Server-Sent Events instead of a single JSON body
+   * Emits `chunk` events as text arrives and a final `done` event with usage
+   */
+  stream?: boolean;
+
+  /**
+   * Schema the response must follow: a named schema ("execute_code") or a
+   * custom one. The parsed object is returned as `data` next to `content`.
+   * Not supported with `stream`
+   */
+  response_schema?: string | ResponseSchema;
+
+  /**
+   * What to do when the generated PHP has critical safety findings
+   * (default "block"). Streams can only be annotated
+   */
+  code_safety?: CodeSafetyMode;
+
+  /**
+   * Opt into the response cache (`true` for the defaults). Only used with
+   * `temperature: 0` unless `force` is set
+   */
+  cache?: boolean | ResponseCacheOptions;
+
+  /**
+   * Cache the system prompt and site context with the provider (Claude
+   * prompt caching). Cache reads are billed at a fraction of the input price
+   */
+  prompt_cache?: boolean;
+
+  /**
+   * Let the model think before answering (Claude extended thinking, Gemini
+   * thinking budgets). The budget is capped by the license plan
+   */
+  reasoning?: ReasoningOptions;
+
+  /**
+   * Tools the model may call instead of answering (not with stream or
+   * response_schema). The plugin runs the calls and sends the results back
+   */
+  tools?: ToolDefinition[];
+
+  /**
+   * Tool calls and results so far, oldest first, on follow-up calls of
+   * the tool loop (same prompt and tools as the first call)
+   */
+  tool_turns?: ToolTurn[];
+
   /**
    * Additional options passed from WordPress
    * May contain files under options.files for backwards compatibility
@@ -144,7 +210,7 @@ export type RouteResponse = RouteResponseSuccess | RouteResponseError;
  */
 export interface ProviderRouteConfig {
   /** Provider name */
-  provider: ProviderName;
+  provider: BilledProviderName;
 
   /** Model to use */
   model: string;
@@ -164,6 +230,13 @@ export interface TaskRouteConfig {
 
   /** Second fallback if first fallback fails */
   fallback2: ProviderRouteConfig;
+
+  /**
+   * Hedging threshold for interactive requests: if the first model has not
+   * answered after this many ms, the next one is started in parallel and
+   * the first to answer wins (off when omitted)
+   */
+  hedge_after_ms?: number;
 }
 
 /**
@@ -180,31 +253,69 @@ export type RoutingMatrix = Record<TaskType, TaskRouteConfig>;
  * - Fallback: Gemini Pro (backup when Claude is unavailable)
  *
  * This simplified routing ensures consistent quality across all task types
- * while maintaining reliability through automatic fallback.
+ * while maintaining reliability through automatic fallback. Model IDs come
+ * from config/models so every path calls the same models. Repeated entries
+ * in a chain are only tried once.
  */
 export const DEFAULT_ROUTING_MATRIX: RoutingMatrix = {
   TEXT_GEN: {
-    primary: { provider: "claude", model: "claude-opus-4-5-20251101" },
-    fallback1: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
-    fallback2: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
+    primary: { provider: "claude", model: MODEL_IDS.claude },
+    fallback1: { provider: "gemini", model: MODEL_IDS.gemini },
+    fallback2: { provider: "gemini", model: MODEL_IDS.gemini },
   },
   CODE_GEN: {
-    primary: { provider: "claude", model: "claude-opus-4-5-20251101" },
-    fallback1: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
-    fallback2: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
+    primary: { provider: "claude", model: MODEL_IDS.claude },
+    fallback1: { provider: "gemini", model: MODEL_IDS.gemini },
+    fallback2: { provider: "gemini", model: MODEL_IDS.gemini },
   },
   DESIGN_GEN: {
-    primary: { provider: "claude", model: "claude-opus-4-5-20251101" },
-    fallback1: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
-    fallback2: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
+    primary: { provider: "claude", model: MODEL_IDS.claude },
+    fallback1: { provider: "gemini", model: MODEL_IDS.gemini },
+    fallback2: { provider: "gemini", model: MODEL_IDS.gemini },
   },
   ECOMMERCE_GEN: {
-    primary: { provider: "claude", model: "claude-opus-4-5-20251101" },
-    fallback1: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
-    fallback2: { provider: "gemini", model: "gemini-2.5-pro-preview-05-06" },
+    primary: { provider: "claude", model: MODEL_IDS.claude },
+    fallback1: { provider: "gemini", model: MODEL_IDS.gemini },
+    fallback2: { provider: "gemini", model: MODEL_IDS.gemini },
   },
 };
 
+/**
+ * Routing override document in the Firestore routing_config collection
+ *
+ * @interface RoutingConfigDocument
+ *
+ * @description
+ * The document ID is either "default" (applies to every plan) or a
+ * LicensePlan ("starter", "pro", "enterprise"). Only the task types
+ * present in `matrix` are overridden; the rest keep DEFAULT_ROUTING_MATRIX.
+ *
+ * @example
+ * ```typescript
+ * // routing_config/starter
+ * {
+ *   matrix: {
+ *     TEXT_GEN: {
+ *       primary: { provider: "gemini", model: "gemini-2.5-flash-preview-05-20" },
+ *       fallback1: { provider: "claude", model: "claude-sonnet-4-20250514" },
+ *       fallback2: { provider: "openai", model: "gpt-4o-mini" },
+ *       hedge_after_ms: 8000
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface RoutingConfigDocument {
+  /** Per-task routing overrides */
+  matrix: Partial<RoutingMatrix>;
+
+  /** Last update timestamp */
+  updated_at?: FirebaseFirestore.Timestamp;
+
+  /** Who made the last change */
+  updated_by?: string;
+}
+
 /**
  * Valid task types for validation
  */
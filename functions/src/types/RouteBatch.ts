@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Batch route request type definitions
+ * @module types/RouteBatch
+ *
+ * @description
+ * Types for the route-batch endpoint, which runs several short
+ * generations (e.g. meta descriptions for a list of posts) in one call:
+ * one authentication, one rate-limit hit and one quota check for the
+ * whole batch, with results per item.
+ */
+
+import { BilledProviderName, SkippedFile } from "./AIProvider";
+import { CodeSafetyReport } from "./CodeSafety";
+import { FieldError } from "./ApiSchema";
+import { RouteRequest } from "./Route";
+
+/**
+ * Maximum items in one batch
+ */
+export const MAX_BATCH_ITEMS = 20;
+
+/**
+ * Items generated at the same time
+ */
+export const BATCH_CONCURRENCY = 4;
+
+/**
+ * RouteRequest fields that are not supported in a batch
+ *
+ * @description
+ * Chats, streams and tool loops need a response per call.
+ */
+export const UNSUPPORTED_BATCH_FIELDS = [
+  "stream",
+  "chat_id",
+  "model_lock_policy",
+  "tools",
+  "tool_turns",
+] as const;
+
+/**
+ * A batch item: a route request without the per-call features
+ */
+export type RouteBatchItem = Omit<RouteRequest, (typeof UNSUPPORTED_BATCH_FIELDS)[number]>;
+
+/**
+ * Request body for the route-batch endpoint
+ *
+ * @interface RouteBatchRequest
+ */
+export interface RouteBatchRequest {
+  /** Items to generate, 1 to MAX_BATCH_ITEMS */
+  items: RouteBatchItem[];
+}
+
+/**
+ * Result of one batch item
+ *
+ * @interface RouteBatchItemResult
+ *
+ * @description
+ * Successful items carry the same fields as a route-request answer; failed
+ * or invalid items carry `error` and `code` (the route-request error codes).
+ */
+export interface RouteBatchItemResult {
+  /** Position of the item in the request */
+  index: number;
+
+  /** Whether the item was generated */
+  success: boolean;
+
+  /** Generated content */
+  content?: string;
+
+  /** Provider that answered (or the first tried, when all failed) */
+  model?: BilledProviderName;
+
+  /** Model ID that answered */
+  model_id?: string;
+
+  /** Whether a fallback model answered */
+  used_fallback?: boolean;
+
+  /** Tokens used (input + output) */
+  tokens_used?: number;
+
+  /** Cost in USD */
+  cost_usd?: number;
+
+  /** Latency in milliseconds */
+  latency_ms?: number;
+
+  /** Parsed structured output, with response_schema */
+  data?: Record<string, unknown>;
+
+  /** Whether the answer came from the response cache */
+  cache_hit?: boolean;
+
+  /** Safety findings of generated PHP */
+  code_safety?: CodeSafetyReport;
+
+  /** Attachments the model could not receive */
+  skipped_files?: SkippedFile[];
+
+  /** Error message, when the item failed */
+  error?: string;
+
+  /** Error code, when the item failed */
+  code?: string;
+
+  /** Failing fields, when the item was invalid */
+  details?: FieldError[];
+}
+
+/**
+ * Totals of a batch
+ *
+ * @interface RouteBatchSummary
+ */
+export interface RouteBatchSummary {
+  /** Items in the batch */
+  items: number;
+
+  /** Items generated */
+  succeeded: number;
+
+  /** Items that failed or were invalid */
+  failed: number;
+
+  /** Tokens used by every item */
+  tokens_used: number;
+
+  /** Cost in USD of every item */
+  cost_usd: number;
+
+  /** Time of the whole batch in milliseconds */
+  latency_ms: number;
+}
+
+/**
+ * Response of the route-batch endpoint
+ *
+ * @interface RouteBatchResponse
+ */
+export interface RouteBatchResponse {
+  /** True once the batch ran, whatever the outcome of each item */
+  success: true;
+
+  /** One result per item, in request order */
+  results: RouteBatchItemResult[];
+
+  /** Totals of the batch */
+  summary: RouteBatchSummary;
+}
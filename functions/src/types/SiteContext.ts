@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Site context type definitions
+ * @module types/SiteContext
+ *
+ * @description
+ * Defines the rendered form of the site context the WordPress plugin sends
+ * with each request (site info, theme, active plugins, WP/PHP versions),
+ * which is injected into the system prompt.
+ */
+
+/**
+ * A plugin as listed in the rendered context
+ *
+ * @interface SiteContextPlugin
+ */
+export interface SiteContextPlugin {
+  /** Display name */
+  name: string;
+
+  /** Installed version, if known */
+  version?: string;
+
+  /** Whether the plugin is active */
+  active: boolean;
+}
+
+/**
+ * Result of rendering a site context
+ *
+ * @interface RenderedSiteContext
+ */
+export interface RenderedSiteContext {
+  /** Prompt section, empty when the context had nothing usable */
+  text: string;
+
+  /** Estimated tokens used by the section */
+  tokens: number;
+
+  /** Plugins left out to stay within the token budget */
+  omitted_plugins: number;
+}
+
+/**
+ * Default token budget for the rendered site context
+ */
+export const SITE_CONTEXT_TOKEN_BUDGET = 800;
+
+/**
+ * Plugins listed first when the plugin list has to be truncated
+ *
+ * @description
+ * Matched case-insensitively against plugin names and integration keys.
+ * These are the plugins generated code most often calls into.
+ */
+export const PRIORITY_PLUGINS = [
+  "woocommerce",
+  "elementor",
+  "advanced custom fields",
+  "acf",
+  "rank math",
+  "wpcode",
+  "yoast",
+  "wpml",
+  "polylang",
+  "contact form 7",
+  "wpforms",
+  "litespeed",
+];
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Structured output type definitions
+ * @module types/StructuredOutput
+ *
+ * @description
+ * Defines the response schemas a request can ask the model to follow, and
+ * the result of extracting and validating JSON from a model response.
+ * Schemas use a JSON Schema subset that every provider's native structured
+ * output mode understands (Claude tool input, Gemini responseSchema,
+ * OpenAI json_schema).
+ */
+
+/**
+ * JSON types supported in a schema
+ */
+export type JsonSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean";
+
+/**
+ * JSON Schema subset used for structured output
+ *
+ * @interface JsonSchema
+ */
+export interface JsonSchema {
+  /** Value type */
+  type: JsonSchemaType;
+
+  /** Description shown to the model */
+  description?: string;
+
+  /** Object properties */
+  properties?: Record<string, JsonSchema>;
+
+  /** Required object properties */
+  required?: string[];
+
+  /** Array item schema */
+  items?: JsonSchema;
+
+  /** Allowed string values */
+  enum?: string[];
+}
+
+/**
+ * Named schema a response must follow
+ *
+ * @interface ResponseSchema
+ */
+export interface ResponseSchema {
+  /** Schema name, used as the Claude tool name (letters, digits, '_' or '-') */
+  name: string;
+
+  /** What the structured response represents */
+  description?: string;
+
+  /** Schema of the response object */
+  schema: JsonSchema;
+}
+
+/**
+ * Result of extracting and validating structured output
+ *
+ * @interface StructuredOutputResult
+ */
+export interface StructuredOutputResult {
+  /** Whether valid JSON matching the schema was found */
+  valid: boolean;
+
+  /** Parsed object when valid */
+  data?: Record<string, unknown>;
+
+  /** Validation errors, e.g. "details.code: is required" */
+  errors: string[];
+}
+
+/**
+ * Schema of the execute_code action the default system prompt asks for
+ */
+export const EXECUTE_CODE_SCHEMA: ResponseSchema = {
+  name: "execute_code",
+  description: "PHP code to execute on the WordPress site, with a message for the user",
+  schema: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["execute_code"] },
+      target: { type: "string", description: "Execution target, usually \"system\"" },
+      details: {
+        type: "object",
+        properties: {
+          description: { type: "string", description: "What the code does" },
+          code: { type: "string", description: "PHP code without opening <?php tags" },
+          estimated_risk: { type: "string", enum: ["low", "medium", "high"] },
+        },
+        required: ["description", "code", "estimated_risk"],
+      },
+      message: { type: "string", description: "Response to the user, in their language" },
+    },
+    required: ["type", "target", "details", "message"],
+  },
+};
+
+/**
+ * Named schemas a client can request by name
+ */
+export const RESPONSE_SCHEMAS: Record<string, ResponseSchema> = {
+  execute_code: EXECUTE_CODE_SCHEMA,
+};
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Tool calling type definitions
+ * @module types/Tools
+ *
+ * @description
+ * Defines provider-neutral tool (function) calling. The WordPress plugin
+ * declares tools such as "get_post" or "run_wp_query", the model answers
+ * with tool calls instead of one blob of PHP, the plugin runs them locally
+ * and sends the results back on the next request. Each provider maps these
+ * types to its own API (Anthropic tools, Gemini functionDeclarations,
+ * OpenAI tools).
+ */
+
+import { JsonSchema } from "./StructuredOutput";
+
+/**
+ * Tool the model may call
+ *
+ * @interface ToolDefinition
+ */
+export interface ToolDefinition {
+  /** Tool name (letters, digits, '_' or '-', max 64 chars) */
+  name: string;
+
+  /** What the tool does, shown to the model */
+  description: string;
+
+  /** Schema of the tool arguments (an object schema) */
+  parameters: JsonSchema;
+}
+
+/**
+ * Tool call requested by the model
+ *
+ * @interface ToolCall
+ */
+export interface ToolCall {
+  /** Call ID, echoed back in the matching ToolResult */
+  id: string;
+
+  /** Name of the tool to run */
+  name: string;
+
+  /** Arguments, following the tool parameters schema */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Result of a tool call run by the client
+ *
+ * @interface ToolResult
+ */
+export interface ToolResult {
+  /** ID of the ToolCall this answers */
+  tool_call_id: string;
+
+  /** Name of the tool that ran */
+  name: string;
+
+  /** Tool output (JSON or plain text) */
+  content: string;
+
+  /** Whether the tool failed (content is then the error message) */
+  is_error?: boolean;
+}
+
+/**
+ * One round of the tool loop, sent back by the client on follow-up calls
+ *
+ * @interface ToolTurn
+ */
+export interface ToolTurn {
+  /** Text the model returned alongside its tool calls */
+  content?: string;
+
+  /** Tool calls the model requested */
+  tool_calls: ToolCall[];
+
+  /** Results of those calls, one per call */
+  tool_results: ToolResult[];
+}
+
+/**
+ * Maximum tools per request
+ */
+export const MAX_TOOLS = 32;
+
+/**
+ * Maximum tool turns per request (bounds the tool loop)
+ */
+export const MAX_TOOL_TURNS = 10;
@@ -9,5 +9,16 @@ export * from "./JWTClaims";
 export * from "./APIResponse";
 export * from "./AIProvider";
 export * from "./Route";
+export * from "./RouteBatch";
 export * from "./Job";
 export * from "./Analytics";
+export * from "./ProviderHealth";
+export * from "./ChatSession";
+export * from "./SiteContext";
+export * from "./StructuredOutput";
+export * from "./CodeSafety";
+export * from "./ResponseCache";
+export * from "./Reasoning";
+export * from "./Tools";
+export * from "./MockProvider";
+export * from "./ApiSchema";
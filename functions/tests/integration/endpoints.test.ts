@@ -7,6 +7,11 @@
  * Verifies:
  * - POST /api/auth/validate-license with test license
  * - POST /api/ai/route-request with model and prompt
+ * - POST /api/ai/route-batch with several items
+ * - POST /api/ai/embed metering
+ * - Field-level details in the validation error envelope
+ * - /v1 and legacy /api routing through the API gateway
+ * - Idempotency-Key replays
  */
 
 import { Request } from 'firebase-functions/v2/https';
@@ -31,6 +36,11 @@ type MockResponse = {
   json: jest.Mock;
   setHeader: jest.Mock;
   send: jest.Mock;
+  write?: jest.Mock;
+  end?: jest.Mock;
+  flushHeaders?: jest.Mock;
+  on?: jest.Mock;
+  writableEnded?: boolean;
 };
 
 // Mock firebase-functions/v2/https before any imports
@@ -38,11 +48,21 @@ jest.mock('firebase-functions/v2/https', () => ({
   onRequest: jest.fn((options, handler) => handler),
 }));
 
+// Mock the v1 builder of the plugin docs functions (served by the gateway)
+jest.mock('firebase-functions', () => {
+  const builder = {
+    runWith: () => builder,
+    https: { onRequest: (handler: unknown) => handler },
+  };
+  return { region: () => builder };
+});
+
 // Mock secrets
 jest.mock('../../src/lib/secrets', () => ({
   jwtSecret: { value: () => 'test-jwt-secret' },
   geminiApiKey: { value: () => 'test-gemini-key' },
   claudeApiKey: { value: () => 'test-claude-key' },
+  openaiApiKey: { value: () => 'test-openai-key' },
 }));
 
 // Mock Firestore
@@ -55,6 +75,13 @@ jest.mock('../../src/lib/firestore', () => ({
   checkAndIncrementRateLimit: jest.fn(),
   incrementTokensUsed: jest.fn(),
   updateCostTracking: jest.fn(),
+  getChatSession: jest.fn(),
+  appendChatMessages: jest.fn(),
+  listChatSessions: jest.fn(),
+  deleteChatSession: jest.fn(),
+  claimIdempotencyKey: jest.fn(),
+  completeIdempotencyKey: jest.fn(),
+  releaseIdempotencyKey: jest.fn(),
 }));
 
 // Mock JWT
@@ -91,6 +118,13 @@ jest.mock('../../src/services/modelService', () => ({
   })),
 }));
 
+// Mock EmbeddingService
+jest.mock('../../src/services/embeddingService', () => ({
+  EmbeddingService: jest.fn().mockImplementation(() => ({
+    embed: jest.fn(),
+  })),
+}));
+
 // Mock aiRouter
 jest.mock('../../src/services/aiRouter', () => ({
   sanitizePrompt: jest.fn((prompt) => prompt),
@@ -119,6 +153,7 @@ import * as firestore from '../../src/lib/firestore';
 import { processLicenseValidation } from '../../src/services/licensing';
 import { authenticateRequest } from '../../src/middleware/auth';
 import { ModelService } from '../../src/services/modelService';
+import { EmbeddingService } from '../../src/services/embeddingService';
 
 describe('Integration Tests - API Endpoints', () => {
   let mockRequest: MockRequest;
@@ -166,6 +201,7 @@ describe('Integration Tests - API Endpoints', () => {
       json: mockJson,
       setHeader: mockSetHeader,
       send: mockSend,
+      on: jest.fn(),
     };
   });
 
@@ -227,6 +263,29 @@ describe('Integration Tests - API Endpoints', () => {
       );
     });
 
+    it('should list each missing field in the error details', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.body = {};
+
+      const { validateLicense } = await import('../../src/api/auth/validateLicense');
+
+      // Act
+      await validateLicense(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'MISSING_FIELDS',
+          details: [
+            { field: 'license_key', code: 'MISSING_FIELDS', message: 'license_key is required' },
+            { field: 'site_url', code: 'MISSING_FIELDS', message: 'site_url is required' },
+          ],
+        })
+      );
+    });
+
     it('should return 405 for non-POST method', async () => {
       // Arrange
       mockRequest.method = 'GET';
@@ -331,6 +390,112 @@ describe('Integration Tests - API Endpoints', () => {
       );
     });
 
+    it('should record the cost of the losing call of a hedged request', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Generate a WordPress blog post about SEO',
+      };
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'Generated content about SEO...',
+          model: 'gemini',
+          model_id: 'gemini-2.5-pro',
+          used_fallback: true,
+          tokens_input: 100,
+          tokens_output: 500,
+          total_tokens: 600,
+          cost_usd: 0.005,
+          latency_ms: 9500,
+          hedge_loser: {
+            model: 'claude',
+            model_id: 'claude-opus-4-5-20251101',
+            tokens_input: 100,
+            tokens_output: 0,
+            cost_usd: 0.0005,
+            latency_ms: 9500,
+            cancelled: true,
+          },
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(expect.objectContaining({ hedge: true }));
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(firestore.updateCostTracking).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ', 'claude', 100, 0, 0.0005
+      );
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledTimes(1);
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        provider_used: 'claude',
+        status: 'failed',
+        cost_usd: 0.0005,
+        metadata: expect.objectContaining({ hedge_loser: true, cancelled: true }),
+      }));
+    });
+
+    it('should return 504 when no model answered before the deadline', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Generate a WordPress blog post about SEO',
+        model: 'gemini',
+      };
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: false,
+          content: '',
+          model: 'gemini',
+          model_id: 'gemini-2.5-pro',
+          used_fallback: false,
+          tokens_input: 0,
+          tokens_output: 0,
+          total_tokens: 0,
+          cost_usd: 0,
+          latency_ms: 110000,
+          error: 'Request deadline exceeded. Primary: Request was aborted.',
+          error_code: 'DEADLINE_EXCEEDED',
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          deadline: expect.any(Number),
+          signal: expect.any(AbortSignal),
+        })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(504);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, code: 'DEADLINE_EXCEEDED' })
+      );
+    });
+
     it('should return 401 for missing authorization', async () => {
       // Arrange
       mockRequest.method = 'POST';
@@ -406,6 +571,36 @@ describe('Integration Tests - API Endpoints', () => {
       );
     });
 
+    it('should report every invalid field in the error details', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: '',
+        temperature: 3,
+        max_tokens: 0,
+      };
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: false,
+        error: 'prompt must not be empty',
+        code: 'INVALID_PROMPT',
+        details: [
+          { field: 'prompt', code: 'INVALID_PROMPT', message: 'prompt must not be empty' },
+          { field: 'temperature', code: 'INVALID_REQUEST', message: 'temperature must be between 0 and 2' },
+          { field: 'max_tokens', code: 'INVALID_REQUEST', message: expect.stringContaining('max_tokens must be between 1 and') },
+        ],
+      });
+    });
+
     it('should return 429 when rate limited', async () => {
       // Arrange
       mockRequest.method = 'POST';
@@ -504,5 +699,1900 @@ describe('Integration Tests - API Endpoints', () => {
       // Assert
       expect(mockStatus).toHaveBeenCalledWith(503);
     });
+
+    it('should stream chunks and a final done event when stream is true', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Test prompt',
+        model: 'gemini',
+        stream: true,
+      };
+
+      const mockWrite = jest.fn();
+      const mockEnd = jest.fn();
+      mockResponse.write = mockWrite;
+      mockResponse.end = mockEnd;
+      mockResponse.flushHeaders = jest.fn();
+
+      const mockModelService = {
+        generateStream: jest.fn().mockImplementation(async (_request, onChunk) => {
+          onChunk('Hello ');
+          onChunk('world');
+          return {
+            success: true,
+            content: 'Hello world',
+            model: 'gemini',
+            model_id: 'gemini-2.5-pro',
+            used_fallback: false,
+            tokens_input: 100,
+            tokens_output: 500,
+            total_tokens: 600,
+            cost_usd: 0.005,
+            latency_ms: 1500,
+          };
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockSetHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+      expect(mockWrite).toHaveBeenNthCalledWith(1, 'event: chunk\ndata: {"text":"Hello "}\n\n');
+      expect(mockWrite).toHaveBeenNthCalledWith(2, 'event: chunk\ndata: {"text":"world"}\n\n');
+      expect(mockWrite.mock.calls[2][0]).toContain('event: done');
+      expect(mockWrite.mock.calls[2][0]).toContain('"tokens_used":600');
+      expect(mockEnd).toHaveBeenCalled();
+      expect(mockJson).not.toHaveBeenCalled();
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 600);
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'success' })
+      );
+    });
+
+    it('should bill a stream that broke after the first chunk before the error event', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Test prompt',
+        model: 'gemini',
+        stream: true,
+      };
+
+      const mockWrite = jest.fn();
+      const mockEnd = jest.fn();
+      mockResponse.write = mockWrite;
+      mockResponse.end = mockEnd;
+      mockResponse.flushHeaders = jest.fn();
+
+      // Usage estimated by ModelService from the streamed text
+      const mockModelService = {
+        generateStream: jest.fn().mockImplementation(async (_request, onChunk) => {
+          onChunk('Hello ');
+          return {
+            success: false,
+            content: '',
+            model: 'gemini',
+            model_id: 'gemini-2.5-pro',
+            used_fallback: false,
+            tokens_input: 100,
+            tokens_output: 2,
+            total_tokens: 102,
+            cost_usd: 0.0002,
+            latency_ms: 800,
+            error: 'Stream error',
+            error_code: 'PROVIDER_ERROR',
+          };
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockWrite.mock.calls[1][0]).toContain('event: error');
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 102);
+      expect((firestore.incrementTokensUsed as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan(mockWrite.mock.invocationCallOrder[1]);
+      expect(firestore.updateCostTracking).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ', 'gemini', 100, 2, 0.0002, undefined
+      );
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'failed',
+          tokens_output: 2,
+          metadata: expect.objectContaining({ stream_interrupted: true }),
+        })
+      );
+      expect(mockJson).not.toHaveBeenCalled();
+    });
+
+    it('should send an error event instead of done when streamed code is blocked', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = { task_type: 'CODE_GEN', prompt: 'List the server files', stream: true };
+
+      const content = JSON.stringify({
+        type: 'execute_code',
+        target: 'system',
+        details: { description: 'List files', code: "echo shell_exec('ls -la');", estimated_risk: 'low' },
+        message: 'Here are the files.',
+      });
+      const mockWrite = jest.fn();
+      const mockEnd = jest.fn();
+      mockResponse.write = mockWrite;
+      mockResponse.end = mockEnd;
+      mockResponse.flushHeaders = jest.fn();
+
+      const mockModelService = {
+        generateStream: jest.fn().mockImplementation(async (_request, onChunk) => {
+          onChunk(content);
+          return {
+            success: true,
+            content,
+            model: 'claude',
+            model_id: 'claude-opus-4-5-20251101',
+            used_fallback: false,
+            tokens_input: 100,
+            tokens_output: 200,
+            total_tokens: 300,
+            cost_usd: 0.01,
+            latency_ms: 1500,
+          };
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      const events = mockWrite.mock.calls.map(([event]) => event as string);
+      expect(events).toHaveLength(2);
+      expect(events[1]).toContain('event: error');
+      expect(events[1]).toContain('"code":"UNSAFE_CODE"');
+      expect(events.some((event) => event.includes('event: done'))).toBe(false);
+      expect(mockEnd).toHaveBeenCalled();
+      expect(mockJson).not.toHaveBeenCalled();
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 300);
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', error_message: 'Generated code failed the safety check' })
+      );
+    });
+
+    it('should send chat history and store the new turn when chat_id is given', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'And in Italian?',
+        model: 'claude',
+        chat_id: 'chat_123',
+      };
+
+      (firestore.getChatSession as jest.Mock).mockResolvedValue({
+        chat_id: 'chat_123',
+        license_id: 'CREATOR-2024-ABCDE-FGHIJ',
+        messages: [
+          { role: 'user', content: 'Write a tagline', created_at: Timestamp.now() },
+          { role: 'assistant', content: 'Build faster', created_at: Timestamp.now(), model: 'claude' },
+        ],
+        message_count: 2,
+        created_at: Timestamp.now(),
+        updated_at: Timestamp.now(),
+      });
+      (firestore.appendChatMessages as jest.Mock).mockResolvedValue('claude');
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'Costruisci più veloce',
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 100,
+          tokens_output: 20,
+          total_tokens: 120,
+          cost_usd: 0.003,
+          latency_ms: 900,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: 'And in Italian?',
+          messages: [
+            { role: 'user', content: 'Write a tagline' },
+            { role: 'assistant', content: 'Build faster' },
+          ],
+        })
+      );
+      expect(firestore.appendChatMessages).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ',
+        'chat_123',
+        [
+          expect.objectContaining({ role: 'user', content: 'And in Italian?' }),
+          expect.objectContaining({ role: 'assistant', content: 'Costruisci più veloce', model: 'claude' }),
+        ],
+        'claude',
+        false
+      );
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model_lock: { locked_model: 'claude', policy: 'fallback_once', changed: true },
+        })
+      );
+    });
+
+    it('should keep a locked chat on its model and honour the fail policy', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Shorter please',
+        model: 'gemini',
+        chat_id: 'chat_123',
+        model_lock_policy: 'fail',
+      };
+
+      (firestore.getChatSession as jest.Mock).mockResolvedValue({
+        chat_id: 'chat_123',
+        license_id: 'CREATOR-2024-ABCDE-FGHIJ',
+        messages: [],
+        message_count: 2,
+        locked_model: 'claude',
+        created_at: Timestamp.now(),
+        updated_at: Timestamp.now(),
+      });
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: false,
+          content: '',
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 0,
+          tokens_output: 0,
+          total_tokens: 0,
+          cost_usd: 0,
+          latency_ms: 500,
+          error: 'Provider unavailable',
+          error_code: 'PROVIDER_ERROR',
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'claude', allow_fallback: false })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(503);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'claude',
+          model_lock: { locked_model: 'claude', policy: 'fail', changed: false },
+        })
+      );
+      expect(firestore.appendChatMessages).not.toHaveBeenCalled();
+    });
+
+    it('should relock a chat to the fallback model with the relock policy', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Shorter please',
+        chat_id: 'chat_123',
+        model_lock_policy: 'relock',
+      };
+
+      (firestore.getChatSession as jest.Mock).mockResolvedValue({
+        chat_id: 'chat_123',
+        license_id: 'CREATOR-2024-ABCDE-FGHIJ',
+        messages: [],
+        message_count: 2,
+        locked_model: 'claude',
+        created_at: Timestamp.now(),
+        updated_at: Timestamp.now(),
+      });
+      (firestore.appendChatMessages as jest.Mock).mockResolvedValue('gemini');
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'Build fast',
+          model: 'gemini',
+          model_id: 'gemini-3-pro-preview',
+          used_fallback: true,
+          tokens_input: 100,
+          tokens_output: 20,
+          total_tokens: 120,
+          cost_usd: 0.001,
+          latency_ms: 900,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'claude', allow_fallback: true })
+      );
+      expect(firestore.appendChatMessages).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ',
+        'chat_123',
+        expect.any(Array),
+        'gemini',
+        true
+      );
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model_lock: { locked_model: 'gemini', policy: 'relock', changed: true },
+        })
+      );
+    });
+
+    it('should store the turn of a new chat answered by a provider that cannot be locked', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Write a tagline',
+        chat_id: 'chat_new',
+      };
+
+      (firestore.getChatSession as jest.Mock).mockResolvedValue(null);
+      (firestore.appendChatMessages as jest.Mock).mockResolvedValue(undefined);
+
+      // OPENAI_MODELS is unset, so sessions cannot be locked to openai
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'Build faster',
+          model: 'openai',
+          model_id: 'gpt-4o',
+          used_fallback: true,
+          tokens_input: 100,
+          tokens_output: 20,
+          total_tokens: 120,
+          cost_usd: 0.001,
+          latency_ms: 900,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(firestore.appendChatMessages).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ',
+        'chat_new',
+        [
+          expect.objectContaining({ role: 'user', content: 'Write a tagline' }),
+          expect.objectContaining({ role: 'assistant', content: 'Build faster', model: 'openai' }),
+        ],
+        undefined,
+        false
+      );
+      expect(mockJson.mock.calls[0][0]).not.toHaveProperty('model_lock');
+    });
+
+    it('should keep the lock stored by a concurrent first turn', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Write a tagline',
+        chat_id: 'chat_new',
+      };
+
+      // The session did not exist when the turn started, another turn locked it to gemini
+      (firestore.getChatSession as jest.Mock).mockResolvedValue(null);
+      (firestore.appendChatMessages as jest.Mock).mockResolvedValue('gemini');
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'Build faster',
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 100,
+          tokens_output: 20,
+          total_tokens: 120,
+          cost_usd: 0.003,
+          latency_ms: 900,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(firestore.appendChatMessages).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ',
+        'chat_new',
+        expect.any(Array),
+        'claude',
+        false
+      );
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'claude',
+          model_lock: { locked_model: 'gemini', policy: 'fallback_once', changed: false },
+        })
+      );
+    });
+
+    it('should return 400 for an invalid model_lock_policy', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Hello',
+        chat_id: 'chat_123',
+        model_lock_policy: 'sometimes',
+      };
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INVALID_MODEL_LOCK_POLICY' })
+      );
+    });
+
+    it('should return 400 for an invalid chat_id', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Hello',
+        chat_id: '../other-license',
+      };
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INVALID_CHAT_ID' })
+      );
+    });
+
+    it('should resolve a named response_schema and return the parsed data', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'CODE_GEN',
+        prompt: 'Show the site title',
+        response_schema: 'execute_code',
+      };
+
+      const action = {
+        type: 'execute_code',
+        target: 'system',
+        details: { description: 'Show site title', code: "echo get_bloginfo('name');", estimated_risk: 'low' },
+        message: 'Done.',
+      };
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: JSON.stringify(action),
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 100,
+          tokens_output: 200,
+          total_tokens: 300,
+          cost_usd: 0.01,
+          latency_ms: 1500,
+          data: action,
+          repaired: true,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          response_schema: expect.objectContaining({ name: 'execute_code' }),
+        })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ data: action, repaired: true })
+      );
+    });
+
+    it('should block an execute_code answer with forbidden PHP', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = { task_type: 'CODE_GEN', prompt: 'List the server files' };
+
+      const content = JSON.stringify({
+        type: 'execute_code',
+        target: 'system',
+        details: { description: 'List files', code: "echo shell_exec('ls -la');", estimated_risk: 'low' },
+        message: 'Here are the files.',
+      });
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content,
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 100,
+          tokens_output: 200,
+          total_tokens: 300,
+          cost_usd: 0.01,
+          latency_ms: 1500,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledWith(validClaims.license_id, 300);
+      expect(mockStatus).toHaveBeenCalledWith(422);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          code: 'UNSAFE_CODE',
+          code_safety: expect.objectContaining({
+            blocked: true,
+            risk: 'high',
+            reported_risk: 'low',
+            findings: [expect.objectContaining({ rule: 'forbidden_function' })],
+          }),
+        })
+      );
+      expect(mockJson).not.toHaveBeenCalledWith(expect.objectContaining({ content }));
+    });
+
+    it('should attach findings and the recomputed risk in annotate mode', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'CODE_GEN',
+        prompt: 'Delete the draft',
+        response_schema: 'execute_code',
+        code_safety: 'annotate',
+      };
+
+      const action = {
+        type: 'execute_code',
+        target: 'system',
+        details: { description: 'Delete draft', code: 'wp_delete_post(42, true);', estimated_risk: 'low' },
+        message: 'Deleted.',
+      };
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: JSON.stringify(action),
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 100,
+          tokens_output: 200,
+          total_tokens: 300,
+          cost_usd: 0.01,
+          latency_ms: 1500,
+          data: action,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { ...action, details: { ...action.details, estimated_risk: 'high' } },
+          code_safety: expect.objectContaining({
+            blocked: false,
+            risk: 'high',
+            findings: [expect.objectContaining({ rule: 'destructive_call', line: 1 })],
+          }),
+        })
+      );
+    });
+
+    it('should return 400 for an invalid code_safety mode', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = { task_type: 'CODE_GEN', prompt: 'Hello', code_safety: 'off' };
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INVALID_CODE_SAFETY_MODE' })
+      );
+    });
+
+    it('should return 400 for an unknown response_schema or one combined with stream', async () => {
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+
+      for (const body of [
+        { task_type: 'CODE_GEN', prompt: 'Hello', response_schema: 'toString' },
+        { task_type: 'CODE_GEN', prompt: 'Hello', response_schema: 'execute_code', stream: true },
+      ]) {
+        // Arrange
+        mockRequest.body = body;
+        mockStatus.mockClear();
+
+        // Act
+        await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+        // Assert
+        expect(mockStatus).toHaveBeenCalledWith(400);
+        expect(mockJson).toHaveBeenLastCalledWith(
+          expect.objectContaining({ code: 'INVALID_RESPONSE_SCHEMA' })
+        );
+      }
+    });
+
+    it('should pass cache options and audit cache hits with zero cost', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'TEXT_GEN',
+        prompt: 'Describe a blue mug',
+        temperature: 0,
+        cache: true,
+      };
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'A sturdy blue mug.',
+          model: 'gemini',
+          model_id: 'gemini-2.5-pro',
+          used_fallback: false,
+          tokens_input: 0,
+          tokens_output: 0,
+          total_tokens: 0,
+          cost_usd: 0,
+          latency_ms: 12,
+          cache_hit: true,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ temperature: 0, cache: {} })
+      );
+      expect(firestore.incrementTokensUsed).not.toHaveBeenCalled();
+      expect(firestore.updateCostTracking).not.toHaveBeenCalled();
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cost_usd: 0,
+          tokens_input: 0,
+          tokens_output: 0,
+          metadata: expect.objectContaining({ cache_hit: true }),
+        })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, cache_hit: true, cost_usd: 0 })
+      );
+    });
+
+    it('should forward prompt_cache and record cached tokens and savings', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = { task_type: 'TEXT_GEN', prompt: 'Hello', model: 'claude', prompt_cache: true };
+
+      const promptCache = { write_tokens: 0, read_tokens: 1800, savings_usd: 0.0243 };
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'Hi!',
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 2000,
+          tokens_output: 100,
+          total_tokens: 2100,
+          cost_usd: 0.0132,
+          latency_ms: 900,
+          prompt_cache: promptCache,
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt_cache: true })
+      );
+      expect(firestore.updateCostTracking).toHaveBeenCalledWith(
+        validClaims.license_id, 'claude', 2000, 100, 0.0132, promptCache
+      );
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cost_usd: 0.0132,
+          metadata: expect.objectContaining({ prompt_cache: promptCache }),
+        })
+      );
+    });
+
+    it('should forward reasoning within the plan budget and return the thinking', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'CODE_GEN',
+        prompt: 'Migrate the WooCommerce orders',
+        reasoning: { budget_tokens: 8192, include_thoughts: true },
+      };
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: 'Migration plan',
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 500,
+          tokens_output: 3500,
+          total_tokens: 4000,
+          cost_usd: 0.27,
+          latency_ms: 9000,
+          tokens_reasoning: 3000,
+          reasoning: 'Check the order tables first.',
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ reasoning: { budget_tokens: 8192, include_thoughts: true } })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tokens_used: 4000,
+          tokens_reasoning: 3000,
+          reasoning: 'Check the order tables first.',
+        })
+      );
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ metadata: expect.objectContaining({ tokens_reasoning: 3000 }) })
+      );
+    });
+
+    it('should return 403 when the plan does not allow the reasoning budget', async () => {
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+
+      for (const [plan, budget] of [['starter', 1024], ['pro', 32768]] as const) {
+        // Arrange
+        (firestore.getLicenseByKey as jest.Mock).mockResolvedValue({ ...createMockLicense(), plan });
+        mockRequest.body = { task_type: 'CODE_GEN', prompt: 'Hello', reasoning: { budget_tokens: budget } };
+        mockStatus.mockClear();
+
+        // Act
+        await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+        // Assert
+        expect(mockStatus).toHaveBeenCalledWith(403);
+        expect(mockJson).toHaveBeenLastCalledWith(
+          expect.objectContaining({ code: 'REASONING_NOT_ALLOWED' })
+        );
+      }
+      expect(ModelService).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid reasoning options', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = { task_type: 'CODE_GEN', prompt: 'Hello', reasoning: { budget_tokens: 100 } };
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INVALID_REASONING' })
+      );
+    });
+
+    it('should continue the tool loop with tool_turns and return new tool calls', async () => {
+      // Arrange
+      const tools = [
+        { name: 'get_post', description: 'Reads a post by ID', parameters: { type: 'object', properties: { id: { type: 'integer' } } } },
+        { name: 'list_plugins', description: 'Lists active plugins', parameters: { type: 'object' } },
+      ];
+      const firstCall = { id: 'toolu_01', name: 'get_post', arguments: { id: 42 } };
+      const firstResult = { tool_call_id: 'toolu_01', name: 'get_post', content: '{"title":"SEO"}' };
+      const nextCall = { id: 'toolu_02', name: 'list_plugins', arguments: {} };
+
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = {
+        task_type: 'CODE_GEN',
+        prompt: 'Audit post 42',
+        tools,
+        tool_turns: [{ content: 'Reading the post.', tool_calls: [firstCall], tool_results: [firstResult] }],
+      };
+
+      const mockModelService = {
+        generate: jest.fn().mockResolvedValue({
+          success: true,
+          content: '',
+          model: 'claude',
+          model_id: 'claude-opus-4-5-20251101',
+          used_fallback: false,
+          tokens_input: 400,
+          tokens_output: 30,
+          total_tokens: 430,
+          cost_usd: 0.0083,
+          latency_ms: 1200,
+          tool_calls: [nextCall],
+        }),
+      };
+
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: '',
+          messages: [
+            { role: 'user', content: 'Audit post 42' },
+            { role: 'assistant', content: 'Reading the post.', tool_calls: [firstCall] },
+          ],
+          tools,
+          tool_results: [firstResult],
+        })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ content: '', tool_calls: [nextCall] })
+      );
+    });
+
+    it('should return 400 for invalid tools or tool turns', async () => {
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+
+      const tool = { name: 'get_post', description: 'Reads a post', parameters: { type: 'object' } };
+      const cases = [
+        [{ tools: [{ ...tool, parameters: { type: 'string' } }] }, 'INVALID_TOOLS'],
+        [{ tools: [tool, tool] }, 'INVALID_TOOLS'],
+        [{ tools: [tool], stream: true }, 'INVALID_TOOLS'],
+        [{ tool_turns: [] }, 'INVALID_TOOL_TURNS'],
+        [{
+          tools: [tool],
+          tool_turns: [{ tool_calls: [{ id: 'call_1', name: 'get_post', arguments: {} }], tool_results: [] }],
+        }, 'INVALID_TOOL_TURNS'],
+      ] as const;
+
+      for (const [fields, code] of cases) {
+        // Arrange
+        mockRequest.body = { task_type: 'CODE_GEN', prompt: 'Hello', ...fields };
+        mockStatus.mockClear();
+
+        // Act
+        await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+        // Assert
+        expect(mockStatus).toHaveBeenCalledWith(400);
+        expect(mockJson).toHaveBeenLastCalledWith(expect.objectContaining({ code }));
+      }
+      expect(ModelService).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid cache options', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+      mockRequest.body = { task_type: 'TEXT_GEN', prompt: 'Hello', cache: { scope: 'site', ttl_seconds: -1 } };
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INVALID_CACHE_OPTIONS' })
+      );
+    });
+  });
+
+  describe('POST /api/ai/route-batch', () => {
+    const generated = (model: string, cost: number) => ({
+      success: true,
+      content: `Meta description from ${model}`,
+      model,
+      model_id: `${model}-model`,
+      used_fallback: false,
+      tokens_input: 50,
+      tokens_output: 100,
+      total_tokens: 150,
+      cost_usd: cost,
+      latency_ms: 800,
+    });
+
+    beforeEach(() => {
+      (authenticateRequest as jest.Mock).mockResolvedValue({
+        authenticated: true,
+        claims: { license_id: 'CREATOR-2024-ABCDE-FGHIJ' },
+      });
+      (firestore.checkAndIncrementRateLimit as jest.Mock).mockResolvedValue({ limited: false, count: 1 });
+      (firestore.getLicenseByKey as jest.Mock).mockResolvedValue(createMockLicense());
+      (firestore.createAuditLog as jest.Mock).mockResolvedValue('audit_123');
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+    });
+
+    it('should run every item and record the usage once for the batch', async () => {
+      // Arrange
+      mockRequest.body = {
+        items: [
+          { task_type: 'TEXT_GEN', prompt: 'Meta description for: Summer sale' },
+          { task_type: 'TEXT_GEN', prompt: 'Meta description for: Contact us', model: 'claude' },
+          { task_type: 'TEXT_GEN', prompt: 'Meta description for: About' },
+        ],
+      };
+
+      const mockModelService = {
+        generate: jest.fn()
+          .mockResolvedValueOnce(generated('gemini', 0.002))
+          .mockResolvedValueOnce(generated('claude', 0.004))
+          .mockResolvedValueOnce({ ...generated('gemini', 0), cache_hit: true }),
+      };
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeBatch } = await import('../../src/api/ai/routeBatch');
+
+      // Act
+      await routeBatch(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(ModelService).toHaveBeenCalledTimes(1);
+      expect(mockModelService.generate).toHaveBeenCalledTimes(3);
+      expect(mockModelService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'claude', deadline: expect.any(Number) })
+      );
+      // Each item gets what the items already running have not reserved
+      const budgets = mockModelService.generate.mock.calls.map(([request]) => request.token_budget);
+      expect(budgets[0]).toBe(900000 - 8000);
+      expect(budgets[1]).toBeLessThan(budgets[0] - 8000);
+      expect(budgets[2]).toBeLessThan(budgets[1] - 8000);
+      expect(firestore.checkAndIncrementRateLimit).toHaveBeenCalledTimes(1);
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledTimes(1);
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 300);
+      expect(firestore.updateCostTracking).toHaveBeenCalledTimes(2);
+      expect(firestore.updateCostTracking).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ', 'claude', 50, 100, 0.004, undefined
+      );
+      expect(firestore.createAuditLog).toHaveBeenCalledTimes(1);
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tokens_input: 100,
+          tokens_output: 200,
+          status: 'success',
+          metadata: expect.objectContaining({ batch: true, items: 3, succeeded: 3, cache_hits: 1 }),
+        })
+      );
+
+      const response = mockJson.mock.calls[0][0];
+      expect(response.results.map((result: { index: number }) => result.index)).toEqual([0, 1, 2]);
+      expect(response.results[1]).toEqual(expect.objectContaining({ success: true, model: 'claude' }));
+      expect(response.summary).toEqual(expect.objectContaining({ items: 3, succeeded: 3, failed: 0 }));
+    });
+
+    it('should report the usage of blocked items in the summary', async () => {
+      // Arrange
+      mockRequest.body = {
+        items: [
+          { task_type: 'TEXT_GEN', prompt: 'Meta description for: Summer sale' },
+          { task_type: 'CODE_GEN', prompt: 'List the server files' },
+        ],
+      };
+
+      const unsafe = JSON.stringify({
+        type: 'execute_code',
+        target: 'system',
+        details: { description: 'List files', code: "echo shell_exec('ls -la');", estimated_risk: 'low' },
+        message: 'Here are the files.',
+      });
+      const mockModelService = {
+        generate: jest.fn()
+          .mockResolvedValueOnce(generated('gemini', 0.002))
+          .mockResolvedValueOnce({ ...generated('claude', 0.004), content: unsafe }),
+      };
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeBatch } = await import('../../src/api/ai/routeBatch');
+
+      // Act
+      await routeBatch(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockModelService.generate).toHaveBeenCalledWith(expect.objectContaining({ hedge: false }));
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 300);
+
+      const response = mockJson.mock.calls[0][0];
+      expect(response.results[1]).toEqual(expect.objectContaining({
+        success: false,
+        code: 'UNSAFE_CODE',
+        tokens_used: 150,
+        cost_usd: 0.004,
+      }));
+      expect(response.summary).toEqual(expect.objectContaining({
+        succeeded: 1,
+        failed: 1,
+        tokens_used: 300,
+        cost_usd: 0.006,
+      }));
+    });
+
+    it('should fail invalid items on their own and run the rest', async () => {
+      // Arrange
+      mockRequest.body = {
+        items: [
+          { task_type: 'TEXT_GEN', prompt: 'Meta description for: Summer sale' },
+          { task_type: 'VIDEO_GEN', prompt: 'Hello' },
+          { task_type: 'TEXT_GEN', prompt: 'Hello', stream: true },
+        ],
+      };
+
+      const mockModelService = { generate: jest.fn().mockResolvedValue(generated('gemini', 0.002)) };
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => mockModelService as unknown as ModelService
+      );
+
+      const { routeBatch } = await import('../../src/api/ai/routeBatch');
+
+      // Act
+      await routeBatch(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockModelService.generate).toHaveBeenCalledTimes(1);
+
+      const response = mockJson.mock.calls[0][0];
+      expect(response.results[1]).toEqual({
+        index: 1,
+        success: false,
+        error: expect.any(String),
+        code: 'INVALID_TASK_TYPE',
+        details: [
+          { field: 'items[1].task_type', code: 'INVALID_TASK_TYPE', message: expect.any(String) },
+        ],
+      });
+      expect(response.results[2]).toEqual(expect.objectContaining({
+        code: 'UNSUPPORTED_IN_BATCH',
+        details: [expect.objectContaining({ field: 'items[2].stream' })],
+      }));
+      expect(response.summary).toEqual(expect.objectContaining({ succeeded: 1, failed: 2 }));
+    });
+
+    it('should return 400 for an empty or oversized batch', async () => {
+      // Arrange
+      const { routeBatch } = await import('../../src/api/ai/routeBatch');
+
+      for (const items of [[], Array.from({ length: 21 }, () => ({ task_type: 'TEXT_GEN', prompt: 'Hello' }))]) {
+        mockRequest.body = { items };
+
+        // Act
+        await routeBatch(mockRequest as unknown as Request, mockResponse as unknown as Response);
+      }
+
+      // Assert
+      expect(mockStatus).toHaveBeenNthCalledWith(1, 400);
+      expect(mockStatus).toHaveBeenNthCalledWith(2, 400);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_BATCH' }));
+      expect(firestore.getLicenseByKey).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the output reservations of the items exceed the quota', async () => {
+      // Arrange
+      (firestore.getLicenseByKey as jest.Mock).mockResolvedValue({
+        ...createMockLicense(),
+        tokens_used: 1000000 - 5000,
+      });
+      mockRequest.body = {
+        items: Array.from({ length: 3 }, () => ({
+          task_type: 'TEXT_GEN',
+          prompt: 'Meta description for: Summer sale',
+          context: { site_info: { name: 'Garden shop' } },
+          max_tokens: 2000,
+        })),
+      };
+
+      const { routeBatch } = await import('../../src/api/ai/routeBatch');
+
+      // Act
+      await routeBatch(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'INSUFFICIENT_QUOTA' }));
+      expect(ModelService).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the batch does not fit in the remaining quota', async () => {
+      // Arrange
+      (firestore.getLicenseByKey as jest.Mock).mockResolvedValue({
+        ...createMockLicense(),
+        tokens_used: 1000000 - 1500,
+      });
+      mockRequest.body = {
+        items: Array.from({ length: 4 }, () => ({ task_type: 'TEXT_GEN', prompt: 'x'.repeat(2000) })),
+      };
+
+      const { routeBatch } = await import('../../src/api/ai/routeBatch');
+
+      // Act
+      await routeBatch(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'INSUFFICIENT_QUOTA' }));
+      expect(ModelService).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/ai/embed', () => {
+    const mockEmbed = jest.fn();
+
+    beforeEach(() => {
+      (authenticateRequest as jest.Mock).mockResolvedValue({
+        authenticated: true,
+        claims: { license_id: 'CREATOR-2024-ABCDE-FGHIJ' },
+      });
+      (firestore.checkAndIncrementRateLimit as jest.Mock).mockResolvedValue({ limited: false, count: 1 });
+      (firestore.getLicenseByKey as jest.Mock).mockResolvedValue(createMockLicense());
+      (firestore.createAuditLog as jest.Mock).mockResolvedValue('audit_123');
+      (EmbeddingService as jest.MockedClass<typeof EmbeddingService>).mockImplementation(
+        () => ({ embed: mockEmbed }) as unknown as EmbeddingService
+      );
+      mockRequest.headers = { authorization: 'Bearer valid-token' };
+    });
+
+    it('should return the vectors and meter the input tokens', async () => {
+      // Arrange
+      mockRequest.body = {
+        texts: ['Summer sale on garden furniture', 'How to care for teak'],
+        dimensions: 768,
+        task: 'document',
+      };
+      mockEmbed.mockResolvedValue({
+        success: true,
+        provider: 'gemini',
+        model: 'gemini-embedding-001',
+        embeddings: [[0.1, 0.2], [0.3, 0.4]],
+        dimensions: 2,
+        tokens_input: 12,
+        cost_usd: 0.0000018,
+        latency_ms: 300,
+      });
+
+      const { embed } = await import('../../src/api/ai/embed');
+
+      // Act
+      await embed(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockEmbed).toHaveBeenCalledWith(mockRequest.body, 900000);
+      expect(firestore.incrementTokensUsed).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 12);
+      expect(firestore.updateCostTracking).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ', 'gemini', 12, 0, 0.0000018
+      );
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          request_type: 'ai_request',
+          provider_used: 'gemini',
+          tokens_input: 12,
+          status: 'success',
+          metadata: expect.objectContaining({ embedding: true, model_id: 'gemini-embedding-001', texts: 2 }),
+        })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        embeddings: [[0.1, 0.2], [0.3, 0.4]],
+        model: 'gemini',
+        model_id: 'gemini-embedding-001',
+        dimensions: 2,
+        tokens_used: 12,
+        cost_usd: 0.0000018,
+        latency_ms: 300,
+      });
+    });
+
+    it('should return 403 without billing when the texts exceed the remaining tokens', async () => {
+      // Arrange
+      mockRequest.body = { texts: ['Summer sale on garden furniture'] };
+      mockEmbed.mockResolvedValue({
+        success: false,
+        provider: 'gemini',
+        model: 'gemini-embedding-001',
+        embeddings: [],
+        dimensions: 0,
+        tokens_input: 0,
+        cost_usd: 0,
+        latency_ms: 0,
+        error: 'Request needs 8 input tokens, but only 0 remain on the license',
+        error_code: 'INSUFFICIENT_QUOTA',
+      });
+
+      const { embed } = await import('../../src/api/ai/embed');
+
+      // Act
+      await embed(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'INSUFFICIENT_QUOTA' }));
+      expect(firestore.incrementTokensUsed).not.toHaveBeenCalled();
+      expect(firestore.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', metadata: expect.objectContaining({ embedding: true }) })
+      );
+    });
+
+    it('should return 400 when the provider refuses the texts', async () => {
+      // Arrange
+      mockRequest.body = { texts: ['Summer sale on garden furniture'] };
+      mockEmbed.mockResolvedValue({
+        success: false,
+        provider: 'gemini',
+        model: 'gemini-embedding-001',
+        embeddings: [],
+        dimensions: 0,
+        tokens_input: 0,
+        cost_usd: 0,
+        latency_ms: 200,
+        error: 'Invalid input',
+        error_code: 'INVALID_REQUEST',
+      });
+
+      const { embed } = await import('../../src/api/ai/embed');
+
+      // Act
+      await embed(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_REQUEST' }));
+      expect(firestore.incrementTokensUsed).not.toHaveBeenCalled();
+    });
+
+    it('should reject openai when the endpoint has a custom base URL', async () => {
+      // Arrange
+      process.env.OPENAI_MODELS = 'llama3.1:8b';
+      process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1';
+      mockRequest.body = { texts: ['Summer sale'], model: 'openai' };
+
+      const { embed } = await import('../../src/api/ai/embed');
+
+      try {
+        // Act
+        await embed(mockRequest as unknown as Request, mockResponse as unknown as Response);
+      } finally {
+        delete process.env.OPENAI_MODELS;
+        delete process.env.OPENAI_BASE_URL;
+      }
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_MODEL' }));
+      expect(mockEmbed).not.toHaveBeenCalled();
+    });
+
+    it('should reject dimensions outside the model range', async () => {
+      // Arrange
+      mockRequest.body = { texts: ['Summer sale'], dimensions: 64 };
+
+      const { embed } = await import('../../src/api/ai/embed');
+
+      // Act
+      await embed(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'INVALID_DIMENSIONS',
+          error: 'dimensions must be between 128 and 3072 for gemini',
+        })
+      );
+      expect(mockEmbed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/api/ai/chats', () => {
+    beforeEach(() => {
+      (authenticateRequest as jest.Mock).mockResolvedValue({
+        authenticated: true,
+        claims: { license_id: 'CREATOR-2024-ABCDE-FGHIJ' },
+      });
+      (firestore.timestampToISO as jest.Mock).mockReturnValue('2025-11-25T15:00:00.000Z');
+      (firestore.checkAndIncrementRateLimit as jest.Mock).mockResolvedValue({ limited: false, count: 1 });
+    });
+
+    it('should list the license chat sessions', async () => {
+      // Arrange
+      mockRequest.method = 'GET';
+      mockRequest.path = '/api/ai/chats';
+      (firestore.listChatSessions as jest.Mock).mockResolvedValue([
+        {
+          chat_id: 'chat_123',
+          license_id: 'CREATOR-2024-ABCDE-FGHIJ',
+          messages: [{ role: 'user', content: 'Write a tagline', created_at: Timestamp.now() }],
+          message_count: 1,
+          created_at: Timestamp.now(),
+          updated_at: Timestamp.now(),
+        },
+      ]);
+
+      const { chatSessions } = await import('../../src/api/ai/chatSessions');
+
+      // Act
+      await chatSessions(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(firestore.listChatSessions).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', expect.any(Number));
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        chats: [
+          expect.objectContaining({ chat_id: 'chat_123', message_count: 1, preview: 'Write a tagline' }),
+        ],
+      });
+    });
+
+    it('should return 404 when deleting an unknown chat', async () => {
+      // Arrange
+      mockRequest.method = 'DELETE';
+      mockRequest.path = '/api/ai/chats/chat_missing';
+      (firestore.deleteChatSession as jest.Mock).mockResolvedValue(false);
+
+      const { chatSessions } = await import('../../src/api/ai/chatSessions');
+
+      // Act
+      await chatSessions(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(firestore.deleteChatSession).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 'chat_missing');
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 400 with field details for an invalid chat_id', async () => {
+      // Arrange
+      mockRequest.method = 'GET';
+      mockRequest.path = '/api/ai/chats/chat%20123';
+
+      const { chatSessions } = await import('../../src/api/ai/chatSessions');
+
+      // Act
+      await chatSessions(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: false,
+        error: expect.stringContaining('chat_id'),
+        code: 'INVALID_CHAT_ID',
+        details: [
+          { field: 'chat_id', code: 'INVALID_CHAT_ID', message: expect.stringContaining('chat_id') },
+        ],
+      });
+      expect(firestore.getChatSession).not.toHaveBeenCalled();
+    });
+
+    it('should return 429 when rate limited', async () => {
+      // Arrange
+      mockRequest.method = 'GET';
+      mockRequest.path = '/api/ai/chats';
+      (firestore.checkAndIncrementRateLimit as jest.Mock).mockResolvedValue({ limited: true, count: 101 });
+
+      const { chatSessions } = await import('../../src/api/ai/chatSessions');
+
+      // Act
+      await chatSessions(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(429);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'RATE_LIMITED' }));
+      expect(firestore.listChatSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('API gateway', () => {
+    beforeEach(() => {
+      (processLicenseValidation as jest.Mock).mockResolvedValue({
+        success: true,
+        user_id: 'user_123',
+        site_token: 'mock-jwt-token',
+        plan: 'pro',
+        tokens_limit: 1000000,
+        tokens_remaining: 900000,
+        reset_date: '2025-12-01',
+      });
+      mockRequest.body = {
+        license_key: 'CREATOR-2024-ABCDE-FGHIJ',
+        site_url: 'https://example.com',
+      };
+    });
+
+    it('should serve a /v1 route and return a request ID', async () => {
+      // Arrange
+      mockRequest.path = '/v1/auth/validate-license';
+
+      const { api } = await import('../../src/api/gateway');
+
+      // Act
+      await api(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(processLicenseValidation).toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockSetHeader).toHaveBeenCalledWith('X-Request-ID', expect.any(String));
+      expect(mockSetHeader).toHaveBeenCalledWith('Access-Control-Allow-Origin', '*');
+    });
+
+    it('should serve the legacy /api URL as an alias of v1', async () => {
+      // Arrange
+      mockRequest.path = '/api/auth/validate-license';
+
+      const { api } = await import('../../src/api/gateway');
+
+      // Act
+      await api(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(processLicenseValidation).toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 404 for an unknown route or version', async () => {
+      const { api } = await import('../../src/api/gateway');
+
+      for (const path of ['/v1/unknown', '/v2/auth/validate-license', '/']) {
+        // Arrange
+        mockRequest.path = path;
+        mockStatus.mockClear();
+
+        // Act
+        await api(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+        // Assert
+        expect(mockStatus).toHaveBeenCalledWith(404);
+        expect(mockJson).toHaveBeenLastCalledWith({
+          success: false,
+          error: 'Not found',
+          code: 'NOT_FOUND',
+        });
+      }
+    });
+
+    it('should return 405 for a method the route does not answer', async () => {
+      // Arrange
+      mockRequest.method = 'GET';
+      mockRequest.path = '/v1/ai/route-request';
+
+      const { api } = await import('../../src/api/gateway');
+
+      // Act
+      await api(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(405);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'METHOD_NOT_ALLOWED' }));
+      expect(authenticateRequest).not.toHaveBeenCalled();
+    });
+
+    it('should answer a preflight request with CORS headers', async () => {
+      // Arrange
+      mockRequest.method = 'OPTIONS';
+      mockRequest.path = '/v1/ai/chats/chat_123';
+
+      const { api } = await import('../../src/api/gateway');
+
+      // Act
+      await api(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(204);
+      expect(mockSetHeader).toHaveBeenCalledWith('Access-Control-Allow-Methods', 'GET, DELETE, OPTIONS');
+      expect(authenticateRequest).not.toHaveBeenCalled();
+    });
+
+    it('should route a path with parameters to its route', async () => {
+      // Arrange
+      mockRequest.method = 'DELETE';
+      mockRequest.path = '/v1/ai/chats/chat_123';
+      (authenticateRequest as jest.Mock).mockResolvedValue({
+        authenticated: true,
+        claims: { license_id: 'CREATOR-2024-ABCDE-FGHIJ' },
+      });
+      (firestore.checkAndIncrementRateLimit as jest.Mock).mockResolvedValue({ limited: false, count: 1 });
+      (firestore.deleteChatSession as jest.Mock).mockResolvedValue(true);
+
+      const { api } = await import('../../src/api/gateway');
+
+      // Act
+      await api(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(firestore.deleteChatSession).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 'chat_123');
+      expect(mockStatus).toHaveBeenCalledWith(200);
+    });
+
+    it('should map an unhandled error to a 500', async () => {
+      // Arrange
+      mockRequest.path = '/v1/auth/validate-license';
+      (processLicenseValidation as jest.Mock).mockRejectedValue(new Error('Firestore unavailable'));
+
+      const { api } = await import('../../src/api/gateway');
+
+      // Act
+      await api(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(500);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+      });
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    const storedBody = {
+      success: true,
+      content: 'Generated content about SEO...',
+      model: 'gemini',
+      tokens_used: 600,
+    };
+
+    let generate: jest.Mock;
+
+    beforeEach(() => {
+      (authenticateRequest as jest.Mock).mockResolvedValue({
+        authenticated: true,
+        claims: { license_id: 'CREATOR-2024-ABCDE-FGHIJ' },
+      });
+      (firestore.checkAndIncrementRateLimit as jest.Mock).mockResolvedValue({ limited: false, count: 1 });
+      (firestore.getLicenseByKey as jest.Mock).mockResolvedValue(createMockLicense());
+      (firestore.createAuditLog as jest.Mock).mockResolvedValue('audit_123');
+
+      generate = jest.fn().mockResolvedValue({
+        success: true,
+        content: 'Generated content about SEO...',
+        model: 'gemini',
+        model_id: 'gemini-2.5-pro',
+        used_fallback: false,
+        tokens_input: 100,
+        tokens_output: 500,
+        total_tokens: 600,
+        cost_usd: 0.005,
+        latency_ms: 1500,
+      });
+      (ModelService as jest.MockedClass<typeof ModelService>).mockImplementation(
+        () => ({ generate }) as unknown as ModelService
+      );
+
+      // Express chains res.status(...).json(...) on the response itself
+      mockStatus.mockReturnValue(mockResponse);
+
+      mockRequest.method = 'POST';
+      mockRequest.headers = { authorization: 'Bearer valid-token', 'idempotency-key': 'retry-42' };
+      mockRequest.body = { task_type: 'TEXT_GEN', prompt: 'Generate a WordPress blog post about SEO' };
+    });
+
+    it('should store the first response under the key', async () => {
+      // Arrange
+      (firestore.claimIdempotencyKey as jest.Mock).mockResolvedValue({ outcome: 'acquired' });
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(firestore.claimIdempotencyKey).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ',
+        'retry-42',
+        expect.any(String)
+      );
+      expect(generate).toHaveBeenCalled();
+      expect(firestore.completeIdempotencyKey).toHaveBeenCalledWith(
+        'CREATOR-2024-ABCDE-FGHIJ',
+        'retry-42',
+        { status_code: 200, body_json: expect.stringContaining('Generated content about SEO...') }
+      );
+    });
+
+    it('should replay the stored response without calling the provider or billing', async () => {
+      // Arrange
+      (firestore.claimIdempotencyKey as jest.Mock).mockResolvedValue({
+        outcome: 'completed',
+        response: { status_code: 200, body_json: JSON.stringify(storedBody) },
+      });
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(generate).not.toHaveBeenCalled();
+      expect(firestore.getLicenseByKey).not.toHaveBeenCalled();
+      expect(firestore.incrementTokensUsed).not.toHaveBeenCalled();
+      expect(mockSetHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockJson).toHaveBeenCalledWith(storedBody);
+    });
+
+    it('should reject a key reused with a different body', async () => {
+      // Arrange
+      (firestore.claimIdempotencyKey as jest.Mock).mockResolvedValue({ outcome: 'mismatch' });
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(generate).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(422);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'IDEMPOTENCY_KEY_MISMATCH' }));
+    });
+
+    it('should return 409 while the first request is in progress', async () => {
+      // Arrange
+      mockRequest.body = { task_type: 'bulk_articles', task_data: { topics: ['SEO basics'] } };
+      (firestore.claimIdempotencyKey as jest.Mock).mockResolvedValue({ outcome: 'in_progress' });
+
+      const { submitTask } = await import('../../src/api/tasks/submitTask');
+
+      // Act
+      await submitTask(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(409);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'IDEMPOTENCY_KEY_IN_USE' }));
+    });
+
+    it('should release the key when the request fails with a server error', async () => {
+      // Arrange
+      (firestore.claimIdempotencyKey as jest.Mock).mockResolvedValue({ outcome: 'acquired' });
+      generate.mockResolvedValue({
+        success: false,
+        content: '',
+        model: 'gemini',
+        model_id: 'gemini-2.5-pro',
+        used_fallback: true,
+        tokens_input: 0,
+        tokens_output: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+        latency_ms: 3000,
+        error: 'All models failed',
+      });
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(503);
+      expect(firestore.releaseIdempotencyKey).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 'retry-42');
+      expect(firestore.completeIdempotencyKey).not.toHaveBeenCalled();
+    });
+
+    it('should release the key when the quota check rejects the request', async () => {
+      // Arrange
+      (firestore.claimIdempotencyKey as jest.Mock).mockResolvedValue({ outcome: 'acquired' });
+      (firestore.getLicenseByKey as jest.Mock).mockResolvedValue({
+        ...createMockLicense(),
+        tokens_used: 1000000,
+      });
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(generate).not.toHaveBeenCalled();
+      expect(firestore.releaseIdempotencyKey).toHaveBeenCalledWith('CREATOR-2024-ABCDE-FGHIJ', 'retry-42');
+      expect(firestore.completeIdempotencyKey).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid key', async () => {
+      // Arrange
+      mockRequest.headers['idempotency-key'] = 'k'.repeat(256);
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_IDEMPOTENCY_KEY' }));
+      expect(firestore.claimIdempotencyKey).not.toHaveBeenCalled();
+    });
+
+    it('should run as before without the header', async () => {
+      // Arrange
+      delete mockRequest.headers['idempotency-key'];
+
+      const { routeRequest } = await import('../../src/api/ai/routeRequest');
+
+      // Act
+      await routeRequest(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(firestore.claimIdempotencyKey).not.toHaveBeenCalled();
+      expect(generate).toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(200);
+    });
   });
 });
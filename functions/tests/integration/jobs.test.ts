@@ -47,6 +47,7 @@ jest.mock('../../src/lib/secrets', () => ({
   jwtSecret: { value: () => 'test-jwt-secret' },
   geminiApiKey: { value: () => 'test-gemini-key' },
   claudeApiKey: { value: () => 'test-claude-key' },
+  openaiApiKey: { value: () => 'test-openai-key' },
 }));
 
 // Mock Firestore
@@ -307,6 +308,31 @@ describe('Integration Tests - Job Queue System', () => {
         })
       );
     });
+
+    it('should return 400 with the failing task_data fields', async () => {
+      // Arrange
+      mockRequest.method = 'POST';
+      mockRequest.body = {
+        task_type: 'bulk_products',
+        task_data: { products: [{ name: 'Mug' }, { category: 'Kitchen' }] },
+      };
+
+      const { submitTask } = await import('../../src/api/tasks/submitTask');
+
+      // Act
+      await submitTask(mockRequest as unknown as Request, mockResponse as unknown as Response);
+
+      // Assert
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: false,
+        error: 'task_data.products[1].name is required',
+        code: 'INVALID_TASK_DATA',
+        details: [
+          { field: 'task_data.products[1].name', code: 'INVALID_TASK_DATA', message: 'task_data.products[1].name is required' },
+        ],
+      });
+    });
   });
 
   describe('GET /api/tasks/status/:job_id', () => {
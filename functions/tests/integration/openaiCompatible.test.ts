@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Integration tests for the OpenAI-compatible provider
+ * @module tests/integration/openaiCompatible.test
+ *
+ * @description
+ * Runs OpenAIProvider and ModelService against a local HTTP stub that
+ * speaks the Chat Completions API, as a vLLM or Ollama server would.
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIProvider } from '../../src/providers/openai';
+import { ModelService } from '../../src/services/modelService';
+import { isValidTaskRouteConfig } from '../../src/services/routingConfig';
+import { isValidProvider } from '../../src/types/ModelConfig';
+import { DEFAULT_RETRY_CONFIG } from '../../src/types/AIProvider';
+import { Logger } from '../../src/lib/logger';
+
+// Mock Firestore (no routing overrides or circuit breaker needed)
+jest.mock('../../src/lib/firestore', () => ({
+  getRoutingConfigDocs: jest.fn().mockResolvedValue({}),
+}));
+
+// Mock the Logger
+jest.mock('../../src/lib/logger', () => ({
+  Logger: jest.fn().mockImplementation(() => ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  })),
+}));
+
+interface StubRequest {
+  path: string;
+  authorization?: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Reads a JSON request body
+ */
+function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data ? JSON.parse(data) : {}));
+  });
+}
+
+describe('OpenAI-compatible endpoint', () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: StubRequest[] = [];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = await readBody(req);
+      requests.push({ path: req.url ?? '', authorization: req.headers.authorization, body });
+
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        id: 'chatcmpl-local',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: 'Hello from the local model' },
+          finish_reason: 'stop',
+        }],
+        usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+      }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    process.env.OPENAI_MODELS = 'llama3.1:8b,qwen2.5:14b';
+    process.env.OPENAI_BASE_URL = baseURL;
+    process.env.OPENAI_PRICING = JSON.stringify({
+      'llama3.1:8b': { input: 0, output: 0 },
+      'qwen2.5:14b': { input: 0.001, output: 0.002 },
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.OPENAI_MODELS;
+    delete process.env.OPENAI_BASE_URL;
+    delete process.env.OPENAI_PRICING;
+  });
+
+  it('should call the configured base URL and price with OPENAI_PRICING', async () => {
+    // Arrange
+    const provider = new OpenAIProvider('local-key', 'qwen2.5:14b', DEFAULT_RETRY_CONFIG, baseURL);
+
+    // Act
+    const response = await provider.generate('Say hello', { system_prompt: 'Be brief' });
+
+    // Assert
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe('/v1/chat/completions');
+    expect(requests[0].authorization).toBe('Bearer local-key');
+    expect(requests[0].body.model).toBe('qwen2.5:14b');
+    expect(response).toEqual(expect.objectContaining({
+      success: true,
+      provider: 'openai',
+      content: 'Hello from the local model',
+      total_tokens: 1500,
+    }));
+    expect(response.cost_usd).toBeCloseTo(0.002);
+  });
+
+  it('should route a request for "openai" to the primary configured model', async () => {
+    // Arrange
+    const service = new ModelService({ gemini: '', claude: '', openai: 'local-key' }, new Logger());
+
+    // Act
+    const result = await service.generate({ model: 'openai', prompt: 'Say hello' });
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.model).toBe('openai');
+    expect(result.model_id).toBe('llama3.1:8b');
+    expect(result.cost_usd).toBe(0);
+    expect(result.providers_attempted).toEqual(['openai']);
+    expect(requests[0].body.model).toBe('llama3.1:8b');
+  });
+
+  it('should accept the configured models in requests and routing overrides', () => {
+    // Assert
+    expect(isValidProvider('openai')).toBe(true);
+    expect(isValidTaskRouteConfig({
+      primary: { provider: 'openai', model: 'qwen2.5:14b' },
+      fallback1: { provider: 'claude', model: 'claude-opus-4-5-20251101' },
+      fallback2: { provider: 'gemini', model: 'gemini-2.5-pro' },
+    })).toBe(true);
+
+    delete process.env.OPENAI_MODELS;
+    expect(isValidProvider('openai')).toBe(false);
+  });
+});
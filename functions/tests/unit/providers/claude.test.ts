@@ -168,7 +168,401 @@ describe('ClaudeProvider', () => {
               content: 'Test prompt',
             }),
           ]),
-        })
+        }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('generate - response schema', () => {
+    it('should force the schema tool and return its input as JSON content', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+      const responseSchema = {
+        name: 'execute_code',
+        description: 'PHP code to execute',
+        schema: {
+          type: 'object' as const,
+          properties: { code: { type: 'string' as const } },
+          required: ['code'],
+        },
+      };
+
+      mockCreate.mockResolvedValue({
+        content: [
+          { type: 'tool_use', id: 'toolu_1', name: 'execute_code', input: { code: "echo 'ok';" } },
+        ],
+        usage: { input_tokens: 50, output_tokens: 20 },
+        stop_reason: 'tool_use',
+      });
+
+      // Act
+      const result = await provider.generate('Test prompt', { response_schema: responseSchema });
+
+      // Assert
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [{
+            name: 'execute_code',
+            description: 'PHP code to execute',
+            input_schema: responseSchema.schema,
+          }],
+          tool_choice: { type: 'tool', name: 'execute_code' },
+        }),
+        expect.anything()
+      );
+      expect(result.success).toBe(true);
+      expect(JSON.parse(result.content)).toEqual({ code: "echo 'ok';" });
+    });
+  });
+
+  describe('generate - prompt caching', () => {
+    it('should send each system block with a cache breakpoint', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Done' }],
+        usage: { input_tokens: 50, output_tokens: 10 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      await provider.generate('Test prompt', {
+        system_prompt: 'Base prompt\n\nSite context',
+        system_blocks: ['Base prompt', 'Site context'],
+        prompt_cache: true,
+      });
+
+      // Assert
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          system: [
+            { type: 'text', text: 'Base prompt', cache_control: { type: 'ephemeral' } },
+            { type: 'text', text: 'Site context', cache_control: { type: 'ephemeral' } },
+          ],
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should send the plain system prompt without prompt_cache', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Done' }],
+        usage: { input_tokens: 50, output_tokens: 10 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      await provider.generate('Test prompt', {
+        system_prompt: 'Base prompt',
+        system_blocks: ['Base prompt'],
+      });
+
+      // Assert
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ system: 'Base prompt' }), expect.anything());
+    });
+
+    it('should count cached tokens as input and price them at the cache rates', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Done' }],
+        usage: {
+          input_tokens: 1000,
+          output_tokens: 500,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 2000,
+        },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      const result = await provider.generate('Test prompt', { prompt_cache: true });
+
+      // Assert - 1000 input at 0.015, 2000 cache reads at 0.0015, 500 output at 0.075 (per 1k)
+      expect(result.tokens_input).toBe(3000);
+      expect(result.total_tokens).toBe(3500);
+      expect(result.cost_usd).toBeCloseTo(0.0555, 6);
+      expect(result.prompt_cache?.write_tokens).toBe(0);
+      expect(result.prompt_cache?.read_tokens).toBe(2000);
+      expect(result.prompt_cache?.savings_usd).toBeCloseTo(0.027, 6);
+    });
+
+    it('should report a negative saving for cache writes', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Done' }],
+        usage: {
+          input_tokens: 100,
+          output_tokens: 100,
+          cache_creation_input_tokens: 2000,
+          cache_read_input_tokens: 0,
+        },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      const result = await provider.generate('Test prompt', { prompt_cache: true });
+
+      // Assert - writes cost 0.01875 instead of 0.015 per 1k
+      expect(result.tokens_input).toBe(2100);
+      expect(result.prompt_cache?.write_tokens).toBe(2000);
+      expect(result.prompt_cache?.savings_usd).toBeCloseTo(-0.0075, 6);
+    });
+
+    it('should omit prompt_cache when nothing was cached', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Done' }],
+        usage: { input_tokens: 100, output_tokens: 100, cache_creation_input_tokens: null },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      const result = await provider.generate('Test prompt', { prompt_cache: true });
+
+      // Assert
+      expect(result.tokens_input).toBe(100);
+      expect(result.prompt_cache).toBeUndefined();
+    });
+  });
+
+  describe('generate - temperature', () => {
+    it('should cap the temperature at 1', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'A bold tagline' }],
+        usage: { input_tokens: 100, output_tokens: 50 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      await provider.generate('Write a tagline', { temperature: 1.6 });
+
+      // Assert
+      expect(mockCreate.mock.calls[0][0].temperature).toBe(1);
+    });
+  });
+
+  describe('generate - reasoning', () => {
+    it('should enable thinking on top of max_tokens without a temperature', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [
+          { type: 'thinking', thinking: 'Check the order tables first.', signature: 'sig' },
+          { type: 'text', text: 'Migration plan' },
+        ],
+        usage: { input_tokens: 100, output_tokens: 1205 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      const result = await provider.generate('Plan the migration', {
+        temperature: 0.2,
+        max_tokens: 2000,
+        reasoning: { budget_tokens: 4096 },
+      });
+
+      // Assert
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.thinking).toEqual({ type: 'enabled', budget_tokens: 4096 });
+      expect(params.max_tokens).toBe(6096);
+      expect(params.temperature).toBeUndefined();
+      expect(result.content).toBe('Migration plan');
+      // Thinking is inside output_tokens: 1205 minus the 5 answer tokens
+      expect(result.tokens_output).toBe(1205);
+      expect(result.tokens_reasoning).toBe(1200);
+      expect(result.reasoning).toBeUndefined();
+    });
+
+    it('should return the thinking text with include_thoughts', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [
+          { type: 'thinking', thinking: 'Check the order tables first.', signature: 'sig' },
+          { type: 'text', text: 'Migration plan' },
+        ],
+        usage: { input_tokens: 100, output_tokens: 300 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      const result = await provider.generate('Plan the migration', {
+        reasoning: { budget_tokens: 2048, include_thoughts: true },
+      });
+
+      // Assert
+      expect(result.reasoning).toBe('Check the order tables first.');
+    });
+
+    it('should offer the schema tool instead of forcing it while thinking', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [
+          { type: 'thinking', thinking: 'Plan', signature: 'sig' },
+          { type: 'tool_use', id: 'toolu_1', name: 'action', input: { code: 'echo 1;' } },
+        ],
+        usage: { input_tokens: 100, output_tokens: 300 },
+        stop_reason: 'tool_use',
+      });
+
+      // Act
+      const result = await provider.generate('Test prompt', {
+        reasoning: { budget_tokens: 2048 },
+        response_schema: { name: 'action', schema: { type: 'object' } },
+      });
+
+      // Assert
+      expect(mockCreate.mock.calls[0][0].tool_choice).toEqual({ type: 'auto' });
+      expect(JSON.parse(result.content)).toEqual({ code: 'echo 1;' });
+    });
+
+    it('should not think on a turn that returns tool results', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'The post is about SEO.' }],
+        usage: { input_tokens: 100, output_tokens: 50 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      const result = await provider.generate('', {
+        temperature: 0.2,
+        max_tokens: 2000,
+        reasoning: { budget_tokens: 4096 },
+        messages: [
+          { role: 'user', content: 'What is post 7 about?' },
+          { role: 'assistant', content: '', tool_calls: [{ id: 'toolu_01', name: 'get_post', arguments: { id: 7 } }] },
+        ],
+        tool_results: [{ tool_call_id: 'toolu_01', name: 'get_post', content: '{"title":"SEO"}' }],
+      });
+
+      // Assert
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.thinking).toBeUndefined();
+      expect(params.max_tokens).toBe(2000);
+      expect(params.temperature).toBe(0.2);
+      expect(result.tokens_reasoning).toBeUndefined();
+    });
+  });
+
+  describe('generate - tool calling', () => {
+    const tools = [{
+      name: 'get_post',
+      description: 'Reads a post by ID',
+      parameters: { type: 'object' as const, properties: { id: { type: 'integer' as const } }, required: ['id'] },
+    }];
+
+    it('should offer the tools and return tool_use blocks as tool calls', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [
+          { type: 'text', text: 'Let me read the post.' },
+          { type: 'tool_use', id: 'toolu_01', name: 'get_post', input: { id: 42 } },
+        ],
+        usage: { input_tokens: 200, output_tokens: 40 },
+        stop_reason: 'tool_use',
+      });
+
+      // Act
+      const result = await provider.generate('Summarize post 42', { tools });
+
+      // Assert
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.tools).toEqual([{
+        name: 'get_post',
+        description: 'Reads a post by ID',
+        input_schema: tools[0].parameters,
+      }]);
+      expect(params.tool_choice).toEqual({ type: 'auto' });
+      expect(result.content).toBe('Let me read the post.');
+      expect(result.tool_calls).toEqual([{ id: 'toolu_01', name: 'get_post', arguments: { id: 42 } }]);
+    });
+
+    it('should send tool calls as tool_use and results as tool_result blocks', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Post 42 is about SEO.' }],
+        usage: { input_tokens: 300, output_tokens: 20 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      const result = await provider.generate('', {
+        tools,
+        messages: [
+          { role: 'user', content: 'Summarize post 42' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ id: 'toolu_01', name: 'get_post', arguments: { id: 42 } }],
+          },
+        ],
+        tool_results: [{ tool_call_id: 'toolu_01', name: 'get_post', content: '{"title":"SEO"}' }],
+      });
+
+      // Assert
+      expect(mockCreate.mock.calls[0][0].messages).toEqual([
+        { role: 'user', content: 'Summarize post 42' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_01', name: 'get_post', input: { id: 42 } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_01', content: '{"title":"SEO"}' }] },
+      ]);
+      expect(result.tool_calls).toBeUndefined();
+    });
+  });
+
+  describe('generate - conversation history', () => {
+    it('should send history before the prompt as alternating messages', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Second answer' }],
+        usage: { input_tokens: 50, output_tokens: 10 },
+        stop_reason: 'end_turn',
+      });
+
+      // Act
+      await provider.generate('Follow-up question', {
+        messages: [
+          { role: 'user', content: 'First question' },
+          { role: 'assistant', content: 'First answer' },
+        ],
+      });
+
+      // Assert
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: [
+            { role: 'user', content: 'First question' },
+            { role: 'assistant', content: 'First answer' },
+            { role: 'user', content: 'Follow-up question' },
+          ],
+        }),
+        expect.anything()
       );
     });
   });
@@ -336,55 +730,70 @@ describe('ClaudeProvider', () => {
               ]),
             }),
           ]),
-        })
+        }),
+        expect.anything()
       );
     });
 
-    it('should skip unsupported file types', async () => {
+    it('should send PDFs as document blocks and text files as text blocks', async () => {
       // Arrange
       const provider = new ClaudeProvider('valid-api-key');
 
-      const mockResponse = {
-        content: [{ type: 'text', text: 'Response without PDF' }],
-        usage: {
-          input_tokens: 50,
-          output_tokens: 50,
-        },
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Summary' }],
+        usage: { input_tokens: 900, output_tokens: 50 },
         stop_reason: 'end_turn',
-      };
+      });
 
-      mockCreate.mockResolvedValue(mockResponse);
+      const files = [
+        { name: 'invoice.pdf', type: 'application/pdf', size: 2048, base64: 'data:application/pdf;base64,JVBERi0xLjQ=' },
+        { name: 'notes.md', type: 'text/markdown', size: 7, base64: Buffer.from('# Notes').toString('base64') },
+      ];
+
+      // Act
+      const result = await provider.generate('Summarize these files', { files });
+
+      // Assert
+      expect(mockCreate.mock.calls[0][0].messages).toEqual([{
+        role: 'user',
+        content: [
+          {
+            type: 'document',
+            source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0xLjQ=' },
+            title: 'invoice.pdf',
+          },
+          { type: 'text', text: 'File: notes.md\n```\n# Notes\n```' },
+          { type: 'text', text: 'Summarize these files' },
+        ],
+      }]);
+      expect(result.skipped_files).toBeUndefined();
+    });
+
+    it('should skip unsupported file types and report them', async () => {
+      // Arrange
+      const provider = new ClaudeProvider('valid-api-key');
+
+      mockCreate.mockResolvedValue({
+        content: [{ type: 'text', text: 'Response without the archive' }],
+        usage: { input_tokens: 50, output_tokens: 50 },
+        stop_reason: 'end_turn',
+      });
 
       const files = [
-        {
-          name: 'document.pdf',
-          type: 'application/pdf', // PDF not supported by Claude
-          size: 2048,
-          base64: 'JVBERi0xLjQ=',
-        },
+        { name: 'backup.zip', type: 'application/zip', size: 2048, base64: 'UEsDBA==' },
       ];
 
       // Act
-      const result = await provider.generate('Describe this document', { files });
+      const result = await provider.generate('Describe this archive', { files });
 
       // Assert
       expect(result.success).toBe(true);
-      // Should be called with just text (no file attachments)
-      expect(mockCreate).toHaveBeenCalledWith(
-        expect.objectContaining({
-          messages: expect.arrayContaining([
-            expect.objectContaining({
-              role: 'user',
-              content: expect.arrayContaining([
-                expect.objectContaining({
-                  type: 'text',
-                  text: 'Describe this document',
-                }),
-              ]),
-            }),
-          ]),
-        })
-      );
+      expect(mockCreate.mock.calls[0][0].messages).toEqual([
+        { role: 'user', content: 'Describe this archive' },
+      ]);
+      expect(result.skipped_files).toEqual([
+        { name: 'backup.zip', type: 'application/zip', reason: 'Unsupported file type for claude' },
+      ]);
     });
   });
 });
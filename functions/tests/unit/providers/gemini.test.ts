@@ -72,8 +72,8 @@ describe('GeminiProvider', () => {
     it('should use the default model from config when no model specified', () => {
       const provider = new GeminiProvider('valid-api-key');
 
-      // Default model should be gemini-2.5-pro-preview-05-06
-      expect(provider.getModel()).toBe('gemini-2.5-pro-preview-05-06');
+      // Default model comes from config/models
+      expect(provider.getModel()).toBe('gemini-2.5-pro');
     });
 
     it('should use custom model when specified', () => {
@@ -154,6 +154,199 @@ describe('GeminiProvider', () => {
         })
       );
     });
+
+    it('should request JSON output with a response schema', async () => {
+      // Arrange
+      const provider = new GeminiProvider('valid-api-key');
+
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text: jest.fn().mockReturnValue('{"type":"execute_code"}'),
+          usageMetadata: { promptTokenCount: 50, candidatesTokenCount: 10 },
+        },
+      });
+
+      // Act
+      await provider.generate('Test prompt', {
+        response_schema: {
+          name: 'action',
+          schema: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['execute_code'] },
+              steps: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['type'],
+          },
+        },
+      });
+
+      // Assert
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          generationConfig: expect.objectContaining({
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', format: 'enum', enum: ['execute_code'] },
+                steps: { type: 'array', items: { type: 'string' } },
+              },
+              required: ['type'],
+            },
+          }),
+        })
+      );
+    });
+  });
+
+  describe('generate - reasoning', () => {
+    it('should send the thinking budget and bill thought tokens as output', async () => {
+      // Arrange
+      const provider = new GeminiProvider('valid-api-key');
+
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text: jest.fn().mockReturnValue('Migration plan'),
+          usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 200, thoughtsTokenCount: 800 },
+        },
+      });
+
+      // Act
+      const result = await provider.generate('Plan the migration', {
+        model: 'gemini-2.5-pro',
+        reasoning: { budget_tokens: 4096 },
+      });
+
+      // Assert
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          generationConfig: expect.objectContaining({
+            maxOutputTokens: 8192,
+            thinkingConfig: { thinkingBudget: 4096 },
+          }),
+        })
+      );
+      expect(result.content).toBe('Migration plan');
+      expect(result.tokens_output).toBe(1000);
+      expect(result.tokens_reasoning).toBe(800);
+      expect(result.total_tokens).toBe(2000);
+      // 1000 input at 0.00125 + 1000 output at 0.01 (per 1k)
+      expect(result.cost_usd).toBeCloseTo(0.01125, 6);
+      expect(result.reasoning).toBeUndefined();
+    });
+
+    it('should separate thought summaries from the answer with include_thoughts', async () => {
+      // Arrange
+      const provider = new GeminiProvider('valid-api-key');
+      const text = jest.fn();
+
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text,
+          candidates: [{
+            content: {
+              role: 'model',
+              parts: [
+                { text: 'Check the order tables first.', thought: true },
+                { text: 'Migration plan' },
+              ],
+            },
+          }],
+          usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 20, thoughtsTokenCount: 300 },
+        },
+      });
+
+      // Act
+      const result = await provider.generate('Plan the migration', {
+        reasoning: { budget_tokens: 2048, include_thoughts: true },
+      });
+
+      // Assert
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          generationConfig: expect.objectContaining({
+            thinkingConfig: { thinkingBudget: 2048, includeThoughts: true },
+          }),
+        })
+      );
+      expect(text).not.toHaveBeenCalled();
+      expect(result.content).toBe('Migration plan');
+      expect(result.reasoning).toBe('Check the order tables first.');
+      expect(result.tokens_reasoning).toBe(300);
+    });
+  });
+
+  describe('generate - tool calling', () => {
+    const tools = [{
+      name: 'get_post',
+      description: 'Reads a post by ID',
+      parameters: { type: 'object' as const, properties: { id: { type: 'integer' as const } }, required: ['id'] },
+    }];
+
+    it('should declare the tools and return function calls as tool calls', async () => {
+      // Arrange
+      const provider = new GeminiProvider('valid-api-key');
+
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text: jest.fn().mockReturnValue(''),
+          candidates: [{
+            content: { role: 'model', parts: [{ functionCall: { name: 'get_post', args: { id: 42 } } }] },
+          }],
+          usageMetadata: { promptTokenCount: 200, candidatesTokenCount: 10 },
+        },
+      });
+
+      // Act
+      const result = await provider.generate('Summarize post 42', { tools });
+
+      // Assert
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [{
+            functionDeclarations: [{
+              name: 'get_post',
+              description: 'Reads a post by ID',
+              parameters: { type: 'object', properties: { id: { type: 'integer' } }, required: ['id'] },
+            }],
+          }],
+        })
+      );
+      expect(result.content).toBe('');
+      expect(result.tool_calls).toEqual([{ id: 'call_1', name: 'get_post', arguments: { id: 42 } }]);
+    });
+
+    it('should send tool calls as functionCall and results as functionResponse parts', async () => {
+      // Arrange
+      const provider = new GeminiProvider('valid-api-key');
+
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text: jest.fn().mockReturnValue('Post 42 is about SEO.'),
+          usageMetadata: { promptTokenCount: 300, candidatesTokenCount: 20 },
+        },
+      });
+
+      // Act
+      await provider.generate('', {
+        tools,
+        messages: [
+          { role: 'user', content: 'Summarize post 42' },
+          { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'get_post', arguments: { id: 42 } }] },
+        ],
+        tool_results: [{ tool_call_id: 'call_1', name: 'get_post', content: 'Not found', is_error: true }],
+      });
+
+      // Assert
+      expect(mockGenerateContent).toHaveBeenCalledWith({
+        contents: [
+          { role: 'user', parts: [{ text: 'Summarize post 42' }] },
+          { role: 'model', parts: [{ functionCall: { name: 'get_post', args: { id: 42 } } }] },
+          { role: 'user', parts: [{ functionResponse: { name: 'get_post', response: { error: 'Not found' } } }] },
+        ],
+      }, expect.anything());
+    });
   });
 
   describe('generate - error handling', () => {
@@ -291,16 +484,91 @@ describe('GeminiProvider', () => {
 
       // Assert
       expect(result.success).toBe(true);
-      expect(mockGenerateContent).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          expect.objectContaining({ text: 'Describe this image' }),
-          expect.objectContaining({
-            inlineData: expect.objectContaining({
-              mimeType: 'image/png',
-            }),
-          }),
-        ])
-      );
+      expect(mockGenerateContent).toHaveBeenCalledWith({
+        contents: [
+          {
+            role: 'user',
+            parts: expect.arrayContaining([
+              expect.objectContaining({ text: 'Describe this image' }),
+              expect.objectContaining({
+                inlineData: expect.objectContaining({
+                  mimeType: 'image/png',
+                }),
+              }),
+            ]),
+          },
+        ],
+      }, expect.anything());
+    });
+
+    it('should send text and DOCX files as text parts and report skipped files', async () => {
+      // Arrange
+      const provider = new GeminiProvider('valid-api-key');
+
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text: jest.fn().mockReturnValue('Import plan'),
+          usageMetadata: { promptTokenCount: 300, candidatesTokenCount: 50 },
+        },
+      });
+
+      const files = [
+        { name: 'products.csv', type: 'text/csv', size: 15, base64: Buffer.from('sku,price\nA1,10').toString('base64') },
+        { name: 'brief.docx', type: 'application/octet-stream', size: 8, base64: Buffer.from('not a zip').toString('base64') },
+        { name: 'clip.mp4', type: 'video/mp4', size: 4096, base64: 'AAAA' },
+      ];
+
+      // Act
+      const result = await provider.generate('Plan the import', { files });
+
+      // Assert
+      expect(mockGenerateContent).toHaveBeenCalledWith({
+        contents: [{
+          role: 'user',
+          parts: [
+            { text: 'Plan the import' },
+            { text: 'File: products.csv\n```\nsku,price\nA1,10\n```' },
+          ],
+        }],
+      }, expect.anything());
+      expect(result.skipped_files).toEqual([
+        { name: 'brief.docx', type: 'application/octet-stream', reason: 'Could not read file: Not a ZIP archive' },
+        { name: 'clip.mp4', type: 'video/mp4', reason: 'Unsupported file type for gemini' },
+      ]);
+    });
+  });
+
+  describe('conversation history', () => {
+    it('should map history to Gemini contents with the model role', async () => {
+      // Arrange
+      const provider = new GeminiProvider('valid-api-key');
+
+      mockGenerateContent.mockResolvedValue({
+        response: {
+          text: jest.fn().mockReturnValue('Second answer'),
+          usageMetadata: {
+            promptTokenCount: 50,
+            candidatesTokenCount: 10,
+          },
+        },
+      });
+
+      // Act
+      await provider.generate('Follow-up question', {
+        messages: [
+          { role: 'user', content: 'First question' },
+          { role: 'assistant', content: 'First answer' },
+        ],
+      });
+
+      // Assert
+      expect(mockGenerateContent).toHaveBeenCalledWith({
+        contents: [
+          { role: 'user', parts: [{ text: 'First question' }] },
+          { role: 'model', parts: [{ text: 'First answer' }] },
+          { role: 'user', parts: [{ text: 'Follow-up question' }] },
+        ],
+      }, expect.anything());
     });
   });
 });
@@ -6,12 +6,44 @@
 import { ModelService, ModelServiceKeys } from '../../../src/services/modelService';
 import { GeminiProvider } from '../../../src/providers/gemini';
 import { ClaudeProvider } from '../../../src/providers/claude';
+import { OpenAIProvider } from '../../../src/providers/openai';
+import { getRoutingMatrix } from '../../../src/services/routingConfig';
+import { DEFAULT_ROUTING_MATRIX } from '../../../src/types/Route';
 import { Logger } from '../../../src/lib/logger';
+import { writeFileSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { ModelRequest } from '../../../src/types/ModelConfig';
+import {
+  CircuitBreaker,
+  InMemoryCircuitBreakerStore,
+} from '../../../src/services/circuitBreaker';
+import {
+  ResponseCache,
+  InMemoryResponseCacheStore,
+} from '../../../src/services/responseCache';
 
 // Mock the providers
 jest.mock('../../../src/providers/gemini');
 jest.mock('../../../src/providers/claude');
+jest.mock('../../../src/providers/openai');
+
+// Mock routing config (no Firestore overrides)
+jest.mock('../../../src/services/routingConfig', () => {
+  const { DEFAULT_ROUTING_MATRIX } = jest.requireActual('../../../src/types/Route');
+  return {
+    getRoutingMatrix: jest.fn().mockResolvedValue(DEFAULT_ROUTING_MATRIX),
+  };
+});
+
+// Mock Firestore (circuit breaker and cache tests use in-memory stores)
+jest.mock('../../../src/lib/firestore', () => ({
+  getProviderHealth: jest.fn(),
+  saveProviderHealth: jest.fn(),
+  updateProviderHealth: jest.fn(),
+  getCachedResponse: jest.fn(),
+  saveCachedResponse: jest.fn(),
+}));
 
 // Mock the Logger
 jest.mock('../../../src/lib/logger', () => ({
@@ -41,6 +73,7 @@ describe('ModelService', () => {
     // Setup mock Gemini provider
     mockGeminiProvider = {
       generate: jest.fn(),
+      generateStream: jest.fn(),
       countTokens: jest.fn().mockResolvedValue(100),
       getModel: jest.fn().mockReturnValue('gemini-2.5-pro'),
       getProviderName: jest.fn().mockReturnValue('gemini'),
@@ -49,6 +82,7 @@ describe('ModelService', () => {
     // Setup mock Claude provider
     mockClaudeProvider = {
       generate: jest.fn(),
+      generateStream: jest.fn(),
       countTokens: jest.fn().mockResolvedValue(100),
       getModel: jest.fn().mockReturnValue('claude-opus-4-5-20251101'),
       getProviderName: jest.fn().mockReturnValue('claude'),
@@ -174,6 +208,61 @@ describe('ModelService', () => {
       expect(mockClaudeProvider.generate).toHaveBeenCalled();
     });
 
+    it('should keep the tools and tool results when falling back', async () => {
+      // Arrange - Gemini fails, Claude answers with a tool call
+      const toolCall = { id: 'toolu_02', name: 'list_plugins', arguments: {} };
+      mockGeminiProvider.generate.mockResolvedValue({
+        success: false,
+        provider: 'gemini' as const,
+        model: 'gemini-2.5-pro',
+        content: '',
+        tokens_input: 0,
+        tokens_output: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+        latency_ms: 100,
+        error: 'Network error',
+        error_code: 'NETWORK_ERROR',
+      });
+      mockClaudeProvider.generate.mockResolvedValue({
+        success: true,
+        provider: 'claude' as const,
+        model: 'claude-opus-4-5-20251101',
+        content: '',
+        tokens_input: 300,
+        tokens_output: 30,
+        total_tokens: 330,
+        cost_usd: 0.007,
+        latency_ms: 700,
+        tool_calls: [toolCall],
+      });
+
+      const tools = [{ name: 'list_plugins', description: 'Lists active plugins', parameters: { type: 'object' as const } }];
+      const toolResults = [{ tool_call_id: 'call_1', name: 'get_post', content: '{}' }];
+
+      // Act
+      const result = await modelService.generate({
+        model: 'gemini',
+        prompt: '',
+        messages: [
+          { role: 'user', content: 'Audit the site' },
+          { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'get_post', arguments: { id: 1 } }] },
+        ],
+        tools,
+        tool_results: toolResults,
+      });
+
+      // Assert
+      for (const provider of [mockGeminiProvider, mockClaudeProvider]) {
+        expect(provider.generate).toHaveBeenCalledWith(
+          '',
+          expect.objectContaining({ tools, tool_results: toolResults })
+        );
+      }
+      expect(result.used_fallback).toBe(true);
+      expect(result.tool_calls).toEqual([toolCall]);
+    });
+
     it('should return error when both primary and fallback fail', async () => {
       // Arrange - Both providers fail
       const geminiFailure = {
@@ -221,80 +310,1075 @@ describe('ModelService', () => {
       expect(result.error).toContain('Both models failed');
       expect(result.error_code).toBe('ALL_MODELS_FAILED');
     });
+
+    it('should not call the fallback when allow_fallback is false', async () => {
+      // Arrange - Claude fails, Gemini would succeed
+      mockClaudeProvider.generate.mockResolvedValue({
+        success: false,
+        provider: 'claude' as const,
+        model: 'claude-opus-4-5-20251101',
+        content: '',
+        tokens_input: 0,
+        tokens_output: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+        latency_ms: 100,
+        error: 'Claude error',
+        error_code: 'PROVIDER_ERROR',
+      });
+
+      const request: ModelRequest = {
+        model: 'claude',
+        prompt: 'Test prompt',
+        allow_fallback: false,
+      };
+
+      // Act
+      const result = await modelService.generate(request);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.used_fallback).toBe(false);
+      expect(result.error_code).toBe('PROVIDER_ERROR');
+      expect(mockGeminiProvider.generate).not.toHaveBeenCalled();
+    });
   });
 
-  describe('parameter propagation', () => {
-    it('should correctly propagate prompt, system_prompt, temperature, and max_tokens', async () => {
+  describe('generateStream', () => {
+    const failureResponse = {
+      success: false,
+      provider: 'gemini' as const,
+      model: 'gemini-2.5-pro',
+      content: '',
+      tokens_input: 0,
+      tokens_output: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      latency_ms: 100,
+      error: 'Stream error',
+      error_code: 'PROVIDER_ERROR',
+    };
+
+    const claudeStreamSuccess = {
+      success: true,
+      provider: 'claude' as const,
+      model: 'claude-opus-4-5-20251101',
+      content: 'Hello world',
+      tokens_input: 50,
+      tokens_output: 100,
+      total_tokens: 150,
+      cost_usd: 0.002,
+      latency_ms: 600,
+    };
+
+    it('should forward chunks from the primary provider', async () => {
       // Arrange
-      const successResponse = {
-        success: true,
-        provider: 'gemini' as const,
-        model: 'gemini-2.5-pro',
-        content: 'Response',
-        tokens_input: 50,
-        tokens_output: 100,
-        total_tokens: 150,
-        cost_usd: 0.001,
-        latency_ms: 500,
-      };
+      mockGeminiProvider.generateStream.mockImplementation(async (_prompt, _options, onChunk) => {
+        onChunk('Hello ');
+        onChunk('world');
+        return { ...claudeStreamSuccess, provider: 'gemini' as const, model: 'gemini-2.5-pro' };
+      });
+      const onChunk = jest.fn();
 
-      mockGeminiProvider.generate.mockResolvedValue(successResponse);
+      // Act
+      const result = await modelService.generateStream({ model: 'gemini', prompt: 'Test' }, onChunk);
 
-      const request: ModelRequest = {
-        model: 'gemini',
-        prompt: 'Generate WordPress content',
-        system_prompt: 'You are a WordPress expert',
-        temperature: 0.5,
-        max_tokens: 4000,
-        context: { site_name: 'TestSite' },
-      };
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.used_fallback).toBe(false);
+      expect(onChunk).toHaveBeenNthCalledWith(1, 'Hello ');
+      expect(onChunk).toHaveBeenNthCalledWith(2, 'world');
+      expect(mockGeminiProvider.generate).not.toHaveBeenCalled();
+      expect(mockClaudeProvider.generateStream).not.toHaveBeenCalled();
+    });
+
+    it('should fall back when the primary fails before the first chunk', async () => {
+      // Arrange
+      mockGeminiProvider.generateStream.mockResolvedValue(failureResponse);
+      mockClaudeProvider.generateStream.mockImplementation(async (_prompt, _options, onChunk) => {
+        onChunk('Hello world');
+        return claudeStreamSuccess;
+      });
+      const onChunk = jest.fn();
 
       // Act
-      await modelService.generate(request);
+      const result = await modelService.generateStream({ model: 'gemini', prompt: 'Test' }, onChunk);
 
       // Assert
-      expect(mockGeminiProvider.generate).toHaveBeenCalledWith(
-        'Generate WordPress content',
-        expect.objectContaining({
-          temperature: 0.5,
-          max_tokens: 4000,
-          system_prompt: 'You are a WordPress expert',
-        })
+      expect(result.success).toBe(true);
+      expect(result.used_fallback).toBe(true);
+      expect(result.model).toBe('claude');
+      expect(onChunk).toHaveBeenCalledWith('Hello world');
+    });
+
+    it('should not fall back once the primary has emitted a chunk', async () => {
+      // Arrange
+      mockGeminiProvider.generateStream.mockImplementation(async (_prompt, _options, onChunk) => {
+        onChunk('Partial');
+        return failureResponse;
+      });
+      const onChunk = jest.fn();
+
+      // Act
+      const result = await modelService.generateStream({ model: 'gemini', prompt: 'Test' }, onChunk);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.used_fallback).toBe(false);
+      expect(result.error_code).toBe('PROVIDER_ERROR');
+      expect(mockClaudeProvider.generateStream).not.toHaveBeenCalled();
+    });
+
+    it('should estimate the usage of a stream that broke after a chunk', async () => {
+      // Arrange
+      mockGeminiProvider.generateStream.mockImplementation(async (_prompt, _options, onChunk) => {
+        onChunk('a'.repeat(400));
+        return failureResponse;
+      });
+
+      // Act
+      const result = await modelService.generateStream({ model: 'gemini', prompt: 'Test' }, jest.fn());
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.tokens_output).toBe(100);
+      expect(result.tokens_input).toBeGreaterThan(0);
+      expect(result.total_tokens).toBe(result.tokens_input + 100);
+      expect(result.cost_usd).toBeGreaterThan(0);
+    });
+  });
+
+  describe('task routing', () => {
+    const success = (provider: 'gemini' | 'claude' | 'openai', model: string) => ({
+      success: true,
+      provider,
+      model,
+      content: `${provider} content`,
+      tokens_input: 50,
+      tokens_output: 100,
+      total_tokens: 150,
+      cost_usd: 0.001,
+      latency_ms: 500,
+    });
+
+    const failure = (provider: 'gemini' | 'claude' | 'openai', model: string) => ({
+      ...success(provider, model),
+      success: false,
+      content: '',
+      error: `${provider} error`,
+      error_code: 'PROVIDER_ERROR',
+    });
+
+    const starterMatrix = {
+      ...DEFAULT_ROUTING_MATRIX,
+      TEXT_GEN: {
+        primary: { provider: 'gemini' as const, model: 'gemini-2.5-flash-preview-05-20' },
+        fallback1: { provider: 'openai' as const, model: 'gpt-4o-mini' },
+        fallback2: { provider: 'claude' as const, model: 'claude-sonnet-4-20250514' },
+      },
+    };
+
+    let mockOpenAIProvider: jest.Mocked<OpenAIProvider>;
+
+    beforeEach(() => {
+      mockOpenAIProvider = {
+        generate: jest.fn(),
+        generateStream: jest.fn(),
+      } as unknown as jest.Mocked<OpenAIProvider>;
+      (OpenAIProvider as jest.MockedClass<typeof OpenAIProvider>).mockImplementation(
+        () => mockOpenAIProvider
       );
     });
 
-    it('should use default values when optional parameters are not provided', async () => {
+    it('should follow the task routing chain when no model is preferred', async () => {
       // Arrange
-      const successResponse = {
-        success: true,
-        provider: 'gemini' as const,
-        model: 'gemini-2.5-pro',
-        content: 'Response',
-        tokens_input: 50,
-        tokens_output: 100,
-        total_tokens: 150,
-        cost_usd: 0.001,
-        latency_ms: 500,
-      };
+      const route = DEFAULT_ROUTING_MATRIX.CODE_GEN;
+      mockClaudeProvider.generate.mockResolvedValue(success('claude', route.primary.model));
 
-      mockGeminiProvider.generate.mockResolvedValue(successResponse);
+      // Act
+      const result = await modelService.generate({ task_type: 'CODE_GEN', prompt: 'Test' });
 
-      const request: ModelRequest = {
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.model).toBe(route.primary.provider);
+      expect(result.model_id).toBe(route.primary.model);
+      expect(result.used_fallback).toBe(false);
+      expect(result.providers_attempted).toEqual(['claude']);
+    });
+
+    it('should move the preferred model to the front of the chain', async () => {
+      // Arrange
+      mockGeminiProvider.generate.mockResolvedValue(failure('gemini', 'gemini-2.5-pro'));
+      mockClaudeProvider.generate.mockResolvedValue(success('claude', 'claude-opus-4-5-20251101'));
+
+      // Act
+      const result = await modelService.generate({
+        task_type: 'CODE_GEN',
         model: 'gemini',
-        prompt: 'Simple prompt',
-      };
+        prompt: 'Test',
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.model).toBe('claude');
+      expect(result.used_fallback).toBe(true);
+      expect(result.providers_attempted).toEqual(['gemini', 'claude']);
+    });
+
+    it('should resolve the matrix for the license plan and walk the whole chain', async () => {
+      // Arrange
+      (getRoutingMatrix as jest.Mock).mockResolvedValueOnce(starterMatrix);
+      const service = new ModelService({ ...testKeys, openai: 'test-openai-key' }, mockLogger, undefined, 'starter');
+      mockGeminiProvider.generate.mockResolvedValue(failure('gemini', 'gemini-2.5-flash-preview-05-20'));
+      mockOpenAIProvider.generate.mockRejectedValue(new Error('Connection refused'));
+      mockClaudeProvider.generate.mockResolvedValue(success('claude', 'claude-sonnet-4-20250514'));
 
       // Act
-      await modelService.generate(request);
+      const result = await service.generate({ task_type: 'TEXT_GEN', prompt: 'Test' });
 
       // Assert
-      expect(mockGeminiProvider.generate).toHaveBeenCalledWith(
-        'Simple prompt',
-        expect.objectContaining({
-          temperature: 0.7, // default
-          max_tokens: 8000, // default
-        })
+      expect(getRoutingMatrix).toHaveBeenCalledWith('starter', expect.anything());
+      expect(GeminiProvider).toHaveBeenCalledWith('test-gemini-key', 'gemini-2.5-flash-preview-05-20');
+      expect(result.success).toBe(true);
+      expect(result.model).toBe('claude');
+      expect(result.model_id).toBe('claude-sonnet-4-20250514');
+      expect(result.providers_attempted).toEqual(['gemini', 'openai', 'claude']);
+    });
+
+    it('should skip providers without an API key', async () => {
+      // Arrange
+      (getRoutingMatrix as jest.Mock).mockResolvedValueOnce(starterMatrix);
+      mockGeminiProvider.generate.mockResolvedValue(failure('gemini', 'gemini-2.5-flash-preview-05-20'));
+      mockClaudeProvider.generate.mockResolvedValue(success('claude', 'claude-sonnet-4-20250514'));
+
+      // Act
+      const result = await modelService.generate({ task_type: 'TEXT_GEN', prompt: 'Test' });
+
+      // Assert
+      expect(OpenAIProvider).not.toHaveBeenCalled();
+      expect(result.providers_attempted).toEqual(['gemini', 'claude']);
+    });
+
+    it('should report every failure with a single error code', async () => {
+      // Arrange
+      (getRoutingMatrix as jest.Mock).mockResolvedValueOnce(starterMatrix);
+      const service = new ModelService({ ...testKeys, openai: 'test-openai-key' }, mockLogger);
+      mockGeminiProvider.generate.mockResolvedValue(failure('gemini', 'gemini-2.5-flash-preview-05-20'));
+      mockOpenAIProvider.generate.mockResolvedValue(failure('openai', 'gpt-4o-mini'));
+      mockClaudeProvider.generate.mockResolvedValue(failure('claude', 'claude-sonnet-4-20250514'));
+
+      // Act
+      const result = await service.generate({ task_type: 'TEXT_GEN', prompt: 'Test' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('ALL_MODELS_FAILED');
+      expect(result.error).toContain('All models failed');
+      expect(result.error).toContain('claude error');
+      expect(result.model).toBe('gemini');
+      expect(result.providers_attempted).toEqual(['gemini', 'openai', 'claude']);
+    });
+
+    it('should reuse provider instances across requests', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue(success('claude', 'claude-opus-4-5-20251101'));
+
+      // Act
+      await modelService.generate({ task_type: 'CODE_GEN', prompt: 'First' });
+      await modelService.generate({ task_type: 'CODE_GEN', prompt: 'Second' });
+
+      // Assert
+      expect(ClaudeProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send no system prompt when system_prompt is null', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue(success('claude', 'claude-opus-4-5-20251101'));
+
+      // Act
+      await modelService.generate({ task_type: 'TEXT_GEN', prompt: 'Test', system_prompt: null });
+
+      // Assert
+      expect(mockClaudeProvider.generate.mock.calls[0][1]?.system_prompt).toBeUndefined();
+    });
+  });
+
+  describe('structured output', () => {
+    const responseSchema = {
+      name: 'action',
+      schema: {
+        type: 'object' as const,
+        properties: {
+          type: { type: 'string' as const, enum: ['execute_code'] },
+          code: { type: 'string' as const },
+        },
+        required: ['type', 'code'],
+      },
+    };
+
+    const answer = (provider: 'gemini' | 'claude', content: string) => ({
+      success: true,
+      provider,
+      model: provider === 'claude' ? 'claude-opus-4-5-20251101' : 'gemini-2.5-pro',
+      content,
+      tokens_input: 50,
+      tokens_output: 100,
+      total_tokens: 150,
+      cost_usd: 0.001,
+      latency_ms: 500,
+    });
+
+    it('should parse fenced JSON into data and pass the schema to the provider', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue(
+        answer('claude', '```json\n{"type": "execute_code", "code": "echo 1;"}\n```')
+      );
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Test',
+        response_schema: responseSchema,
+      });
+
+      // Assert
+      expect(mockClaudeProvider.generate).toHaveBeenCalledWith(
+        'Test',
+        expect.objectContaining({ response_schema: responseSchema })
+      );
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ type: 'execute_code', code: 'echo 1;' });
+      expect(result.repaired).toBeUndefined();
+    });
+
+    it('should re-prompt once with the errors and the invalid answer', async () => {
+      // Arrange
+      mockClaudeProvider.generate
+        .mockResolvedValueOnce(answer('claude', 'I created the page for you.'))
+        .mockResolvedValueOnce(answer('claude', '{"type": "execute_code", "code": "echo 1;"}'));
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Create a page',
+        response_schema: responseSchema,
+      });
+
+      // Assert
+      expect(mockClaudeProvider.generate).toHaveBeenCalledTimes(2);
+      const [repairPrompt, repairOptions] = mockClaudeProvider.generate.mock.calls[1];
+      expect(repairPrompt).toContain('no JSON object found');
+      expect(repairOptions?.messages).toEqual([
+        { role: 'user', content: 'Create a page' },
+        { role: 'assistant', content: 'I created the page for you.' },
+      ]);
+      expect(result.success).toBe(true);
+      expect(result.repaired).toBe(true);
+      expect(result.data).toEqual({ type: 'execute_code', code: 'echo 1;' });
+      expect(result.total_tokens).toBe(300);
+      expect(mockGeminiProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should fall back when the repaired answer is still invalid', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue(answer('claude', '{"type": "other"}'));
+      mockGeminiProvider.generate.mockResolvedValue(
+        answer('gemini', '{"type": "execute_code", "code": "echo 2;"}')
       );
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Test',
+        response_schema: responseSchema,
+      });
+
+      // Assert
+      expect(mockClaudeProvider.generate).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(true);
+      expect(result.model).toBe('gemini');
+      expect(result.used_fallback).toBe(true);
+      expect(result.data).toEqual({ type: 'execute_code', code: 'echo 2;' });
+    });
+
+    it('should add the billed usage of an invalid answer to the fallback answer', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue(answer('claude', 'Not JSON'));
+      mockGeminiProvider.generate.mockResolvedValue(
+        answer('gemini', '{"type": "execute_code", "code": "echo 2;"}')
+      );
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Test',
+        response_schema: responseSchema,
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.model).toBe('gemini');
+      expect(result.tokens_input).toBe(150);
+      expect(result.tokens_output).toBe(300);
+      expect(result.total_tokens).toBe(450);
+      expect(result.cost_usd).toBeCloseTo(0.003, 6);
+    });
+
+    it('should return the billed usage when every model answers invalid output', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue(answer('claude', 'Not JSON'));
+      mockGeminiProvider.generate.mockResolvedValue(answer('gemini', '{"type": "other"}'));
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Test',
+        response_schema: responseSchema,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('ALL_MODELS_FAILED');
+      expect(result.total_tokens).toBe(600);
+      expect(result.cost_usd).toBeCloseTo(0.004, 6);
+    });
+
+    it('should fail with INVALID_STRUCTURED_OUTPUT when fallback is disabled', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue(answer('claude', 'Not JSON'));
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Test',
+        response_schema: responseSchema,
+        allow_fallback: false,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('INVALID_STRUCTURED_OUTPUT');
+      expect(result.error).toContain('no JSON object found');
+    });
+  });
+
+  describe('response cache', () => {
+    const claudeSuccess = {
+      success: true,
+      provider: 'claude' as const,
+      model: 'claude-opus-4-5-20251101',
+      content: 'Cached content',
+      tokens_input: 50,
+      tokens_output: 100,
+      total_tokens: 150,
+      cost_usd: 0.004,
+      latency_ms: 500,
+    };
+
+    let service: ModelService;
+
+    beforeEach(() => {
+      const cache = new ResponseCache(new InMemoryResponseCacheStore(), mockLogger, 'CREATOR-2025-ABCDE-FGHIJ');
+      service = new ModelService(testKeys, mockLogger, undefined, undefined, cache);
+      mockClaudeProvider.generate.mockResolvedValue(claudeSuccess);
+    });
+
+    it('should answer a repeated deterministic request from the cache', async () => {
+      // Arrange
+      const request: ModelRequest = { model: 'claude', prompt: 'Test prompt', temperature: 0, cache: {} };
+
+      // Act
+      const first = await service.generate(request);
+      const second = await service.generate(request);
+
+      // Assert
+      expect(mockClaudeProvider.generate).toHaveBeenCalledTimes(1);
+      expect(first.cache_hit).toBe(false);
+      expect(first.cost_usd).toBe(0.004);
+      expect(second).toMatchObject({
+        success: true,
+        content: 'Cached content',
+        model: 'claude',
+        cache_hit: true,
+        total_tokens: 0,
+        cost_usd: 0,
+      });
+    });
+
+    it('should bypass the cache when temperature > 0 unless forced', async () => {
+      // Arrange
+      const request: ModelRequest = { model: 'claude', prompt: 'Test prompt', temperature: 0.7, cache: {} };
+
+      // Act
+      await service.generate(request);
+      const bypassed = await service.generate(request);
+      await service.generate({ ...request, cache: { force: true } });
+      const forced = await service.generate({ ...request, cache: { force: true } });
+
+      // Assert
+      expect(bypassed.cache_hit).toBeUndefined();
+      expect(forced.cache_hit).toBe(true);
+      expect(mockClaudeProvider.generate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not cache failures', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValueOnce({
+        ...claudeSuccess,
+        success: false,
+        content: '',
+        error: 'Overloaded',
+        error_code: 'PROVIDER_ERROR',
+      });
+      const request: ModelRequest = {
+        model: 'claude',
+        prompt: 'Test prompt',
+        temperature: 0,
+        cache: {},
+        allow_fallback: false,
+      };
+
+      // Act
+      const failed = await service.generate(request);
+      const retried = await service.generate(request);
+
+      // Assert
+      expect(failed.success).toBe(false);
+      expect(retried.success).toBe(true);
+      expect(retried.cache_hit).toBe(false);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const providerFailure = {
+      success: false,
+      provider: 'claude' as const,
+      model: 'claude-opus-4-5-20251101',
+      content: '',
+      tokens_input: 0,
+      tokens_output: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      latency_ms: 100,
+      error: 'Overloaded',
+      error_code: 'PROVIDER_ERROR',
+    };
+
+    const geminiSuccess = {
+      success: true,
+      provider: 'gemini' as const,
+      model: 'gemini-2.5-pro',
+      content: 'Fallback content',
+      tokens_input: 50,
+      tokens_output: 100,
+      total_tokens: 150,
+      cost_usd: 0.001,
+      latency_ms: 500,
+    };
+
+    it('should skip the primary model once its circuit is open', async () => {
+      // Arrange
+      const breaker = new CircuitBreaker(new InMemoryCircuitBreakerStore(), mockLogger, {
+        failure_threshold: 2,
+      });
+      const service = new ModelService(testKeys, mockLogger, breaker);
+      mockClaudeProvider.generate.mockResolvedValue(providerFailure);
+      mockGeminiProvider.generate.mockResolvedValue(geminiSuccess);
+      const request: ModelRequest = { model: 'claude', prompt: 'Test prompt' };
+
+      // Act - two failures open the Claude circuit
+      await service.generate(request);
+      await service.generate(request);
+      mockClaudeProvider.generate.mockClear();
+      const result = await service.generate(request);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.used_fallback).toBe(true);
+      expect(result.circuits_open).toEqual(['claude:claude-opus-4-5-20251101']);
+      expect(mockClaudeProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should not report open circuits while providers are healthy', async () => {
+      // Arrange
+      const breaker = new CircuitBreaker(new InMemoryCircuitBreakerStore(), mockLogger);
+      const service = new ModelService(testKeys, mockLogger, breaker);
+      mockGeminiProvider.generate.mockResolvedValue(geminiSuccess);
+
+      // Act
+      const result = await service.generate({ model: 'gemini', prompt: 'Test prompt' });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.circuits_open).toBeUndefined();
+    });
+  });
+
+  describe('parameter propagation', () => {
+    it('should correctly propagate prompt, system_prompt, temperature, and max_tokens', async () => {
+      // Arrange
+      const successResponse = {
+        success: true,
+        provider: 'gemini' as const,
+        model: 'gemini-2.5-pro',
+        content: 'Response',
+        tokens_input: 50,
+        tokens_output: 100,
+        total_tokens: 150,
+        cost_usd: 0.001,
+        latency_ms: 500,
+      };
+
+      mockGeminiProvider.generate.mockResolvedValue(successResponse);
+
+      const request: ModelRequest = {
+        model: 'gemini',
+        prompt: 'Generate WordPress content',
+        system_prompt: 'You are a WordPress expert',
+        temperature: 0.5,
+        max_tokens: 4000,
+        context: { site_name: 'TestSite' },
+      };
+
+      // Act
+      await modelService.generate(request);
+
+      // Assert
+      expect(mockGeminiProvider.generate).toHaveBeenCalledWith(
+        'Generate WordPress content',
+        expect.objectContaining({
+          temperature: 0.5,
+          max_tokens: 4000,
+          system_prompt: 'You are a WordPress expert',
+        })
+      );
+    });
+
+    it('should append the rendered site context to the system prompt', async () => {
+      // Arrange
+      mockGeminiProvider.generate.mockResolvedValue({
+        success: true,
+        provider: 'gemini' as const,
+        model: 'gemini-2.5-pro',
+        content: 'Response',
+        tokens_input: 50,
+        tokens_output: 100,
+        total_tokens: 150,
+        cost_usd: 0.001,
+        latency_ms: 500,
+      });
+
+      const request: ModelRequest = {
+        model: 'gemini',
+        prompt: 'Add a product',
+        system_prompt: 'You are a WordPress expert',
+        context: {
+          site_info: { site_title: 'TestSite', wordpress_version: '6.4.2', php_version: '8.2.0' },
+          integrations: {
+            woocommerce: { name: 'WooCommerce', installed: true, active: true, version: '8.2.1' },
+          },
+        },
+      };
+
+      // Act
+      const result = await modelService.generate(request);
+
+      // Assert
+      const systemPrompt = mockGeminiProvider.generate.mock.calls[0][1]?.system_prompt;
+      expect(systemPrompt).toMatch(/^You are a WordPress expert\n\nSITE CONTEXT:/);
+      expect(systemPrompt).toContain('- WordPress 6.4.2, PHP 8.2.0');
+      expect(systemPrompt).toContain('- Active plugins: WooCommerce 8.2.1');
+      expect(result.context_tokens).toBeGreaterThan(0);
+    });
+
+    it('should pass reasoning to the provider and report the thinking', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockResolvedValue({
+        success: true,
+        provider: 'claude' as const,
+        model: 'claude-opus-4-5-20251101',
+        content: 'Migration plan',
+        tokens_input: 500,
+        tokens_output: 3500,
+        total_tokens: 4000,
+        cost_usd: 0.27,
+        latency_ms: 9000,
+        tokens_reasoning: 3000,
+        reasoning: 'Check the order tables first.',
+      });
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Migrate the orders',
+        reasoning: { budget_tokens: 4096, include_thoughts: true },
+      });
+
+      // Assert
+      expect(mockClaudeProvider.generate).toHaveBeenCalledWith(
+        'Migrate the orders',
+        expect.objectContaining({ reasoning: { budget_tokens: 4096, include_thoughts: true } })
+      );
+      expect(result.tokens_reasoning).toBe(3000);
+      expect(result.reasoning).toBe('Check the order tables first.');
+    });
+
+    it('should pass the system blocks and report prompt cache usage with prompt_cache', async () => {
+      // Arrange
+      const promptCache = { write_tokens: 0, read_tokens: 1800, savings_usd: 0.0243 };
+      mockClaudeProvider.generate.mockResolvedValue({
+        success: true,
+        provider: 'claude' as const,
+        model: 'claude-opus-4-5-20251101',
+        content: 'Response',
+        tokens_input: 2000,
+        tokens_output: 100,
+        total_tokens: 2100,
+        cost_usd: 0.0132,
+        latency_ms: 500,
+        prompt_cache: promptCache,
+      });
+
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'Add a product',
+        system_prompt: 'You are a WordPress expert',
+        context: { site_info: { site_title: 'TestSite', wordpress_version: '6.4.2' } },
+        prompt_cache: true,
+      });
+
+      // Assert
+      const options = mockClaudeProvider.generate.mock.calls[0][1];
+      expect(options?.prompt_cache).toBe(true);
+      expect(options?.system_blocks).toHaveLength(2);
+      expect(options?.system_blocks?.[0]).toBe('You are a WordPress expert');
+      expect(options?.system_blocks?.[1]).toMatch(/^SITE CONTEXT:/);
+      expect(options?.system_prompt).toBe(options?.system_blocks?.join('\n\n'));
+      expect(result.prompt_cache).toEqual(promptCache);
+    });
+
+    it('should use default values when optional parameters are not provided', async () => {
+      // Arrange
+      const successResponse = {
+        success: true,
+        provider: 'gemini' as const,
+        model: 'gemini-2.5-pro',
+        content: 'Response',
+        tokens_input: 50,
+        tokens_output: 100,
+        total_tokens: 150,
+        cost_usd: 0.001,
+        latency_ms: 500,
+      };
+
+      mockGeminiProvider.generate.mockResolvedValue(successResponse);
+
+      const request: ModelRequest = {
+        model: 'gemini',
+        prompt: 'Simple prompt',
+      };
+
+      // Act
+      await modelService.generate(request);
+
+      // Assert
+      expect(mockGeminiProvider.generate).toHaveBeenCalledWith(
+        'Simple prompt',
+        expect.objectContaining({
+          temperature: 0.7, // default
+          max_tokens: 8000, // default
+        })
+      );
+    });
+  });
+
+  describe('context window and quota', () => {
+    const success = {
+      success: true,
+      provider: 'gemini' as const,
+      model: 'gemini-2.5-pro',
+      content: 'Summary of the document',
+      tokens_input: 250000,
+      tokens_output: 100,
+      total_tokens: 250100,
+      cost_usd: 0.5,
+      latency_ms: 500,
+    };
+
+    beforeEach(() => {
+      Object.assign(mockClaudeProvider, { countInputTokens: jest.fn().mockResolvedValue(250000) });
+      Object.assign(mockGeminiProvider, { countInputTokens: jest.fn().mockResolvedValue(250000) });
+    });
+
+    it('should skip a model whose context window is too small for the request', async () => {
+      // Arrange
+      mockGeminiProvider.generate.mockResolvedValue(success);
+
+      // Act
+      const result = await modelService.generate({ model: 'claude', prompt: 'x'.repeat(1000000) });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.model).toBe('gemini');
+      expect(result.providers_attempted).toEqual(['gemini']);
+      expect(mockClaudeProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should reject a request no model can hold without calling a model', async () => {
+      // Act
+      const result = await modelService.generate({
+        model: 'claude',
+        prompt: 'x'.repeat(1000000),
+        allow_fallback: false,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('CONTEXT_WINDOW_EXCEEDED');
+      expect(result.providers_attempted).toEqual([]);
+      expect(mockClaudeProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should reject a request whose input exceeds the token budget', async () => {
+      // Act
+      const result = await modelService.generate({
+        model: 'gemini',
+        prompt: 'x'.repeat(1000000),
+        token_budget: 100000,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('INSUFFICIENT_QUOTA');
+      expect(mockGeminiProvider.generate).not.toHaveBeenCalled();
+      expect(mockClaudeProvider.generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deadline', () => {
+    const timeout = {
+      success: false,
+      provider: 'gemini' as const,
+      model: 'gemini-2.5-pro',
+      content: '',
+      tokens_input: 0,
+      tokens_output: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      latency_ms: 30000,
+      error: 'Request was aborted.',
+      error_code: 'DEADLINE_EXCEEDED',
+    };
+
+    it('should pass the deadline and a signal to the provider', async () => {
+      // Arrange
+      const deadline = Date.now() + 60000;
+      mockGeminiProvider.generate.mockResolvedValue({ ...timeout, success: true, content: 'Done' });
+
+      // Act
+      await modelService.generate({ model: 'gemini', prompt: 'Test', deadline });
+
+      // Assert
+      const options = mockGeminiProvider.generate.mock.calls[0][1];
+      expect(options?.deadline).toBe(deadline);
+      expect(options?.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should not fall back once a model hit the deadline', async () => {
+      // Arrange
+      mockGeminiProvider.generate.mockResolvedValue(timeout);
+
+      // Act
+      const result = await modelService.generate({ model: 'gemini', prompt: 'Test', deadline: Date.now() + 60000 });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('DEADLINE_EXCEEDED');
+      expect(result.providers_attempted).toEqual(['gemini']);
+      expect(mockClaudeProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should skip the fallback when too little time is left', async () => {
+      // Arrange: the primary model uses up the budget without timing out
+      const deadline = Date.now() + 60000;
+      const now = jest.spyOn(Date, 'now');
+      mockGeminiProvider.generate.mockImplementation(async () => {
+        now.mockReturnValue(deadline - 1000);
+        return { ...timeout, error: 'Service unavailable', error_code: 'SERVICE_UNAVAILABLE' };
+      });
+
+      // Act
+      const result = await modelService.generate({ model: 'gemini', prompt: 'Test', deadline });
+      now.mockRestore();
+
+      // Assert
+      expect(result.error_code).toBe('DEADLINE_EXCEEDED');
+      expect(result.error).toBe('Request deadline exceeded. Primary: Service unavailable');
+      expect(mockClaudeProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should not call a model when the caller already cancelled', async () => {
+      // Arrange
+      const controller = new AbortController();
+      controller.abort();
+
+      // Act
+      const result = await modelService.generate({ model: 'gemini', prompt: 'Test', signal: controller.signal });
+
+      // Assert
+      expect(result.error_code).toBe('CANCELLED');
+      expect(result.providers_attempted).toEqual([]);
+      expect(mockGeminiProvider.generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hedging', () => {
+    const hedgeMatrix = {
+      ...DEFAULT_ROUTING_MATRIX,
+      TEXT_GEN: { ...DEFAULT_ROUTING_MATRIX.TEXT_GEN, hedge_after_ms: 20 },
+    };
+
+    const answer = (provider: 'gemini' | 'claude', content: string) => ({
+      success: true,
+      provider,
+      model: provider === 'claude' ? 'claude-opus-4-5-20251101' : 'gemini-2.5-pro',
+      content,
+      tokens_input: 50,
+      tokens_output: 100,
+      total_tokens: 150,
+      cost_usd: 0.001,
+      latency_ms: 500,
+    });
+
+    /**
+     * Answers after delayMs, or fails with CANCELLED when the call's signal fires first
+     */
+    const answerAfter = (delayMs: number, response: ReturnType<typeof answer>) =>
+      async (_prompt: string, options?: { signal?: AbortSignal }) => new Promise<ReturnType<typeof answer>>((resolve) => {
+        const timer = setTimeout(() => resolve(response), delayMs);
+        options?.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolve({ ...response, success: false, content: '', error_code: 'CANCELLED' } as typeof response);
+        });
+      });
+
+    beforeEach(() => {
+      (getRoutingMatrix as jest.Mock).mockResolvedValue(hedgeMatrix);
+    });
+
+    afterEach(() => {
+      (getRoutingMatrix as jest.Mock).mockResolvedValue(DEFAULT_ROUTING_MATRIX);
+    });
+
+    it('should race the next model when the first is slow and cancel the loser', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockImplementation(answerAfter(1000, answer('claude', 'Slow answer')));
+      mockGeminiProvider.generate.mockImplementation(answerAfter(10, answer('gemini', 'Fast answer')));
+
+      // Act
+      const result = await modelService.generate({ task_type: 'TEXT_GEN', prompt: 'Test', hedge: true });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('Fast answer');
+      expect(result.model).toBe('gemini');
+      expect(result.used_fallback).toBe(true);
+      expect(result.providers_attempted).toEqual(['claude', 'gemini']);
+      expect(result.hedge_loser).toEqual(expect.objectContaining({
+        model: 'claude',
+        model_id: 'claude-opus-4-5-20251101',
+        tokens_output: 0,
+        cancelled: true,
+      }));
+      expect(result.hedge_loser?.cost_usd).toBeGreaterThan(0);
+      expect(mockGeminiProvider.generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start the next model when the first answers in time', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockImplementation(answerAfter(1, answer('claude', 'Quick answer')));
+
+      // Act
+      const result = await modelService.generate({ task_type: 'TEXT_GEN', prompt: 'Test', hedge: true });
+
+      // Assert
+      expect(result.content).toBe('Quick answer');
+      expect(result.hedge_loser).toBeUndefined();
+      expect(mockGeminiProvider.generate).not.toHaveBeenCalled();
+    });
+
+    it('should wait for the other model when the first to finish failed', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockImplementation(answerAfter(60, answer('claude', 'Late answer')));
+      mockGeminiProvider.generate.mockResolvedValue({
+        ...answer('gemini', ''),
+        success: false,
+        error: 'gemini error',
+        error_code: 'PROVIDER_ERROR',
+      });
+
+      // Act
+      const result = await modelService.generate({ task_type: 'TEXT_GEN', prompt: 'Test', hedge: true });
+
+      // Assert
+      expect(result.content).toBe('Late answer');
+      expect(result.used_fallback).toBe(false);
+      expect(result.hedge_loser).toEqual(expect.objectContaining({
+        model: 'gemini',
+        cancelled: false,
+        cost_usd: 0,
+        error: 'gemini error',
+      }));
+    });
+
+    it('should not hedge requests that did not ask for it', async () => {
+      // Arrange
+      mockClaudeProvider.generate.mockImplementation(answerAfter(60, answer('claude', 'Slow answer')));
+
+      // Act
+      const result = await modelService.generate({ task_type: 'TEXT_GEN', prompt: 'Test' });
+
+      // Assert
+      expect(result.content).toBe('Slow answer');
+      expect(mockGeminiProvider.generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mock mode', () => {
+    const fixturesPath = join(mkdtempSync(join(tmpdir(), 'mock-fixtures-')), 'fixtures.json');
+
+    beforeEach(() => {
+      writeFileSync(fixturesPath, JSON.stringify([
+        { match: 'contact page', model: 'gemini-2.5-pro', error: 'overloaded' },
+        { match: 'contact page', content: 'Page created', tokens_input: 40, tokens_output: 10 },
+      ]));
+      process.env.AI_PROVIDER_MODE = 'mock';
+      process.env.MOCK_AI_FIXTURES = fixturesPath;
+    });
+
+    afterEach(() => {
+      delete process.env.AI_PROVIDER_MODE;
+      delete process.env.MOCK_AI_FIXTURES;
+    });
+
+    it('should serve the chain from fixtures without API keys or provider clients', async () => {
+      // Arrange
+      const service = new ModelService({ gemini: '', claude: '' }, mockLogger);
+
+      // Act
+      const result = await service.generate({ model: 'gemini', prompt: 'Create a contact page' });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('Page created');
+      expect(result.model).toBe('claude');
+      expect(result.used_fallback).toBe(true);
+      expect(result.providers_attempted).toEqual(['gemini', 'claude']);
+      expect(result.total_tokens).toBe(50);
+      expect(result.cost_usd).toBe(0);
+      expect(GeminiProvider).not.toHaveBeenCalled();
+      expect(ClaudeProvider).not.toHaveBeenCalled();
     });
   });
 });